@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+
+import { circle, rectangle } from '../../test/geometry.js';
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { PathBoolean } from '../geometry/path-boolean.js';
+import { Path } from '../geometry/path.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { MassProperties } from './mass-properties.js';
+
+describe('MassProperties', () => {
+  it('should match the textbook rectangle', () => {
+    const props = MassProperties.ofShape(rectangle(10, 20, 14, 26));
+
+    expect(props.area).toBeCloseTo(24, 12);
+    expect(props.perimeter).toBeCloseTo(20, 12);
+    expect(props.centroid.isEqual(new Vec2(12, 23), 1e-12)).toBe(true);
+    expect(props.ixx).toBeCloseTo(4 * 6 ** 3 / 12, 10);
+    expect(props.iyy).toBeCloseTo(6 * 4 ** 3 / 12, 10);
+    expect(props.ixy).toBeCloseTo(0, 10);
+    expect(props.polar).toBeCloseTo(props.ixx + props.iyy, 12);
+  });
+
+  it('should match the textbook circle away from the origin', () => {
+    const props = MassProperties.ofShape(circle(new Vec2(100, -50), 3));
+
+    expect(props.area).toBeCloseTo(Math.PI * 9, 10);
+    expect(props.perimeter).toBeCloseTo(Math.PI * 6, 10);
+    expect(props.centroid.isEqual(new Vec2(100, -50), 1e-10)).toBe(true);
+    expect(props.ixx).toBeCloseTo(Math.PI * 81 / 4, 9);
+    expect(props.iyy).toBeCloseTo(Math.PI * 81 / 4, 9);
+    expect(props.polar).toBeCloseTo(Math.PI * 81 / 2, 9);
+  });
+
+  it('should handle a half disc exactly', () => {
+    const r = 2;
+    const halfDisc = new Path([
+      new LineSegment(new Vec2(-r, 0), new Vec2(r, 0)),
+      new ArcSegment(new Vec2(0, 0), r, 0, Math.PI)
+    ]);
+    const props = MassProperties.ofShape(halfDisc);
+
+    expect(props.centroid.y).toBeCloseTo(4 * r / (3 * Math.PI), 12);
+    expect(props.ixx).toBeCloseTo((Math.PI / 8 - 8 / (9 * Math.PI)) * r ** 4, 12);
+    expect(props.iyy).toBeCloseTo(Math.PI * r ** 4 / 8, 12);
+    expect(props.perimeter).toBeCloseTo(2 * r + Math.PI * r, 12);
+  });
+
+  it('should report the product of inertia of a rotated section', () => {
+    // A 4 x 2 rectangle turned 30 degrees about the origin
+    const angle = Math.PI / 6;
+    const corners = [new Vec2(-2, -1), new Vec2(2, -1), new Vec2(2, 1), new Vec2(-2, 1)].map(p => p.rotateBy(angle));
+    const props = MassProperties.ofShape(Path.fromPoints(corners, true));
+
+    const iu = 4 * 2 ** 3 / 12;
+    const iv = 2 * 4 ** 3 / 12;
+    expect(props.ixx).toBeCloseTo((iu + iv) / 2 + (iu - iv) / 2 * Math.cos(2 * angle), 10);
+    expect(props.ixy).toBeCloseTo((iv - iu) / 2 * Math.sin(2 * angle), 10);
+  });
+
+  it('should subtract holes whichever way the contours run', () => {
+    const plate = rectangle(0, 0, 10, 10);
+    const hole = circle(new Vec2(3, 5), 2);
+    const props = MassProperties.ofShape([plate.reverse(), hole]);
+
+    const area = 100 - Math.PI * 4;
+    expect(props.area).toBeCloseTo(area, 10);
+    expect(props.centroid.x).toBeCloseTo((100 * 5 - Math.PI * 4 * 3) / area, 10);
+    expect(props.perimeter).toBeCloseTo(40 + Math.PI * 4, 10);
+    expect(props.ixx).toBeCloseTo(10 ** 4 / 12 - Math.PI * 16 / 4, 9);
+  });
+
+  it('should agree with boolean results given as regions', () => {
+    const regions = PathBoolean.difference(rectangle(0, 0, 10, 10), circle(new Vec2(3, 5), 2));
+    const fromRegions = MassProperties.ofRegions(regions);
+    const fromShape = MassProperties.ofShape([rectangle(0, 0, 10, 10), circle(new Vec2(3, 5), 2)]);
+
+    expect(fromRegions.area).toBeCloseTo(fromShape.area, 9);
+    expect(fromRegions.centroid.isEqual(fromShape.centroid, 1e-9)).toBe(true);
+    expect(fromRegions.ixy).toBeCloseTo(fromShape.ixy, 9);
+  });
+
+  it('should reject open contours', () => {
+    const open = Path.fromPoints([new Vec2(0, 0), new Vec2(1, 0), new Vec2(1, 1)]);
+    expect(() => MassProperties.ofShape(open)).toThrow('closed');
+  });
+});
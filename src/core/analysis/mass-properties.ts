@@ -0,0 +1,209 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Region, Shape } from '../geometry/path-boolean.js';
+import { Path } from '../geometry/path.js';
+import { Segment } from '../geometry/segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+/**
+ * Section properties of closed line/arc profiles for Zotebook.
+ * Area integrals are turned into boundary integrals with Green's theorem and
+ * evaluated exactly per segment: lines with a Gauss-Legendre rule that is exact
+ * for their cubic integrands, arcs with closed-form trigonometric antiderivatives.
+ * Second moments are reported about axes through the centroid, parallel to x and y.
+ */
+
+export interface SectionProperties {
+  readonly area: number;
+  readonly perimeter: number; // Total length of every contour, holes included
+  readonly centroid: Vec2;
+  readonly ixx: number; // ∫ y² dA about the centroid
+  readonly iyy: number; // ∫ x² dA about the centroid
+  readonly ixy: number; // ∫ xy dA about the centroid
+  readonly polar: number; // ixx + iyy
+}
+
+// Boundary integrals of one piece of boundary relative to a reference point
+interface Moments {
+  area: number; // ∫ dA
+  qx: number;   // ∫ y dA
+  qy: number;   // ∫ x dA
+  ixx: number;  // ∫ y² dA
+  iyy: number;  // ∫ x² dA
+  ixy: number;  // ∫ xy dA
+}
+
+// 3-point Gauss-Legendre rule on [0, 1], exact for the cubic integrands of a line
+const NODES = [0.1127016653792583, 0.5, 0.8872983346207417];
+const WEIGHTS = [5 / 18, 8 / 18, 5 / 18];
+
+export namespace MassProperties {
+  /**
+   * Properties of a set of closed contours filled even-odd: a contour nested
+   * inside an odd number of others is a hole, whichever way it runs.
+   */
+  export function ofShape(shape: Shape): SectionProperties {
+    const contours = validate(shape instanceof Path ? [shape] : [...shape]);
+    return combine(contours.map(contour => {
+      const probe = contour.pointAt(0);
+      const depth = contours.filter(other => other !== contour && encloses(other, contour, probe)).length;
+      return { contour, sign: depth % 2 === 0 ? 1 : -1 };
+    }));
+  }
+
+  /**
+   * Properties of regions such as the results of `PathBoolean`, holes subtracted
+   */
+  export function ofRegions(regions: ReadonlyArray<Region>): SectionProperties {
+    validate(regions.flatMap(region => [region.outer, ...region.holes]));
+    return combine(regions.flatMap(region => [
+      { contour: region.outer, sign: 1 },
+      ...region.holes.map(hole => ({ contour: hole, sign: -1 }))
+    ]));
+  }
+
+  function validate(contours: ReadonlyArray<Path>): ReadonlyArray<Path> {
+    for (const contour of contours) {
+      if (!contour.isClosed) {
+        throw new Error('Mass properties need closed contours');
+      }
+      if (!contour.segments.every(segment => segment instanceof LineSegment || segment instanceof ArcSegment)) {
+        throw new Error('Mass properties support contours of lines and arcs only');
+      }
+    }
+    return contours;
+  }
+
+  // Whether `outer` encloses `inner`, judged at a point of `inner` not on `outer`
+  function encloses(outer: Path, inner: Path, probe: Vec2): boolean {
+    const onOuter = outer.segments.some(segment => segment.distanceToPoint(probe) < 1e-9);
+    return outer.containsPoint(onOuter ? inner.pointAt(0.5) : probe);
+  }
+
+  function combine(parts: ReadonlyArray<{ contour: Path; sign: number }>): SectionProperties {
+    if (parts.length === 0) {
+      throw new Error('Mass properties need at least one contour');
+    }
+
+    // Integrate about the middle of the profile to keep cancellation small
+    const boxes = parts.map(part => part.contour.boundingBox);
+    const reference = boxes
+      .reduce((sum, box) => sum.add(box.center), Vec2.ZERO)
+      .divide(boxes.length);
+
+    const total: Moments = { area: 0, qx: 0, qy: 0, ixx: 0, iyy: 0, ixy: 0 };
+    let perimeter = 0;
+    for (const { contour, sign } of parts) {
+      const moments = contourMoments(contour, reference);
+      // Count every contour counterclockwise, then add or take away
+      const factor = sign * Math.sign(moments.area);
+      total.area += factor * moments.area;
+      total.qx += factor * moments.qx;
+      total.qy += factor * moments.qy;
+      total.ixx += factor * moments.ixx;
+      total.iyy += factor * moments.iyy;
+      total.ixy += factor * moments.ixy;
+      perimeter += contour.length;
+    }
+
+    if (total.area <= 0) {
+      throw new Error('Profile encloses no area');
+    }
+
+    // Parallel axis theorem moves the moments to the centroid
+    const cx = total.qy / total.area;
+    const cy = total.qx / total.area;
+    const ixx = total.ixx - total.area * cy * cy;
+    const iyy = total.iyy - total.area * cx * cx;
+    return {
+      area: total.area,
+      perimeter,
+      centroid: reference.add(new Vec2(cx, cy)),
+      ixx,
+      iyy,
+      ixy: total.ixy - total.area * cx * cy,
+      polar: ixx + iyy
+    };
+  }
+
+  function contourMoments(contour: Path, reference: Vec2): Moments {
+    const sum: Moments = { area: 0, qx: 0, qy: 0, ixx: 0, iyy: 0, ixy: 0 };
+    for (const segment of contour.segments) {
+      const moments = segment instanceof ArcSegment ? arcMoments(segment, reference) : lineMoments(segment, reference);
+      sum.area += moments.area;
+      sum.qx += moments.qx;
+      sum.qy += moments.qy;
+      sum.ixx += moments.ixx;
+      sum.iyy += moments.iyy;
+      sum.ixy += moments.ixy;
+    }
+    return sum;
+  }
+
+  /**
+   * Green's theorem integrands: area ½(x dy − y dx), qx −½y² dx, qy ½x² dy,
+   * ixx −⅓y³ dx, iyy ⅓x³ dy, ixy ½x²y dy
+   */
+  function lineMoments(segment: Segment, reference: Vec2): Moments {
+    const start = segment.startPoint.subtract(reference);
+    const delta = segment.endPoint.subtract(segment.startPoint);
+    const dx = delta.x;
+    const dy = delta.y;
+
+    const moments: Moments = { area: 0, qx: 0, qy: 0, ixx: 0, iyy: 0, ixy: 0 };
+    NODES.forEach((t, i) => {
+      const w = WEIGHTS[i] as number;
+      const x = start.x + dx * t;
+      const y = start.y + dy * t;
+      moments.area += w * (x * dy - y * dx) / 2;
+      moments.qx -= w * y * y * dx / 2;
+      moments.qy += w * x * x * dy / 2;
+      moments.ixx -= w * y * y * y * dx / 3;
+      moments.iyy += w * x * x * x * dy / 3;
+      moments.ixy += w * x * x * y * dy / 2;
+    });
+    return moments;
+  }
+
+  /**
+   * The same integrands along x = a + r cos θ, y = b + r sin θ, written as sums
+   * of ∫ sinᵐθ cosⁿθ dθ with closed-form antiderivatives
+   */
+  function arcMoments(arc: ArcSegment, reference: Vec2): Moments {
+    const a = arc.center.x - reference.x;
+    const b = arc.center.y - reference.y;
+    const r = arc.radius;
+    const to = antiderivatives(arc.startAngle + arc.sweepAngle);
+    const from = antiderivatives(arc.startAngle);
+    const [ic, is, icc, iss, isc, iccc, isss, iscc, icccc, issss, isccc] = to.map((value, i) => value - (from[i] as number)) as
+      [number, number, number, number, number, number, number, number, number, number, number];
+
+    return {
+      area: (a * r * ic + b * r * is + r * r * arc.sweepAngle) / 2,
+      qx: r * (b * b * is + 2 * b * r * iss + r * r * isss) / 2,
+      qy: r * (a * a * ic + 2 * a * r * icc + r * r * iccc) / 2,
+      ixx: r * (b ** 3 * is + 3 * b * b * r * iss + 3 * b * r * r * isss + r ** 3 * issss) / 3,
+      iyy: r * (a ** 3 * ic + 3 * a * a * r * icc + 3 * a * r * r * iccc + r ** 3 * icccc) / 3,
+      ixy: r * (a * a * b * ic + a * a * r * isc + 2 * a * b * r * icc + 2 * a * r * r * iscc + b * r * r * iccc + r ** 3 * isccc) / 2
+    };
+  }
+
+  // Antiderivatives of cos, sin, cos², sin², sin cos, cos³, sin³, sin cos², cos⁴, sin⁴, sin cos³ at `t`
+  function antiderivatives(t: number): number[] {
+    const s = Math.sin(t);
+    const c = Math.cos(t);
+    return [
+      s,
+      -c,
+      t / 2 + s * c / 2,
+      t / 2 - s * c / 2,
+      s * s / 2,
+      s - s ** 3 / 3,
+      -c + c ** 3 / 3,
+      -(c ** 3) / 3,
+      3 * t / 8 + Math.sin(2 * t) / 4 + Math.sin(4 * t) / 32,
+      3 * t / 8 - Math.sin(2 * t) / 4 + Math.sin(4 * t) / 32,
+      -(c ** 4) / 4
+    ];
+  }
+}
@@ -0,0 +1,178 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+
+import { ConstraintResidual, ConstraintSolver, SolveResult, SolverOptions } from './constraint-solver.js';
+import { Constraint, ConstraintType, ConstraintUtils, PointReference } from './constraint.js';
+
+/**
+ * High-level constraint management for a sketch.
+ * Owns the current segment instances and the constraints between them, validates
+ * constraint references up front and applies solver results back onto the sketch.
+ */
+export class ConstraintModel {
+  private segments = new Map<string, Segment>();
+  private constraints = new Map<string, Constraint>();
+  private solver: ConstraintSolver;
+  private lastResult: SolveResult | null = null;
+
+  constructor(options: Partial<SolverOptions> = {}) {
+    this.solver = new ConstraintSolver(options);
+  }
+
+  // Element management
+
+  addSegment(segment: Segment): void {
+    this.segments.set(segment.id, segment);
+  }
+
+  /**
+   * Replace a segment with a new instance sharing the same id (e.g. after the user drags it)
+   */
+  updateSegment(segment: Segment): void {
+    if (!this.segments.has(segment.id)) {
+      throw new Error(`Cannot update unknown segment ${segment.id}`);
+    }
+    this.segments.set(segment.id, segment);
+  }
+
+  /**
+   * Remove a segment together with every constraint that references it.
+   * Returns the constraints that were removed.
+   */
+  removeSegment(segmentId: string): Constraint[] {
+    const dependent = this.getConstraintsForSegment(segmentId);
+    for (const constraint of dependent) {
+      this.constraints.delete(constraint.id);
+    }
+    this.segments.delete(segmentId);
+    return dependent;
+  }
+
+  getSegment(segmentId: string): Segment | undefined {
+    return this.segments.get(segmentId);
+  }
+
+  get allSegments(): ReadonlyMap<string, Segment> {
+    return this.segments;
+  }
+
+  // Constraint management
+
+  addConstraint(constraint: Constraint): void {
+    this.validateConstraint(constraint);
+    this.constraints.set(constraint.id, constraint);
+  }
+
+  removeConstraint(constraintId: string): boolean {
+    return this.constraints.delete(constraintId);
+  }
+
+  getConstraint(constraintId: string): Constraint | undefined {
+    return this.constraints.get(constraintId);
+  }
+
+  get allConstraints(): ReadonlyArray<Constraint> {
+    return Array.from(this.constraints.values());
+  }
+
+  getConstraintsForSegment(segmentId: string): Constraint[] {
+    return this.allConstraints.filter(c =>
+      ConstraintUtils.referencedSegmentIds(c).includes(segmentId)
+    );
+  }
+
+  // Evaluation and solving
+
+  isConstraintSatisfied(constraintId: string): boolean {
+    const constraint = this.constraints.get(constraintId);
+    if (!constraint) {
+      throw new Error(`Unknown constraint ${constraintId}`);
+    }
+    const [residual] = this.solver.evaluate(this.segments, [constraint]);
+    return residual?.satisfied ?? false;
+  }
+
+  evaluate(): ConstraintResidual[] {
+    return this.solver.evaluate(this.segments, this.allConstraints);
+  }
+
+  /**
+   * Solve all constraints and replace the model's segments with the solved instances
+   */
+  solve(): SolveResult {
+    const result = this.solver.solve(this.segments, this.allConstraints);
+    this.segments = new Map(result.segments);
+    this.lastResult = result;
+    return result;
+  }
+
+  get lastSolveResult(): SolveResult | null {
+    return this.lastResult;
+  }
+
+  clear(): void {
+    this.segments.clear();
+    this.constraints.clear();
+    this.lastResult = null;
+  }
+
+  /**
+   * Check that a constraint references existing segments of a supported type
+   */
+  private validateConstraint(constraint: Constraint): void {
+    for (const segmentId of ConstraintUtils.referencedSegmentIds(constraint)) {
+      const segment = this.segments.get(segmentId);
+      if (!segment) {
+        throw new Error(`Constraint ${constraint.id} references unknown segment ${segmentId}`);
+      }
+      if (!(segment instanceof LineSegment) && !(segment instanceof ArcSegment)) {
+        throw new Error(`Constraint ${constraint.id} references unsupported ${segment.type} segment ${segmentId}`);
+      }
+    }
+
+    const isLine = (id: string): boolean => this.segments.get(id) instanceof LineSegment;
+    const isArc = (id: string): boolean => this.segments.get(id) instanceof ArcSegment;
+    const checkPoint = (ref: PointReference): void => {
+      if (ref.point === 'center' && !isArc(ref.segmentId)) {
+        throw new Error(`Constraint ${constraint.id} references the center of non-arc segment ${ref.segmentId}`);
+      }
+    };
+
+    switch (constraint.type) {
+      case ConstraintType.COINCIDENT:
+        checkPoint(constraint.pointA);
+        checkPoint(constraint.pointB);
+        break;
+      case ConstraintType.PARALLEL:
+      case ConstraintType.PERPENDICULAR:
+        if (!isLine(constraint.segment1Id) || !isLine(constraint.segment2Id)) {
+          throw new Error(`${constraint.type} constraint ${constraint.id} requires two line segments`);
+        }
+        break;
+      case ConstraintType.HORIZONTAL:
+      case ConstraintType.VERTICAL:
+        if (!isLine(constraint.segmentId)) {
+          throw new Error(`${constraint.type} constraint ${constraint.id} requires a line segment`);
+        }
+        break;
+      case ConstraintType.TANGENT:
+        if (isLine(constraint.segment1Id) && isLine(constraint.segment2Id)) {
+          throw new Error(`tangent constraint ${constraint.id} requires at least one arc segment`);
+        }
+        break;
+      case ConstraintType.CONCENTRIC:
+        if (!isArc(constraint.segment1Id) || !isArc(constraint.segment2Id)) {
+          throw new Error(`concentric constraint ${constraint.id} requires two arc segments`);
+        }
+        break;
+      case ConstraintType.FIXED:
+        if (constraint.point !== undefined) {
+          checkPoint({ segmentId: constraint.segmentId, point: constraint.point });
+        }
+        break;
+      case ConstraintType.EQUAL_LENGTH:
+        break;
+    }
+  }
+}
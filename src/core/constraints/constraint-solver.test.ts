@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ConstraintModel } from './constraint-model.js';
+import { ConstraintSolver, ConstraintStatus } from './constraint-solver.js';
+import { ConstraintType, ConstraintUtils } from './constraint.js';
+
+function toMap(...segments: Segment[]): Map<string, Segment> {
+  return new Map(segments.map(s => [s.id, s]));
+}
+
+function line(id: string, x1: number, y1: number, x2: number, y2: number): LineSegment {
+  return new LineSegment(new Vec2(x1, y1), new Vec2(x2, y2), id);
+}
+
+describe('ConstraintSolver', () => {
+  const solver = new ConstraintSolver();
+
+  describe('Line constraints', () => {
+    it('should make a nearly horizontal line horizontal', () => {
+      const segments = toMap(line('a', 0, 0, 100, 5));
+      const result = solver.solve(segments, [ConstraintUtils.horizontal('a')]);
+      const solved = result.segments.get('a') as LineSegment;
+
+      expect(result.converged).toBe(true);
+      expect(solved.isHorizontal(1e-6)).toBe(true);
+      expect(solved.id).toBe('a');
+    });
+
+    it('should make a nearly vertical line vertical', () => {
+      const segments = toMap(line('a', 0, 0, 3, 100));
+      const result = solver.solve(segments, [ConstraintUtils.vertical('a')]);
+
+      expect((result.segments.get('a') as LineSegment).isVertical(1e-6)).toBe(true);
+    });
+
+    it('should make two lines parallel', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0), line('b', 0, 50, 100, 58));
+      const result = solver.solve(segments, [ConstraintUtils.parallel('a', 'b')]);
+      const a = result.segments.get('a') as LineSegment;
+      const b = result.segments.get('b') as LineSegment;
+
+      expect(result.converged).toBe(true);
+      expect(a.isParallelTo(b, 1e-5)).toBe(true);
+    });
+
+    it('should make two lines perpendicular', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0), line('b', 0, 0, 10, 100));
+      const result = solver.solve(segments, [ConstraintUtils.perpendicular('a', 'b')]);
+      const a = result.segments.get('a') as LineSegment;
+      const b = result.segments.get('b') as LineSegment;
+
+      expect(a.isPerpendicularTo(b, 1e-5)).toBe(true);
+    });
+
+    it('should make two segments equal length', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0), line('b', 0, 50, 80, 50));
+      const result = solver.solve(segments, [ConstraintUtils.equalLength('a', 'b')]);
+
+      expect(result.segments.get('a')?.length).toBeCloseTo(result.segments.get('b')?.length ?? 0, 5);
+    });
+
+    it('should join endpoints with a coincident constraint', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0), line('b', 102, 3, 100, 100));
+      const constraint = ConstraintUtils.coincident(
+        { segmentId: 'a', point: 'end' },
+        { segmentId: 'b', point: 'start' }
+      );
+      const result = solver.solve(segments, [constraint]);
+
+      expect(result.segments.get('a')?.endPoint.isEqual(result.segments.get('b')?.startPoint ?? Vec2.ZERO, 1e-6)).toBe(true);
+    });
+
+    it('should keep fixed segments in place', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0), line('b', 5, 3, 100, 100));
+      const result = solver.solve(segments, [
+        ConstraintUtils.fixed('a'),
+        ConstraintUtils.coincident({ segmentId: 'a', point: 'start' }, { segmentId: 'b', point: 'start' })
+      ]);
+      const a = result.segments.get('a') as LineSegment;
+
+      expect(a.startPoint.isEqual(new Vec2(0, 0), 1e-6)).toBe(true);
+      expect(a.endPoint.isEqual(new Vec2(100, 0), 1e-6)).toBe(true);
+      expect(result.segments.get('b')?.startPoint.isEqual(new Vec2(0, 0), 1e-6)).toBe(true);
+    });
+
+    it('should move a fixed point to an explicit position', () => {
+      const segments = toMap(line('a', 0, 0, 100, 0));
+      const result = solver.solve(segments, [ConstraintUtils.fixed('a', 'end', new Vec2(90, 10))]);
+
+      expect(result.segments.get('a')?.endPoint.isEqual(new Vec2(90, 10), 1e-6)).toBe(true);
+    });
+
+    it('should leave unconstrained segments untouched', () => {
+      const untouched = line('c', 1, 2, 3, 4);
+      const segments = toMap(line('a', 0, 0, 100, 5), untouched);
+      const result = solver.solve(segments, [ConstraintUtils.horizontal('a')]);
+
+      expect(result.segments.get('c')).toBe(untouched);
+    });
+  });
+
+  describe('Arc constraints', () => {
+    it('should make arcs concentric', () => {
+      const a1 = new ArcSegment(new Vec2(0, 0), 50, 0, Math.PI, 'a1');
+      const a2 = new ArcSegment(new Vec2(4, -3), 30, 0, Math.PI, 'a2');
+      const result = solver.solve(toMap(a1, a2), [ConstraintUtils.concentric('a1', 'a2')]);
+      const s1 = result.segments.get('a1') as ArcSegment;
+      const s2 = result.segments.get('a2') as ArcSegment;
+
+      expect(s1.center.isEqual(s2.center, 1e-6)).toBe(true);
+      expect(s1.radius).toBeCloseTo(50, 3);
+      expect(s2.radius).toBeCloseTo(30, 3);
+    });
+
+    it('should make a line tangent to an arc', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 50, 0, Math.PI, 'arc');
+      const tangentLine = line('l', -100, 55, 100, 55);
+      const result = solver.solve(toMap(arc, tangentLine), [ConstraintUtils.tangent('l', 'arc')]);
+      const solvedArc = result.segments.get('arc') as ArcSegment;
+      const solvedLine = result.segments.get('l') as LineSegment;
+
+      expect(Math.abs(solvedLine.signedDistanceToPoint(solvedArc.center))).toBeCloseTo(solvedArc.radius, 5);
+    });
+
+    it('should make two arcs externally tangent', () => {
+      const a1 = new ArcSegment(new Vec2(0, 0), 20, 0, Math.PI * 2, 'a1');
+      const a2 = new ArcSegment(new Vec2(45, 0), 20, 0, Math.PI * 2, 'a2');
+      const result = solver.solve(toMap(a1, a2), [ConstraintUtils.tangent('a1', 'a2')]);
+      const s1 = result.segments.get('a1') as ArcSegment;
+      const s2 = result.segments.get('a2') as ArcSegment;
+
+      expect(s1.center.distanceTo(s2.center)).toBeCloseTo(s1.radius + s2.radius, 5);
+    });
+
+    it('should make an arc endpoint coincide with a line endpoint', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 50, 0, Math.PI / 2, 'arc');
+      const l = line('l', 52, 1, 100, 0);
+      const result = solver.solve(toMap(arc, l), [
+        ConstraintUtils.coincident({ segmentId: 'arc', point: 'start' }, { segmentId: 'l', point: 'start' })
+      ]);
+
+      expect(result.segments.get('arc')?.startPoint.isEqual(result.segments.get('l')?.startPoint ?? Vec2.ZERO, 1e-6)).toBe(true);
+    });
+  });
+
+  describe('Residuals', () => {
+    it('should report per-constraint residuals', () => {
+      const segments = toMap(line('a', 0, 0, 100, 5), line('b', 0, 0, 0, 100));
+      const horizontal = ConstraintUtils.horizontal('a', 'h');
+      const vertical = ConstraintUtils.vertical('b', 'v');
+
+      const before = solver.evaluate(segments, [horizontal, vertical]);
+      expect(before.find(r => r.constraintId === 'h')?.satisfied).toBe(false);
+      expect(before.find(r => r.constraintId === 'h')?.residual).toBeCloseTo(5);
+      expect(before.find(r => r.constraintId === 'v')?.satisfied).toBe(true);
+
+      const result = solver.solve(segments, [horizontal, vertical]);
+      expect(result.residuals.every(r => r.satisfied)).toBe(true);
+      expect(result.residuals.map(r => r.type)).toEqual([ConstraintType.HORIZONTAL, ConstraintType.VERTICAL]);
+    });
+  });
+
+  describe('Constraint status', () => {
+    it('should report under-constrained sketches with remaining degrees of freedom', () => {
+      const result = solver.solve(toMap(line('a', 0, 0, 100, 5)), [ConstraintUtils.horizontal('a')]);
+
+      expect(result.status).toBe(ConstraintStatus.UNDER_CONSTRAINED);
+      expect(result.degreesOfFreedom).toBe(3);
+    });
+
+    it('should report well-constrained sketches', () => {
+      const result = solver.solve(toMap(line('a', 0, 0, 100, 5)), [ConstraintUtils.fixed('a')]);
+
+      expect(result.status).toBe(ConstraintStatus.WELL_CONSTRAINED);
+      expect(result.degreesOfFreedom).toBe(0);
+    });
+
+    it('should report conflicting constraints as over-constrained', () => {
+      const result = solver.solve(toMap(line('a', 0, 0, 100, 5)), [
+        ConstraintUtils.horizontal('a'),
+        ConstraintUtils.vertical('a'),
+        ConstraintUtils.fixed('a', 'start'),
+        ConstraintUtils.fixed('a', 'end')
+      ]);
+
+      expect(result.converged).toBe(false);
+      expect(result.status).toBe(ConstraintStatus.OVER_CONSTRAINED);
+    });
+
+    it('should not report redundant but consistent constraints as over-constrained', () => {
+      const segments = toMap(line('a', 0, 0, 100, 3), line('b', 0, 50, 100, 56));
+      const result = solver.solve(segments, [
+        ConstraintUtils.parallel('a', 'b'),
+        ConstraintUtils.horizontal('a'),
+        ConstraintUtils.horizontal('b')
+      ]);
+
+      expect(result.converged).toBe(true);
+      expect(result.redundantEquations).toBe(1);
+      expect(result.status).toBe(ConstraintStatus.UNDER_CONSTRAINED);
+      expect(result.degreesOfFreedom).toBe(6);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should throw for unknown segments', () => {
+      expect(() => solver.solve(toMap(line('a', 0, 0, 1, 1)), [ConstraintUtils.horizontal('missing')]))
+        .toThrow('unknown segment missing');
+    });
+
+    it('should throw for constraints applied to the wrong segment type', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 10, 0, Math.PI, 'arc');
+      expect(() => solver.solve(toMap(arc), [ConstraintUtils.horizontal('arc')]))
+        .toThrow('requires a line segment');
+    });
+  });
+});
+
+describe('ConstraintModel', () => {
+  it('should solve and update its segments', () => {
+    const model = new ConstraintModel();
+    model.addSegment(line('a', 0, 0, 100, 0));
+    model.addSegment(line('b', 0, 0, 10, 100));
+    model.addConstraint(ConstraintUtils.perpendicular('a', 'b', 'perp'));
+
+    expect(model.isConstraintSatisfied('perp')).toBe(false);
+
+    const result = model.solve();
+
+    expect(result.converged).toBe(true);
+    expect(model.isConstraintSatisfied('perp')).toBe(true);
+    expect(model.lastSolveResult).toBe(result);
+  });
+
+  it('should reject constraints referencing unknown or unsuitable segments', () => {
+    const model = new ConstraintModel();
+    model.addSegment(line('a', 0, 0, 100, 0));
+    model.addSegment(new ArcSegment(new Vec2(0, 0), 10, 0, Math.PI, 'arc'));
+
+    expect(() => model.addConstraint(ConstraintUtils.parallel('a', 'missing'))).toThrow('unknown segment');
+    expect(() => model.addConstraint(ConstraintUtils.parallel('a', 'arc'))).toThrow('two line segments');
+    expect(() => model.addConstraint(ConstraintUtils.coincident(
+      { segmentId: 'a', point: 'center' },
+      { segmentId: 'arc', point: 'center' }
+    ))).toThrow('center of non-arc');
+  });
+
+  it('should remove dependent constraints with their segment', () => {
+    const model = new ConstraintModel();
+    model.addSegment(line('a', 0, 0, 100, 0));
+    model.addSegment(line('b', 0, 10, 100, 10));
+    model.addConstraint(ConstraintUtils.parallel('a', 'b'));
+    model.addConstraint(ConstraintUtils.horizontal('b'));
+
+    const removed = model.removeSegment('a');
+
+    expect(removed).toHaveLength(1);
+    expect(model.allConstraints).toHaveLength(1);
+    expect(model.getSegment('a')).toBeUndefined();
+  });
+});
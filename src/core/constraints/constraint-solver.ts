@@ -0,0 +1,652 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { Constraint, ConstraintPoint, ConstraintType, ConstraintUtils, PointReference } from './constraint.js';
+
+/**
+ * Iterative numeric constraint solver for Zotebook sketches.
+ * Segments are flattened into a parameter vector (line endpoints, arc center/radius/angles)
+ * and constraints into residual equations, which are driven to zero with a damped
+ * Gauss-Newton (Levenberg-Marquardt) iteration. Damping keeps the update close to the
+ * minimum-norm step, so under-constrained sketches move as little as possible.
+ */
+
+export enum ConstraintStatus {
+  UNDER_CONSTRAINED = 'under_constrained',
+  WELL_CONSTRAINED = 'well_constrained',
+  OVER_CONSTRAINED = 'over_constrained'
+}
+
+export interface ConstraintResidual {
+  readonly constraintId: string;
+  readonly type: ConstraintType;
+  readonly residual: number;      // Euclidean norm of the constraint's residual equations
+  readonly satisfied: boolean;
+}
+
+export interface SolveResult {
+  readonly segments: ReadonlyMap<string, Segment>;
+  readonly residuals: ReadonlyArray<ConstraintResidual>;
+  readonly converged: boolean;
+  readonly iterations: number;
+  readonly status: ConstraintStatus;
+  readonly degreesOfFreedom: number;  // Remaining free parameters after constraints
+  readonly redundantEquations: number; // Equations that add no information (or conflict)
+}
+
+export interface SolverOptions {
+  readonly maxIterations: number;
+  readonly tolerance: number;             // Maximum absolute residual considered satisfied
+  readonly initialDamping: number;        // Starting Levenberg-Marquardt damping factor
+  readonly finiteDifferenceStep: number;  // Relative step for numeric Jacobian
+}
+
+const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  maxIterations: 100,
+  tolerance: 1e-6,
+  initialDamping: 1e-3,
+  finiteDifferenceStep: 1e-6
+};
+
+// Parameter block layout for each supported segment kind
+const LINE_PARAMETER_COUNT = 4; // x1, y1, x2, y2
+const ARC_PARAMETER_COUNT = 5;  // cx, cy, radius, startAngle, sweepAngle
+const MIN_ARC_RADIUS = 1e-9;
+
+interface ParameterBlock {
+  readonly segment: Segment;
+  readonly kind: 'line' | 'arc';
+  readonly offset: number;
+}
+
+interface ConstraintEquations {
+  readonly constraint: Constraint;
+  readonly evaluate: (x: Float64Array) => number[];
+}
+
+/**
+ * Damped least-squares solver operating on immutable segments.
+ */
+export class ConstraintSolver {
+  private options: SolverOptions;
+
+  constructor(options: Partial<SolverOptions> = {}) {
+    this.options = { ...DEFAULT_SOLVER_OPTIONS, ...options };
+  }
+
+  /**
+   * Solve constraints and return updated segments plus per-constraint residuals.
+   * Segments not referenced by any constraint are returned unchanged.
+   */
+  solve(segments: ReadonlyMap<string, Segment>, constraints: ReadonlyArray<Constraint>): SolveResult {
+    const blocks = this.buildParameterBlocks(segments, constraints);
+    const x = this.packParameters(blocks);
+    const initial = Float64Array.from(x);
+    const equations = constraints.map(c => this.buildEquations(c, blocks, initial));
+
+    let residuals = this.evaluateAll(equations, x);
+    let cost = sumOfSquares(residuals);
+    let damping = this.options.initialDamping;
+    let iterations = 0;
+
+    while (iterations < this.options.maxIterations && maxAbs(residuals) > this.options.tolerance) {
+      iterations++;
+
+      const jacobian = this.computeJacobian(equations, x, residuals.length);
+      const normal = multiplyTransposeSelf(jacobian, x.length);
+      const gradient = multiplyTransposeVector(jacobian, residuals, x.length);
+
+      let improved = false;
+      while (damping < 1e12) {
+        const system = normal.map((row, i) => {
+          const dampedRow = row.slice();
+          dampedRow[i] = (dampedRow[i] ?? 0) + damping;
+          return dampedRow;
+        });
+        const step = solveLinearSystem(system, gradient.map(g => -g));
+
+        if (step) {
+          const candidate = Float64Array.from(x, (value, i) => value + (step[i] ?? 0));
+          const candidateResiduals = this.evaluateAll(equations, candidate);
+          const candidateCost = sumOfSquares(candidateResiduals);
+
+          if (candidateCost < cost) {
+            x.set(candidate);
+            residuals = candidateResiduals;
+            cost = candidateCost;
+            damping = Math.max(damping / 3, 1e-12);
+            improved = true;
+            break;
+          }
+        }
+
+        damping *= 4;
+      }
+
+      if (!improved) {
+        break; // Stuck in a local minimum - constraints are likely conflicting
+      }
+    }
+
+    const converged = maxAbs(residuals) <= this.options.tolerance;
+    const jacobian = this.computeJacobian(equations, x, residuals.length);
+    const rank = matrixRank(jacobian, x.length);
+    const degreesOfFreedom = x.length - rank;
+    const redundantEquations = residuals.length - rank;
+
+    // Redundant equations that are still satisfied (e.g. parallel lines that are
+    // both horizontal) do not over-constrain the sketch
+    let status: ConstraintStatus;
+    if (!converged && redundantEquations > 0) {
+      status = ConstraintStatus.OVER_CONSTRAINED;
+    } else if (degreesOfFreedom > 0) {
+      status = ConstraintStatus.UNDER_CONSTRAINED;
+    } else {
+      status = ConstraintStatus.WELL_CONSTRAINED;
+    }
+
+    return {
+      segments: this.unpackParameters(segments, blocks, x),
+      residuals: this.buildResiduals(equations, x),
+      converged,
+      iterations,
+      status,
+      degreesOfFreedom,
+      redundantEquations
+    };
+  }
+
+  /**
+   * Evaluate residuals for the current geometry without modifying it
+   */
+  evaluate(segments: ReadonlyMap<string, Segment>, constraints: ReadonlyArray<Constraint>): ConstraintResidual[] {
+    const blocks = this.buildParameterBlocks(segments, constraints);
+    const x = this.packParameters(blocks);
+    const equations = constraints.map(c => this.buildEquations(c, blocks, x));
+    return this.buildResiduals(equations, x);
+  }
+
+  /**
+   * Update solver options
+   */
+  updateOptions(newOptions: Partial<SolverOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  /**
+   * Assign a parameter block to every segment referenced by a constraint
+   */
+  private buildParameterBlocks(
+    segments: ReadonlyMap<string, Segment>,
+    constraints: ReadonlyArray<Constraint>
+  ): Map<string, ParameterBlock> {
+    const blocks = new Map<string, ParameterBlock>();
+    let offset = 0;
+
+    for (const constraint of constraints) {
+      for (const segmentId of ConstraintUtils.referencedSegmentIds(constraint)) {
+        if (blocks.has(segmentId)) continue;
+
+        const segment = segments.get(segmentId);
+        if (!segment) {
+          throw new Error(`Constraint ${constraint.id} references unknown segment ${segmentId}`);
+        }
+
+        if (segment instanceof LineSegment) {
+          blocks.set(segmentId, { segment, kind: 'line', offset });
+          offset += LINE_PARAMETER_COUNT;
+        } else if (segment instanceof ArcSegment) {
+          blocks.set(segmentId, { segment, kind: 'arc', offset });
+          offset += ARC_PARAMETER_COUNT;
+        } else {
+          throw new Error(`Constraint solving is not supported for ${segment.type} segments (${segmentId})`);
+        }
+      }
+    }
+
+    return blocks;
+  }
+
+  private packParameters(blocks: ReadonlyMap<string, ParameterBlock>): Float64Array {
+    let size = 0;
+    for (const block of blocks.values()) {
+      size += block.kind === 'line' ? LINE_PARAMETER_COUNT : ARC_PARAMETER_COUNT;
+    }
+
+    const x = new Float64Array(size);
+    for (const block of blocks.values()) {
+      if (block.segment instanceof LineSegment) {
+        x.set([block.segment.startPoint.x, block.segment.startPoint.y,
+               block.segment.endPoint.x, block.segment.endPoint.y], block.offset);
+      } else if (block.segment instanceof ArcSegment) {
+        x.set([block.segment.center.x, block.segment.center.y, block.segment.radius,
+               block.segment.startAngle, block.segment.sweepAngle], block.offset);
+      }
+    }
+    return x;
+  }
+
+  private unpackParameters(
+    segments: ReadonlyMap<string, Segment>,
+    blocks: ReadonlyMap<string, ParameterBlock>,
+    x: Float64Array
+  ): Map<string, Segment> {
+    const result = new Map<string, Segment>(segments);
+
+    for (const [id, block] of blocks) {
+      const o = block.offset;
+      if (block.kind === 'line') {
+        result.set(id, new LineSegment(
+          new Vec2(param(x, o), param(x, o + 1)),
+          new Vec2(param(x, o + 2), param(x, o + 3)),
+          id
+        ));
+      } else {
+        result.set(id, new ArcSegment(
+          new Vec2(param(x, o), param(x, o + 1)),
+          Math.max(MIN_ARC_RADIUS, Math.abs(param(x, o + 2))),
+          param(x, o + 3),
+          param(x, o + 4),
+          id
+        ));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Translate a constraint into residual equations over the parameter vector
+   */
+  private buildEquations(
+    constraint: Constraint,
+    blocks: ReadonlyMap<string, ParameterBlock>,
+    initial: Float64Array
+  ): ConstraintEquations {
+    const block = (segmentId: string): ParameterBlock => {
+      const found = blocks.get(segmentId);
+      if (!found) {
+        throw new Error(`Constraint ${constraint.id} references unknown segment ${segmentId}`);
+      }
+      return found;
+    };
+
+    const requireLine = (segmentId: string): ParameterBlock => {
+      const found = block(segmentId);
+      if (found.kind !== 'line') {
+        throw new Error(`${constraint.type} constraint ${constraint.id} requires a line segment, got ${found.segment.type}`);
+      }
+      return found;
+    };
+
+    const requireArc = (segmentId: string): ParameterBlock => {
+      const found = block(segmentId);
+      if (found.kind !== 'arc') {
+        throw new Error(`${constraint.type} constraint ${constraint.id} requires an arc segment, got ${found.segment.type}`);
+      }
+      return found;
+    };
+
+    const pointOf = (ref: PointReference): ((x: Float64Array) => Vec2) => {
+      const b = block(ref.segmentId);
+      if (ref.point === 'center' && b.kind !== 'arc') {
+        throw new Error(`Constraint ${constraint.id} references the center of non-arc segment ${ref.segmentId}`);
+      }
+      return (x: Float64Array) => blockPoint(x, b, ref.point);
+    };
+
+    switch (constraint.type) {
+      case ConstraintType.COINCIDENT: {
+        const a = pointOf(constraint.pointA);
+        const b = pointOf(constraint.pointB);
+        return {
+          constraint,
+          evaluate: (x): number[] => {
+            const delta = a(x).subtract(b(x));
+            return [delta.x, delta.y];
+          }
+        };
+      }
+
+      case ConstraintType.PARALLEL:
+      case ConstraintType.PERPENDICULAR: {
+        const l1 = requireLine(constraint.segment1Id);
+        const l2 = requireLine(constraint.segment2Id);
+        const parallel = constraint.type === ConstraintType.PARALLEL;
+        return {
+          constraint,
+          evaluate: (x): number[] => {
+            const d1 = lineVector(x, l1);
+            const d2 = lineVector(x, l2);
+            const scale = d1.length * d2.length;
+            if (scale === 0) return [0];
+            // Normalized so the residual is the sine (parallel) or cosine (perpendicular) of the angle
+            return [(parallel ? d1.cross(d2) : d1.dot(d2)) / scale];
+          }
+        };
+      }
+
+      case ConstraintType.EQUAL_LENGTH: {
+        const b1 = block(constraint.segment1Id);
+        const b2 = block(constraint.segment2Id);
+        return {
+          constraint,
+          evaluate: x => [blockLength(x, b1) - blockLength(x, b2)]
+        };
+      }
+
+      case ConstraintType.HORIZONTAL: {
+        const line = requireLine(constraint.segmentId);
+        return { constraint, evaluate: x => [lineVector(x, line).y] };
+      }
+
+      case ConstraintType.VERTICAL: {
+        const line = requireLine(constraint.segmentId);
+        return { constraint, evaluate: x => [lineVector(x, line).x] };
+      }
+
+      case ConstraintType.TANGENT:
+        return this.buildTangentEquations(constraint, block(constraint.segment1Id), block(constraint.segment2Id), initial);
+
+      case ConstraintType.CONCENTRIC: {
+        const a1 = requireArc(constraint.segment1Id);
+        const a2 = requireArc(constraint.segment2Id);
+        return {
+          constraint,
+          evaluate: (x): number[] => {
+            const delta = blockPoint(x, a1, 'center').subtract(blockPoint(x, a2, 'center'));
+            return [delta.x, delta.y];
+          }
+        };
+      }
+
+      case ConstraintType.FIXED: {
+        const b = block(constraint.segmentId);
+        const point = constraint.point;
+
+        if (point === undefined) {
+          const size = b.kind === 'line' ? LINE_PARAMETER_COUNT : ARC_PARAMETER_COUNT;
+          const target = initial.slice(b.offset, b.offset + size);
+          return {
+            constraint,
+            evaluate: x => Array.from(target, (value, i) => param(x, b.offset + i) - value)
+          };
+        }
+
+        const read = pointOf({ segmentId: constraint.segmentId, point });
+        const target = constraint.position ?? read(initial);
+        return {
+          constraint,
+          evaluate: (x): number[] => {
+            const delta = read(x).subtract(target);
+            return [delta.x, delta.y];
+          }
+        };
+      }
+    }
+  }
+
+  /**
+   * Tangency between a line and an arc, or between two arcs.
+   * The side (line) or internal/external contact (arcs) is chosen from the initial geometry
+   * so the solver does not flip the configuration the user drew.
+   */
+  private buildTangentEquations(
+    constraint: Constraint,
+    b1: ParameterBlock,
+    b2: ParameterBlock,
+    initial: Float64Array
+  ): ConstraintEquations {
+    if (b1.kind === 'line' && b2.kind === 'line') {
+      throw new Error(`tangent constraint ${constraint.id} requires at least one arc segment`);
+    }
+
+    if (b1.kind === 'arc' && b2.kind === 'arc') {
+      const centerDistance = (x: Float64Array): number =>
+        blockPoint(x, b1, 'center').distanceTo(blockPoint(x, b2, 'center'));
+      const r1 = (x: Float64Array): number => Math.abs(param(x, b1.offset + 2));
+      const r2 = (x: Float64Array): number => Math.abs(param(x, b2.offset + 2));
+
+      const d0 = centerDistance(initial);
+      const external = Math.abs(d0 - (r1(initial) + r2(initial))) <= Math.abs(d0 - Math.abs(r1(initial) - r2(initial)));
+
+      return {
+        constraint,
+        evaluate: x => [external
+          ? centerDistance(x) - (r1(x) + r2(x))
+          : centerDistance(x) - Math.abs(r1(x) - r2(x))]
+      };
+    }
+
+    const line = b1.kind === 'line' ? b1 : b2;
+    const arc = b1.kind === 'arc' ? b1 : b2;
+
+    const signedDistance = (x: Float64Array): number => {
+      const start = blockPoint(x, line, 'start');
+      const direction = lineVector(x, line);
+      const length = direction.length;
+      if (length === 0) return blockPoint(x, arc, 'center').distanceTo(start);
+      return direction.cross(blockPoint(x, arc, 'center').subtract(start)) / length;
+    };
+    const side = signedDistance(initial) >= 0 ? 1 : -1;
+
+    return {
+      constraint,
+      evaluate: x => [signedDistance(x) - side * Math.abs(param(x, arc.offset + 2))]
+    };
+  }
+
+  private evaluateAll(equations: ReadonlyArray<ConstraintEquations>, x: Float64Array): number[] {
+    const residuals: number[] = [];
+    for (const equation of equations) {
+      residuals.push(...equation.evaluate(x));
+    }
+    return residuals;
+  }
+
+  private buildResiduals(equations: ReadonlyArray<ConstraintEquations>, x: Float64Array): ConstraintResidual[] {
+    return equations.map(equation => {
+      const values = equation.evaluate(x);
+      return {
+        constraintId: equation.constraint.id,
+        type: equation.constraint.type,
+        residual: Math.sqrt(sumOfSquares(values)),
+        satisfied: maxAbs(values) <= this.options.tolerance
+      };
+    });
+  }
+
+  /**
+   * Numeric Jacobian using central differences (rows = equations, columns = parameters)
+   */
+  private computeJacobian(
+    equations: ReadonlyArray<ConstraintEquations>,
+    x: Float64Array,
+    equationCount: number
+  ): number[][] {
+    const jacobian: number[][] = Array.from({ length: equationCount }, () => new Array<number>(x.length).fill(0));
+    const probe = Float64Array.from(x);
+
+    for (let j = 0; j < x.length; j++) {
+      const original = param(x, j);
+      const h = this.options.finiteDifferenceStep * Math.max(1, Math.abs(original));
+
+      probe[j] = original + h;
+      const forward = this.evaluateAll(equations, probe);
+      probe[j] = original - h;
+      const backward = this.evaluateAll(equations, probe);
+      probe[j] = original;
+
+      for (let i = 0; i < equationCount; i++) {
+        const row = jacobian[i];
+        if (row) {
+          row[j] = ((forward[i] ?? 0) - (backward[i] ?? 0)) / (2 * h);
+        }
+      }
+    }
+
+    return jacobian;
+  }
+}
+
+// Parameter vector accessors
+
+function param(x: Float64Array, index: number): number {
+  return x[index] ?? 0;
+}
+
+function blockPoint(x: Float64Array, block: ParameterBlock, point: ConstraintPoint): Vec2 {
+  const o = block.offset;
+
+  if (block.kind === 'line') {
+    return point === 'end'
+      ? new Vec2(param(x, o + 2), param(x, o + 3))
+      : new Vec2(param(x, o), param(x, o + 1));
+  }
+
+  const center = new Vec2(param(x, o), param(x, o + 1));
+  if (point === 'center') {
+    return center;
+  }
+
+  const radius = Math.abs(param(x, o + 2));
+  const angle = param(x, o + 3) + (point === 'end' ? param(x, o + 4) : 0);
+  return center.add(Vec2.fromPolar(radius, angle));
+}
+
+function lineVector(x: Float64Array, block: ParameterBlock): Vec2 {
+  return blockPoint(x, block, 'end').subtract(blockPoint(x, block, 'start'));
+}
+
+function blockLength(x: Float64Array, block: ParameterBlock): number {
+  if (block.kind === 'line') {
+    return lineVector(x, block).length;
+  }
+  return Math.abs(param(x, block.offset + 2) * param(x, block.offset + 4));
+}
+
+// Small dense linear algebra helpers
+
+function sumOfSquares(values: ReadonlyArray<number>): number {
+  return values.reduce((sum, v) => sum + v * v, 0);
+}
+
+function maxAbs(values: ReadonlyArray<number>): number {
+  return values.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+}
+
+function multiplyTransposeSelf(matrix: number[][], columns: number): number[][] {
+  const result: number[][] = Array.from({ length: columns }, () => new Array<number>(columns).fill(0));
+  for (const row of matrix) {
+    for (let i = 0; i < columns; i++) {
+      const ri = row[i] ?? 0;
+      if (ri === 0) continue;
+      const target = result[i];
+      if (!target) continue;
+      for (let j = 0; j < columns; j++) {
+        target[j] = (target[j] ?? 0) + ri * (row[j] ?? 0);
+      }
+    }
+  }
+  return result;
+}
+
+function multiplyTransposeVector(matrix: number[][], vector: ReadonlyArray<number>, columns: number): number[] {
+  const result = new Array<number>(columns).fill(0);
+  matrix.forEach((row, i) => {
+    const v = vector[i] ?? 0;
+    for (let j = 0; j < columns; j++) {
+      result[j] = (result[j] ?? 0) + (row[j] ?? 0) * v;
+    }
+  });
+  return result;
+}
+
+/**
+ * Gaussian elimination with partial pivoting. Returns null for singular systems.
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i] ?? 0]);
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]?.[col] ?? 0) > Math.abs(a[pivotRow]?.[col] ?? 0)) {
+        pivotRow = row;
+      }
+    }
+
+    const pivot = a[pivotRow];
+    const current = a[col];
+    if (!pivot || !current || Math.abs(pivot[col] ?? 0) < 1e-300) {
+      return null;
+    }
+    a[pivotRow] = current;
+    a[col] = pivot;
+
+    for (let row = col + 1; row < n; row++) {
+      const target = a[row];
+      if (!target) continue;
+      const factor = (target[col] ?? 0) / (pivot[col] ?? 1);
+      if (factor === 0) continue;
+      for (let k = col; k <= n; k++) {
+        target[k] = (target[k] ?? 0) - factor * (pivot[k] ?? 0);
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    const r = a[row];
+    if (!r) return null;
+    let sum = r[n] ?? 0;
+    for (let k = row + 1; k < n; k++) {
+      sum -= (r[k] ?? 0) * (solution[k] ?? 0);
+    }
+    solution[row] = sum / (r[row] ?? 1);
+  }
+  return solution;
+}
+
+/**
+ * Numeric rank via row echelon reduction with a relative tolerance
+ */
+function matrixRank(matrix: number[][], columns: number): number {
+  const a = matrix.map(row => row.slice());
+  const scale = a.reduce((max, row) => Math.max(max, maxAbs(row)), 0);
+  if (scale === 0) return 0;
+  const tolerance = scale * 1e-7 * Math.max(a.length, columns);
+
+  let rank = 0;
+  for (let col = 0; col < columns && rank < a.length; col++) {
+    let pivotRow = rank;
+    for (let row = rank + 1; row < a.length; row++) {
+      if (Math.abs(a[row]?.[col] ?? 0) > Math.abs(a[pivotRow]?.[col] ?? 0)) {
+        pivotRow = row;
+      }
+    }
+
+    const pivot = a[pivotRow];
+    const current = a[rank];
+    if (!pivot || !current || Math.abs(pivot[col] ?? 0) <= tolerance) {
+      continue;
+    }
+    a[pivotRow] = current;
+    a[rank] = pivot;
+
+    for (let row = rank + 1; row < a.length; row++) {
+      const target = a[row];
+      if (!target) continue;
+      const factor = (target[col] ?? 0) / (pivot[col] ?? 1);
+      for (let k = col; k < columns; k++) {
+        target[k] = (target[k] ?? 0) - factor * (pivot[k] ?? 0);
+      }
+    }
+    rank++;
+  }
+
+  return rank;
+}
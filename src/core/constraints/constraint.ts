@@ -0,0 +1,168 @@
+import { Vec2 } from '../math/vec2.js';
+
+/**
+ * Geometric constraint definitions for Zotebook's constraint-driven sketches.
+ * Constraints reference segments by `Segment.id` so they survive the creation of
+ * new immutable segment instances during solving and editing.
+ */
+
+export enum ConstraintType {
+  COINCIDENT = 'coincident',
+  PARALLEL = 'parallel',
+  PERPENDICULAR = 'perpendicular',
+  EQUAL_LENGTH = 'equal_length',
+  HORIZONTAL = 'horizontal',
+  VERTICAL = 'vertical',
+  TANGENT = 'tangent',
+  CONCENTRIC = 'concentric',
+  FIXED = 'fixed'
+}
+
+/**
+ * Named point on a segment that a constraint can act upon.
+ * `center` is only available for arc segments.
+ */
+export type ConstraintPoint = 'start' | 'end' | 'center';
+
+export interface PointReference {
+  readonly segmentId: string;
+  readonly point: ConstraintPoint;
+}
+
+interface BaseConstraint {
+  readonly id: string;
+  readonly type: ConstraintType;
+}
+
+export interface CoincidentConstraint extends BaseConstraint {
+  readonly type: ConstraintType.COINCIDENT;
+  readonly pointA: PointReference;
+  readonly pointB: PointReference;
+}
+
+export interface ParallelConstraint extends BaseConstraint {
+  readonly type: ConstraintType.PARALLEL;
+  readonly segment1Id: string;
+  readonly segment2Id: string;
+}
+
+export interface PerpendicularConstraint extends BaseConstraint {
+  readonly type: ConstraintType.PERPENDICULAR;
+  readonly segment1Id: string;
+  readonly segment2Id: string;
+}
+
+export interface EqualLengthConstraint extends BaseConstraint {
+  readonly type: ConstraintType.EQUAL_LENGTH;
+  readonly segment1Id: string;
+  readonly segment2Id: string;
+}
+
+export interface HorizontalConstraint extends BaseConstraint {
+  readonly type: ConstraintType.HORIZONTAL;
+  readonly segmentId: string;
+}
+
+export interface VerticalConstraint extends BaseConstraint {
+  readonly type: ConstraintType.VERTICAL;
+  readonly segmentId: string;
+}
+
+export interface TangentConstraint extends BaseConstraint {
+  readonly type: ConstraintType.TANGENT;
+  readonly segment1Id: string;
+  readonly segment2Id: string;
+}
+
+export interface ConcentricConstraint extends BaseConstraint {
+  readonly type: ConstraintType.CONCENTRIC;
+  readonly segment1Id: string;
+  readonly segment2Id: string;
+}
+
+export interface FixedConstraint extends BaseConstraint {
+  readonly type: ConstraintType.FIXED;
+  readonly segmentId: string;
+  readonly point?: ConstraintPoint;   // Fix a single point; omit to fix the whole segment
+  readonly position?: Vec2;           // Target for a fixed point (defaults to current location)
+}
+
+export type Constraint =
+  | CoincidentConstraint
+  | ParallelConstraint
+  | PerpendicularConstraint
+  | EqualLengthConstraint
+  | HorizontalConstraint
+  | VerticalConstraint
+  | TangentConstraint
+  | ConcentricConstraint
+  | FixedConstraint;
+
+/**
+ * Factory and query helpers for constraints
+ */
+export namespace ConstraintUtils {
+  let idCounter = 0;
+
+  function generateId(type: ConstraintType): string {
+    return `constraint_${type}_${Date.now()}_${++idCounter}`;
+  }
+
+  export function coincident(pointA: PointReference, pointB: PointReference, id?: string): CoincidentConstraint {
+    return { id: id ?? generateId(ConstraintType.COINCIDENT), type: ConstraintType.COINCIDENT, pointA, pointB };
+  }
+
+  export function parallel(segment1Id: string, segment2Id: string, id?: string): ParallelConstraint {
+    return { id: id ?? generateId(ConstraintType.PARALLEL), type: ConstraintType.PARALLEL, segment1Id, segment2Id };
+  }
+
+  export function perpendicular(segment1Id: string, segment2Id: string, id?: string): PerpendicularConstraint {
+    return { id: id ?? generateId(ConstraintType.PERPENDICULAR), type: ConstraintType.PERPENDICULAR, segment1Id, segment2Id };
+  }
+
+  export function equalLength(segment1Id: string, segment2Id: string, id?: string): EqualLengthConstraint {
+    return { id: id ?? generateId(ConstraintType.EQUAL_LENGTH), type: ConstraintType.EQUAL_LENGTH, segment1Id, segment2Id };
+  }
+
+  export function horizontal(segmentId: string, id?: string): HorizontalConstraint {
+    return { id: id ?? generateId(ConstraintType.HORIZONTAL), type: ConstraintType.HORIZONTAL, segmentId };
+  }
+
+  export function vertical(segmentId: string, id?: string): VerticalConstraint {
+    return { id: id ?? generateId(ConstraintType.VERTICAL), type: ConstraintType.VERTICAL, segmentId };
+  }
+
+  export function tangent(segment1Id: string, segment2Id: string, id?: string): TangentConstraint {
+    return { id: id ?? generateId(ConstraintType.TANGENT), type: ConstraintType.TANGENT, segment1Id, segment2Id };
+  }
+
+  export function concentric(segment1Id: string, segment2Id: string, id?: string): ConcentricConstraint {
+    return { id: id ?? generateId(ConstraintType.CONCENTRIC), type: ConstraintType.CONCENTRIC, segment1Id, segment2Id };
+  }
+
+  export function fixed(segmentId: string, point?: ConstraintPoint, position?: Vec2, id?: string): FixedConstraint {
+    return {
+      id: id ?? generateId(ConstraintType.FIXED),
+      type: ConstraintType.FIXED,
+      segmentId,
+      ...(point !== undefined ? { point } : {}),
+      ...(position !== undefined ? { position } : {})
+    };
+  }
+
+  /**
+   * Ids of every segment a constraint depends on
+   */
+  export function referencedSegmentIds(constraint: Constraint): string[] {
+    switch (constraint.type) {
+      case ConstraintType.COINCIDENT:
+        return [constraint.pointA.segmentId, constraint.pointB.segmentId];
+      case ConstraintType.HORIZONTAL:
+      case ConstraintType.VERTICAL:
+      case ConstraintType.FIXED:
+        return [constraint.segmentId];
+      default:
+        return [constraint.segment1Id, constraint.segment2Id];
+    }
+  }
+}
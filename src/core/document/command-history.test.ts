@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+
+import { LineSegment } from '../geometry/line-segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+import {
+  AddSegmentCommand,
+  CommandHistory,
+  HistoryState,
+  RemoveSegmentCommand,
+  ReplaceSegmentCommand,
+  UpdateSegmentCommand
+} from './command-history.js';
+import { DrawingModel } from './drawing-model.js';
+
+function line(id: string, length: number): LineSegment {
+  return new LineSegment(new Vec2(0, 0), new Vec2(length, 0), id);
+}
+
+describe('CommandHistory', () => {
+  it('should execute, undo and redo commands', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+
+    history.execute(new AddSegmentCommand(model, line('a', 10)));
+    expect(model.has('a')).toBe(true);
+
+    expect(history.undo()).toBe(true);
+    expect(model.has('a')).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(model.has('a')).toBe(true);
+
+    expect(history.redo()).toBe(false);
+  });
+
+  it('should clear the redo stack when a new command is executed', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+
+    history.execute(new AddSegmentCommand(model, line('a', 10)));
+    history.undo();
+    expect(history.canRedo).toBe(true);
+
+    history.execute(new AddSegmentCommand(model, line('b', 10)));
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('should merge drag updates sharing a merge key into one step', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+    history.execute(new AddSegmentCommand(model, line('a', 10)));
+
+    for (const length of [11, 12, 13]) {
+      history.execute(new UpdateSegmentCommand(model, line('a', length), 'drag-1'));
+    }
+
+    expect(history.undoDepth).toBe(2);
+    expect(model.getSegment('a')?.length).toBe(13);
+
+    history.undo();
+    expect(model.getSegment('a')?.length).toBe(10);
+
+    history.redo();
+    expect(model.getSegment('a')?.length).toBe(13);
+  });
+
+  it('should keep updates without a merge key separate', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+    history.execute(new AddSegmentCommand(model, line('a', 10)));
+
+    history.execute(new UpdateSegmentCommand(model, line('a', 11)));
+    history.execute(new UpdateSegmentCommand(model, line('a', 12)));
+
+    expect(history.undoDepth).toBe(3);
+    history.undo();
+    expect(model.getSegment('a')?.length).toBe(11);
+  });
+
+  it('should drop the oldest steps beyond max depth', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory({ maxDepth: 2 });
+
+    history.execute(new AddSegmentCommand(model, line('a', 1)));
+    history.execute(new AddSegmentCommand(model, line('b', 1)));
+    history.execute(new AddSegmentCommand(model, line('c', 1)));
+
+    expect(history.undoDepth).toBe(2);
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBe(false);
+    expect(model.has('a')).toBe(true);
+  });
+
+  it('should group transaction commands into a single step', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+
+    history.beginTransaction('Add pair');
+    history.execute(new AddSegmentCommand(model, line('a', 1)));
+    history.beginTransaction('Nested');
+    history.execute(new AddSegmentCommand(model, line('b', 1)));
+    history.commitTransaction();
+    expect(history.canUndo).toBe(false);
+    history.commitTransaction();
+
+    expect(history.undoDepth).toBe(1);
+    expect(history.state.undoLabel).toBe('Add pair');
+
+    history.undo();
+    expect(model.size).toBe(0);
+  });
+
+  it('should roll back a transaction when its function throws', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+
+    expect(() => history.transaction('Broken', () => {
+      history.execute(new AddSegmentCommand(model, line('a', 1)));
+      throw new Error('boom');
+    })).toThrow('boom');
+
+    expect(model.has('a')).toBe(false);
+    expect(history.isInTransaction).toBe(false);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it('should refuse to undo while a transaction is open', () => {
+    const history = new CommandHistory();
+    history.beginTransaction('Open');
+
+    expect(() => history.undo()).toThrow('transaction is open');
+  });
+
+  it('should undo removals and replacements', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+    const original = line('a', 10);
+    history.execute(new AddSegmentCommand(model, original));
+
+    const [first, second] = original.subdivide(0.5);
+    history.execute(new ReplaceSegmentCommand(model, 'a', [first, second]));
+    expect(model.size).toBe(2);
+
+    history.execute(new RemoveSegmentCommand(model, first.id));
+    expect(model.size).toBe(1);
+
+    history.undo();
+    history.undo();
+    expect(model.size).toBe(1);
+    expect(model.getSegment('a')).toBe(original);
+  });
+
+  it('should notify listeners with the current state', () => {
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+    const states: HistoryState[] = [];
+    history.subscribe(state => states.push(state));
+
+    history.execute(new AddSegmentCommand(model, line('a', 1)));
+    history.undo();
+
+    expect(states).toEqual([
+      { canUndo: true, canRedo: false, undoLabel: 'Add segment', redoLabel: null },
+      { canUndo: false, canRedo: true, undoLabel: null, redoLabel: 'Add segment' }
+    ]);
+  });
+});
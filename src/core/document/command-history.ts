@@ -0,0 +1,411 @@
+import { Segment } from '../geometry/segment.js';
+
+import { DrawingElement, DrawingModel, ElementSource } from './drawing-model.js';
+
+/**
+ * Command-based undo/redo history for Zotebook drawings.
+ * Every edit to the drawing model is expressed as a reversible command; consecutive
+ * drag updates merge into one undo step and transactions group several commands
+ * into a single step.
+ */
+
+export interface Command {
+  readonly label: string;
+  execute(): void;
+  undo(): void;
+  /**
+   * Try to absorb a command executed right after this one.
+   * Returns the merged command, or null if the commands must stay separate.
+   */
+  mergeWith?(next: Command): Command | null;
+}
+
+export interface CommandHistoryOptions {
+  readonly maxDepth: number; // Maximum number of undo steps kept
+}
+
+const DEFAULT_HISTORY_OPTIONS: CommandHistoryOptions = {
+  maxDepth: 100
+};
+
+export interface HistoryState {
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  readonly undoLabel: string | null;
+  readonly redoLabel: string | null;
+}
+
+export type HistoryListener = (state: HistoryState) => void;
+
+/**
+ * Several commands executed and undone as one step
+ */
+export class CompositeCommand implements Command {
+  readonly label: string;
+  private readonly commands: Command[];
+
+  constructor(label: string, commands: ReadonlyArray<Command>) {
+    this.label = label;
+    this.commands = [...commands];
+  }
+
+  get size(): number {
+    return this.commands.length;
+  }
+
+  execute(): void {
+    for (const command of this.commands) {
+      command.execute();
+    }
+  }
+
+  undo(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i]?.undo();
+    }
+  }
+}
+
+/**
+ * Linear undo/redo stack with merging, bounded depth and transactions.
+ */
+export class CommandHistory {
+  private options: CommandHistoryOptions;
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private listeners = new Set<HistoryListener>();
+
+  // Open transaction state
+  private transactionDepth = 0;
+  private transactionLabel = '';
+  private transactionCommands: Command[] = [];
+
+  constructor(options: Partial<CommandHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+  }
+
+  /**
+   * Execute a command and record it for undo
+   */
+  execute(command: Command): void {
+    command.execute();
+
+    if (this.transactionDepth > 0) {
+      this.transactionCommands.push(command);
+      return;
+    }
+
+    this.push(command);
+  }
+
+  /**
+   * Undo the most recent step. Returns false if there is nothing to undo.
+   */
+  undo(): boolean {
+    if (this.transactionDepth > 0) {
+      throw new Error('Cannot undo while a transaction is open');
+    }
+
+    const command = this.undoStack.pop();
+    if (!command) return false;
+
+    command.undo();
+    this.redoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Redo the most recently undone step. Returns false if there is nothing to redo.
+   */
+  redo(): boolean {
+    if (this.transactionDepth > 0) {
+      throw new Error('Cannot redo while a transaction is open');
+    }
+
+    const command = this.redoStack.pop();
+    if (!command) return false;
+
+    command.execute();
+    this.undoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Start grouping subsequent commands into a single undo step.
+   * Transactions nest; only the outermost commit records the step.
+   */
+  beginTransaction(label: string): void {
+    if (this.transactionDepth === 0) {
+      this.transactionLabel = label;
+      this.transactionCommands = [];
+    }
+    this.transactionDepth++;
+  }
+
+  commitTransaction(): void {
+    if (this.transactionDepth === 0) {
+      throw new Error('No open transaction to commit');
+    }
+
+    this.transactionDepth--;
+    if (this.transactionDepth > 0) return;
+
+    const commands = this.transactionCommands;
+    this.transactionCommands = [];
+
+    if (commands.length === 1 && commands[0]) {
+      this.push(commands[0]);
+    } else if (commands.length > 1) {
+      this.push(new CompositeCommand(this.transactionLabel, commands));
+    }
+  }
+
+  /**
+   * Undo every command executed since the outermost transaction began and discard them
+   */
+  rollbackTransaction(): void {
+    if (this.transactionDepth === 0) {
+      throw new Error('No open transaction to roll back');
+    }
+
+    new CompositeCommand(this.transactionLabel, this.transactionCommands).undo();
+    this.transactionCommands = [];
+    this.transactionDepth = 0;
+  }
+
+  /**
+   * Run a function inside a transaction, rolling back if it throws
+   */
+  transaction<T>(label: string, fn: () => T): T {
+    this.beginTransaction(label);
+    try {
+      const result = fn();
+      this.commitTransaction();
+      return result;
+    } catch (error) {
+      this.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  get isInTransaction(): boolean {
+    return this.transactionDepth > 0;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get undoDepth(): number {
+    return this.undoStack.length;
+  }
+
+  get redoDepth(): number {
+    return this.redoStack.length;
+  }
+
+  get state(): HistoryState {
+    return {
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label ?? null,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label ?? null
+    };
+  }
+
+  /**
+   * Subscribe to history state changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  /**
+   * Update history options
+   */
+  updateOptions(newOptions: Partial<CommandHistoryOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+    this.trimToDepth();
+  }
+
+  private push(command: Command): void {
+    const previous = this.undoStack[this.undoStack.length - 1];
+    const merged = previous?.mergeWith?.(command) ?? null;
+
+    if (merged) {
+      this.undoStack[this.undoStack.length - 1] = merged;
+    } else {
+      this.undoStack.push(command);
+    }
+
+    this.redoStack = [];
+    this.trimToDepth();
+    this.notify();
+  }
+
+  private trimToDepth(): void {
+    const excess = this.undoStack.length - this.options.maxDepth;
+    if (excess > 0) {
+      this.undoStack.splice(0, excess);
+    }
+  }
+
+  private notify(): void {
+    const state = this.state;
+    for (const listener of Array.from(this.listeners)) {
+      listener(state);
+    }
+  }
+}
+
+// Commands operating on the drawing model
+
+export class AddSegmentCommand implements Command {
+  readonly label = 'Add segment';
+  private readonly model: DrawingModel;
+  private readonly segment: Segment;
+  private readonly source: ElementSource;
+  private element: DrawingElement | null = null;
+
+  constructor(model: DrawingModel, segment: Segment, source: ElementSource = {}) {
+    this.model = model;
+    this.segment = segment;
+    this.source = source;
+  }
+
+  execute(): void {
+    if (this.element) {
+      this.model.restoreElement(this.element);
+    } else {
+      this.element = this.model.addSegment(this.segment, this.source);
+    }
+  }
+
+  undo(): void {
+    this.model.removeSegment(this.segment.id);
+  }
+}
+
+export class RemoveSegmentCommand implements Command {
+  readonly label = 'Remove segment';
+  private readonly model: DrawingModel;
+  private readonly segmentId: string;
+  private removed: DrawingElement | null = null;
+
+  constructor(model: DrawingModel, segmentId: string) {
+    this.model = model;
+    this.segmentId = segmentId;
+  }
+
+  execute(): void {
+    const removed = this.model.removeSegment(this.segmentId);
+    if (!removed) {
+      throw new Error(`Cannot remove unknown element ${this.segmentId}`);
+    }
+    this.removed = removed;
+  }
+
+  undo(): void {
+    if (this.removed) {
+      this.model.restoreElement(this.removed);
+    }
+  }
+}
+
+/**
+ * Replace an element's segment with a new instance of the same id.
+ * Updates sharing a `mergeKey` (e.g. one drag interaction) collapse into a single step.
+ */
+export class UpdateSegmentCommand implements Command {
+  readonly label = 'Modify segment';
+  private readonly model: DrawingModel;
+  private readonly segment: Segment;
+  private readonly mergeKey: string | undefined;
+  private previous: Segment | null;
+
+  constructor(model: DrawingModel, segment: Segment, mergeKey?: string, previous?: Segment) {
+    this.model = model;
+    this.segment = segment;
+    this.mergeKey = mergeKey;
+    this.previous = previous ?? null;
+  }
+
+  execute(): void {
+    const current = this.model.getSegment(this.segment.id);
+    if (!current) {
+      throw new Error(`Cannot update unknown element ${this.segment.id}`);
+    }
+    if (!this.previous) {
+      this.previous = current;
+    }
+    this.model.updateSegment(this.segment);
+  }
+
+  undo(): void {
+    if (this.previous) {
+      this.model.updateSegment(this.previous);
+    }
+  }
+
+  mergeWith(next: Command): Command | null {
+    if (!(next instanceof UpdateSegmentCommand) ||
+        this.mergeKey === undefined ||
+        next.mergeKey !== this.mergeKey ||
+        next.segment.id !== this.segment.id ||
+        !this.previous) {
+      return null;
+    }
+
+    return new UpdateSegmentCommand(this.model, next.segment, this.mergeKey, this.previous);
+  }
+}
+
+/**
+ * Replace one element by several derived segments (split, trim, ...)
+ */
+export class ReplaceSegmentCommand implements Command {
+  readonly label = 'Replace segment';
+  private readonly model: DrawingModel;
+  private readonly segmentId: string;
+  private readonly replacements: ReadonlyArray<Segment>;
+  private original: DrawingElement | null = null;
+
+  constructor(model: DrawingModel, segmentId: string, replacements: ReadonlyArray<Segment>) {
+    this.model = model;
+    this.segmentId = segmentId;
+    this.replacements = replacements;
+  }
+
+  execute(): void {
+    const original = this.model.getElement(this.segmentId);
+    if (!original) {
+      throw new Error(`Cannot replace unknown element ${this.segmentId}`);
+    }
+    this.original = original;
+    this.model.replaceSegment(this.segmentId, this.replacements);
+  }
+
+  undo(): void {
+    for (const segment of this.replacements) {
+      this.model.removeSegment(segment.id);
+    }
+    if (this.original) {
+      this.model.restoreElement(this.original);
+    }
+  }
+}
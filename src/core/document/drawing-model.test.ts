@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+
+import { GeometryType } from '../../input/stroke-to-geometry.js';
+import { fitResult } from '../../test/geometry.js';
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { SegmentUtils } from '../geometry/segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { DrawingChangeEvent, DrawingChangeType, DrawingModel } from './drawing-model.js';
+
+describe('DrawingModel', () => {
+  it('should add segments keyed by their id', () => {
+    const model = new DrawingModel();
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'line-1');
+
+    const element = model.addSegment(line);
+
+    expect(element.id).toBe('line-1');
+    expect(model.getSegment('line-1')).toBe(line);
+    expect(model.size).toBe(1);
+  });
+
+  it('should reject duplicate ids', () => {
+    const model = new DrawingModel();
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'dup');
+    model.addSegment(line);
+
+    expect(() => model.addSegment(line.clone())).toThrow('already contains');
+  });
+
+  it('should accept fit results and track the producing stroke', () => {
+    const model = new DrawingModel();
+    const results = [
+      fitResult(new LineSegment(new Vec2(0, 0), new Vec2(10, 0))),
+      fitResult(new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI))
+    ];
+
+    const elements = model.addStrokeGeometry('stroke_1', results);
+
+    expect(elements).toHaveLength(2);
+    expect(elements[0]?.source.strokeId).toBe('stroke_1');
+    expect(elements[1]?.source.geometryType).toBe(GeometryType.ARC);
+    expect(model.getElementsForStroke('stroke_1').map(e => e.id)).toEqual(elements.map(e => e.id));
+    expect(model.getElementsForStroke('unknown')).toEqual([]);
+  });
+
+  it('should emit added, modified and removed events', () => {
+    const model = new DrawingModel();
+    const events: DrawingChangeEvent[] = [];
+    model.subscribe(event => events.push(event));
+
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'l');
+    model.addSegment(line);
+    model.updateSegment(new LineSegment(new Vec2(0, 0), new Vec2(20, 0), 'l'));
+    model.removeSegment('l');
+
+    expect(events.map(e => e.type)).toEqual([
+      DrawingChangeType.ADDED,
+      DrawingChangeType.MODIFIED,
+      DrawingChangeType.REMOVED
+    ]);
+
+    const modified = events[1];
+    if (modified?.type !== DrawingChangeType.MODIFIED) throw new Error('expected modified event');
+    expect(modified.previous.segment).toBe(line);
+    expect(modified.element.segment.length).toBe(20);
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const model = new DrawingModel();
+    let count = 0;
+    const unsubscribe = model.subscribe(() => count++);
+
+    model.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(1, 0)));
+    unsubscribe();
+    model.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(2, 0)));
+
+    expect(count).toBe(1);
+  });
+
+  it('should throw when updating an unknown element', () => {
+    const model = new DrawingModel();
+    expect(() => model.updateSegment(new LineSegment(new Vec2(0, 0), new Vec2(1, 0), 'ghost')))
+      .toThrow('unknown element ghost');
+  });
+
+  it('should return undefined when removing an unknown element', () => {
+    expect(new DrawingModel().removeSegment('missing')).toBeUndefined();
+  });
+
+  it('should replace an element while keeping lineage', () => {
+    const model = new DrawingModel();
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'orig');
+    model.addStrokeGeometry('stroke_7', [fitResult(line)]);
+
+    const [first, second] = line.subdivide(0.5);
+    const replacements = model.replaceSegment('orig', [first, second]);
+
+    expect(model.has('orig')).toBe(false);
+    expect(replacements.every(e => e.source.derivedFrom === 'orig')).toBe(true);
+    expect(replacements.every(e => e.source.strokeId === 'stroke_7')).toBe(true);
+    expect(model.getElementsForStroke('stroke_7')).toHaveLength(2);
+  });
+
+  it('should leave the original in place when a replacement id clashes', () => {
+    const model = new DrawingModel();
+    const events: DrawingChangeEvent[] = [];
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'orig');
+    model.addSegment(line);
+    model.addSegment(new LineSegment(new Vec2(0, 5), new Vec2(10, 5), 'taken'));
+    model.subscribe(event => events.push(event));
+
+    const clash = new LineSegment(new Vec2(5, 0), new Vec2(10, 0), 'taken');
+    expect(() => model.replaceSegment('orig', [line.subdivide(0.5)[0], clash])).toThrow('taken');
+    const twice = new LineSegment(new Vec2(0, 0), new Vec2(5, 0), 'twin');
+    expect(() => model.replaceSegment('orig', [twice, twice])).toThrow('twin');
+
+    expect(model.getSegment('orig')).toBe(line);
+    expect(events).toHaveLength(0);
+  });
+
+  it('should restore removed elements unchanged', () => {
+    const model = new DrawingModel();
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'l');
+    model.addStrokeGeometry('s', [fitResult(line)]);
+
+    const removed = model.removeSegment('l');
+    if (!removed) throw new Error('expected element');
+    model.restoreElement(removed);
+
+    expect(model.getElement('l')).toBe(removed);
+    expect(model.getElementsForStroke('s')).toHaveLength(1);
+  });
+
+  it('should expose a segment map and clear all elements', () => {
+    const model = new DrawingModel();
+    const events: DrawingChangeEvent[] = [];
+    model.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(1, 0), 'a'));
+    model.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(0, 1), 'b'));
+    model.subscribe(event => events.push(event));
+
+    expect(Array.from(model.segmentMap.keys())).toEqual(['a', 'b']);
+
+    model.clear();
+
+    expect(model.size).toBe(0);
+    expect(events.filter(e => e.type === DrawingChangeType.REMOVED)).toHaveLength(2);
+  });
+
+  it('should answer proximity queries as segments change', () => {
+    const model = new DrawingModel();
+    model.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'a'));
+    model.addSegment(new LineSegment(new Vec2(0, 5), new Vec2(10, 5), 'b'));
+
+    expect(model.segmentsNear(new Vec2(5, 1), 2).map(hit => hit.segment.id)).toEqual(['a']);
+    expect(model.nearestSegments(new Vec2(5, 4), 2).map(hit => hit.segment.id)).toEqual(['b', 'a']);
+
+    model.updateSegment(new LineSegment(new Vec2(0, 50), new Vec2(10, 50), 'a'));
+    model.removeSegment('b');
+
+    expect(model.segmentsNear(new Vec2(5, 1), 2)).toEqual([]);
+    expect(model.segmentsInBox(SegmentUtils.createBoundingBox([new Vec2(0, 40), new Vec2(10, 60)])).map(s => s.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,287 @@
+import type { GeometryFitResult, GeometryType } from '../../input/stroke-to-geometry.js';
+import { SegmentHit, SegmentIndex } from '../geometry/segment-index.js';
+import { BoundingBox, Segment } from '../geometry/segment.js';
+import { Vec2 } from '../math/vec2.js';
+
+/**
+ * Drawing document model for Zotebook.
+ * Owns every segment in a drawing keyed by its stable `Segment.id`, remembers which
+ * stroke produced each element and notifies subscribers (renderer, solver, history)
+ * about every change. A spatial index over the segments answers hit-testing and
+ * proximity queries.
+ */
+
+export interface ElementSource {
+  readonly strokeId?: string;          // Stroke that produced the element
+  readonly geometryType?: GeometryType; // Fitted primitive type
+  readonly confidence?: number;        // Fit confidence 0.0-1.0
+  readonly derivedFrom?: string;       // Id of the element this one replaced (split, trim, ...)
+}
+
+export interface DrawingElement {
+  readonly id: string;
+  readonly segment: Segment;
+  readonly source: ElementSource;
+  readonly createdAt: number;
+}
+
+export enum DrawingChangeType {
+  ADDED = 'added',
+  REMOVED = 'removed',
+  MODIFIED = 'modified'
+}
+
+export interface ElementAddedEvent {
+  readonly type: DrawingChangeType.ADDED;
+  readonly element: DrawingElement;
+}
+
+export interface ElementRemovedEvent {
+  readonly type: DrawingChangeType.REMOVED;
+  readonly element: DrawingElement;
+}
+
+export interface ElementModifiedEvent {
+  readonly type: DrawingChangeType.MODIFIED;
+  readonly element: DrawingElement;
+  readonly previous: DrawingElement;
+}
+
+export type DrawingChangeEvent = ElementAddedEvent | ElementRemovedEvent | ElementModifiedEvent;
+
+export type DrawingChangeListener = (event: DrawingChangeEvent) => void;
+
+/**
+ * Registry of drawing elements with typed change notifications.
+ */
+export class DrawingModel {
+  private elements = new Map<string, DrawingElement>();
+  private strokeIndex = new Map<string, Set<string>>();
+  private spatialIndex = new SegmentIndex();
+  private listeners = new Set<DrawingChangeListener>();
+
+  /**
+   * Subscribe to change events. Returns an unsubscribe function.
+   */
+  subscribe(listener: DrawingChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a single segment to the drawing
+   */
+  addSegment(segment: Segment, source: ElementSource = {}): DrawingElement {
+    if (this.elements.has(segment.id)) {
+      throw new Error(`Drawing already contains an element with id ${segment.id}`);
+    }
+
+    const element: DrawingElement = {
+      id: segment.id,
+      segment,
+      source,
+      createdAt: Date.now()
+    };
+
+    this.elements.set(element.id, element);
+    this.indexStroke(element);
+    this.spatialIndex.insert(element.segment);
+    this.emit({ type: DrawingChangeType.ADDED, element });
+
+    return element;
+  }
+
+  /**
+   * Add the geometry produced by `StrokeToGeometryConverter.convertStroke` for one stroke
+   */
+  addStrokeGeometry(strokeId: string, results: ReadonlyArray<GeometryFitResult>): DrawingElement[] {
+    return results.map(result => this.addSegment(result.segment, {
+      strokeId,
+      geometryType: result.type,
+      confidence: result.confidence
+    }));
+  }
+
+  /**
+   * Re-insert a previously removed element unchanged (used when undoing a removal)
+   */
+  restoreElement(element: DrawingElement): void {
+    if (this.elements.has(element.id)) {
+      throw new Error(`Drawing already contains an element with id ${element.id}`);
+    }
+
+    this.elements.set(element.id, element);
+    this.indexStroke(element);
+    this.spatialIndex.insert(element.segment);
+    this.emit({ type: DrawingChangeType.ADDED, element });
+  }
+
+  /**
+   * Remove an element. Returns the removed element, or undefined if it did not exist.
+   */
+  removeSegment(id: string): DrawingElement | undefined {
+    const element = this.elements.get(id);
+    if (!element) return undefined;
+
+    this.elements.delete(id);
+    this.unindexStroke(element);
+    this.spatialIndex.remove(id);
+    this.emit({ type: DrawingChangeType.REMOVED, element });
+
+    return element;
+  }
+
+  /**
+   * Swap in a new instance of an existing element (same id), e.g. after solving or dragging
+   */
+  updateSegment(segment: Segment): DrawingElement {
+    const previous = this.elements.get(segment.id);
+    if (!previous) {
+      throw new Error(`Cannot update unknown element ${segment.id}`);
+    }
+
+    const element: DrawingElement = { ...previous, segment };
+    this.elements.set(element.id, element);
+    this.spatialIndex.update(segment);
+    this.emit({ type: DrawingChangeType.MODIFIED, element, previous });
+
+    return element;
+  }
+
+  /**
+   * Replace an element by one or more new segments that record it as their origin.
+   * Replacement ids are checked up front, so a clash leaves the drawing untouched.
+   */
+  replaceSegment(id: string, replacements: ReadonlyArray<Segment>): DrawingElement[] {
+    const original = this.elements.get(id);
+    if (!original) {
+      throw new Error(`Cannot replace unknown element ${id}`);
+    }
+
+    const seen = new Set<string>();
+    for (const segment of replacements) {
+      if (seen.has(segment.id) || (segment.id !== id && this.elements.has(segment.id))) {
+        throw new Error(`Drawing already contains an element with id ${segment.id}`);
+      }
+      seen.add(segment.id);
+    }
+
+    this.removeSegment(id);
+    return replacements.map(segment => this.addSegment(segment, {
+      ...original.source,
+      derivedFrom: id
+    }));
+  }
+
+  // Queries
+
+  getElement(id: string): DrawingElement | undefined {
+    return this.elements.get(id);
+  }
+
+  getSegment(id: string): Segment | undefined {
+    return this.elements.get(id)?.segment;
+  }
+
+  has(id: string): boolean {
+    return this.elements.has(id);
+  }
+
+  getElementsForStroke(strokeId: string): DrawingElement[] {
+    const ids = this.strokeIndex.get(strokeId);
+    if (!ids) return [];
+
+    const result: DrawingElement[] = [];
+    for (const id of ids) {
+      const element = this.elements.get(id);
+      if (element) result.push(element);
+    }
+    return result;
+  }
+
+  /**
+   * Segments passing within `radius` of `point`, nearest first
+   */
+  segmentsNear(point: Vec2, radius: number): SegmentHit[] {
+    return this.spatialIndex.queryRadius(point, radius);
+  }
+
+  /**
+   * The `k` segments nearest to `point`, no farther than `maxDistance`
+   */
+  nearestSegments(point: Vec2, k: number = 1, maxDistance: number = Infinity): SegmentHit[] {
+    return this.spatialIndex.nearest(point, k, maxDistance);
+  }
+
+  /**
+   * Segments whose bounding boxes overlap `box`
+   */
+  segmentsInBox(box: BoundingBox): Segment[] {
+    return this.spatialIndex.queryBox(box);
+  }
+
+  get allElements(): ReadonlyArray<DrawingElement> {
+    return Array.from(this.elements.values());
+  }
+
+  get allSegments(): ReadonlyArray<Segment> {
+    return this.allElements.map(e => e.segment);
+  }
+
+  /**
+   * Segments keyed by id, the shape expected by `ConstraintSolver.solve`
+   */
+  get segmentMap(): ReadonlyMap<string, Segment> {
+    const map = new Map<string, Segment>();
+    for (const [id, element] of this.elements) {
+      map.set(id, element.segment);
+    }
+    return map;
+  }
+
+  get size(): number {
+    return this.elements.size;
+  }
+
+  /**
+   * Remove every element, emitting a removal event for each
+   */
+  clear(): void {
+    for (const id of Array.from(this.elements.keys())) {
+      this.removeSegment(id);
+    }
+  }
+
+  private indexStroke(element: DrawingElement): void {
+    const strokeId = element.source.strokeId;
+    if (strokeId === undefined) return;
+
+    let ids = this.strokeIndex.get(strokeId);
+    if (!ids) {
+      ids = new Set();
+      this.strokeIndex.set(strokeId, ids);
+    }
+    ids.add(element.id);
+  }
+
+  private unindexStroke(element: DrawingElement): void {
+    const strokeId = element.source.strokeId;
+    if (strokeId === undefined) return;
+
+    const ids = this.strokeIndex.get(strokeId);
+    if (!ids) return;
+
+    ids.delete(element.id);
+    if (ids.size === 0) {
+      this.strokeIndex.delete(strokeId);
+    }
+  }
+
+  private emit(event: DrawingChangeEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener(event);
+    }
+  }
+}
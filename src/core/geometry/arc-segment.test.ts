@@ -72,6 +72,18 @@ describe('ArcSegment', () => {
       expect(arc.sweepAngle).toBeGreaterThan(0);
     });
 
+    it('should place the center beyond the chord for bulges above one', () => {
+      const start = new Vec2(0, 0);
+      const end = new Vec2(10, 0);
+
+      const arc = ArcSegment.fromStartEndAndBulge(start, end, -2); // Clockwise, sweep > 180°
+
+      expect(arc.startPoint.isEqual(start, 1e-10)).toBe(true);
+      expect(arc.endPoint.isEqual(end, 1e-10)).toBe(true);
+      expect(arc.sweepAngle).toBeCloseTo(-4 * Math.atan(2));
+      expect(arc.center.y).toBeGreaterThan(0);
+    });
+
     it('should throw on zero radius', () => {
       expect(() => new ArcSegment(Vec2.ZERO, 0, 0, Math.PI)).toThrow('Arc radius cannot be zero');
     });
@@ -215,6 +227,12 @@ describe('ArcSegment', () => {
       const arc360 = new ArcSegment(Vec2.ZERO, 5, -Math.PI / 4, Math.PI / 2);
       expect(arc360.containsAngle(0)).toBe(true);
     });
+
+    it('should contain every angle of a full circle', () => {
+      const circle = new ArcSegment(Vec2.ZERO, 4, 0, Math.PI * 2);
+      expect(circle.containsAngle(1)).toBe(true);
+      expect(circle.distanceToPoint(new Vec2(0, 5))).toBeCloseTo(1);
+    });
   });
 
   describe('Transformations', () => {
@@ -249,6 +267,15 @@ describe('ArcSegment', () => {
       expect(transformed.sweepAngle).toBeCloseTo(Math.PI / 2);
     });
 
+    it('should reverse the sweep under reflection', () => {
+      const mirror = Mat3.scale(1, -1);
+      const transformed = arc.transform(mirror);
+
+      expect(transformed.startPoint.isEqual(mirror.transformPoint(arc.startPoint), 1e-10)).toBe(true);
+      expect(transformed.endPoint.isEqual(mirror.transformPoint(arc.endPoint), 1e-10)).toBe(true);
+      expect(transformed.sweepAngle).toBeCloseTo(-Math.PI / 2);
+    });
+
     it('should throw on non-uniform scaling', () => {
       const nonUniformScale = Mat3.scale(2, 3);
       expect(() => arc.transform(nonUniformScale)).toThrow('Non-uniform scaling');
@@ -291,6 +318,14 @@ describe('ArcSegment', () => {
       
       expect(clockwiseArc.length).toBeCloseTo(expectedLength);
     });
+
+    it('should find points by distance along the arc', () => {
+      const clockwiseArc = new ArcSegment(Vec2.ZERO, 10, 0, -Math.PI / 2);
+
+      expect(clockwiseArc.parameterAtLength(10 * Math.PI / 4)).toBeCloseTo(0.5, 12);
+      expect(clockwiseArc.lengthAtParameter(1)).toBeCloseTo(10 * Math.PI / 2, 12);
+      expect(clockwiseArc.pointAtLength(10 * Math.PI / 2).isEqual(new Vec2(0, -10), 1e-12)).toBe(true);
+    });
   });
 
   describe('Bounding Box', () => {
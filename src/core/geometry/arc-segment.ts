@@ -1,8 +1,17 @@
 import { Mat3 } from '../math/mat3.js';
 import { Vec2 } from '../math/vec2.js';
 
+import { SegmentIntersector } from './segment-intersection.js';
+import { SegmentJSON, SegmentSchema, Vec2JSON } from './segment-schema.js';
 import { Segment, SegmentType, SegmentIntersection, BoundingBox, SegmentUtils } from './segment.js';
 
+export interface ArcSegmentJSON extends SegmentJSON {
+  readonly center: Vec2JSON;
+  readonly radius: number;
+  readonly startAngle: number; // Radians
+  readonly sweepAngle: number; // Radians, positive = counterclockwise
+}
+
 /**
  * Immutable arc segment implementation for Zotebook.
  * Represents a circular arc defined by center, radius, start angle, and sweep angle.
@@ -79,8 +88,8 @@ export class ArcSegment extends Segment {
     const chordDirection = chord.normalized;
     const perpendicular = chordDirection.perpendicular;
     
-    // Distance from chord midpoint to center
-    const h = Math.sqrt(radius * radius - (chordLength / 2) * (chordLength / 2));
+    // Signed distance from chord midpoint to center; negative for sweeps beyond 180°
+    const h = radius * Math.cos(sweepAngle / 2);
     const centerOffset = perpendicular.multiply(h * (bulge > 0 ? 1 : -1));
     const center = chordMidpoint.add(centerOffset);
     
@@ -166,6 +175,15 @@ export class ArcSegment extends Segment {
     return this._startAngle + this._sweepAngle * t;
   }
 
+  // Arc-length parameterization: the parameter is already proportional to length
+  lengthAtParameter(t: number): number {
+    return this.clampParameter(t) * this.length;
+  }
+
+  parameterAtLength(s: number): number {
+    return this.length > 0 ? this.clampParameter(s / this.length) : 0;
+  }
+
   // Distance calculations
   distanceToPoint(point: Vec2): number {
     const centerToPoint = point.subtract(this._center);
@@ -225,6 +243,9 @@ export class ArcSegment extends Segment {
 
   // Arc-specific methods
   containsAngle(angle: number): boolean {
+    // A full turn starts and ends at the same angle but covers all of them
+    if (this.isClosed) return true;
+    
     const normalizedAngle = this.normalizeAngle(angle);
     const startAngle = this._startAngle;
     const endAngle = this.endAngle;
@@ -275,6 +296,13 @@ export class ArcSegment extends Segment {
     const newCenter = matrix.transformPoint(this._center);
     const newRadius = this._radius * Math.abs(scale.x);
     
+    // A reflection reverses the direction of travel around the center
+    if (matrix.determinant < 0) {
+      const newStart = matrix.transformPoint(this.startPoint);
+      const mirroredStartAngle = Math.atan2(newStart.y - newCenter.y, newStart.x - newCenter.x);
+      return new ArcSegment(newCenter, newRadius, mirroredStartAngle, -this._sweepAngle, this.id);
+    }
+    
     // Handle rotation
     const rotation = matrix.rotation;
     const newStartAngle = this._startAngle + rotation;
@@ -391,6 +419,11 @@ export class ArcSegment extends Segment {
     return Math.abs(ccwSweep) <= Math.PI ? ccwSweep : cwSweep;
   }
 
+  // Specialized intersection overrides
+  intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
+    return SegmentIntersector.intersect(this, other, tolerance);
+  }
+
   // Equality testing
   isEqual(other: Segment, tolerance: number = 1e-6): boolean {
     if (!(other instanceof ArcSegment)) {
@@ -404,7 +437,7 @@ export class ArcSegment extends Segment {
   }
 
   // Serialization
-  toJSON(): any {
+  toJSON(): ArcSegmentJSON {
     return {
       ...super.toJSON(),
       center: this._center.toJSON(),
@@ -414,9 +447,15 @@ export class ArcSegment extends Segment {
     };
   }
 
-  static fromJSON(data: any): ArcSegment {
-    const center = Vec2.fromJSON(data.center);
-    return new ArcSegment(center, data.radius, data.startAngle, data.sweepAngle, data.id);
+  static fromJSON(data: unknown, path: string = 'segment'): ArcSegment {
+    const record = SegmentSchema.expectHeader(data, SegmentType.ARC, path);
+    return new ArcSegment(
+      SegmentSchema.expectVec2(record, 'center', path),
+      SegmentSchema.expectPositiveNumber(record, 'radius', path),
+      SegmentSchema.expectNumber(record, 'startAngle', path),
+      SegmentSchema.expectNumber(record, 'sweepAngle', path),
+      SegmentSchema.expectString(record, 'id', path)
+    );
   }
 
   // Debug information
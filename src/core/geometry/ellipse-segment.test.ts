@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { EllipseSegment, EllipseSegmentUtils } from './ellipse-segment.js';
+import { segmentRegistry } from './segment-registry.js';
+import { SegmentType } from './segment.js';
+
+describe('EllipseSegment', () => {
+  // Axis-aligned ellipse with radii 4 and 2 around (10, 5)
+  const ellipse = EllipseSegment.fullEllipse(new Vec2(10, 5), 4, 2, 0, 'ellipse');
+  // Upper half of the same ellipse, counterclockwise from (14, 5) to (6, 5)
+  const upper = new EllipseSegment(new Vec2(10, 5), 4, 2, 0, 0, Math.PI, 'upper');
+  // Tilted by 30°
+  const tilted = EllipseSegment.fullEllipse(new Vec2(-3, 2), 5, 3, Math.PI / 6);
+
+  describe('Construction', () => {
+    it('should reject zero radii', () => {
+      expect(() => EllipseSegment.fullEllipse(Vec2.ZERO, 0, 2)).toThrow('zero');
+    });
+
+    it('should expose its parameters', () => {
+      expect(ellipse.type).toBe(SegmentType.ELLIPSE);
+      expect(ellipse.isClosed).toBe(true);
+      expect(upper.isClosed).toBe(false);
+      expect(upper.startPoint.isEqual(new Vec2(14, 5), 1e-12)).toBe(true);
+      expect(upper.endPoint.isEqual(new Vec2(6, 5), 1e-12)).toBe(true);
+      expect(upper.reverse().isClockwise).toBe(true);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should evaluate points by parametric angle', () => {
+      expect(upper.pointAt(0.5).isEqual(new Vec2(10, 7), 1e-12)).toBe(true);
+      expect(tilted.pointAt(0).isEqual(new Vec2(-3, 2).add(Vec2.fromPolar(5, Math.PI / 6)), 1e-12)).toBe(true);
+    });
+
+    it('should give unit tangents and curvature at the vertices', () => {
+      expect(upper.tangentAt(0).isEqual(Vec2.UNIT_Y, 1e-12)).toBe(true);
+      expect(upper.tangentAt(0.5).isEqual(new Vec2(-1, 0), 1e-12)).toBe(true);
+      // a / b² at the end of the major axis, b / a² at the end of the minor axis
+      expect(upper.curvatureAt(0)).toBeCloseTo(1, 12);
+      expect(upper.curvatureAt(0.5)).toBeCloseTo(0.125, 12);
+    });
+
+    it('should measure the perimeter', () => {
+      // Ramanujan's approximation is accurate to far better than 1e-6 here
+      const h = Math.pow(4 - 2, 2) / Math.pow(4 + 2, 2);
+      const perimeter = Math.PI * 6 * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+      expect(ellipse.length).toBeCloseTo(perimeter, 6);
+      expect(upper.length).toBeCloseTo(perimeter / 2, 6);
+    });
+
+    it('should find points by distance along the curve', () => {
+      expect(ellipse.lengthAtParameter(1)).toBeCloseTo(ellipse.length, 9);
+      expect(upper.pointAtLength(upper.length / 2).isEqual(new Vec2(10, 7), 1e-9)).toBe(true);
+      for (const s of [0.1, 3, 11.5, tilted.length - 0.1]) {
+        expect(tilted.lengthAtParameter(tilted.parameterAtLength(s))).toBeCloseTo(s, 9);
+      }
+
+      // Gaps between samples are equal along the curve, though not as chords
+      const samples = upper.sampleUniform(1);
+      const distances = samples.slice(0, -1).map(p => upper.lengthAtParameter(upper.closestPointTo(p).t));
+      distances.forEach((d, i) => expect(d).toBeCloseTo(i, 6));
+    });
+
+    it('should bound the curve tightly', () => {
+      const box = upper.boundingBox;
+      expect(box.min.isEqual(new Vec2(6, 5), 1e-9)).toBe(true);
+      expect(box.max.isEqual(new Vec2(14, 7), 1e-9)).toBe(true);
+
+      const samples = tilted.samplePoints(400);
+      const tiltedBox = tilted.boundingBox;
+      expect(Math.max(...samples.map(p => p.x))).toBeCloseTo(tiltedBox.max.x, 3);
+      expect(Math.min(...samples.map(p => p.y))).toBeCloseTo(tiltedBox.min.y, 3);
+    });
+  });
+
+  describe('Closest point', () => {
+    it('should find the exact closest point on a full ellipse', () => {
+      for (const query of [new Vec2(20, 9), new Vec2(10.5, 5.2), new Vec2(-5, -5), new Vec2(10, 5)]) {
+        const closest = tilted.closestPointTo(query);
+        const brute = Math.min(...tilted.samplePoints(20000).map(p => p.distanceTo(query)));
+        expect(closest.distance).toBeLessThanOrEqual(brute + 1e-6);
+        expect(tilted.pointAt(closest.t).isEqual(closest.point, 1e-9)).toBe(true);
+      }
+    });
+
+    it('should handle points on the major axis inside the ellipse', () => {
+      const closest = ellipse.closestPointTo(new Vec2(12, 5));
+      // Evolute cusp at a - b²/a = 3: inner points snap off the axis
+      expect(closest.distance).toBeLessThan(2);
+      expect(closest.point.y).not.toBeCloseTo(5, 6);
+    });
+
+    it('should clamp to an end point when the ellipse minimum lies outside the arc', () => {
+      const closest = upper.closestPointTo(new Vec2(13, 0));
+      expect(closest.t).toBe(0);
+      expect(closest.point.isEqual(new Vec2(14, 5), 1e-12)).toBe(true);
+    });
+
+    it('should agree with the distance method', () => {
+      const point = new Vec2(2, 8);
+      expect(upper.distanceToPoint(point)).toBeCloseTo(upper.closestPointTo(point).distance, 12);
+    });
+  });
+
+  describe('Transformation', () => {
+    it('should stay on the transformed curve under affine maps', () => {
+      const matrices = [
+        Mat3.rotation(0.7).multiply(Mat3.translation(3, -2)),
+        Mat3.scale(2, 0.5),
+        Mat3.scale(-1, 1)
+      ];
+      for (const matrix of matrices) {
+        const transformed = upper.transform(matrix);
+        expect(transformed.startPoint.isEqual(matrix.transformPoint(upper.startPoint), 1e-9)).toBe(true);
+        expect(transformed.endPoint.isEqual(matrix.transformPoint(upper.endPoint), 1e-9)).toBe(true);
+        for (const t of [0.2, 0.5, 0.8]) {
+          expect(transformed.distanceToPoint(matrix.transformPoint(upper.pointAt(t)))).toBeLessThan(1e-9);
+        }
+      }
+    });
+
+    it('should subdivide at the parameter', () => {
+      const [first, second] = upper.subdivide(0.25);
+      expect(first.endPoint.isEqual(upper.pointAt(0.25), 1e-12)).toBe(true);
+      expect(second.startPoint.isEqual(upper.pointAt(0.25), 1e-12)).toBe(true);
+      expect(first.length + second.length).toBeCloseTo(upper.length, 9);
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should round-trip through the registry', () => {
+      const restored = segmentRegistry.fromJSON(JSON.parse(JSON.stringify(tilted.toJSON())));
+
+      expect(restored).toBeInstanceOf(EllipseSegment);
+      expect(restored.id).toBe(tilted.id);
+      expect(restored.isEqual(tilted)).toBe(true);
+    });
+
+    it('should reject non-positive radii', () => {
+      expect(() => EllipseSegment.fromJSON({ ...upper.toJSON(), radiusY: -1 })).toThrow('radiusY');
+    });
+  });
+});
+
+describe('EllipseSegmentUtils', () => {
+  it('should recover an ellipse from its conic coefficients', () => {
+    // (x - 1)² / 9 + (y + 2)² / 4 = 1
+    const ellipse = EllipseSegmentUtils.fromConic(4, 0, 9, -8, 36, 4 + 36 - 36);
+
+    expect(ellipse?.center.isEqual(new Vec2(1, -2), 1e-12)).toBe(true);
+    expect(ellipse?.radiusX).toBeCloseTo(3, 12);
+    expect(ellipse?.radiusY).toBeCloseTo(2, 12);
+  });
+
+  it('should reject hyperbolas', () => {
+    expect(EllipseSegmentUtils.fromConic(1, 0, -1, 0, 0, -1)).toBeNull();
+  });
+});
@@ -0,0 +1,526 @@
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SegmentIntersector } from './segment-intersection.js';
+import { SegmentJSON, SegmentSchema, Vec2JSON } from './segment-schema.js';
+import { Segment, SegmentType, SegmentIntersection, BoundingBox, SegmentUtils } from './segment.js';
+
+export interface EllipseSegmentJSON extends SegmentJSON {
+  readonly center: Vec2JSON;
+  readonly radiusX: number;
+  readonly radiusY: number;
+  readonly rotation: number;   // Radians, direction of the x radius
+  readonly startAngle: number; // Radians, parametric angle
+  readonly sweepAngle: number; // Radians, positive = counterclockwise
+}
+
+// Gauss-Legendre nodes and weights on [-1, 1] used for arc lengths
+const GAUSS_NODES = [-0.9602898564975363, -0.7966664774136267, -0.5255324099163290, -0.1834346424956498,
+  0.1834346424956498, 0.5255324099163290, 0.7966664774136267, 0.9602898564975363];
+const GAUSS_WEIGHTS = [0.1012285362903763, 0.2223810344533745, 0.3137066458778873, 0.3626837833783620,
+  0.3626837833783620, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763];
+
+/**
+ * Immutable ellipse and elliptical arc segment implementation for Zotebook.
+ * Points are `center + R(rotation) · (radiusX cos θ, radiusY sin θ)` where the
+ * parametric angle θ runs from `startAngle` over `sweepAngle`; a full turn is a
+ * closed ellipse. Angles are parametric, not polar, as in SVG and canvas.
+ */
+export class EllipseSegment extends Segment {
+  private readonly _center: Vec2;
+  private readonly _radiusX: number;
+  private readonly _radiusY: number;
+  private readonly _rotation: number;
+  private readonly _startAngle: number;
+  private readonly _sweepAngle: number;
+
+  // Cached computed properties
+  private _axisX?: Vec2;
+  private _axisY?: Vec2;
+
+  constructor(
+    center: Vec2,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    sweepAngle: number,
+    id?: string
+  ) {
+    super(SegmentType.ELLIPSE, id);
+    this._center = center;
+    this._radiusX = Math.abs(radiusX);
+    this._radiusY = Math.abs(radiusY);
+    this._rotation = normalizeAngle(rotation);
+    this._startAngle = normalizeAngle(startAngle);
+    this._sweepAngle = sweepAngle;
+
+    if (this._radiusX === 0 || this._radiusY === 0) {
+      throw new Error('Ellipse radii cannot be zero');
+    }
+  }
+
+  // Static factory methods
+  static fullEllipse(center: Vec2, radiusX: number, radiusY: number, rotation: number = 0, id?: string): EllipseSegment {
+    return new EllipseSegment(center, radiusX, radiusY, rotation, 0, Math.PI * 2, id);
+  }
+
+  // Properties
+  get center(): Vec2 {
+    return this._center;
+  }
+
+  get radiusX(): number {
+    return this._radiusX;
+  }
+
+  get radiusY(): number {
+    return this._radiusY;
+  }
+
+  get rotation(): number {
+    return this._rotation;
+  }
+
+  get startAngle(): number {
+    return this._startAngle;
+  }
+
+  get sweepAngle(): number {
+    return this._sweepAngle;
+  }
+
+  get endAngle(): number {
+    return normalizeAngle(this._startAngle + this._sweepAngle);
+  }
+
+  /**
+   * Semi-axis vector along the x radius
+   */
+  get axisX(): Vec2 {
+    if (this._axisX === undefined) {
+      this._axisX = Vec2.fromPolar(this._radiusX, this._rotation);
+    }
+    return this._axisX;
+  }
+
+  /**
+   * Semi-axis vector along the y radius
+   */
+  get axisY(): Vec2 {
+    if (this._axisY === undefined) {
+      this._axisY = Vec2.fromPolar(this._radiusY, this._rotation + Math.PI / 2);
+    }
+    return this._axisY;
+  }
+
+  get startPoint(): Vec2 {
+    return this.pointAtAngle(this._startAngle);
+  }
+
+  get endPoint(): Vec2 {
+    return this.pointAtAngle(this._startAngle + this._sweepAngle);
+  }
+
+  get isClosed(): boolean {
+    return Math.abs(Math.abs(this._sweepAngle) - Math.PI * 2) < 1e-6;
+  }
+
+  get isClockwise(): boolean {
+    return this._sweepAngle < 0;
+  }
+
+  // Parametric evaluation
+  angleAt(t: number): number {
+    return this._startAngle + this._sweepAngle * t;
+  }
+
+  pointAtAngle(angle: number): Vec2 {
+    return this._center
+      .add(this.axisX.multiply(Math.cos(angle)))
+      .add(this.axisY.multiply(Math.sin(angle)));
+  }
+
+  pointAt(t: number): Vec2 {
+    return this.pointAtAngle(this.angleAt(t));
+  }
+
+  /**
+   * First derivative with respect to the segment parameter
+   */
+  derivativeAt(t: number): Vec2 {
+    const angle = this.angleAt(t);
+    return this.axisX.multiply(-Math.sin(angle))
+      .add(this.axisY.multiply(Math.cos(angle)))
+      .multiply(this._sweepAngle);
+  }
+
+  tangentAt(t: number): Vec2 {
+    return this.derivativeAt(t).normalized;
+  }
+
+  protected speedAt(t: number): number {
+    return this.derivativeAt(t).length;
+  }
+
+  normalAt(t: number): Vec2 {
+    return this.tangentAt(t).perpendicular;
+  }
+
+  curvatureAt(t: number): number {
+    const angle = this.angleAt(t);
+    const a = this._radiusX;
+    const b = this._radiusY;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    return (a * b) / Math.pow(a * a * sin * sin + b * b * cos * cos, 1.5);
+  }
+
+  // Distance calculations
+  distanceToPoint(point: Vec2): number {
+    return this.closestPointTo(point).distance;
+  }
+
+  /**
+   * Closest point on the segment. The closest point on the whole ellipse is
+   * exact (Eberly's bisection); for arcs that miss it, the local minima inside
+   * the sweep and the end points are compared.
+   */
+  closestPointTo(point: Vec2): { point: Vec2; t: number; distance: number } {
+    const angle = EllipseSegmentUtils.closestAngle(this.toLocal(point), this._radiusX, this._radiusY);
+    const t = this.angleToParameter(angle);
+    if (t !== null) {
+      const closest = this.pointAtAngle(angle);
+      return { point: closest, t, distance: closest.distanceTo(point) };
+    }
+
+    const candidates = [0, 1, ...this.localMinima(point)];
+    let best = { point: this.startPoint, t: 0, distance: Infinity };
+    for (const candidate of candidates) {
+      const closest = this.pointAt(candidate);
+      const distance = closest.distanceTo(point);
+      if (distance < best.distance) {
+        best = { point: closest, t: candidate, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Point in the ellipse's own frame: centered, x along the x radius
+   */
+  toLocal(point: Vec2): Vec2 {
+    return point.subtract(this._center).rotateBy(-this._rotation);
+  }
+
+  /**
+   * Segment parameter of a parametric angle, or null when the angle lies
+   * outside the sweep
+   */
+  angleToParameter(angle: number): number | null {
+    const sweep = Math.abs(this._sweepAngle);
+    const direction = Math.sign(this._sweepAngle) || 1;
+    let offset = ((angle - this._startAngle) * direction) % (Math.PI * 2);
+    if (offset < 0) offset += Math.PI * 2;
+
+    if (offset <= sweep + 1e-12) return sweep > 0 ? Math.min(1, offset / sweep) : 0;
+    // Just short of a full turn past the start is the start itself
+    if (Math.PI * 2 - offset < 1e-12) return 0;
+    return null;
+  }
+
+  containsAngle(angle: number): boolean {
+    return this.angleToParameter(angle) !== null;
+  }
+
+  // Transformation: the affine image of an ellipse is an ellipse
+  transform(matrix: Mat3): EllipseSegment {
+    const center = matrix.transformPoint(this._center);
+    const u = matrix.transformVector(this.axisX);
+    const v = matrix.transformVector(this.axisY);
+
+    // u cos θ + v sin θ are conjugate semi-diameters; rotate θ onto the principal axes
+    const shift = 0.5 * Math.atan2(2 * u.dot(v), u.dot(u) - v.dot(v));
+    const axisX = u.multiply(Math.cos(shift)).add(v.multiply(Math.sin(shift)));
+    const axisY = v.multiply(Math.cos(shift)).subtract(u.multiply(Math.sin(shift)));
+
+    // A reflection reverses the parametric direction
+    const direction = axisX.cross(axisY) < 0 ? -1 : 1;
+    return new EllipseSegment(
+      center,
+      axisX.length,
+      axisY.length,
+      axisX.angle,
+      direction * (this._startAngle - shift),
+      direction * this._sweepAngle,
+      this.id
+    );
+  }
+
+  // Subdivision
+  subdivide(t: number): [EllipseSegment, EllipseSegment] {
+    const split = this._sweepAngle * t;
+    return [
+      new EllipseSegment(this._center, this._radiusX, this._radiusY, this._rotation, this._startAngle, split),
+      new EllipseSegment(
+        this._center, this._radiusX, this._radiusY, this._rotation,
+        this._startAngle + split, this._sweepAngle - split
+      )
+    ];
+  }
+
+  // Cloning and copying
+  clone(): EllipseSegment {
+    return new EllipseSegment(
+      this._center, this._radiusX, this._radiusY, this._rotation, this._startAngle, this._sweepAngle, this.id
+    );
+  }
+
+  reverse(): EllipseSegment {
+    return new EllipseSegment(
+      this._center, this._radiusX, this._radiusY, this._rotation,
+      this._startAngle + this._sweepAngle, -this._sweepAngle
+    );
+  }
+
+  // Length computation: Gauss-Legendre quadrature over eighth turns
+  protected computeLength(): number {
+    const parts = Math.max(1, Math.ceil(Math.abs(this._sweepAngle) / (Math.PI / 4)));
+    const step = this._sweepAngle / parts;
+    const a = this._radiusX;
+    const b = this._radiusY;
+
+    let length = 0;
+    for (let part = 0; part < parts; part++) {
+      const middle = this._startAngle + step * (part + 0.5);
+      for (let i = 0; i < GAUSS_NODES.length; i++) {
+        const angle = middle + (step / 2) * (GAUSS_NODES[i] as number);
+        const speed = Math.hypot(a * Math.sin(angle), b * Math.cos(angle));
+        length += (GAUSS_WEIGHTS[i] as number) * speed * Math.abs(step) / 2;
+      }
+    }
+    return length;
+  }
+
+  // Bounding box computation: end points plus the axis extrema inside the sweep
+  protected computeBoundingBox(): BoundingBox {
+    const a = this._radiusX;
+    const b = this._radiusY;
+    const cos = Math.cos(this._rotation);
+    const sin = Math.sin(this._rotation);
+
+    // dx/dθ = 0 and dy/dθ = 0
+    const xExtreme = Math.atan2(-b * sin, a * cos);
+    const yExtreme = Math.atan2(b * cos, a * sin);
+
+    const points = [this.startPoint, this.endPoint];
+    for (const angle of [xExtreme, xExtreme + Math.PI, yExtreme, yExtreme + Math.PI]) {
+      if (this.isClosed || this.containsAngle(angle)) {
+        points.push(this.pointAtAngle(angle));
+      }
+    }
+    return SegmentUtils.createBoundingBox(points);
+  }
+
+  // Specialized intersection overrides
+  intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
+    return SegmentIntersector.intersect(this, other, tolerance);
+  }
+
+  // Equality testing
+  isEqual(other: Segment, tolerance: number = 1e-6): boolean {
+    if (!(other instanceof EllipseSegment)) {
+      return false;
+    }
+
+    return this._center.isEqual(other._center, tolerance) &&
+           Math.abs(this._radiusX - other._radiusX) <= tolerance &&
+           Math.abs(this._radiusY - other._radiusY) <= tolerance &&
+           Math.abs(normalizeAngle(this._rotation - other._rotation)) <= tolerance &&
+           Math.abs(normalizeAngle(this._startAngle - other._startAngle)) <= tolerance &&
+           Math.abs(this._sweepAngle - other._sweepAngle) <= tolerance;
+  }
+
+  // Serialization
+  toJSON(): EllipseSegmentJSON {
+    return {
+      ...super.toJSON(),
+      center: this._center.toJSON(),
+      radiusX: this._radiusX,
+      radiusY: this._radiusY,
+      rotation: this._rotation,
+      startAngle: this._startAngle,
+      sweepAngle: this._sweepAngle
+    };
+  }
+
+  static fromJSON(data: unknown, path: string = 'segment'): EllipseSegment {
+    const record = SegmentSchema.expectHeader(data, SegmentType.ELLIPSE, path);
+    return new EllipseSegment(
+      SegmentSchema.expectVec2(record, 'center', path),
+      SegmentSchema.expectPositiveNumber(record, 'radiusX', path),
+      SegmentSchema.expectPositiveNumber(record, 'radiusY', path),
+      SegmentSchema.expectNumber(record, 'rotation', path),
+      SegmentSchema.expectNumber(record, 'startAngle', path),
+      SegmentSchema.expectNumber(record, 'sweepAngle', path),
+      SegmentSchema.expectString(record, 'id', path)
+    );
+  }
+
+  // Debug information
+  toString(): string {
+    const degrees = (rad: number): string => (rad * 180 / Math.PI).toFixed(1);
+    return `ELLIPSE[center=${this._center.toString()}, rx=${this._radiusX.toFixed(3)}, ry=${this._radiusY.toFixed(3)}, ` +
+           `rotation=${degrees(this._rotation)}°, start=${degrees(this._startAngle)}°, sweep=${degrees(this._sweepAngle)}°]`;
+  }
+
+  // Segment parameters of the local distance minima inside the sweep
+  private localMinima(point: Vec2): number[] {
+    const samples = 64;
+    const distances = Array.from({ length: samples + 1 }, (_, i) => this.pointAt(i / samples).distanceToSquared(point));
+    const minima: number[] = [];
+
+    for (let i = 1; i < samples; i++) {
+      const d = distances[i] as number;
+      if (d <= (distances[i - 1] as number) && d <= (distances[i + 1] as number)) {
+        minima.push(this.refineParameter(point, i / samples));
+      }
+    }
+    return minima;
+  }
+
+  // Newton iterations on the squared distance, kept inside [0, 1]
+  private refineParameter(point: Vec2, t: number): number {
+    for (let iteration = 0; iteration < 16; iteration++) {
+      const angle = this.angleAt(t);
+      const offset = this.pointAtAngle(angle).subtract(point);
+      const d1 = this.derivativeAt(t);
+      const d2 = this.pointAtAngle(angle).subtract(this._center).multiply(-this._sweepAngle * this._sweepAngle);
+      const denominator = d1.dot(d1) + offset.dot(d2);
+      if (Math.abs(denominator) < 1e-12) break;
+
+      const next = this.clampParameter(t - offset.dot(d1) / denominator);
+      if (Math.abs(next - t) < 1e-14) break;
+      t = next;
+    }
+    return t;
+  }
+}
+
+function normalizeAngle(angle: number): number {
+  while (angle > Math.PI) angle -= Math.PI * 2;
+  while (angle < -Math.PI) angle += Math.PI * 2;
+  return angle;
+}
+
+// Utility functions for working with ellipses
+export namespace EllipseSegmentUtils {
+  /**
+   * Parametric angle of the point closest to `local` on the axis-aligned ellipse
+   * with radii `a` and `b` centered at the origin. Uses the robust bisection of
+   * D. Eberly, "Distance from a Point to an Ellipse" on the first quadrant and
+   * mirrors the result back.
+   */
+  export function closestAngle(local: Vec2, a: number, b: number): number {
+    // The algorithm expects the larger radius first
+    const swap = a < b;
+    const e0 = swap ? b : a;
+    const e1 = swap ? a : b;
+    const y0 = Math.abs(swap ? local.y : local.x);
+    const y1 = Math.abs(swap ? local.x : local.y);
+
+    let x0: number;
+    let x1: number;
+    if (y1 > 0) {
+      if (y0 > 0) {
+        const z0 = y0 / e0;
+        const z1 = y1 / e1;
+        const g = z0 * z0 + z1 * z1 - 1;
+        if (g !== 0) {
+          const r0 = (e0 / e1) * (e0 / e1);
+          const root = bisectRoot(r0, z0, z1, g);
+          x0 = r0 * y0 / (root + r0);
+          x1 = y1 / (root + 1);
+        } else {
+          x0 = y0;
+          x1 = y1;
+        }
+      } else {
+        x0 = 0;
+        x1 = e1;
+      }
+    } else {
+      const numerator = e0 * y0;
+      const denominator = e0 * e0 - e1 * e1;
+      if (numerator < denominator) {
+        const ratio = numerator / denominator;
+        x0 = e0 * ratio;
+        x1 = e1 * Math.sqrt(Math.max(0, 1 - ratio * ratio));
+      } else {
+        x0 = e0;
+        x1 = 0;
+      }
+    }
+
+    // Back to the original quadrant and axis order
+    const sx = Math.sign(swap ? local.y : local.x) || 1;
+    const sy = Math.sign(swap ? local.x : local.y) || 1;
+    const px = swap ? x1 * sy : x0 * sx;
+    const py = swap ? x0 * sx : x1 * sy;
+    return Math.atan2(py / b, px / a);
+  }
+
+  function bisectRoot(r0: number, z0: number, z1: number, g: number): number {
+    const n0 = r0 * z0;
+    let s0 = z1 - 1;
+    let s1 = g < 0 ? 0 : Math.hypot(n0, z1) - 1;
+    let s = 0;
+    for (let i = 0; i < 200; i++) {
+      s = (s0 + s1) / 2;
+      if (s === s0 || s === s1) break;
+      const ratio0 = n0 / (s + r0);
+      const ratio1 = z1 / (s + 1);
+      const value = ratio0 * ratio0 + ratio1 * ratio1 - 1;
+      if (value > 0) {
+        s0 = s;
+      } else if (value < 0) {
+        s1 = s;
+      } else {
+        break;
+      }
+    }
+    return s;
+  }
+
+  /**
+   * Ellipse described by the conic `A x² + B xy + C y² + D x + E y + F = 0`, or
+   * null when the conic is not a real ellipse. The x radius is the major one.
+   */
+  export function fromConic(
+    A: number, B: number, C: number, D: number, E: number, F: number
+  ): { center: Vec2; radiusX: number; radiusY: number; rotation: number } | null {
+    const discriminant = 4 * A * C - B * B;
+    if (discriminant <= 0) return null;
+
+    const center = new Vec2((B * E - 2 * C * D) / discriminant, (B * D - 2 * A * E) / discriminant);
+    const constant = A * center.x * center.x + B * center.x * center.y + C * center.y * center.y +
+      D * center.x + E * center.y + F;
+
+    const rotation = 0.5 * Math.atan2(B, A - C);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const alongX = A * cos * cos + B * cos * sin + C * sin * sin;
+    const alongY = A * sin * sin - B * cos * sin + C * cos * cos;
+
+    const rx2 = -constant / alongX;
+    const ry2 = -constant / alongY;
+    if (!(rx2 > 0) || !(ry2 > 0)) return null;
+
+    // Report the major axis first
+    if (rx2 < ry2) {
+      const major = rotation > 0 ? rotation - Math.PI / 2 : rotation + Math.PI / 2;
+      return { center, radiusX: Math.sqrt(ry2), radiusY: Math.sqrt(rx2), rotation: major };
+    }
+    return { center, radiusX: Math.sqrt(rx2), radiusY: Math.sqrt(ry2), rotation };
+  }
+}
@@ -111,6 +111,29 @@ describe('LineSegment', () => {
       expect(line.curvatureAt(0.5)).toBe(0);
       expect(line.curvatureAt(1)).toBe(0);
     });
+
+    it('should convert between length and parameter', () => {
+      const length = Math.sqrt(500);
+      expect(line.lengthAtParameter(0.25)).toBeCloseTo(length / 4, 12);
+      expect(line.parameterAtLength(length / 4)).toBeCloseTo(0.25, 12);
+      expect(line.parameterAtLength(-1)).toBe(0);
+      expect(line.parameterAtLength(length + 1)).toBe(1);
+    });
+
+    it('should sample at exact spacing with a shorter last gap', () => {
+      const points = new LineSegment(new Vec2(0, 0), new Vec2(10, 0)).sampleUniform(3);
+
+      expect(points.map(p => p.x)).toEqual([0, 3, 6, 9, 10]);
+      expect(() => line.sampleUniform(0)).toThrow('positive');
+    });
+
+    it('should find points by distance through a reparameterization', () => {
+      const eased = new LineSegment(new Vec2(0, 0), new Vec2(10, 0)).reparameterize(t => t * t);
+
+      expect(eased.pointAt(0.5).x).toBeCloseTo(2.5, 12);
+      expect(eased.pointAtLength(5).isEqual(new Vec2(5, 0), 1e-9)).toBe(true);
+      expect(eased.lengthAtParameter(0.5)).toBeCloseTo(2.5, 9);
+    });
   });
 
   describe('Distance Calculations', () => {
@@ -1,8 +1,15 @@
 import { Mat3 } from '../math/mat3.js';
 import { Vec2 } from '../math/vec2.js';
 
+import { SegmentIntersector } from './segment-intersection.js';
+import { SegmentJSON, SegmentSchema, Vec2JSON } from './segment-schema.js';
 import { Segment, SegmentType, SegmentIntersection, BoundingBox, SegmentUtils } from './segment.js';
 
+export interface LineSegmentJSON extends SegmentJSON {
+  readonly startPoint: Vec2JSON;
+  readonly endPoint: Vec2JSON;
+}
+
 /**
  * Immutable line segment implementation for Zotebook.
  * Represents a straight line between two points with efficient geometric operations.
@@ -88,6 +95,15 @@ export class LineSegment extends Segment {
     return 0; // Lines have zero curvature
   }
 
+  // Arc-length parameterization: the parameter is already proportional to length
+  lengthAtParameter(t: number): number {
+    return this.clampParameter(t) * this.length;
+  }
+
+  parameterAtLength(s: number): number {
+    return this.length > 0 ? this.clampParameter(s / this.length) : 0;
+  }
+
   // Distance calculations
   distanceToPoint(point: Vec2): number {
     return this.closestPointTo(point).distance;
@@ -302,13 +318,7 @@ export class LineSegment extends Segment {
 
   // Specialized intersection overrides
   intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
-    if (other instanceof LineSegment) {
-      const intersection = this.intersectWithLine(other, tolerance);
-      return intersection ? [intersection] : [];
-    }
-    
-    // Fall back to numerical method for other segment types
-    return super.intersectWithSegment(other, tolerance);
+    return SegmentIntersector.intersect(this, other, tolerance);
   }
 
   // Equality testing
@@ -324,7 +334,7 @@ export class LineSegment extends Segment {
   }
 
   // Serialization
-  toJSON(): any {
+  toJSON(): LineSegmentJSON {
     return {
       ...super.toJSON(),
       startPoint: this._startPoint.toJSON(),
@@ -332,10 +342,11 @@ export class LineSegment extends Segment {
     };
   }
 
-  static fromJSON(data: any): LineSegment {
-    const start = Vec2.fromJSON(data.startPoint);
-    const end = Vec2.fromJSON(data.endPoint);
-    return new LineSegment(start, end, data.id);
+  static fromJSON(data: unknown, path: string = 'segment'): LineSegment {
+    const record = SegmentSchema.expectHeader(data, SegmentType.LINE, path);
+    const start = SegmentSchema.expectVec2(record, 'startPoint', path);
+    const end = SegmentSchema.expectVec2(record, 'endPoint', path);
+    return new LineSegment(start, end, SegmentSchema.expectString(record, 'id', path));
   }
 
   // Additional utility methods
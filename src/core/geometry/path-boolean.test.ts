@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+
+import { circle, rectangle } from '../../test/geometry.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { PathBoolean, Region } from './path-boolean.js';
+import { Path } from './path.js';
+
+// Filled area of a result: outlines minus their holes
+function area(regions: ReadonlyArray<Region>): number {
+  return regions.reduce((sum, region) => sum + region.outer.area - region.holes.reduce((h, hole) => h + hole.area, 0), 0);
+}
+
+describe('PathBoolean', () => {
+  // Two radius 5 circles 6 apart overlap in a lens
+  const left = circle(new Vec2(0, 0), 5);
+  const right = circle(new Vec2(6, 0), 5);
+  const lens = 50 * Math.acos(0.6) - 24;
+
+  describe('Circles', () => {
+    it('should merge overlapping circles into one outline of arcs', () => {
+      const result = PathBoolean.union(left, right);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.outer.segments.every(segment => segment instanceof ArcSegment)).toBe(true);
+      expect(result[0]?.outer.isClockwise).toBe(false);
+      expect(area(result)).toBeCloseTo(Math.PI * 50 - lens, 9);
+    });
+
+    it('should intersect overlapping circles in a lens', () => {
+      const result = PathBoolean.intersection(left, right);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.outer.segmentCount).toBe(2);
+      expect(area(result)).toBeCloseTo(lens, 9);
+    });
+
+    it('should bite one circle out of the other', () => {
+      const result = PathBoolean.difference(left, right);
+      expect(area(result)).toBeCloseTo(Math.PI * 25 - lens, 9);
+    });
+
+    it('should keep disjoint shapes apart and absorb contained ones', () => {
+      const far = circle(new Vec2(20, 0), 5);
+      expect(PathBoolean.union(left, far)).toHaveLength(2);
+
+      const small = circle(new Vec2(1, 0), 2);
+      const result = PathBoolean.union(left, small);
+      expect(result).toHaveLength(1);
+      expect(area(result)).toBeCloseTo(Math.PI * 25, 9);
+    });
+  });
+
+  describe('Tangent shapes', () => {
+    it('should keep both of two circles touching at one point', () => {
+      const above = circle(new Vec2(0, 10), 5);
+
+      expect(area(PathBoolean.union(left, above))).toBeCloseTo(Math.PI * 50, 9);
+      expect(area(PathBoolean.xor(left, above))).toBeCloseTo(Math.PI * 50, 9);
+      expect(area(PathBoolean.difference(left, above))).toBeCloseTo(Math.PI * 25, 9);
+      expect(PathBoolean.intersection(left, above)).toHaveLength(0);
+    });
+
+    it('should keep a circle touching another at its seam', () => {
+      // The circles meet at (5, 0): the seam of `left` and the middle of `touching`
+      const touching = circle(new Vec2(10, 0), 5);
+
+      expect(PathBoolean.union(left, touching)).toHaveLength(2);
+      expect(area(PathBoolean.union(left, touching))).toBeCloseTo(Math.PI * 50, 9);
+      expect(area(PathBoolean.xor(left, touching))).toBeCloseTo(Math.PI * 50, 9);
+      expect(area(PathBoolean.difference(touching, left))).toBeCloseTo(Math.PI * 25, 9);
+    });
+
+    it('should cut a circle touching the inside of another', () => {
+      // Both circles run through (-5, 0) halfway round
+      const inner = circle(new Vec2(-3, 0), 2);
+
+      expect(area(PathBoolean.union(left, inner))).toBeCloseTo(Math.PI * 25, 9);
+      expect(area(PathBoolean.intersection(left, inner))).toBeCloseTo(Math.PI * 4, 9);
+      expect(area(PathBoolean.difference(left, inner))).toBeCloseTo(Math.PI * 21, 9);
+    });
+  });
+
+  describe('Holes', () => {
+    const plate = rectangle(0, 0, 10, 10);
+    const hole = circle(new Vec2(5, 5), 2);
+
+    it('should cut a hole out of a plate', () => {
+      const result = PathBoolean.difference(plate, hole);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.holes).toHaveLength(1);
+      expect(result[0]?.holes[0]?.isClockwise).toBe(true);
+      expect(result[0]?.holes[0]?.segments[0]).toBeInstanceOf(ArcSegment);
+      expect(area(result)).toBeCloseTo(100 - Math.PI * 4, 9);
+    });
+
+    it('should notch an edge without leaving a hole', () => {
+      const result = PathBoolean.difference(plate, circle(new Vec2(10, 5), 2));
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.holes).toHaveLength(0);
+      expect(area(result)).toBeCloseTo(100 - Math.PI * 2, 9);
+    });
+
+    it('should read shapes with holes even-odd, whichever way the contours run', () => {
+      const holed = [plate.reverse(), hole];
+      const result = PathBoolean.intersection(holed, rectangle(0, 0, 5, 10));
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.holes).toHaveLength(0);
+      expect(area(result)).toBeCloseTo(50 - Math.PI * 2, 9);
+    });
+  });
+
+  describe('Polygons', () => {
+    const a = rectangle(0, 0, 10, 10);
+    const b = rectangle(5, 5, 15, 15);
+
+    it('should split xor into the pieces touching at corners', () => {
+      const result = PathBoolean.xor(a, b);
+
+      expect(result).toHaveLength(2);
+      expect(area(result)).toBeCloseTo(150, 9);
+    });
+
+    it('should merge squares sharing an edge', () => {
+      const result = PathBoolean.union(a, rectangle(10, 0, 20, 10));
+
+      expect(result).toHaveLength(1);
+      expect(area(result)).toBeCloseTo(200, 9);
+      expect(result[0]?.outer.length).toBeCloseTo(60, 9);
+    });
+
+    it('should leave nothing when subtracting a shape from itself', () => {
+      expect(PathBoolean.difference(a, a)).toEqual([]);
+      expect(area(PathBoolean.intersection(a, a))).toBeCloseTo(100, 9);
+    });
+
+    it('should reject open contours', () => {
+      const open = Path.fromPoints([new Vec2(0, 0), new Vec2(1, 0), new Vec2(1, 1)]);
+      expect(() => PathBoolean.union(open, a)).toThrow('closed');
+    });
+  });
+});
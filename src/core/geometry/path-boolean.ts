@@ -0,0 +1,199 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { Path } from './path.js';
+import { SegmentEditing } from './segment-editing.js';
+import { Segment } from './segment.js';
+
+/**
+ * Boolean operations on closed regions for Zotebook.
+ * Shapes are sets of closed line/arc contours filled even-odd, so a plate with
+ * a hole is its outline plus the hole, whichever way each runs. Both shapes are
+ * split where their boundaries cross; every piece with the result on exactly
+ * one side is kept, turned so the result lies on its left, and the pieces are
+ * chained back into contours. Arcs stay arcs throughout.
+ */
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+export type Shape = Path | ReadonlyArray<Path>;
+
+/**
+ * One connected piece of a result: a counterclockwise outline and the
+ * clockwise holes inside it
+ */
+export interface Region {
+  readonly outer: Path;
+  readonly holes: ReadonlyArray<Path>;
+}
+
+export namespace PathBoolean {
+  // Where pieces and holes are sampled. Boundaries are split where they cross, so a
+  // piece shares the other boundary at every sample or at most one, where it touches
+  const SAMPLES = [0.5, 0.3, 0.7, 0.1, 0.9];
+
+  export function union(a: Shape, b: Shape, tolerance: number = 1e-6): Region[] {
+    return compute('union', a, b, tolerance);
+  }
+
+  export function intersection(a: Shape, b: Shape, tolerance: number = 1e-6): Region[] {
+    return compute('intersection', a, b, tolerance);
+  }
+
+  /**
+   * The parts of `a` outside `b`
+   */
+  export function difference(a: Shape, b: Shape, tolerance: number = 1e-6): Region[] {
+    return compute('difference', a, b, tolerance);
+  }
+
+  export function xor(a: Shape, b: Shape, tolerance: number = 1e-6): Region[] {
+    return compute('xor', a, b, tolerance);
+  }
+
+  /**
+   * Apply `operation` to two shapes. Throws if a contour is open or holds
+   * anything but lines and arcs.
+   */
+  export function compute(operation: BooleanOperation, a: Shape, b: Shape, tolerance: number = 1e-6): Region[] {
+    const contoursA = validate(a);
+    const contoursB = validate(b);
+    const segmentsA = contoursA.flatMap(contour => [...contour.segments]);
+    const segmentsB = contoursB.flatMap(contour => [...contour.segments]);
+
+    const inResult = (point: Vec2): boolean => combine(operation, insideShape(contoursA, point), insideShape(contoursB, point));
+    // Sides are probed this far off each piece; features narrower than this are lost
+    const probe = tolerance * 100;
+
+    const kept: Segment[] = [];
+    const consider = (piece: Segment, others: ReadonlyArray<Segment>): void => {
+      if (piece.length <= tolerance) return;
+      // Probe away from the other boundary, which a piece may touch where shapes are tangent
+      const t = SAMPLES.find(s => !onAny(others, piece.pointAt(s), probe)) ?? 0.5;
+      const point = piece.pointAt(t);
+      const left = piece.tangentAt(t).perpendicular.multiply(probe);
+      const leftIn = inResult(point.add(left));
+      const rightIn = inResult(point.subtract(left));
+      if (leftIn === rightIn) return;
+      kept.push(leftIn ? piece : piece.reverse());
+    };
+
+    for (const piece of splitAgainst(segmentsA, segmentsB, tolerance)) consider(piece, segmentsB);
+    for (const piece of splitAgainst(segmentsB, segmentsA, tolerance)) {
+      // Stretches both boundaries share are already covered by the pieces of `a`
+      if (SAMPLES.every(s => onAny(segmentsA, piece.pointAt(s), probe / 10))) continue;
+      consider(piece, segmentsA);
+    }
+
+    return assemble(chain(kept, tolerance * 10), tolerance * 10);
+  }
+
+  function validate(shape: Shape): Path[] {
+    const contours = shape instanceof Path ? [shape] : [...shape];
+    for (const contour of contours) {
+      if (!contour.isClosed) {
+        throw new Error('Boolean operations need closed contours');
+      }
+      if (!contour.segments.every(segment => segment instanceof LineSegment || segment instanceof ArcSegment)) {
+        throw new Error('Boolean operations support contours of lines and arcs only');
+      }
+    }
+    return contours;
+  }
+
+  function combine(operation: BooleanOperation, inA: boolean, inB: boolean): boolean {
+    switch (operation) {
+      case 'union': return inA || inB;
+      case 'intersection': return inA && inB;
+      case 'difference': return inA && !inB;
+      case 'xor': return inA !== inB;
+    }
+  }
+
+  // Even-odd fill: inside when an odd number of contours enclose the point
+  function insideShape(contours: ReadonlyArray<Path>, point: Vec2): boolean {
+    let inside = false;
+    for (const contour of contours) {
+      if (contour.containsPoint(point)) inside = !inside;
+    }
+    return inside;
+  }
+
+  function onAny(segments: ReadonlyArray<Segment>, point: Vec2, tolerance: number): boolean {
+    return segments.some(segment => segment.distanceToPoint(point) <= tolerance);
+  }
+
+  // Every segment of `segments` cut where `others` cross it
+  function splitAgainst(segments: ReadonlyArray<Segment>, others: ReadonlyArray<Segment>, tolerance: number): Segment[] {
+    return segments.flatMap(segment => {
+      const cuts: number[] = [];
+      for (const other of others) {
+        for (const hit of segment.intersectWithSegment(other, tolerance)) cuts.push(hit.t1);
+      }
+      return SegmentEditing.splitAt(segment, cuts, tolerance);
+    });
+  }
+
+  /**
+   * Link pieces end to start into closed loops. Where several pieces leave the
+   * same point the sharpest left turn is taken, which keeps regions touching
+   * at a single point apart.
+   */
+  function chain(pieces: ReadonlyArray<Segment>, tolerance: number): Segment[][] {
+    const unused = new Set(pieces);
+    const loops: Segment[][] = [];
+
+    for (const first of pieces) {
+      if (!unused.has(first)) continue;
+      unused.delete(first);
+      const loop = [first];
+      let current = first;
+
+      while (!current.endPoint.isEqual(first.startPoint, tolerance)) {
+        const incoming = current.tangentAt(1);
+        let next: Segment | null = null;
+        let bestTurn = -Infinity;
+        for (const candidate of unused) {
+          if (!candidate.startPoint.isEqual(current.endPoint, tolerance)) continue;
+          const outgoing = candidate.tangentAt(0);
+          const turn = Math.atan2(incoming.cross(outgoing), incoming.dot(outgoing));
+          if (turn > bestTurn) {
+            bestTurn = turn;
+            next = candidate;
+          }
+        }
+        if (!next) break;
+        unused.delete(next);
+        loop.push(next);
+        current = next;
+      }
+
+      // Chains that fail to close come from slivers below the tolerance
+      if (current.endPoint.isEqual(first.startPoint, tolerance)) loops.push(loop);
+    }
+    return loops;
+  }
+
+  // Counterclockwise loops are outlines; each clockwise loop goes to the smallest outline around it
+  function assemble(loops: ReadonlyArray<Segment[]>, tolerance: number): Region[] {
+    const contours = loops.map(loop => new Path(loop, tolerance));
+    const outers = contours.filter(contour => contour.signedArea > 0).sort((p, q) => p.area - q.area);
+    const holes = contours.filter(contour => contour.signedArea < 0);
+
+    const regions = outers.map(outer => ({ outer, holes: [] as Path[] }));
+    for (const hole of holes) {
+      // Just off the first segment of the hole on its left, in the material around it,
+      // except where the hole touches its outline
+      for (const t of SAMPLES.map(s => s / hole.segmentCount)) {
+        const material = hole.pointAt(t).add(hole.tangentAt(t).perpendicular.multiply(tolerance * 10));
+        const owner = regions.find(region => region.outer.containsPoint(material));
+        if (owner) {
+          owner.holes.push(hole);
+          break;
+        }
+      }
+    }
+    return regions;
+  }
+}
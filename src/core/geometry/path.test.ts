@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment } from './line-segment.js';
+import { Path } from './path.js';
+import { SplineSegment } from './spline-segment.js';
+
+// Straight cubic from a to b with control points at the thirds
+function straightCubic(a: Vec2, b: Vec2): SplineSegment {
+  return SplineSegment.fromBezier(a, a.lerp(b, 1 / 3), a.lerp(b, 2 / 3), b);
+}
+
+describe('Path', () => {
+  const square = Path.fromPoints([new Vec2(0, 0), new Vec2(10, 0), new Vec2(10, 10), new Vec2(0, 10)], true);
+
+  describe('Construction', () => {
+    it('should reject empty and broken chains', () => {
+      expect(() => new Path([])).toThrow();
+      expect(() => new Path([
+        new LineSegment(new Vec2(0, 0), new Vec2(1, 0)),
+        new LineSegment(new Vec2(2, 0), new Vec2(3, 0))
+      ])).toThrow('not continuous between segments 0 and 1');
+    });
+
+    it('should close a polygon from its points', () => {
+      expect(square.segmentCount).toBe(4);
+      expect(square.isClosed).toBe(true);
+      expect(square.length).toBe(40);
+      expect(square.endPoint.isEqual(square.startPoint)).toBe(true);
+    });
+
+    it('should leave a polyline open', () => {
+      const polyline = Path.fromPoints([new Vec2(0, 0), new Vec2(3, 4), new Vec2(3, 10)]);
+      expect(polyline.isClosed).toBe(false);
+      expect(polyline.length).toBe(11);
+      expect(() => polyline.signedArea).toThrow();
+    });
+
+    it('should treat a single full circle as closed', () => {
+      const circle = new Path([new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2)]);
+      expect(circle.isClosed).toBe(true);
+      expect(circle.signedArea).toBeCloseTo(Math.PI * 25, 12);
+    });
+  });
+
+  describe('Parameterization', () => {
+    it('should split the global parameter evenly between members', () => {
+      expect(square.locate(0.375)).toEqual({ index: 1, t: 0.5 });
+      expect(square.pointAt(0.125).isEqual(new Vec2(5, 0), 1e-12)).toBe(true);
+      expect(square.tangentAt(0.3).isEqual(new Vec2(0, 1), 1e-12)).toBe(true);
+    });
+
+    it('should wrap closed paths and clamp open ones', () => {
+      expect(square.pointAt(1.125).isEqual(new Vec2(5, 0), 1e-12)).toBe(true);
+      expect(square.pointAtLength(-5).isEqual(new Vec2(0, 5), 1e-12)).toBe(true);
+
+      const polyline = Path.fromPoints([new Vec2(0, 0), new Vec2(10, 0)]);
+      expect(polyline.pointAt(2).isEqual(new Vec2(10, 0))).toBe(true);
+      expect(polyline.pointAtLength(-5).isEqual(new Vec2(0, 0))).toBe(true);
+    });
+
+    it('should look up points by arc length across members', () => {
+      const path = new Path([
+        new LineSegment(new Vec2(0, 0), new Vec2(10, 0)),
+        new ArcSegment(new Vec2(10, 5), 5, -Math.PI / 2, Math.PI)
+      ]);
+
+      expect(path.lengthBefore(1)).toBe(10);
+      expect(path.locateLength(10 + Math.PI * 2.5).index).toBe(1);
+      expect(path.locateLength(10 + Math.PI * 2.5).t).toBeCloseTo(0.5, 12);
+      expect(path.pointAtLength(10 + Math.PI * 2.5).isEqual(new Vec2(15, 5), 1e-12)).toBe(true);
+      expect(path.tangentAtLength(10 + Math.PI * 2.5).isEqual(new Vec2(0, 1), 1e-12)).toBe(true);
+    });
+
+    it('should invert arc length on curves that are not parameterized by it', () => {
+      // A straight cubic that runs fast at its end
+      const spline = new SplineSegment([new Vec2(0, 0), new Vec2(1, 0), new Vec2(2, 0), new Vec2(10, 0)]);
+      const path = new Path([spline]);
+
+      expect(path.pointAtLength(5).distanceTo(new Vec2(5, 0))).toBeLessThan(1e-9);
+      expect(spline.pointAt(0.5).distanceTo(new Vec2(5, 0))).toBeGreaterThan(1);
+    });
+  });
+
+  describe('Area and winding', () => {
+    it('should give counterclockwise contours a positive area', () => {
+      expect(square.signedArea).toBeCloseTo(100, 12);
+      expect(square.isClockwise).toBe(false);
+    });
+
+    it('should flip the sign when reversed', () => {
+      const reversed = square.reverse();
+
+      expect(reversed.signedArea).toBeCloseTo(-100, 12);
+      expect(reversed.isClockwise).toBe(true);
+      expect(reversed.area).toBeCloseTo(100, 12);
+      expect(reversed.startPoint.isEqual(new Vec2(0, 0))).toBe(true);
+      expect(reversed.pointAt(0.125).isEqual(new Vec2(0, 5), 1e-12)).toBe(true);
+    });
+
+    it('should measure a half disc exactly', () => {
+      const halfDisc = new Path([
+        new LineSegment(new Vec2(-5, 0), new Vec2(5, 0)),
+        new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI)
+      ]);
+      expect(halfDisc.signedArea).toBeCloseTo(Math.PI * 12.5, 12);
+    });
+
+    it('should count windings around points near arcs exactly', () => {
+      // A half disc: points between the chord and the arc are inside
+      const halfDisc = new Path([
+        new LineSegment(new Vec2(-5, 0), new Vec2(5, 0)),
+        new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI)
+      ]);
+
+      expect(halfDisc.windingNumber(new Vec2(0, 4.99))).toBe(1);
+      expect(halfDisc.reverse().windingNumber(new Vec2(3, 3.99))).toBe(-1);
+      expect(halfDisc.containsPoint(new Vec2(3, 4.01))).toBe(false);
+      expect(halfDisc.containsPoint(new Vec2(0, -0.01))).toBe(false);
+      expect(square.containsPoint(new Vec2(9.99, 0.01))).toBe(true);
+    });
+
+    it('should measure ellipses and splines exactly', () => {
+      const ellipse = new Path([EllipseSegment.fullEllipse(new Vec2(3, -2), 4, 2, Math.PI / 5)]);
+      expect(ellipse.signedArea).toBeCloseTo(Math.PI * 8, 12);
+
+      const corners = [new Vec2(0, 0), new Vec2(10, 0), new Vec2(10, 10), new Vec2(0, 10)];
+      const splineSquare = new Path(corners.map((corner, i) => straightCubic(corner, corners[(i + 1) % 4] as Vec2)));
+      expect(splineSquare.signedArea).toBeCloseTo(100, 9);
+    });
+  });
+});
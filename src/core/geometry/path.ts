@@ -0,0 +1,305 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment, LineSegmentUtils } from './line-segment.js';
+import { BoundingBox, Segment, SegmentUtils } from './segment.js';
+import { SplineSegment, SplineSegmentUtils } from './spline-segment.js';
+
+/**
+ * Composite path of connected segments for Zotebook.
+ * Holds an ordered chain whose members run end to start. The global parameter
+ * is split evenly between members, so `t = i / n` is the start of member `i`;
+ * arc-length lookups walk the members by their lengths instead. A path whose
+ * last member ends where the first starts is a closed contour with a signed
+ * area (positive counterclockwise in a y-up frame).
+ */
+
+// Samples per member when tracing curves without an exact formula as polylines
+const POLYLINE_SAMPLES = 64;
+
+// 3-point Gauss-Legendre rule on [0, 1], exact for the quintic area integrand of a cubic
+const AREA_NODES = [0.1127016653792583, 0.5, 0.8872983346207417];
+const AREA_WEIGHTS = [5 / 18, 8 / 18, 5 / 18];
+
+/**
+ * Immutable ordered chain of connected segments
+ */
+export class Path {
+  private readonly _segments: ReadonlyArray<Segment>;
+  private readonly _isClosed: boolean;
+
+  // Cached computed properties
+  private _offsets?: number[];
+  private _signedArea?: number;
+  private _boundingBox?: BoundingBox;
+
+  /**
+   * Throws if `segments` is empty or a member does not start where the previous
+   * one ends (within `tolerance`).
+   */
+  constructor(segments: ReadonlyArray<Segment>, tolerance: number = 1e-6) {
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    if (first === undefined || last === undefined) {
+      throw new Error('Path needs at least one segment');
+    }
+    segments.forEach((current, i) => {
+      const previous = segments[i - 1];
+      if (previous !== undefined && !previous.endPoint.isEqual(current.startPoint, tolerance)) {
+        throw new Error(`Path is not continuous between segments ${i - 1} and ${i}`);
+      }
+    });
+
+    this._segments = [...segments];
+    this._isClosed = segments.length === 1 ? first.isClosed : last.endPoint.isEqual(first.startPoint, tolerance);
+  }
+
+  // Static factory methods
+  static fromPoints(points: Vec2[], closed: boolean = false): Path {
+    if (points.length < 2) {
+      throw new Error('Path needs at least two points');
+    }
+    const vertices = closed && !(points[0] ?? Vec2.ZERO).isEqual(points[points.length - 1] ?? Vec2.ZERO)
+      ? [...points, points[0] ?? Vec2.ZERO]
+      : points;
+    return new Path(LineSegmentUtils.connectPoints(vertices));
+  }
+
+  // Basic properties
+  get segments(): ReadonlyArray<Segment> {
+    return this._segments;
+  }
+
+  get segmentCount(): number {
+    return this._segments.length;
+  }
+
+  get isClosed(): boolean {
+    return this._isClosed;
+  }
+
+  get startPoint(): Vec2 {
+    return this._segments[0]?.startPoint ?? Vec2.ZERO;
+  }
+
+  get endPoint(): Vec2 {
+    return this._segments[this._segments.length - 1]?.endPoint ?? Vec2.ZERO;
+  }
+
+  get length(): number {
+    const offsets = this.offsets;
+    return offsets[offsets.length - 1] ?? 0;
+  }
+
+  get boundingBox(): BoundingBox {
+    if (this._boundingBox === undefined) {
+      const corners = this._segments.flatMap(segment => [segment.boundingBox.min, segment.boundingBox.max]);
+      this._boundingBox = SegmentUtils.createBoundingBox(corners);
+    }
+    return this._boundingBox;
+  }
+
+  /**
+   * Area enclosed by a closed contour, positive when it runs counterclockwise.
+   * Throws for open paths.
+   */
+  get signedArea(): number {
+    if (!this._isClosed) {
+      throw new Error('Signed area is only defined for closed paths');
+    }
+    if (this._signedArea === undefined) {
+      this._signedArea = this._segments.reduce((sum, segment) => sum + PathUtils.signedAreaContribution(segment), 0);
+    }
+    return this._signedArea;
+  }
+
+  get area(): number {
+    return Math.abs(this.signedArea);
+  }
+
+  get isClockwise(): boolean {
+    return this.signedArea < 0;
+  }
+
+  /**
+   * Number of times a closed contour winds counterclockwise around `point`.
+   * Undefined for points on the contour itself.
+   */
+  windingNumber(point: Vec2): number {
+    if (!this._isClosed) {
+      throw new Error('Winding number is only defined for closed paths');
+    }
+    const turn = this._segments.reduce((sum, segment) => sum + PathUtils.windingAngle(segment, point), 0);
+    return Math.round(turn / (Math.PI * 2));
+  }
+
+  /**
+   * Whether a closed contour encloses `point`, whichever way it runs
+   */
+  containsPoint(point: Vec2): boolean {
+    return this.windingNumber(point) !== 0;
+  }
+
+  // Global parameterization
+
+  /**
+   * Member index and member parameter for a global parameter. Closed paths
+   * wrap around; open paths clamp to their ends.
+   */
+  locate(t: number): { index: number; t: number } {
+    const n = this._segments.length;
+    const global = this._isClosed ? t - Math.floor(t) : Math.max(0, Math.min(1, t));
+    const scaled = global * n;
+    const index = Math.min(Math.floor(scaled), n - 1);
+    return { index, t: scaled - index };
+  }
+
+  pointAt(t: number): Vec2 {
+    const { index, t: local } = this.locate(t);
+    return this._segments[index]?.pointAt(local) ?? Vec2.ZERO;
+  }
+
+  tangentAt(t: number): Vec2 {
+    const { index, t: local } = this.locate(t);
+    return this._segments[index]?.tangentAt(local) ?? Vec2.ZERO;
+  }
+
+  // Arc-length lookups
+
+  /**
+   * Member index and member parameter at distance `s` along the path. Closed
+   * paths wrap around; open paths clamp to their ends.
+   */
+  locateLength(s: number): { index: number; t: number } {
+    const offsets = this.offsets;
+    const total = this.length;
+    const distance = this._isClosed && total > 0
+      ? s - Math.floor(s / total) * total
+      : Math.max(0, Math.min(total, s));
+
+    // Last member starting at or before the distance
+    let low = 0;
+    let high = this._segments.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((offsets[mid] ?? 0) <= distance) low = mid;
+      else high = mid - 1;
+    }
+
+    const along = distance - (offsets[low] ?? 0);
+    return { index: low, t: this._segments[low]?.parameterAtLength(along) ?? 0 };
+  }
+
+  pointAtLength(s: number): Vec2 {
+    const { index, t } = this.locateLength(s);
+    return this._segments[index]?.pointAt(t) ?? Vec2.ZERO;
+  }
+
+  tangentAtLength(s: number): Vec2 {
+    const { index, t } = this.locateLength(s);
+    return this._segments[index]?.tangentAt(t) ?? Vec2.ZERO;
+  }
+
+  /**
+   * Distance along the path to the start of member `index`
+   */
+  lengthBefore(index: number): number {
+    return this.offsets[Math.max(0, Math.min(this._segments.length, index))] ?? 0;
+  }
+
+  // Transformations
+
+  /**
+   * The same chain traversed the other way, members reversed
+   */
+  reverse(): Path {
+    return new Path([...this._segments].reverse().map(segment => segment.reverse()));
+  }
+
+  // Cumulative member lengths, starting at 0 and ending at the total length
+  private get offsets(): number[] {
+    if (this._offsets === undefined) {
+      const offsets = [0];
+      for (const segment of this._segments) {
+        offsets.push((offsets[offsets.length - 1] ?? 0) + segment.length);
+      }
+      this._offsets = offsets;
+    }
+    return this._offsets;
+  }
+}
+
+export namespace PathUtils {
+  /**
+   * A segment's share of the signed area of a closed contour it belongs to:
+   * half the integral of `x dy - y dx` along it (Green's theorem). Exact for
+   * lines, arcs, ellipses and splines; other segments are traced as polylines.
+   */
+  export function signedAreaContribution(segment: Segment): number {
+    const start = segment.startPoint;
+    const end = segment.endPoint;
+
+    if (segment instanceof LineSegment) {
+      return start.cross(end) / 2;
+    }
+    if (segment instanceof ArcSegment) {
+      return (segment.center.cross(end.subtract(start)) + segment.radius * segment.radius * segment.sweepAngle) / 2;
+    }
+    if (segment instanceof EllipseSegment) {
+      const axes = segment.radiusX * segment.radiusY;
+      return (segment.center.cross(end.subtract(start)) + axes * segment.sweepAngle) / 2;
+    }
+    if (segment instanceof SplineSegment) {
+      let sum = 0;
+      for (let i = 0; i < segment.pieceCount; i++) {
+        const piece = segment.piece(i);
+        AREA_NODES.forEach((u, k) => {
+          const point = SplineSegmentUtils.bezierPoint(piece, u);
+          const derivative = SplineSegmentUtils.bezierDerivative(piece, u);
+          sum += (AREA_WEIGHTS[k] ?? 0) * point.cross(derivative);
+        });
+      }
+      return sum / 2;
+    }
+
+    const points = segment.samplePoints(POLYLINE_SAMPLES + 1);
+    let sum = 0;
+    for (let i = 1; i < points.length; i++) {
+      sum += (points[i - 1] ?? Vec2.ZERO).cross(points[i] ?? Vec2.ZERO);
+    }
+    return sum / 2;
+  }
+
+  /**
+   * Signed angle `segment` sweeps as seen from `point`. An arc sweeps what its
+   * chord does, plus a full turn when the point lies between chord and arc.
+   * Exact for lines and arcs; other segments are traced as polylines.
+   */
+  export function windingAngle(segment: Segment, point: Vec2): number {
+    const start = segment.startPoint.subtract(point);
+    const end = segment.endPoint.subtract(point);
+    const chord = Math.atan2(start.cross(end), start.dot(end));
+
+    if (segment instanceof LineSegment) {
+      return chord;
+    }
+    if (segment instanceof ArcSegment) {
+      if (point.distanceTo(segment.center) >= segment.radius) return chord;
+      const span = segment.endPoint.subtract(segment.startPoint);
+      const between = segment.isClosed || span.isZero(1e-12) ||
+        Math.sign(span.cross(point.subtract(segment.startPoint))) ===
+        Math.sign(span.cross(segment.pointAt(0.5).subtract(segment.startPoint)));
+      return between ? chord + Math.sign(segment.sweepAngle) * Math.PI * 2 : chord;
+    }
+
+    const points = segment.samplePoints(POLYLINE_SAMPLES + 1).map(p => p.subtract(point));
+    let sum = 0;
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1] ?? Vec2.ZERO;
+      const b = points[i] ?? Vec2.ZERO;
+      sum += Math.atan2(a.cross(b), a.dot(b));
+    }
+    return sum;
+  }
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+
+import { expectSpan } from '../../test/geometry.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentEditing } from './segment-editing.js';
+import { SplineSegment } from './spline-segment.js';
+
+describe('SegmentEditing', () => {
+  // A horizontal line crossed by two verticals at x = 3 and x = 7
+  const horizontal = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'h');
+  const left = new LineSegment(new Vec2(3, -5), new Vec2(3, 5), 'left');
+  const right = new LineSegment(new Vec2(7, -5), new Vec2(7, 5), 'right');
+
+  describe('trim', () => {
+    it('should remove the picked stretch between two boundaries', () => {
+      const result = SegmentEditing.trim(horizontal, [left, right], new Vec2(5, 0.5));
+
+      expect(result).toHaveLength(2);
+      expectSpan(result?.[0]?.segment, new Vec2(0, 0), new Vec2(3, 0));
+      expectSpan(result?.[1]?.segment, new Vec2(7, 0), new Vec2(10, 0));
+      expect(result?.every(piece => piece.derivedFrom === 'h')).toBe(true);
+      expect(result?.every(piece => piece.segment.id !== 'h')).toBe(true);
+    });
+
+    it('should trim an end back to the nearest boundary', () => {
+      const result = SegmentEditing.trim(horizontal, [left, right], 0.9);
+
+      expect(result).toHaveLength(1);
+      expectSpan(result?.[0]?.segment, new Vec2(0, 0), new Vec2(7, 0));
+    });
+
+    it('should ignore boundaries that only touch an end', () => {
+      const touching = new LineSegment(new Vec2(10, -5), new Vec2(10, 5));
+      expect(SegmentEditing.trim(horizontal, [touching, horizontal], 0.5)).toBeNull();
+    });
+
+    it('should trim a circle across its seam', () => {
+      const circle = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2, 'circle');
+      const chord = new LineSegment(new Vec2(3, -10), new Vec2(3, 10));
+      const result = SegmentEditing.trim(circle, [chord], new Vec2(6, 0));
+
+      expect(result).toHaveLength(1);
+      const arc = result?.[0]?.segment as ArcSegment;
+      expectSpan(arc, new Vec2(3, 4), new Vec2(3, -4));
+      expect(arc.sweepAngle).toBeCloseTo(Math.PI * 2 - 2 * Math.atan2(4, 3), 9);
+    });
+  });
+
+  describe('extend', () => {
+    it('should grow a line end to the nearest boundary', () => {
+      const short = new LineSegment(new Vec2(0, 0), new Vec2(1, 0), 's');
+      const result = SegmentEditing.extend(short, 'end', [right, left]);
+
+      expect(result?.derivedFrom).toBe('s');
+      expectSpan(result?.segment, new Vec2(0, 0), new Vec2(3, 0));
+    });
+
+    it('should grow a line start backwards', () => {
+      const short = new LineSegment(new Vec2(5, 0), new Vec2(6, 0));
+      const result = SegmentEditing.extend(short, 'start', [left, right]);
+
+      expectSpan(result?.segment, new Vec2(3, 0), new Vec2(6, 0));
+    });
+
+    it('should stop at the end already touching a boundary', () => {
+      const touching = new LineSegment(new Vec2(0, 0), new Vec2(3, 0));
+      const result = SegmentEditing.extend(touching, 'end', [left, right]);
+
+      expectSpan(result?.segment, new Vec2(0, 0), new Vec2(7, 0));
+    });
+
+    it('should respect the maximum distance', () => {
+      const short = new LineSegment(new Vec2(0, 0), new Vec2(1, 0));
+      expect(SegmentEditing.extend(short, 'end', [right], 3)).toBeNull();
+    });
+
+    it('should grow an arc round its circle', () => {
+      const quarter = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI / 2, 'q');
+      const wall = new LineSegment(new Vec2(-3, 0), new Vec2(-3, 10));
+      const result = SegmentEditing.extend(quarter, 'end', [wall]);
+
+      const arc = result?.segment as ArcSegment;
+      expect(result?.derivedFrom).toBe('q');
+      expect(arc.startAngle).toBe(0);
+      expect(arc.endPoint.isEqual(new Vec2(-3, 4), 1e-9)).toBe(true);
+    });
+
+    it('should grow a clockwise arc backwards from its start', () => {
+      const clockwise = new ArcSegment(new Vec2(0, 0), 5, Math.PI / 2, -Math.PI / 2);
+      const floor = new LineSegment(new Vec2(-10, 3), new Vec2(10, 3));
+      const result = SegmentEditing.extend(clockwise, 'start', [floor]);
+
+      const arc = result?.segment as ArcSegment;
+      expect(arc.startPoint.isEqual(new Vec2(-4, 3), 1e-9)).toBe(true);
+      expect(arc.endPoint.isEqual(new Vec2(5, 0), 1e-9)).toBe(true);
+    });
+  });
+
+  describe('splitAtIntersections', () => {
+    it('should split every crossing segment with lineage', () => {
+      const result = SegmentEditing.splitAtIntersections([horizontal, left, right]);
+
+      expect(result.get('h')?.map(piece => piece.segment.length)).toEqual([3, 4, 3]);
+      expect(result.get('left')).toHaveLength(2);
+      expect(result.get('right')?.every(piece => piece.derivedFrom === 'right')).toBe(true);
+    });
+
+    it('should leave segments meeting end to end alone', () => {
+      const next = new LineSegment(new Vec2(10, 0), new Vec2(10, 10));
+      expect(SegmentEditing.splitAtIntersections([horizontal, next]).size).toBe(0);
+    });
+
+    it('should split a circle into the arcs between crossings', () => {
+      const circle = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2, 'circle');
+      const diameter = new LineSegment(new Vec2(-10, 0), new Vec2(10, 0), 'd');
+      const result = SegmentEditing.splitAtIntersections([circle, diameter]);
+      const arcs = result.get('circle')?.map(piece => piece.segment as ArcSegment);
+
+      expect(arcs).toHaveLength(2);
+      expect(arcs?.map(arc => arc.sweepAngle)).toEqual([Math.PI, Math.PI]);
+      expect(result.get('d')?.map(piece => piece.segment.length)).toEqual([5, 10, 5]);
+    });
+
+    it('should keep a circle crossed once whole', () => {
+      const circle = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2, 'circle');
+      const result = SegmentEditing.splitAtIntersections([circle, horizontal]);
+
+      expect(result.has('circle')).toBe(false);
+      expect(result.get('h')).toHaveLength(2);
+    });
+  });
+
+  describe('splitAt', () => {
+    // Two Bézier pieces, an arch and a dip
+    const wave = new SplineSegment([
+      new Vec2(0, 0), new Vec2(0, 10), new Vec2(10, 10), new Vec2(10, 0),
+      new Vec2(10, -10), new Vec2(20, -10), new Vec2(20, 0)
+    ], 'wave');
+
+    it('should cut a multi-piece spline at its own parameters', () => {
+      const pieces = SegmentEditing.splitAt(wave, [0.25, 0.75]);
+
+      expect(pieces).toHaveLength(3);
+      expectSpan(pieces[0], wave.startPoint, wave.pointAt(0.25));
+      expectSpan(pieces[1], wave.pointAt(0.25), wave.pointAt(0.75));
+      expectSpan(pieces[2], wave.pointAt(0.75), wave.endPoint);
+      expect(pieces[1]?.pointAt(0.5).isEqual(wave.pointAt(0.5), 1e-9)).toBe(true);
+    });
+
+    it('should cut within one piece of a spline', () => {
+      const pieces = SegmentEditing.splitAt(wave, [0.1, 0.4]);
+
+      expectSpan(pieces[1], wave.pointAt(0.1), wave.pointAt(0.4));
+      expect(pieces[1]?.pointAt(0.5).isEqual(wave.pointAt(0.25), 1e-9)).toBe(true);
+    });
+
+    it('should wrap the pieces of a closed spline past its seam', () => {
+      const loop = new SplineSegment([
+        new Vec2(0, 0), new Vec2(5, -5), new Vec2(15, -5), new Vec2(20, 0),
+        new Vec2(25, 5), new Vec2(25, 15), new Vec2(20, 20),
+        new Vec2(15, 25), new Vec2(5, 25), new Vec2(0, 20),
+        new Vec2(-5, 15), new Vec2(-5, 5), new Vec2(0, 0)
+      ]);
+      const pieces = SegmentEditing.splitAt(loop, [0.3, 0.8]);
+
+      expect(pieces).toHaveLength(2);
+      expectSpan(pieces[0], loop.pointAt(0.3), loop.pointAt(0.8));
+      expectSpan(pieces[1], loop.pointAt(0.8), loop.pointAt(0.3));
+    });
+
+    it('should meet a line where it crosses a multi-piece spline', () => {
+      // Crosses the arch, the joint and the dip
+      const line = new LineSegment(new Vec2(0, 9), new Vec2(20, -9), 'line');
+      const result = SegmentEditing.splitAtIntersections([wave, line]);
+      const pieces = result.get('wave')?.map(piece => piece.segment) ?? [];
+
+      expect(pieces).toHaveLength(4);
+      for (const piece of pieces.slice(1)) {
+        expect(line.distanceToPoint(piece.startPoint)).toBeLessThan(1e-6);
+      }
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentIntersector } from './segment-intersection.js';
+import { Segment, SegmentUtils } from './segment.js';
+import { SplineSegment } from './spline-segment.js';
+
+/**
+ * Trim, extend and split editing operations for Zotebook.
+ * Every operation is pure: it returns new segments (with fresh ids) that record
+ * the id of the segment they were cut from, ready to be applied with
+ * `DrawingModel.replaceSegment` or a `ReplaceSegmentCommand`.
+ */
+
+export interface DerivedSegment {
+  readonly segment: Segment;
+  readonly derivedFrom: string; // Id of the segment this one was cut from or grown out of
+}
+
+export type SegmentEnd = 'start' | 'end';
+
+export namespace SegmentEditing {
+  /**
+   * Trim away the part of `segment` picked at `pick` (a point near the segment
+   * or a parameter), up to the nearest intersection with `boundaries` on either
+   * side. Returns the remaining pieces, or null when no boundary crosses the
+   * segment.
+   */
+  export function trim(
+    segment: Segment,
+    boundaries: ReadonlyArray<Segment>,
+    pick: Vec2 | number,
+    tolerance: number = 1e-6
+  ): DerivedSegment[] | null {
+    const cuts = cutParameters(segment, boundaries, tolerance);
+    if (cuts.length === 0) return null;
+
+    const t = typeof pick === 'number' ? pick : segment.closestPointTo(pick).t;
+    const picked = Math.max(0, Math.min(1, t));
+    const before = cuts.filter(cut => cut < picked);
+    const after = cuts.filter(cut => cut > picked);
+
+    if (segment.isClosed) {
+      // The removed stretch may wrap past the seam; what is left runs from its far end round to its near end
+      const from = after[0] ?? (cuts[0] as number);
+      const to = before[before.length - 1] ?? (cuts[cuts.length - 1] as number);
+      if (from === to) return null;
+      return derive(segment, subSegments(segment, from, to));
+    }
+
+    const pieces: Segment[] = [];
+    const low = before[before.length - 1];
+    const high = after[0];
+    if (low !== undefined) pieces.push(...subSegments(segment, 0, low));
+    if (high !== undefined) pieces.push(...subSegments(segment, high, 1));
+    return derive(segment, pieces);
+  }
+
+  /**
+   * Lengthen one end of a line or arc until it meets the nearest of
+   * `boundaries`. Lines grow along their direction by at most `maxDistance`;
+   * arcs grow round their circle. Returns null when nothing is hit.
+   */
+  export function extend(
+    segment: LineSegment | ArcSegment,
+    end: SegmentEnd,
+    boundaries: ReadonlyArray<Segment>,
+    maxDistance: number = Infinity,
+    tolerance: number = 1e-6
+  ): DerivedSegment | null {
+    return segment instanceof LineSegment
+      ? extendLine(segment, end, boundaries, maxDistance, tolerance)
+      : extendArc(segment, end, boundaries, tolerance);
+  }
+
+  /**
+   * Split every segment at its intersections with the others. Returns the
+   * pieces keyed by the id of each segment that was actually split; segments
+   * only touching others at their ends are left out.
+   */
+  export function splitAtIntersections(
+    segments: ReadonlyArray<Segment>,
+    tolerance: number = 1e-6
+  ): Map<string, DerivedSegment[]> {
+    const cuts = segments.map(() => [] as number[]);
+
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        for (const intersection of SegmentIntersector.intersect(segments[i] as Segment, segments[j] as Segment, tolerance)) {
+          (cuts[i] as number[]).push(intersection.t1);
+          (cuts[j] as number[]).push(intersection.t2 ?? 0);
+        }
+      }
+    }
+
+    const result = new Map<string, DerivedSegment[]>();
+    segments.forEach((segment, i) => {
+      const pieces = splitAt(segment, cuts[i] as number[], tolerance);
+      if (pieces.length > 1) {
+        result.set(segment.id, derive(segment, pieces));
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Split one segment at the given parameters. Cuts at the ends of an open
+   * segment are ignored; a closed segment needs at least two cuts to fall apart.
+   * A segment that is not cut comes back unchanged.
+   */
+  export function splitAt(segment: Segment, parameters: ReadonlyArray<number>, tolerance: number = 1e-6): Segment[] {
+    const cuts = distinctInterior(segment, parameters, tolerance);
+    if (cuts.length === 0 || segment.isClosed && cuts.length < 2) return [segment];
+
+    if (segment.isClosed) {
+      const pieces: Segment[] = [];
+      cuts.forEach((cut, i) => pieces.push(...subSegments(segment, cut, cuts[(i + 1) % cuts.length] as number)));
+      return pieces;
+    }
+
+    const bounds = [0, ...cuts, 1];
+    const pieces: Segment[] = [];
+    for (let i = 0; i + 1 < bounds.length; i++) {
+      pieces.push(...subSegments(segment, bounds[i] as number, bounds[i + 1] as number));
+    }
+    return pieces;
+  }
+
+  /**
+   * The part of `segment` between parameters `from` and `to`. On a closed
+   * segment `from > to` wraps past the seam; arcs and ellipses stay a single
+   * segment, other curves come back as the two pieces either side of the seam.
+   * Pieces are new segments with their own ids unless the range covers the
+   * whole segment.
+   */
+  export function subSegments(segment: Segment, from: number, to: number): Segment[] {
+    if (from > to) {
+      if (segment instanceof ArcSegment) {
+        const sweep = segment.sweepAngle * (1 - from + to);
+        return [new ArcSegment(segment.center, segment.radius, segment.angleAt(from), sweep)];
+      }
+      if (segment instanceof EllipseSegment) {
+        const sweep = segment.sweepAngle * (1 - from + to);
+        return [new EllipseSegment(
+          segment.center, segment.radiusX, segment.radiusY, segment.rotation, segment.angleAt(from), sweep
+        )];
+      }
+      if (segment instanceof SplineSegment) {
+        const [tail] = subSegments(segment, from, 1) as [SplineSegment];
+        const [head] = subSegments(segment, 0, to) as [SplineSegment];
+        return [new SplineSegment([...tail.controlPoints, ...head.controlPoints.slice(1)])];
+      }
+      return [...subSegments(segment, from, 1), ...subSegments(segment, 0, to)];
+    }
+
+    if (segment instanceof SplineSegment && (from > 0 || to < 1)) {
+      return [segment.between(from, to)];
+    }
+
+    // Split off the tail first so `from` can be rescaled onto what remains
+    let piece = segment;
+    if (to < 1) piece = piece.subdivide(to)[0];
+    if (from > 0) piece = piece.subdivide(to > 0 ? from / to : 0)[1];
+    return [piece];
+  }
+
+  function extendLine(
+    line: LineSegment, end: SegmentEnd, boundaries: ReadonlyArray<Segment>, maxDistance: number, tolerance: number
+  ): DerivedSegment | null {
+    const origin = end === 'end' ? line.endPoint : line.startPoint;
+    const direction = end === 'end' ? line.direction : line.direction.negate();
+    const reach = Number.isFinite(maxDistance) ? maxDistance : farthestReach(origin, boundaries);
+    if (reach <= tolerance) return null;
+
+    const ray = new LineSegment(origin, origin.add(direction.multiply(reach)));
+    const distance = nearestHit(ray, boundaries, tolerance) * reach;
+    if (!Number.isFinite(distance)) return null;
+
+    const extended = end === 'end' ? line.extendEnd(distance) : line.extendStart(distance);
+    return { segment: extended, derivedFrom: line.id };
+  }
+
+  function extendArc(
+    arc: ArcSegment, end: SegmentEnd, boundaries: ReadonlyArray<Segment>, tolerance: number
+  ): DerivedSegment | null {
+    const remaining = Math.PI * 2 - Math.abs(arc.sweepAngle);
+    if (arc.isClosed || remaining <= 0) return null;
+
+    // The rest of the circle, walked away from the chosen end
+    const direction = Math.sign(arc.sweepAngle) || 1;
+    const path = end === 'end'
+      ? new ArcSegment(arc.center, arc.radius, arc.startAngle + arc.sweepAngle, direction * remaining)
+      : new ArcSegment(arc.center, arc.radius, arc.startAngle, -direction * remaining);
+
+    const t = nearestHit(path, boundaries, tolerance);
+    if (!Number.isFinite(t)) return null;
+
+    const growth = direction * remaining * t;
+    const extended = end === 'end'
+      ? new ArcSegment(arc.center, arc.radius, arc.startAngle, arc.sweepAngle + growth)
+      : new ArcSegment(arc.center, arc.radius, arc.startAngle - growth, arc.sweepAngle + growth);
+    return { segment: extended, derivedFrom: arc.id };
+  }
+
+  // Smallest parameter along `path` where it meets a boundary, skipping its own start
+  function nearestHit(path: Segment, boundaries: ReadonlyArray<Segment>, tolerance: number): number {
+    const epsilon = tolerance / Math.max(path.length, tolerance);
+    let nearest = Infinity;
+    for (const boundary of boundaries) {
+      for (const intersection of SegmentIntersector.intersect(path, boundary, tolerance)) {
+        if (intersection.t1 > epsilon && intersection.t1 < nearest) {
+          nearest = intersection.t1;
+        }
+      }
+    }
+    return nearest;
+  }
+
+  // Distance from `origin` past which no boundary lies
+  function farthestReach(origin: Vec2, boundaries: ReadonlyArray<Segment>): number {
+    let reach = 0;
+    for (const boundary of boundaries) {
+      const box = boundary.boundingBox;
+      for (const corner of [box.min, box.max, new Vec2(box.min.x, box.max.y), new Vec2(box.max.x, box.min.y)]) {
+        reach = Math.max(reach, origin.distanceTo(corner));
+      }
+    }
+    return reach;
+  }
+
+  // Parameters where boundaries cross the segment, sorted and without repeats
+  function cutParameters(segment: Segment, boundaries: ReadonlyArray<Segment>, tolerance: number): number[] {
+    const parameters: number[] = [];
+    for (const boundary of boundaries) {
+      if (boundary === segment || boundary.id === segment.id) continue;
+      if (!SegmentUtils.boundingBoxesIntersect(SegmentUtils.expandBoundingBox(segment.boundingBox, tolerance), boundary.boundingBox)) {
+        continue;
+      }
+      for (const intersection of SegmentIntersector.intersect(segment, boundary, tolerance)) {
+        parameters.push(intersection.t1);
+      }
+    }
+    return distinctInterior(segment, parameters, tolerance);
+  }
+
+  // Sorted parameters more than the tolerance apart, dropping the ends of open segments
+  function distinctInterior(segment: Segment, parameters: ReadonlyArray<number>, tolerance: number): number[] {
+    const epsilon = tolerance / Math.max(segment.length, tolerance);
+    const sorted = parameters
+      .map(t => Math.max(0, Math.min(1, t)))
+      .filter(t => segment.isClosed || (t > epsilon && t < 1 - epsilon))
+      .sort((a, b) => a - b);
+
+    const distinct: number[] = [];
+    for (const t of sorted) {
+      const last = distinct[distinct.length - 1];
+      if (last === undefined || t - last > epsilon) distinct.push(t);
+    }
+
+    // On a closed segment the seam joins 0 and 1
+    const first = distinct[0];
+    if (segment.isClosed && first !== undefined && distinct.length > 1 && 1 - (distinct[distinct.length - 1] as number) + first <= epsilon) {
+      distinct.pop();
+    }
+    return distinct;
+  }
+
+  function derive(original: Segment, pieces: ReadonlyArray<Segment>): DerivedSegment[] {
+    return pieces.map(segment => ({ segment, derivedFrom: original.id }));
+  }
+}
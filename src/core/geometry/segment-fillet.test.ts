@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+
+import { expectSpan } from '../../test/geometry.js';
+import { ConstraintType } from '../constraints/constraint.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentFillet } from './segment-fillet.js';
+
+describe('SegmentFillet', () => {
+  // Two lines meeting at a right angle at (10, 0)
+  const bottom = new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'bottom');
+  const side = new LineSegment(new Vec2(10, 0), new Vec2(10, 10), 'side');
+
+  describe('fillet', () => {
+    it('should round a right-angle corner with a tangent arc', () => {
+      const result = SegmentFillet.fillet(bottom, side, 2);
+      const arc = result?.corner as ArcSegment;
+
+      expect(arc.center.isEqual(new Vec2(8, 2), 1e-9)).toBe(true);
+      expect(arc.sweepAngle).toBeCloseTo(Math.PI / 2, 9);
+      expectSpan(result?.first.segment, new Vec2(0, 0), new Vec2(8, 0));
+      expectSpan(result?.second.segment, new Vec2(10, 2), new Vec2(10, 10));
+      expectSpan(arc, new Vec2(8, 0), new Vec2(10, 2));
+      expect(result?.first.derivedFrom).toBe('bottom');
+      expect(result?.second.derivedFrom).toBe('side');
+    });
+
+    it('should tie the corner together with constraints', () => {
+      const result = SegmentFillet.fillet(bottom, side, 2);
+      const first = result?.first.segment.id;
+      const arc = result?.corner.id as string;
+
+      expect(result?.constraints.map(c => c.type)).toEqual([
+        ConstraintType.COINCIDENT, ConstraintType.COINCIDENT, ConstraintType.TANGENT, ConstraintType.TANGENT
+      ]);
+      expect(result?.constraints[0]).toMatchObject({
+        pointA: { segmentId: first, point: 'end' },
+        pointB: { segmentId: arc, point: 'start' }
+      });
+      expect(result?.constraints[2]).toMatchObject({ segment1Id: first, segment2Id: arc });
+    });
+
+    it('should keep the longer side of crossing lines', () => {
+      const horizontal = new LineSegment(new Vec2(0, 0), new Vec2(10, 0));
+      const vertical = new LineSegment(new Vec2(8, -2), new Vec2(8, 10));
+      const result = SegmentFillet.fillet(horizontal, vertical, 1);
+
+      expect((result?.corner as ArcSegment).center.isEqual(new Vec2(7, 1), 1e-9)).toBe(true);
+      expectSpan(result?.first.segment, new Vec2(0, 0), new Vec2(7, 0));
+      expectSpan(result?.second.segment, new Vec2(8, 1), new Vec2(8, 10));
+    });
+
+    it('should fillet a line into an arc', () => {
+      const line = new LineSegment(new Vec2(-10, 0), new Vec2(0, 0));
+      const arc = new ArcSegment(new Vec2(5, 0), 5, Math.PI, -Math.PI / 2);
+      const result = SegmentFillet.fillet(line, arc, 1);
+      const fillet = result?.corner as ArcSegment;
+
+      expect(fillet.radius).toBe(1);
+      expect(line.distanceToPoint(fillet.center)).toBeCloseTo(1, 9);
+      expect(fillet.center.distanceTo(arc.center)).toBeCloseTo(6, 9);
+      expect(fillet.startPoint.isEqual(result?.first.segment.endPoint as Vec2, 1e-9)).toBe(true);
+      expect(fillet.endPoint.isEqual(result?.second.segment.startPoint as Vec2, 1e-9)).toBe(true);
+    });
+
+    it('should give up when the radius does not fit', () => {
+      expect(SegmentFillet.fillet(bottom, side, 20)).toBeNull();
+    });
+
+    it('should give up on segments that do not meet', () => {
+      const apart = new LineSegment(new Vec2(20, 0), new Vec2(20, 10));
+      expect(SegmentFillet.fillet(bottom, apart, 1)).toBeNull();
+    });
+  });
+
+  describe('chamfer', () => {
+    it('should cut a corner at equal distances', () => {
+      const result = SegmentFillet.chamfer(bottom, side, 2);
+
+      expectSpan(result?.corner, new Vec2(8, 0), new Vec2(10, 2));
+      expectSpan(result?.first.segment, new Vec2(0, 0), new Vec2(8, 0));
+      expectSpan(result?.second.segment, new Vec2(10, 2), new Vec2(10, 10));
+      expect(result?.constraints.every(c => c.type === ConstraintType.COINCIDENT)).toBe(true);
+    });
+
+    it('should cut a corner at unequal distances', () => {
+      const result = SegmentFillet.chamfer(bottom, side, 1, 3);
+      expectSpan(result?.corner, new Vec2(9, 0), new Vec2(10, 3));
+    });
+
+    it('should give up when a segment is too short', () => {
+      expect(SegmentFillet.chamfer(bottom, side, 12)).toBeNull();
+    });
+  });
+});
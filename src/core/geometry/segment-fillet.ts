@@ -0,0 +1,193 @@
+import { Constraint, ConstraintPoint, ConstraintUtils } from '../constraints/constraint.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { DerivedSegment, SegmentEditing, SegmentEnd } from './segment-editing.js';
+import { SegmentIntersector } from './segment-intersection.js';
+import { ChainSegment } from './segment-offset.js';
+import { Segment } from './segment.js';
+
+/**
+ * Fillet and chamfer corner operations for Zotebook.
+ * Both work on two lines or arcs that intersect. Each segment keeps its longer
+ * side of the intersection, trimmed back to where the new corner piece meets
+ * it, and the result carries the constraints that hold the corner together.
+ */
+
+export interface CornerResult<T extends Segment> {
+  readonly first: DerivedSegment;
+  readonly second: DerivedSegment;
+  readonly corner: T; // Runs from the first segment to the second
+  readonly constraints: Constraint[];
+}
+
+// Where two segments cross and which side of the crossing each one keeps
+interface Corner {
+  readonly point: Vec2;
+  readonly t1: number;
+  readonly t2: number;
+  readonly keep1: SegmentEnd;
+  readonly keep2: SegmentEnd;
+}
+
+export namespace SegmentFillet {
+  /**
+   * Round the corner between `first` and `second` with a tangent arc of
+   * `radius`. Returns null when the segments do not intersect or are too short
+   * to hold the arc.
+   */
+  export function fillet(
+    first: ChainSegment,
+    second: ChainSegment,
+    radius: number,
+    tolerance: number = 1e-6
+  ): CornerResult<ArcSegment> | null {
+    if (radius <= 0) throw new Error('Fillet radius must be positive');
+    const corner = findCorner(first, second, tolerance);
+    if (!corner) return null;
+
+    // The arc center is `radius` away from both carriers, on the kept sides
+    let best: { center: Vec2; t1: number; t2: number } | null = null;
+    const span = first.length + second.length + radius * 1e3;
+    for (const offset1 of carrierOffsets(first, corner.point, radius, span)) {
+      for (const offset2 of carrierOffsets(second, corner.point, radius, span)) {
+        for (const candidate of SegmentIntersector.intersect(offset1, offset2, tolerance)) {
+          const center = candidate.point;
+          const t1 = keptParameter(first, footOn(first, center), corner.t1, corner.keep1, tolerance);
+          const t2 = keptParameter(second, footOn(second, center), corner.t2, corner.keep2, tolerance);
+          if (t1 === null || t2 === null) continue;
+          if (!best || center.distanceTo(corner.point) < best.center.distanceTo(corner.point)) {
+            best = { center, t1, t2 };
+          }
+        }
+      }
+    }
+    if (!best) return null;
+
+    const trimmed1 = keepSide(first, best.t1, corner.keep1);
+    const trimmed2 = keepSide(second, best.t2, corner.keep2);
+    const from = first.pointAt(best.t1).subtract(best.center);
+    const to = second.pointAt(best.t2).subtract(best.center);
+    const arc = new ArcSegment(best.center, radius, from.angle, Math.atan2(from.cross(to), from.dot(to)));
+
+    return {
+      first: { segment: trimmed1, derivedFrom: first.id },
+      second: { segment: trimmed2, derivedFrom: second.id },
+      corner: arc,
+      constraints: [
+        ...joinConstraints(trimmed1, corner.keep1, trimmed2, corner.keep2, arc),
+        ConstraintUtils.tangent(trimmed1.id, arc.id),
+        ConstraintUtils.tangent(arc.id, trimmed2.id)
+      ]
+    };
+  }
+
+  /**
+   * Cut the corner between `first` and `second` with a straight line meeting
+   * them `distance1` and `distance2` along each from their intersection.
+   * Returns null when the segments do not intersect or are too short.
+   */
+  export function chamfer(
+    first: ChainSegment,
+    second: ChainSegment,
+    distance1: number,
+    distance2: number = distance1,
+    tolerance: number = 1e-6
+  ): CornerResult<LineSegment> | null {
+    if (distance1 <= 0 || distance2 <= 0) throw new Error('Chamfer distances must be positive');
+    const corner = findCorner(first, second, tolerance);
+    if (!corner) return null;
+
+    const t1 = alongKept(first, corner.t1, corner.keep1, distance1, tolerance);
+    const t2 = alongKept(second, corner.t2, corner.keep2, distance2, tolerance);
+    if (t1 === null || t2 === null) return null;
+
+    const trimmed1 = keepSide(first, t1, corner.keep1);
+    const trimmed2 = keepSide(second, t2, corner.keep2);
+    const line = new LineSegment(first.pointAt(t1), second.pointAt(t2));
+
+    return {
+      first: { segment: trimmed1, derivedFrom: first.id },
+      second: { segment: trimmed2, derivedFrom: second.id },
+      corner: line,
+      constraints: joinConstraints(trimmed1, corner.keep1, trimmed2, corner.keep2, line)
+    };
+  }
+
+  function findCorner(first: ChainSegment, second: ChainSegment, tolerance: number): Corner | null {
+    if (first.isClosed || second.isClosed) return null;
+    const [crossing] = SegmentIntersector.intersect(first, second, tolerance);
+    if (!crossing) return null;
+
+    const t2 = crossing.t2 ?? 0;
+    return {
+      point: crossing.point,
+      t1: crossing.t1,
+      t2,
+      keep1: crossing.t1 < 0.5 ? 'end' : 'start',
+      keep2: t2 < 0.5 ? 'end' : 'start'
+    };
+  }
+
+  // The carrier line or circle of a segment moved `distance` to either side
+  function carrierOffsets(segment: ChainSegment, through: Vec2, distance: number, span: number): Segment[] {
+    if (segment instanceof LineSegment) {
+      const direction = segment.direction.multiply(span);
+      const carrier = new LineSegment(through.subtract(direction), through.add(direction));
+      return [carrier.offset(distance), carrier.offset(-distance)];
+    }
+    return [segment.radius + distance, segment.radius - distance]
+      .filter(radius => radius > 0)
+      .map(radius => new ArcSegment(segment.center, radius, 0, Math.PI * 2));
+  }
+
+  // Foot of the perpendicular from `point` onto the carrier of a segment
+  function footOn(segment: ChainSegment, point: Vec2): Vec2 {
+    if (segment instanceof LineSegment) {
+      return segment.startPoint.add(point.subtract(segment.startPoint).projectOnto(segment.direction));
+    }
+    return segment.center.add(point.subtract(segment.center).normalized.multiply(segment.radius));
+  }
+
+  // Parameter of `point` when it lies strictly inside the kept side of the corner
+  function keptParameter(
+    segment: ChainSegment, point: Vec2, cornerT: number, keep: SegmentEnd, tolerance: number
+  ): number | null {
+    const closest = segment.closestPointTo(point);
+    if (closest.point.distanceTo(point) > tolerance) return null;
+
+    const epsilon = tolerance / Math.max(segment.length, tolerance);
+    const inside = keep === 'end'
+      ? closest.t > cornerT + epsilon && closest.t < 1 - epsilon
+      : closest.t < cornerT - epsilon && closest.t > epsilon;
+    return inside ? closest.t : null;
+  }
+
+  // Parameter `distance` along the kept side from the corner, if the segment is long enough
+  function alongKept(
+    segment: ChainSegment, cornerT: number, keep: SegmentEnd, distance: number, tolerance: number
+  ): number | null {
+    const t = cornerT + (keep === 'end' ? 1 : -1) * distance / segment.length;
+    const epsilon = tolerance / Math.max(segment.length, tolerance);
+    return t > epsilon && t < 1 - epsilon ? t : null;
+  }
+
+  function keepSide(segment: ChainSegment, t: number, keep: SegmentEnd): Segment {
+    const [piece] = keep === 'end'
+      ? SegmentEditing.subSegments(segment, t, 1)
+      : SegmentEditing.subSegments(segment, 0, t);
+    return piece as Segment;
+  }
+
+  // The trimmed segments meet the corner piece at the ends facing the old corner
+  function joinConstraints(
+    first: Segment, keep1: SegmentEnd, second: Segment, keep2: SegmentEnd, corner: Segment
+  ): Constraint[] {
+    const facing = (keep: SegmentEnd): ConstraintPoint => (keep === 'end' ? 'start' : 'end');
+    return [
+      ConstraintUtils.coincident({ segmentId: first.id, point: facing(keep1) }, { segmentId: corner.id, point: 'start' }),
+      ConstraintUtils.coincident({ segmentId: corner.id, point: 'end' }, { segmentId: second.id, point: facing(keep2) })
+    ];
+  }
+}
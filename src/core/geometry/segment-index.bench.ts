@@ -0,0 +1,65 @@
+import { bench, describe } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+
+import { LineSegment } from './line-segment.js';
+import { SegmentIndex } from './segment-index.js';
+import { SegmentUtils } from './segment.js';
+
+/**
+ * Full scans grow linearly with the drawing while index queries should barely
+ * move between sizes. Run with `npm run bench`.
+ */
+
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+// Short lines spread over a square sized to keep density constant
+function drawing(count: number): LineSegment[] {
+  const next = random(count);
+  const extent = Math.sqrt(count) * 20;
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Vec2(next() * extent, next() * extent);
+    return new LineSegment(start, start.add(new Vec2(next() * 20 - 10, next() * 20 - 10)), `line-${i}`);
+  });
+}
+
+for (const count of [1_000, 10_000, 50_000]) {
+  const lines = drawing(count);
+  const index = new SegmentIndex();
+  lines.forEach(line => index.insert(line));
+
+  const next = random(42);
+  const extent = Math.sqrt(count) * 20;
+  const probes = Array.from({ length: 64 }, () => new Vec2(next() * extent, next() * extent));
+  let probe = 0;
+  const nextProbe = (): Vec2 => probes[probe++ % probes.length] as Vec2;
+
+  describe(`radius query, ${count} segments`, () => {
+    bench('full scan', () => {
+      const point = nextProbe();
+      const box = SegmentUtils.createBoundingBox([point.subtract(new Vec2(15, 15)), point.add(new Vec2(15, 15))]);
+      lines.filter(line => SegmentUtils.boundingBoxesIntersect(line.boundingBox, box) && line.distanceToPoint(point) <= 15);
+    });
+
+    bench('index', () => {
+      index.queryRadius(nextProbe(), 15);
+    });
+  });
+
+  describe(`nearest 5, ${count} segments`, () => {
+    bench('full scan', () => {
+      const point = nextProbe();
+      lines.map(line => line.distanceToPoint(point)).sort((a, b) => a - b).slice(0, 5);
+    });
+
+    bench('index', () => {
+      index.nearest(nextProbe(), 5);
+    });
+  });
+}
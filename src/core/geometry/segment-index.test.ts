@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentIndex } from './segment-index.js';
+import { Segment, SegmentUtils } from './segment.js';
+
+// Deterministic pseudo-random numbers so failures reproduce
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomLines(count: number, seed: number = 1): LineSegment[] {
+  const next = random(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const start = new Vec2(next() * 1000, next() * 1000);
+    return new LineSegment(start, start.add(new Vec2(next() * 20 - 10, next() * 20 - 10)), `line-${i}`);
+  });
+}
+
+function ids(segments: ReadonlyArray<Segment>): string[] {
+  return segments.map(segment => segment.id).sort();
+}
+
+describe('SegmentIndex', () => {
+  it('should find segments by bounding box', () => {
+    const index = new SegmentIndex();
+    index.insert(new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'a'));
+    index.insert(new LineSegment(new Vec2(20, 20), new Vec2(30, 30), 'b'));
+    index.insert(new ArcSegment(new Vec2(0, 20), 5, 0, Math.PI, 'c'));
+
+    const box = SegmentUtils.createBoundingBox([new Vec2(-1, -1), new Vec2(5, 22)]);
+    expect(ids(index.queryBox(box))).toEqual(['a', 'c']);
+    expect(index.size).toBe(3);
+  });
+
+  it('should refine radius queries with the exact distance', () => {
+    const index = new SegmentIndex();
+    // The point sits inside the box of the half circle but far from the curve
+    index.insert(new ArcSegment(new Vec2(0, 0), 10, 0, Math.PI, 'arc'));
+    index.insert(new LineSegment(new Vec2(-10, 1), new Vec2(10, 1), 'line'));
+
+    const hits = index.queryRadius(new Vec2(0, 2), 2);
+    expect(hits.map(hit => hit.segment.id)).toEqual(['line']);
+    expect(hits[0]?.distance).toBeCloseTo(1, 12);
+  });
+
+  it('should reject duplicate ids', () => {
+    const index = new SegmentIndex();
+    const line = new LineSegment(new Vec2(0, 0), new Vec2(1, 0), 'dup');
+    index.insert(line);
+    expect(() => index.insert(line.clone())).toThrow('already contains');
+  });
+
+  it('should match a full scan for box and radius queries', () => {
+    const lines = randomLines(2000);
+    const index = new SegmentIndex();
+    lines.forEach(line => index.insert(line));
+
+    const next = random(7);
+    for (let i = 0; i < 20; i++) {
+      const center = new Vec2(next() * 1000, next() * 1000);
+      const radius = next() * 50;
+      const box = SegmentUtils.createBoundingBox([center.subtract(new Vec2(radius, radius)), center.add(new Vec2(radius, radius))]);
+
+      const scanned = lines.filter(line => SegmentUtils.boundingBoxesIntersect(line.boundingBox, box));
+      expect(ids(index.queryBox(box))).toEqual(ids(scanned));
+
+      const near = lines.filter(line => line.distanceToPoint(center) <= radius);
+      expect(ids(index.queryRadius(center, radius).map(hit => hit.segment))).toEqual(ids(near));
+    }
+  });
+
+  it('should return the k nearest segments in order', () => {
+    const lines = randomLines(1000, 3);
+    const index = new SegmentIndex();
+    lines.forEach(line => index.insert(line));
+
+    const point = new Vec2(500, 500);
+    const expected = lines
+      .map(line => ({ id: line.id, distance: line.distanceToPoint(point) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, 5);
+
+    const hits = index.nearest(point, 5);
+    expect(hits.map(hit => hit.segment.id)).toEqual(expected.map(e => e.id));
+    expect(hits.map(hit => hit.distance)).toEqual(expected.map(e => e.distance));
+  });
+
+  it('should stop the nearest search at the maximum distance', () => {
+    const index = new SegmentIndex();
+    index.insert(new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'near'));
+    index.insert(new LineSegment(new Vec2(0, 50), new Vec2(10, 50), 'far'));
+
+    expect(index.nearest(new Vec2(5, 3), 2, 10).map(hit => hit.segment.id)).toEqual(['near']);
+    expect(index.nearest(new Vec2(5, 3), 0)).toEqual([]);
+  });
+
+  it('should stay consistent through removals and updates', () => {
+    const lines = randomLines(1500, 11);
+    const index = new SegmentIndex({ maxEntries: 4 });
+    lines.forEach(line => index.insert(line));
+
+    const current = new Map(lines.map(line => [line.id, line as Segment]));
+    const next = random(5);
+    for (const line of lines) {
+      if (next() < 0.5) {
+        expect(index.remove(line.id)).toBe(true);
+        current.delete(line.id);
+      } else {
+        const delta = new Vec2(next() * 100 - 50, next() * 100 - 50);
+        const updated = new LineSegment(line.startPoint.add(delta), line.endPoint.add(delta), line.id);
+        index.update(updated);
+        current.set(line.id, updated);
+      }
+    }
+
+    expect(index.size).toBe(current.size);
+    expect(index.remove('line-missing')).toBe(false);
+    expect(ids(index.allSegments)).toEqual(ids(Array.from(current.values())));
+
+    const everything = SegmentUtils.createBoundingBox([new Vec2(-100, -100), new Vec2(1100, 1100)]);
+    expect(index.queryBox(everything)).toHaveLength(current.size);
+    for (const segment of current.values()) {
+      expect(index.get(segment.id)).toBe(segment);
+    }
+  });
+
+  it('should be empty after removing everything', () => {
+    const lines = randomLines(50);
+    const index = new SegmentIndex();
+    lines.forEach(line => index.insert(line));
+    lines.forEach(line => index.remove(line.id));
+
+    expect(index.size).toBe(0);
+    expect(index.nearest(new Vec2(0, 0))).toEqual([]);
+    index.insert(lines[0] as LineSegment);
+    expect(index.nearest(new Vec2(0, 0))[0]?.segment).toBe(lines[0]);
+  });
+});
@@ -0,0 +1,482 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { BoundingBox, Segment } from './segment.js';
+
+/**
+ * Spatial index over segment bounding boxes for Zotebook.
+ * An R-tree (quadratic split) answering "which segments are near this point or
+ * box" without scanning the whole drawing; box hits are by bounding box, point
+ * queries are refined with `Segment.distanceToPoint`.
+ */
+
+export interface SegmentIndexOptions {
+  readonly maxEntries: number; // Children per node before it splits
+}
+
+const DEFAULT_INDEX_OPTIONS: SegmentIndexOptions = {
+  maxEntries: 9
+};
+
+export interface SegmentHit {
+  readonly segment: Segment;
+  readonly distance: number;
+}
+
+interface Rect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface IndexEntry {
+  readonly segment: Segment;
+  readonly rect: Rect;
+}
+
+interface IndexNode {
+  rect: Rect;
+  parent: IndexNode | null;
+  readonly leaf: boolean;
+  children: IndexNode[]; // Internal nodes only
+  entries: IndexEntry[]; // Leaves only
+}
+
+/**
+ * Mutable R-tree of segments keyed by `Segment.id`
+ */
+export class SegmentIndex {
+  private options: SegmentIndexOptions;
+  private minEntries: number;
+  private root: IndexNode = createNode(true);
+  private leaves = new Map<string, IndexNode>();
+
+  constructor(options: Partial<SegmentIndexOptions> = {}) {
+    this.options = { ...DEFAULT_INDEX_OPTIONS, ...options };
+    if (this.options.maxEntries < 4) {
+      throw new Error('A segment index node needs room for at least 4 entries');
+    }
+    this.minEntries = Math.max(2, Math.floor(this.options.maxEntries * 0.4));
+  }
+
+  get size(): number {
+    return this.leaves.size;
+  }
+
+  has(id: string): boolean {
+    return this.leaves.has(id);
+  }
+
+  get(id: string): Segment | undefined {
+    return this.leaves.get(id)?.entries.find(entry => entry.segment.id === id)?.segment;
+  }
+
+  /**
+   * Add a segment. Throws if a segment with the same id is already indexed.
+   */
+  insert(segment: Segment): void {
+    if (this.leaves.has(segment.id)) {
+      throw new Error(`Segment index already contains ${segment.id}`);
+    }
+    this.insertEntry({ segment, rect: toRect(segment.boundingBox) });
+  }
+
+  /**
+   * Remove the segment with the given id. Returns false if it was not indexed.
+   */
+  remove(id: string): boolean {
+    const leaf = this.leaves.get(id);
+    if (!leaf) return false;
+
+    leaf.entries = leaf.entries.filter(entry => entry.segment.id !== id);
+    this.leaves.delete(id);
+    this.condense(leaf);
+    return true;
+  }
+
+  /**
+   * Swap in a new instance of an indexed segment (same id), moving it in the
+   * tree only when its bounding box has left its leaf.
+   */
+  update(segment: Segment): void {
+    const leaf = this.leaves.get(segment.id);
+    if (!leaf) {
+      throw new Error(`Cannot update unindexed segment ${segment.id}`);
+    }
+
+    const rect = toRect(segment.boundingBox);
+    if (contains(leaf.rect, rect)) {
+      leaf.entries = leaf.entries.map(entry => (entry.segment.id === segment.id ? { segment, rect } : entry));
+      this.refit(leaf);
+      return;
+    }
+    this.remove(segment.id);
+    this.insertEntry({ segment, rect });
+  }
+
+  clear(): void {
+    this.root = createNode(true);
+    this.leaves.clear();
+  }
+
+  get allSegments(): Segment[] {
+    const result: Segment[] = [];
+    for (const leaf of new Set(this.leaves.values())) {
+      for (const entry of leaf.entries) result.push(entry.segment);
+    }
+    return result;
+  }
+
+  /**
+   * Segments whose bounding boxes overlap `box`
+   */
+  queryBox(box: BoundingBox): Segment[] {
+    const rect = toRect(box);
+    return this.search(rect).map(entry => entry.segment);
+  }
+
+  /**
+   * Segments passing within `radius` of `point`, nearest first
+   */
+  queryRadius(point: Vec2, radius: number): SegmentHit[] {
+    const rect = { minX: point.x - radius, minY: point.y - radius, maxX: point.x + radius, maxY: point.y + radius };
+    const hits: SegmentHit[] = [];
+    for (const entry of this.search(rect)) {
+      if (rectDistance(entry.rect, point) > radius) continue;
+      const distance = entry.segment.distanceToPoint(point);
+      if (distance <= radius) hits.push({ segment: entry.segment, distance });
+    }
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * The `k` segments nearest to `point` no farther than `maxDistance`, nearest
+   * first. Nodes are visited best-first by box distance and candidates are
+   * refined with the exact segment distance before they are reported.
+   */
+  nearest(point: Vec2, k: number = 1, maxDistance: number = Infinity): SegmentHit[] {
+    const hits: SegmentHit[] = [];
+    if (k <= 0 || this.leaves.size === 0) return hits;
+
+    const queue = new MinQueue<QueueItem>();
+    queue.push({ node: this.root }, rectDistance(this.root.rect, point));
+
+    while (hits.length < k) {
+      const next = queue.pop();
+      if (!next || next.priority > maxDistance) break;
+      const item = next.item;
+
+      if ('node' in item) {
+        const node = item.node;
+        if (node.leaf) {
+          for (const entry of node.entries) queue.push({ entry }, rectDistance(entry.rect, point));
+        } else {
+          for (const child of node.children) queue.push({ node: child }, rectDistance(child.rect, point));
+        }
+      } else if (item.exact) {
+        hits.push({ segment: item.entry.segment, distance: next.priority });
+      } else {
+        // Box distance is only a lower bound; requeue with the real distance
+        queue.push({ entry: item.entry, exact: true }, item.entry.segment.distanceToPoint(point));
+      }
+    }
+    return hits;
+  }
+
+  private search(rect: Rect): IndexEntry[] {
+    const found: IndexEntry[] = [];
+    if (this.leaves.size === 0) return found;
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop() as IndexNode;
+      if (!overlaps(node.rect, rect)) continue;
+      if (node.leaf) {
+        for (const entry of node.entries) {
+          if (overlaps(entry.rect, rect)) found.push(entry);
+        }
+      } else {
+        stack.push(...node.children);
+      }
+    }
+    return found;
+  }
+
+  private insertEntry(entry: IndexEntry): void {
+    // Descend along the child needing the least area enlargement
+    let node = this.root;
+    while (!node.leaf) {
+      let best = node.children[0] as IndexNode;
+      let bestGrowth = Infinity;
+      for (const child of node.children) {
+        // Perimeter breaks ties between the flat boxes of horizontal and vertical lines
+        const grown = union(child.rect, entry.rect);
+        const growth = area(grown) - area(child.rect);
+        if (growth < bestGrowth || growth === bestGrowth && perimeter(grown) < perimeter(union(best.rect, entry.rect))) {
+          best = child;
+          bestGrowth = growth;
+        }
+      }
+      node = best;
+    }
+
+    node.entries.push(entry);
+    this.leaves.set(entry.segment.id, node);
+    for (let n: IndexNode | null = node; n; n = n.parent) {
+      n.rect = union(n.rect, entry.rect);
+    }
+    if (node.entries.length > this.options.maxEntries) this.split(node);
+  }
+
+  private split(node: IndexNode): void {
+    const sibling = createNode(node.leaf);
+    if (node.leaf) {
+      const [kept, moved] = quadraticSplit(node.entries, node.entries.map(entry => entry.rect), this.minEntries);
+      node.entries = kept;
+      sibling.entries = moved;
+      for (const entry of moved) this.leaves.set(entry.segment.id, sibling);
+    } else {
+      const [kept, moved] = quadraticSplit(node.children, node.children.map(child => child.rect), this.minEntries);
+      node.children = kept;
+      sibling.children = moved;
+      for (const child of moved) child.parent = sibling;
+    }
+    node.rect = bounds(node);
+    sibling.rect = bounds(sibling);
+
+    const parent = node.parent;
+    if (!parent) {
+      const root = createNode(false);
+      root.children = [node, sibling];
+      node.parent = root;
+      sibling.parent = root;
+      root.rect = union(node.rect, sibling.rect);
+      this.root = root;
+      return;
+    }
+
+    sibling.parent = parent;
+    parent.children.push(sibling);
+    if (parent.children.length > this.options.maxEntries) this.split(parent);
+  }
+
+  // Drop underfull nodes on the way up from `leaf`, reinserting what they held
+  private condense(leaf: IndexNode): void {
+    const orphans: IndexEntry[] = [];
+    let node = leaf;
+    while (node.parent) {
+      const parent: IndexNode = node.parent;
+      const count = node.leaf ? node.entries.length : node.children.length;
+      if (count < this.minEntries) {
+        parent.children = parent.children.filter(child => child !== node);
+        collectEntries(node, orphans);
+      } else {
+        node.rect = bounds(node);
+      }
+      node = parent;
+    }
+    node.rect = bounds(node);
+
+    // A root left with a single child hands over to it
+    while (!this.root.leaf && this.root.children.length === 1) {
+      this.root = this.root.children[0] as IndexNode;
+      this.root.parent = null;
+    }
+    if (!this.root.leaf && this.root.children.length === 0) {
+      this.root = createNode(true);
+    }
+
+    for (const orphan of orphans) {
+      this.leaves.delete(orphan.segment.id);
+      this.insertEntry(orphan);
+    }
+  }
+
+  private refit(node: IndexNode): void {
+    for (let n: IndexNode | null = node; n; n = n.parent) {
+      n.rect = bounds(n);
+    }
+  }
+}
+
+type QueueItem = { node: IndexNode } | { entry: IndexEntry; exact?: boolean };
+
+interface Queued<T> {
+  readonly item: T;
+  readonly priority: number;
+}
+
+/**
+ * Binary min-heap keyed by priority
+ */
+class MinQueue<T> {
+  private heap: Array<Queued<T>> = [];
+
+  push(item: T, priority: number): void {
+    const heap = this.heap;
+    heap.push({ item, priority });
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.at(parent).priority <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): Queued<T> | undefined {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop();
+    if (top === undefined || last === undefined || heap.length === 0) return top;
+
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && this.at(left).priority < this.at(smallest).priority) smallest = left;
+      if (right < heap.length && this.at(right).priority < this.at(smallest).priority) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+    return top;
+  }
+
+  private at(i: number): Queued<T> {
+    return this.heap[i] as Queued<T>;
+  }
+
+  private swap(i: number, j: number): void {
+    const item = this.at(i);
+    this.heap[i] = this.at(j);
+    this.heap[j] = item;
+  }
+}
+
+function createNode(leaf: boolean): IndexNode {
+  return { rect: emptyRect(), parent: null, leaf, children: [], entries: [] };
+}
+
+function collectEntries(node: IndexNode, into: IndexEntry[]): void {
+  if (node.leaf) {
+    into.push(...node.entries);
+    return;
+  }
+  for (const child of node.children) collectEntries(child, into);
+}
+
+/**
+ * Guttman's quadratic split: seed two groups with the most wasteful pair,
+ * then hand out the rest by strongest preference, keeping both groups at
+ * least `minSize` large.
+ */
+function quadraticSplit<T>(items: ReadonlyArray<T>, rects: ReadonlyArray<Rect>, minSize: number): [T[], T[]] {
+  let seedA = 0;
+  let seedB = 1;
+  let worst = -Infinity;
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = rects[i] as Rect;
+      const b = rects[j] as Rect;
+      const waste = area(union(a, b)) - area(a) - area(b);
+      if (waste > worst) {
+        worst = waste;
+        seedA = i;
+        seedB = j;
+      }
+    }
+  }
+
+  const groupA = [items[seedA] as T];
+  const groupB = [items[seedB] as T];
+  let rectA = rects[seedA] as Rect;
+  let rectB = rects[seedB] as Rect;
+  const remaining = items
+    .map((item, i) => ({ item, rect: rects[i] as Rect }))
+    .filter((_, i) => i !== seedA && i !== seedB);
+
+  while (remaining.length > 0) {
+    // Top up a group that needs every remaining item to reach the minimum
+    if (groupA.length + remaining.length === minSize) {
+      groupA.push(...remaining.map(r => r.item));
+      break;
+    }
+    if (groupB.length + remaining.length === minSize) {
+      groupB.push(...remaining.map(r => r.item));
+      break;
+    }
+
+    let pick = 0;
+    let strongest = -Infinity;
+    for (let i = 0; i < remaining.length; i++) {
+      const rect = (remaining[i] as { rect: Rect }).rect;
+      const preference = Math.abs(
+        area(union(rectA, rect)) - area(rectA) - (area(union(rectB, rect)) - area(rectB))
+      );
+      if (preference > strongest) {
+        strongest = preference;
+        pick = i;
+      }
+    }
+
+    const [{ item, rect }] = remaining.splice(pick, 1) as [{ item: T; rect: Rect }];
+    const growthA = area(union(rectA, rect)) - area(rectA);
+    const growthB = area(union(rectB, rect)) - area(rectB);
+    const toA = growthA < growthB || growthA === growthB && groupA.length <= groupB.length;
+    if (toA) {
+      groupA.push(item);
+      rectA = union(rectA, rect);
+    } else {
+      groupB.push(item);
+      rectB = union(rectB, rect);
+    }
+  }
+  return [groupA, groupB];
+}
+
+function toRect(box: BoundingBox): Rect {
+  return { minX: box.min.x, minY: box.min.y, maxX: box.max.x, maxY: box.max.y };
+}
+
+function emptyRect(): Rect {
+  return { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+}
+
+function bounds(node: IndexNode): Rect {
+  const rects = node.leaf ? node.entries.map(entry => entry.rect) : node.children.map(child => child.rect);
+  return rects.reduce(union, emptyRect());
+}
+
+function union(a: Rect, b: Rect): Rect {
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY)
+  };
+}
+
+function area(rect: Rect): number {
+  return Math.max(0, rect.maxX - rect.minX) * Math.max(0, rect.maxY - rect.minY);
+}
+
+function perimeter(rect: Rect): number {
+  return Math.max(0, rect.maxX - rect.minX) + Math.max(0, rect.maxY - rect.minY);
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return outer.minX <= inner.minX && outer.minY <= inner.minY && outer.maxX >= inner.maxX && outer.maxY >= inner.maxY;
+}
+
+// Distance from a point to the nearest point of a rectangle (0 inside)
+function rectDistance(rect: Rect, point: Vec2): number {
+  const dx = Math.max(rect.minX - point.x, 0, point.x - rect.maxX);
+  const dy = Math.max(rect.minY - point.y, 0, point.y - rect.maxY);
+  return Math.hypot(dx, dy);
+}
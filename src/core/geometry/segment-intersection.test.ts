@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentIntersector } from './segment-intersection.js';
+import { ReparameterizedSegment, Segment, SegmentIntersection } from './segment.js';
+import { SplineSegment } from './spline-segment.js';
+
+// Every reported point must sit on both segments at the reported parameters
+function expectConsistent(a: Segment, b: Segment, intersections: SegmentIntersection[], tolerance: number = 1e-9): void {
+  for (const intersection of intersections) {
+    expect(a.pointAt(intersection.t1).distanceTo(intersection.point)).toBeLessThan(tolerance);
+    expect(b.pointAt(intersection.t2 as number).distanceTo(intersection.point)).toBeLessThan(tolerance);
+  }
+}
+
+describe('SegmentIntersector', () => {
+  describe('Line-line', () => {
+    it('should only report crossings inside both segments', () => {
+      const a = new LineSegment(new Vec2(0, 0), new Vec2(10, 10));
+      const b = new LineSegment(new Vec2(0, 10), new Vec2(10, 0));
+      const short = new LineSegment(new Vec2(0, 10), new Vec2(4, 6));
+
+      const [hit] = SegmentIntersector.intersect(a, b);
+      expect(hit?.point.isEqual(new Vec2(5, 5), 1e-12)).toBe(true);
+      expect(hit?.type).toBe('interior');
+      expect(SegmentIntersector.intersect(a, short)).toEqual([]);
+    });
+
+    it('should report the ends of a collinear overlap', () => {
+      const a = new LineSegment(new Vec2(0, 0), new Vec2(10, 0));
+      const b = new LineSegment(new Vec2(15, 0), new Vec2(5, 0));
+      const result = SegmentIntersector.intersect(a, b);
+
+      expect(result.map(r => r.type)).toEqual(['overlap', 'overlap']);
+      expect(result.map(r => r.t1)).toEqual([0.5, 1]);
+      expect(result.map(r => r.t2)).toEqual([1, 0.5]);
+    });
+
+    it('should treat collinear lines meeting end to end as touching once', () => {
+      const a = new LineSegment(new Vec2(0, 0), new Vec2(10, 0));
+      const b = new LineSegment(new Vec2(10, 0), new Vec2(20, 0));
+      const result = SegmentIntersector.intersect(a, b);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.type).toBe('endpoint');
+    });
+  });
+
+  describe('Line-arc', () => {
+    const circle = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2);
+    const upper = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI);
+
+    it('should find both crossings with exact parameters', () => {
+      const line = new LineSegment(new Vec2(-10, 3), new Vec2(10, 3));
+      const result = SegmentIntersector.intersect(line, circle);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]?.point.isEqual(new Vec2(-4, 3), 1e-12)).toBe(true);
+      expect(result[1]?.point.isEqual(new Vec2(4, 3), 1e-12)).toBe(true);
+      expect(result[0]?.t1).toBeCloseTo(0.3, 12);
+      expect(result[1]?.t2).toBeCloseTo(Math.atan2(3, 4) / (Math.PI * 2), 12);
+      expectConsistent(line, circle, result);
+    });
+
+    it('should keep only crossings inside the sweep', () => {
+      const line = new LineSegment(new Vec2(3, -10), new Vec2(3, 10));
+      const result = SegmentIntersector.intersect(line, upper);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.point.isEqual(new Vec2(3, 4), 1e-12)).toBe(true);
+    });
+
+    it('should report a tangent line exactly once', () => {
+      const line = new LineSegment(new Vec2(-10, 5), new Vec2(10, 5));
+      const result = SegmentIntersector.intersect(line, circle);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.type).toBe('tangent');
+      expect(result[0]?.point.isEqual(new Vec2(0, 5), 1e-12)).toBe(true);
+    });
+
+    it('should swap parameters when the arc comes first', () => {
+      const line = new LineSegment(new Vec2(3, -10), new Vec2(3, 10));
+      const [hit] = SegmentIntersector.intersect(upper, line);
+
+      expect(hit?.t1).toBeCloseTo(Math.atan2(4, 3) / Math.PI, 12);
+      expect(hit?.t2).toBeCloseTo(0.7, 12);
+    });
+  });
+
+  describe('Arc-arc', () => {
+    it('should intersect two crossing circles', () => {
+      const a = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2);
+      const b = new ArcSegment(new Vec2(8, 0), 5, Math.PI, -Math.PI * 2);
+      const result = SegmentIntersector.intersect(a, b);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]?.point.isEqual(new Vec2(4, 3), 1e-12)).toBe(true);
+      expect(result[1]?.point.isEqual(new Vec2(4, -3), 1e-12)).toBe(true);
+      expectConsistent(a, b, result);
+    });
+
+    it('should find external and internal tangency', () => {
+      const a = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI * 2);
+      const outside = new ArcSegment(new Vec2(8, 0), 3, 0, Math.PI * 2);
+      const inside = new ArcSegment(new Vec2(-2, 0), 3, 0, Math.PI * 2);
+
+      const external = SegmentIntersector.intersect(a, outside);
+      expect(external).toHaveLength(1);
+      expect(external[0]?.type).toBe('tangent');
+      expect(external[0]?.point.isEqual(new Vec2(5, 0), 1e-12)).toBe(true);
+
+      const internal = SegmentIntersector.intersect(a, inside);
+      expect(internal).toHaveLength(1);
+      expect(internal[0]?.point.isEqual(new Vec2(-5, 0), 1e-12)).toBe(true);
+    });
+
+    it('should report the shared stretch of overlapping cocentric arcs', () => {
+      const a = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI);
+      const b = new ArcSegment(new Vec2(0, 0), 5, Math.PI / 2, Math.PI);
+      const result = SegmentIntersector.intersect(a, b);
+
+      expect(result.map(r => r.type)).toEqual(['overlap', 'overlap']);
+      expect(result[0]?.t1).toBeCloseTo(0.5, 12);
+      expect(result[0]?.t2).toBeCloseTo(0, 12);
+      expect(result[1]?.t1).toBeCloseTo(1, 12);
+      expect(result[1]?.t2).toBeCloseTo(0.5, 12);
+    });
+
+    it('should ignore cocentric arcs of different radii and disjoint sweeps', () => {
+      const a = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI / 2);
+      expect(SegmentIntersector.intersect(a, new ArcSegment(new Vec2(0, 0), 4, 0, Math.PI))).toEqual([]);
+      expect(SegmentIntersector.intersect(a, new ArcSegment(new Vec2(0, 0), 5, Math.PI, Math.PI / 2))).toEqual([]);
+    });
+  });
+
+  describe('Line-ellipse', () => {
+    const ellipse = EllipseSegment.fullEllipse(new Vec2(0, 0), 4, 2, Math.PI / 6);
+
+    it('should find crossings on a rotated ellipse', () => {
+      const line = new LineSegment(new Vec2(-10, 0.5), new Vec2(10, 0.5));
+      const result = SegmentIntersector.intersect(line, ellipse);
+
+      expect(result).toHaveLength(2);
+      for (const hit of result) expect(ellipse.distanceToPoint(hit.point)).toBeLessThan(1e-9);
+      expectConsistent(line, ellipse, result);
+    });
+
+    it('should report a grazing line once', () => {
+      const top = ellipse.pointAt(0.25);
+      const tangent = ellipse.tangentAt(0.25);
+      const line = new LineSegment(top.subtract(tangent.multiply(5)), top.add(tangent.multiply(5)));
+      const result = SegmentIntersector.intersect(line, ellipse);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.type).toBe('tangent');
+      expect(result[0]?.t2).toBeCloseTo(0.25, 6);
+    });
+  });
+
+  describe('Line-spline', () => {
+    const wave = new SplineSegment([
+      new Vec2(0, 0), new Vec2(10, 10), new Vec2(20, 10), new Vec2(30, 0),
+      new Vec2(40, -10), new Vec2(50, -10), new Vec2(60, 0)
+    ]);
+
+    it('should solve each piece exactly', () => {
+      const line = new LineSegment(new Vec2(-5, 0), new Vec2(65, 0));
+      const result = SegmentIntersector.intersect(line, wave);
+
+      expect(result.map(r => r.t2)).toEqual([0, 0.5, 1]);
+      expect(result.map(r => r.type)).toEqual(['endpoint', 'interior', 'endpoint']);
+    });
+
+    it('should touch the crest of a piece once', () => {
+      const line = new LineSegment(new Vec2(0, 7.5), new Vec2(30, 7.5));
+      const result = SegmentIntersector.intersect(line, wave);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.point.isEqual(new Vec2(15, 7.5), 1e-6)).toBe(true);
+      expect(result[0]?.type).toBe('tangent');
+    });
+  });
+
+  describe('Numerical fallback', () => {
+    it('should intersect an arc with an ellipse without duplicates', () => {
+      const ellipse = EllipseSegment.fullEllipse(new Vec2(0, 0), 6, 2);
+      const circle = new ArcSegment(new Vec2(0, 0), 4, 0, Math.PI * 2);
+      const result = SegmentIntersector.intersect(circle, ellipse);
+
+      expect(result).toHaveLength(4);
+      expectConsistent(circle, ellipse, result, 1e-6);
+    });
+
+    it('should find a tangency the samples would miss', () => {
+      const ellipse = EllipseSegment.fullEllipse(new Vec2(0, 0), 6, 2);
+      const circle = new ArcSegment(new Vec2(0, 5), 3, 0, Math.PI * 2);
+      const result = SegmentIntersector.intersect(ellipse, circle, 1e-4);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]?.point.isEqual(new Vec2(0, 2), 1e-3)).toBe(true);
+    });
+
+    it('should serve segments without an analytic routine', () => {
+      const line = new LineSegment(new Vec2(0, 0), new Vec2(10, 10));
+      const reversed = new ReparameterizedSegment(new LineSegment(new Vec2(0, 10), new Vec2(10, 0)), t => 1 - t);
+      const [hit] = line.intersectWithSegment(reversed);
+
+      expect(hit?.point.isEqual(new Vec2(5, 5), 1e-6)).toBe(true);
+      expect(hit?.type).toBe('interior');
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment } from './line-segment.js';
+import { Segment, SegmentIntersection, SegmentUtils } from './segment.js';
+import { SplineSegment, SplineSegmentUtils } from './spline-segment.js';
+
+/**
+ * Exact segment-segment intersection for Zotebook.
+ * Lines, arcs and ellipses meet in closed form (line-spline reduces to a cubic
+ * per Bézier piece); every other pair falls back to the refined numerical
+ * search in SegmentUtils. Results lie on both segments, carry parameters on
+ * both, and are sorted by `t1`. Overlapping collinear lines and cocircular arcs
+ * report the ends of each shared stretch with type `overlap`.
+ */
+export namespace SegmentIntersector {
+  /**
+   * Intersections of `a` and `b`, using the exact routine for the pair
+   */
+  export function intersect(a: Segment, b: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
+    if (!SegmentUtils.boundingBoxesIntersect(SegmentUtils.expandBoundingBox(a.boundingBox, tolerance), b.boundingBox)) {
+      return [];
+    }
+
+    if (a instanceof LineSegment) {
+      if (b instanceof LineSegment) return lineLine(a, b, tolerance);
+      if (b instanceof ArcSegment) return lineArc(a, b, tolerance);
+      if (b instanceof EllipseSegment) return lineEllipse(a, b, tolerance);
+      if (b instanceof SplineSegment) return lineSpline(a, b, tolerance);
+    } else if (a instanceof ArcSegment) {
+      if (b instanceof ArcSegment) return arcArc(a, b, tolerance);
+      if (b instanceof LineSegment) return swapped(lineArc(b, a, tolerance));
+    } else if (a instanceof EllipseSegment && b instanceof LineSegment) {
+      return swapped(lineEllipse(b, a, tolerance));
+    } else if (a instanceof SplineSegment && b instanceof LineSegment) {
+      return swapped(lineSpline(b, a, tolerance));
+    }
+
+    return SegmentUtils.findIntersectionsNumerical(a, b, tolerance);
+  }
+
+  /**
+   * Line-line intersection restricted to both segments
+   */
+  export function lineLine(a: LineSegment, b: LineSegment, tolerance: number = 1e-6): SegmentIntersection[] {
+    if (a.length <= tolerance) return pointOnSegment(a.startPoint, 0, b, tolerance, false);
+    if (b.length <= tolerance) return swapped(pointOnSegment(b.startPoint, 0, a, tolerance, false));
+
+    const d1 = a.endPoint.subtract(a.startPoint);
+    const d2 = b.endPoint.subtract(b.startPoint);
+    const offset = b.startPoint.subtract(a.startPoint);
+    const cross = d1.cross(d2);
+
+    // Parallel when b's far end drifts less than the tolerance off a's direction
+    if (Math.abs(cross) <= tolerance * d1.length) {
+      if (Math.abs(offset.cross(d1)) / d1.length > tolerance) return [];
+      return collinearOverlap(a, b, tolerance);
+    }
+
+    const t1 = offset.cross(d2) / cross;
+    const t2 = offset.cross(d1) / cross;
+    if (!withinSegment(a, t1, tolerance) || !withinSegment(b, t2, tolerance)) return [];
+    return [makeIntersection(a, b, clamp01(t1), clamp01(t2), tolerance, false)];
+  }
+
+  /**
+   * Line-arc intersection: the line's roots on the full circle, kept where
+   * they fall inside the arc's sweep. A line within the tolerance of touching
+   * the circle yields a single tangent point.
+   */
+  export function lineArc(line: LineSegment, arc: ArcSegment, tolerance: number = 1e-6): SegmentIntersection[] {
+    if (line.length <= tolerance) return pointOnSegment(line.startPoint, 0, arc, tolerance, false);
+
+    const direction = line.endPoint.subtract(line.startPoint);
+    const toCenter = arc.center.subtract(line.startPoint);
+    const length = direction.length;
+    const foot = toCenter.dot(direction) / (length * length); // Parameter of the center's projection
+    const distance = Math.abs(direction.cross(toCenter)) / length;
+
+    if (distance > arc.radius + tolerance) return [];
+
+    // Touching: a single point where the line grazes the circle
+    if (Math.abs(distance - arc.radius) <= tolerance) {
+      return lineCirclePoint(line, arc, foot, tolerance, true);
+    }
+
+    const half = Math.sqrt(arc.radius * arc.radius - distance * distance) / length;
+    return [
+      ...lineCirclePoint(line, arc, foot - half, tolerance, false),
+      ...lineCirclePoint(line, arc, foot + half, tolerance, false)
+    ];
+  }
+
+  /**
+   * Arc-arc intersection from the radical line of the two circles. Circles
+   * touching within the tolerance give one tangent point; the same circle
+   * gives the ends of the stretches the arcs share.
+   */
+  export function arcArc(a: ArcSegment, b: ArcSegment, tolerance: number = 1e-6): SegmentIntersection[] {
+    const between = b.center.subtract(a.center);
+    const distance = between.length;
+    const r1 = a.radius;
+    const r2 = b.radius;
+
+    if (distance <= tolerance) {
+      return Math.abs(r1 - r2) <= tolerance ? cocircularOverlap(a, b, tolerance) : [];
+    }
+    if (distance > r1 + r2 + tolerance || distance < Math.abs(r1 - r2) - tolerance) return [];
+
+    const axis = between.divide(distance);
+    const external = Math.abs(distance - (r1 + r2)) <= tolerance;
+    const internal = Math.abs(distance - Math.abs(r1 - r2)) <= tolerance;
+    if (external || internal) {
+      // The contact point lies on the line of centers
+      const point = a.center.add(axis.multiply(external || r1 >= r2 ? r1 : -r1));
+      return sortByT1(pointOnBoth(point, a, b, tolerance, true));
+    }
+
+    const along = (r1 * r1 - r2 * r2 + distance * distance) / (2 * distance);
+    const height = Math.sqrt(Math.max(0, r1 * r1 - along * along));
+    const base = a.center.add(axis.multiply(along));
+    return sortByT1([
+      ...pointOnBoth(base.add(axis.perpendicular.multiply(height)), a, b, tolerance, false),
+      ...pointOnBoth(base.subtract(axis.perpendicular.multiply(height)), a, b, tolerance, false)
+    ]);
+  }
+
+  /**
+   * Line-ellipse intersection: the ellipse's own frame scaled to the unit
+   * circle maps the line to a line with the same parameters, leaving a
+   * quadratic in the line parameter
+   */
+  export function lineEllipse(line: LineSegment, ellipse: EllipseSegment, tolerance: number = 1e-6): SegmentIntersection[] {
+    if (line.length <= tolerance) return pointOnSegment(line.startPoint, 0, ellipse, tolerance, false);
+
+    const unit = (point: Vec2): Vec2 => {
+      const local = ellipse.toLocal(point);
+      return new Vec2(local.x / ellipse.radiusX, local.y / ellipse.radiusY);
+    };
+    const start = unit(line.startPoint);
+    const direction = unit(line.endPoint).subtract(start);
+
+    const a = direction.dot(direction);
+    const b = 2 * start.dot(direction);
+    const c = start.dot(start) - 1;
+    const discriminant = b * b - 4 * a * c;
+    const vertex = -b / (2 * a);
+
+    // Grazing lines: the nearest approach lies within the tolerance of the curve
+    const grazing = ellipse.distanceToPoint(line.pointAt(vertex)) <= tolerance;
+    if (discriminant <= 0 || grazing && lineEllipseRootsMerge(line, vertex, discriminant, a, tolerance)) {
+      return grazing ? lineCurvePoint(line, ellipse, vertex, tolerance, true) : [];
+    }
+
+    const half = Math.sqrt(discriminant) / (2 * a);
+    return [
+      ...lineCurvePoint(line, ellipse, vertex - half, tolerance, false),
+      ...lineCurvePoint(line, ellipse, vertex + half, tolerance, false)
+    ];
+  }
+
+  /**
+   * Line-spline intersection: the signed distance from the line along each
+   * Bézier piece is a cubic in the piece parameter
+   */
+  export function lineSpline(line: LineSegment, spline: SplineSegment, tolerance: number = 1e-6): SegmentIntersection[] {
+    if (line.length <= tolerance) return pointOnSegment(line.startPoint, 0, spline, tolerance, false);
+
+    const normal = line.endPoint.subtract(line.startPoint).normalized.perpendicular;
+    const signed = (point: Vec2): number => normal.dot(point.subtract(line.startPoint));
+    const results: SegmentIntersection[] = [];
+
+    for (let index = 0; index < spline.pieceCount; index++) {
+      const piece = spline.piece(index);
+      const [w0, w1, w2, w3] = piece.map(signed) as [number, number, number, number];
+      const roots = solveCubic(-w0 + 3 * w1 - 3 * w2 + w3, 3 * w0 - 6 * w1 + 3 * w2, -3 * w0 + 3 * w1, w0);
+
+      for (const u of roots) {
+        if (u < -1e-9 || u > 1 + 1e-9) continue;
+        const t2 = (index + clamp01(u)) / spline.pieceCount;
+        const point = SplineSegmentUtils.bezierPoint(piece, clamp01(u));
+        const t1 = line.closestPointTo(point).t;
+        if (!withinSegment(line, t1, tolerance)) continue;
+
+        const intersection = makeIntersection(line, spline, clamp01(t1), t2, tolerance, undefined);
+        if (!results.some(existing => existing.point.distanceTo(intersection.point) <= Math.max(tolerance, 1e-9))) {
+          results.push(intersection);
+        }
+      }
+    }
+    return sortByT1(results);
+  }
+
+  // Both intersections of a quadratic collapse to one within the tolerance
+  function lineEllipseRootsMerge(line: LineSegment, vertex: number, discriminant: number, a: number, tolerance: number): boolean {
+    const half = Math.sqrt(Math.max(0, discriminant)) / (2 * a);
+    return line.pointAt(vertex - half).distanceTo(line.pointAt(vertex + half)) <= tolerance;
+  }
+
+  // Intersection at parameter `t` on the line if it also lies on the arc
+  function lineCirclePoint(line: LineSegment, arc: ArcSegment, t: number, tolerance: number, tangent: boolean): SegmentIntersection[] {
+    if (!withinSegment(line, t, tolerance)) return [];
+    const point = line.pointAt(clamp01(t));
+    const t2 = arcParameter(arc, point, tolerance);
+    return t2 === null ? [] : [makeIntersection(line, arc, clamp01(t), t2, tolerance, tangent)];
+  }
+
+  // Intersection at parameter `t` on the line if it also lies on the ellipse
+  function lineCurvePoint(
+    line: LineSegment, ellipse: EllipseSegment, t: number, tolerance: number, tangent: boolean
+  ): SegmentIntersection[] {
+    if (!withinSegment(line, t, tolerance)) return [];
+    const point = line.pointAt(clamp01(t));
+    const local = ellipse.toLocal(point);
+    const angle = Math.atan2(local.y / ellipse.radiusY, local.x / ellipse.radiusX);
+    const t2 = ellipse.angleToParameter(angle) ?? nearestEnd(ellipse, point, tolerance);
+    return t2 === null ? [] : [makeIntersection(line, ellipse, clamp01(t), t2, tolerance, tangent)];
+  }
+
+  // A point known to lie on both circles, kept if it lies on both arcs
+  function pointOnBoth(point: Vec2, a: ArcSegment, b: ArcSegment, tolerance: number, tangent: boolean): SegmentIntersection[] {
+    const t1 = arcParameter(a, point, tolerance);
+    const t2 = arcParameter(b, point, tolerance);
+    return t1 === null || t2 === null ? [] : [makeIntersection(a, b, t1, t2, tolerance, tangent)];
+  }
+
+  // A degenerate segment's only point, if it lies on `other`
+  function pointOnSegment(point: Vec2, t1: number, other: Segment, tolerance: number, tangent: boolean): SegmentIntersection[] {
+    const closest = other.closestPointTo(point);
+    if (closest.distance > tolerance) return [];
+    return [{ point, t1, t2: clamp01(closest.t), type: tangent ? 'tangent' : 'endpoint' }];
+  }
+
+  // Ends of the stretch shared by two collinear lines
+  function collinearOverlap(a: LineSegment, b: LineSegment, tolerance: number): SegmentIntersection[] {
+    const project = (line: LineSegment, point: Vec2): number => {
+      const direction = line.endPoint.subtract(line.startPoint);
+      return point.subtract(line.startPoint).dot(direction) / direction.lengthSquared;
+    };
+
+    const u0 = project(a, b.startPoint);
+    const u1 = project(a, b.endPoint);
+    const low = Math.max(0, Math.min(u0, u1));
+    const high = Math.min(1, Math.max(u0, u1));
+    const epsilon = tolerance / a.length;
+    if (low > high + epsilon) return [];
+
+    // Lines that only meet end to end touch at a single point
+    if ((high - low) * a.length <= tolerance) {
+      const t1 = clamp01((low + high) / 2);
+      return [makeIntersection(a, b, t1, clamp01(project(b, a.pointAt(t1))), tolerance, false)];
+    }
+
+    return [low, high].map(t1 => ({
+      point: a.pointAt(t1),
+      t1,
+      t2: clamp01(project(b, a.pointAt(t1))),
+      type: 'overlap' as const
+    }));
+  }
+
+  // Ends of the stretches shared by two arcs of the same circle
+  function cocircularOverlap(a: ArcSegment, b: ArcSegment, tolerance: number): SegmentIntersection[] {
+    if (a.isClosed && b.isClosed) {
+      return [{ point: a.startPoint, t1: 0, t2: arcParameter(b, a.startPoint, tolerance) ?? 0, type: 'overlap' }];
+    }
+
+    // Every end of one arc lying on the other bounds a shared stretch
+    const results: SegmentIntersection[] = [];
+    const ends: Array<[Vec2, ArcSegment]> = [
+      ...(a.isClosed ? [] : [[a.startPoint, a], [a.endPoint, a]] as Array<[Vec2, ArcSegment]>),
+      ...(b.isClosed ? [] : [[b.startPoint, b], [b.endPoint, b]] as Array<[Vec2, ArcSegment]>)
+    ];
+    for (const [point] of ends) {
+      const t1 = arcParameter(a, point, tolerance);
+      const t2 = arcParameter(b, point, tolerance);
+      if (t1 === null || t2 === null) continue;
+      if (results.some(existing => existing.point.distanceTo(point) <= tolerance)) continue;
+      results.push({ point, t1, t2, type: 'overlap' });
+    }
+
+    // Arcs meeting only end to end touch rather than overlap
+    if (results.length === 1) {
+      const [only] = results as [SegmentIntersection];
+      return [{ ...only, type: 'endpoint' }];
+    }
+    if (results.length === 2 && (results[0] as SegmentIntersection).point.distanceTo((results[1] as SegmentIntersection).point) <= tolerance) {
+      return [{ ...(results[0] as SegmentIntersection), type: 'endpoint' }];
+    }
+    return sortByT1(results);
+  }
+
+  // Parameter on the arc of a point on its circle, or null outside the sweep
+  function arcParameter(arc: ArcSegment, point: Vec2, tolerance: number): number | null {
+    const offset = point.subtract(arc.center);
+    const angle = Math.atan2(offset.y, offset.x);
+    if (arc.isClosed) {
+      let t = (angle - arc.startAngle) / arc.sweepAngle;
+      t -= Math.floor(t);
+      return t;
+    }
+    if (arc.containsAngle(angle)) return clamp01(arc.angleToParameter(angle));
+    return nearestEnd(arc, point, tolerance);
+  }
+
+  // 0 or 1 when the point lies within the tolerance of that end of the segment
+  function nearestEnd(segment: Segment, point: Vec2, tolerance: number): number | null {
+    const toStart = point.distanceTo(segment.startPoint);
+    const toEnd = point.distanceTo(segment.endPoint);
+    if (Math.min(toStart, toEnd) > tolerance) return null;
+    return toStart <= toEnd ? 0 : 1;
+  }
+
+  function makeIntersection(
+    a: Segment, b: Segment, t1: number, t2: number, tolerance: number, tangent: boolean | undefined
+  ): SegmentIntersection {
+    return {
+      point: a.pointAt(t1),
+      t1,
+      t2,
+      type: SegmentUtils.classifyIntersection(a, b, t1, t2, tolerance, tangent)
+    };
+  }
+
+  // Whether parameter `t` lies on the segment, allowing the tolerance past either end
+  function withinSegment(segment: Segment, t: number, tolerance: number): boolean {
+    const epsilon = segment.length > 0 ? tolerance / segment.length : 0;
+    return t >= -epsilon && t <= 1 + epsilon;
+  }
+
+  function swapped(intersections: SegmentIntersection[]): SegmentIntersection[] {
+    return sortByT1(intersections.map(intersection => ({
+      ...intersection,
+      t1: intersection.t2 ?? 0,
+      t2: intersection.t1
+    })));
+  }
+
+  function sortByT1(intersections: SegmentIntersection[]): SegmentIntersection[] {
+    return intersections.sort((p, q) => p.t1 - q.t1);
+  }
+
+  function clamp01(t: number): number {
+    return Math.max(0, Math.min(1, t));
+  }
+
+  // Real roots of a x³ + b x² + c x + d, falling back to lower degrees
+  function solveCubic(a: number, b: number, c: number, d: number): number[] {
+    const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d));
+    if (scale === 0) return [];
+    if (Math.abs(a) <= 1e-12 * scale) return solveQuadratic(b, c, d, scale);
+
+    // Depressed cubic x = y - b / 3a: y³ + p y + q = 0
+    const B = b / a;
+    const C = c / a;
+    const D = d / a;
+    const p = C - B * B / 3;
+    const q = 2 * B * B * B / 27 - B * C / 3 + D;
+    const shift = -B / 3;
+    const discriminant = q * q / 4 + p * p * p / 27;
+
+    let roots: number[];
+    if (Math.abs(discriminant) <= 1e-14 * Math.max(1, q * q)) {
+      // A double root
+      const u = Math.cbrt(-q / 2);
+      roots = [2 * u + shift, -u + shift];
+    } else if (discriminant > 0) {
+      const root = Math.sqrt(discriminant);
+      roots = [Math.cbrt(-q / 2 + root) + Math.cbrt(-q / 2 - root) + shift];
+    } else {
+      const radius = 2 * Math.sqrt(-p / 3);
+      const angle = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * radius))));
+      roots = [0, 1, 2].map(k => radius * Math.cos(angle / 3 - (2 * Math.PI * k) / 3) + shift);
+    }
+
+    // Polish each root with a Newton step on the original polynomial
+    return roots.map(x => {
+      const value = ((a * x + b) * x + c) * x + d;
+      const slope = (3 * a * x + 2 * b) * x + c;
+      return Math.abs(slope) > 1e-12 * scale ? x - value / slope : x;
+    });
+  }
+
+  function solveQuadratic(a: number, b: number, c: number, scale: number): number[] {
+    if (Math.abs(a) <= 1e-12 * scale) {
+      return Math.abs(b) <= 1e-12 * scale ? [] : [-c / b];
+    }
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    // Citardauq form avoids cancellation in the smaller root
+    const q = -0.5 * (b + Math.sign(b || 1) * Math.sqrt(discriminant));
+    return q === 0 ? [0] : [q / a, c / q];
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+
+import { expectSpan } from '../../test/geometry.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentOffset } from './segment-offset.js';
+import { Segment } from './segment.js';
+
+function expectConnected(chain: Segment[]): void {
+  for (let i = 1; i < chain.length; i++) {
+    expect(chain[i - 1]?.endPoint.isEqual(chain[i]?.startPoint as Vec2, 1e-9)).toBe(true);
+  }
+}
+
+describe('SegmentOffset', () => {
+  describe('offsetSegment', () => {
+    it('should move a counterclockwise arc inwards for a positive distance', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI / 2);
+      expect((SegmentOffset.offsetSegment(arc, 1) as ArcSegment).radius).toBe(4);
+      expect((SegmentOffset.offsetSegment(arc, -1) as ArcSegment).radius).toBe(6);
+    });
+
+    it('should move a clockwise arc outwards for a positive distance', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 5, Math.PI / 2, -Math.PI / 2);
+      expect((SegmentOffset.offsetSegment(arc, 1) as ArcSegment).radius).toBe(6);
+    });
+
+    it('should refuse to collapse an arc', () => {
+      const arc = new ArcSegment(new Vec2(0, 0), 5, 0, Math.PI / 2);
+      expect(() => SegmentOffset.offsetSegment(arc, 5)).toThrow();
+    });
+  });
+
+  describe('offsetChain', () => {
+    // A left turn at (10, 0)
+    const corner = [
+      new LineSegment(new Vec2(0, 0), new Vec2(10, 0)),
+      new LineSegment(new Vec2(10, 0), new Vec2(10, 10))
+    ];
+
+    it('should trim pieces meeting at an inside corner', () => {
+      const result = SegmentOffset.offsetChain(corner, 1);
+
+      expect(result).toHaveLength(2);
+      expectSpan(result[0], new Vec2(0, 1), new Vec2(9, 1));
+      expectSpan(result[1], new Vec2(9, 1), new Vec2(9, 10));
+    });
+
+    it('should stretch lines to a miter at an outside corner', () => {
+      const result = SegmentOffset.offsetChain(corner, -1, { join: 'miter' });
+
+      expect(result).toHaveLength(2);
+      expectSpan(result[0], new Vec2(0, -1), new Vec2(11, -1));
+      expectSpan(result[1], new Vec2(11, -1), new Vec2(11, 10));
+    });
+
+    it('should bevel a miter beyond the limit', () => {
+      const result = SegmentOffset.offsetChain(corner, -1, { join: 'miter', miterLimit: 1 });
+
+      expect(result).toHaveLength(3);
+      expectSpan(result[1], new Vec2(10, -1), new Vec2(11, 0));
+    });
+
+    it('should round an outside corner about the original corner point', () => {
+      const result = SegmentOffset.offsetChain(corner, -1, { join: 'round' });
+      const arc = result[1] as ArcSegment;
+
+      expect(result).toHaveLength(3);
+      expect(arc).toBeInstanceOf(ArcSegment);
+      expect(arc.center.isEqual(new Vec2(10, 0), 1e-12)).toBe(true);
+      expect(arc.sweepAngle).toBeCloseTo(Math.PI / 2, 12);
+      expectConnected(result);
+    });
+
+    it('should join a closed chain all the way round', () => {
+      const square = [
+        new LineSegment(new Vec2(0, 0), new Vec2(10, 0)),
+        new LineSegment(new Vec2(10, 0), new Vec2(10, 10)),
+        new LineSegment(new Vec2(10, 10), new Vec2(0, 10)),
+        new LineSegment(new Vec2(0, 10), new Vec2(0, 0))
+      ];
+      const result = SegmentOffset.offsetChain(square, 1);
+
+      expect(result).toHaveLength(4);
+      expectSpan(result[0], new Vec2(1, 1), new Vec2(9, 1));
+      expectSpan(result[3], new Vec2(1, 9), new Vec2(1, 1));
+      expectConnected(result);
+    });
+
+    it('should keep smooth line-arc joints together', () => {
+      const chain = [
+        new LineSegment(new Vec2(0, 0), new Vec2(10, 0)),
+        new ArcSegment(new Vec2(10, 5), 5, -Math.PI / 2, Math.PI)
+      ];
+      const result = SegmentOffset.offsetChain(chain, 1);
+
+      expect(result).toHaveLength(2);
+      expect((result[1] as ArcSegment).radius).toBe(4);
+      expectConnected(result);
+    });
+
+    it('should reject a chain with gaps', () => {
+      const gapped = [new LineSegment(new Vec2(0, 0), new Vec2(1, 0)), new LineSegment(new Vec2(2, 0), new Vec2(3, 0))];
+      expect(() => SegmentOffset.offsetChain(gapped, 1)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentEditing } from './segment-editing.js';
+import { SegmentIntersector } from './segment-intersection.js';
+
+/**
+ * Offsetting of connected line/arc chains for Zotebook.
+ * Positive distances move every segment to the left of its direction of
+ * travel, matching `LineSegment.offset`. Where the offset pieces overlap at an
+ * inside corner they are trimmed to meet; the gap at an outside corner is
+ * closed with the requested join.
+ */
+
+export type ChainSegment = LineSegment | ArcSegment;
+
+/**
+ * How the gap at an outside corner is closed: `miter` extends both sides to a
+ * sharp corner, `round` arcs around the original corner point and `bevel`
+ * draws a straight line across.
+ */
+export type OffsetJoin = 'miter' | 'round' | 'bevel';
+
+export interface OffsetOptions {
+  readonly join: OffsetJoin;
+  readonly miterLimit: number; // Miter length over offset distance beyond which miters are bevelled
+  readonly tolerance: number;
+}
+
+const DEFAULT_OFFSET_OPTIONS: OffsetOptions = {
+  join: 'miter',
+  miterLimit: 4,
+  tolerance: 1e-6
+};
+
+export namespace SegmentOffset {
+  /**
+   * A single line or arc moved `distance` to its left. Throws when an arc
+   * would shrink to nothing.
+   */
+  export function offsetSegment(segment: ChainSegment, distance: number): ChainSegment {
+    if (segment instanceof LineSegment) {
+      return segment.offset(distance);
+    }
+
+    // Left of a counterclockwise arc is towards its center
+    const radius = segment.radius - Math.sign(segment.sweepAngle) * distance;
+    if (radius <= 0) {
+      throw new Error(`Offset of ${distance} collapses arc of radius ${segment.radius}`);
+    }
+    return new ArcSegment(segment.center, radius, segment.startAngle, segment.sweepAngle);
+  }
+
+  /**
+   * Offset a chain whose segments run end to start. A chain whose last segment
+   * ends where the first starts is treated as closed and joined all the way
+   * round. Returns the new chain in order, joins included.
+   */
+  export function offsetChain(
+    chain: ReadonlyArray<ChainSegment>,
+    distance: number,
+    options: Partial<OffsetOptions> = {}
+  ): ChainSegment[] {
+    const settings = { ...DEFAULT_OFFSET_OPTIONS, ...options };
+    if (distance === 0) return chain.map(segment => offsetSegment(segment, 0));
+
+    for (let i = 1; i < chain.length; i++) {
+      if (!(chain[i - 1] as ChainSegment).endPoint.isEqual((chain[i] as ChainSegment).startPoint, settings.tolerance)) {
+        throw new Error(`Chain is not connected between segments ${i - 1} and ${i}`);
+      }
+    }
+    const closed = chain.length > 1 &&
+      (chain[chain.length - 1] as ChainSegment).endPoint.isEqual((chain[0] as ChainSegment).startPoint, settings.tolerance);
+
+    const pieces = chain.map(segment => offsetSegment(segment, distance));
+    const joins: Array<ChainSegment[]> = pieces.map(() => []);
+    const jointCount = closed ? chain.length : chain.length - 1;
+
+    for (let i = 0; i < jointCount; i++) {
+      const next = (i + 1) % chain.length;
+      const corner = (chain[next] as ChainSegment).startPoint;
+      const incoming = (chain[i] as ChainSegment).tangentAt(1);
+      const outgoing = (chain[next] as ChainSegment).tangentAt(0);
+      const turn = incoming.cross(outgoing);
+
+      // Smooth joints stay joined after offsetting
+      if (Math.abs(turn) <= 1e-9 && incoming.dot(outgoing) > 0) continue;
+
+      const before = pieces[i] as ChainSegment;
+      const after = pieces[next] as ChainSegment;
+      if (turn * distance > 0) {
+        // Inside corner: cut both pieces back to where they cross
+        const meeting = insideMeeting(before, after, settings.tolerance);
+        if (meeting) {
+          pieces[i] = meeting[0];
+          pieces[next] = meeting[1];
+          continue;
+        }
+      }
+      const join = outsideJoin(before, after, corner, incoming, outgoing, Math.abs(distance), settings);
+      pieces[i] = join.before;
+      pieces[next] = join.after;
+      (joins[i] as ChainSegment[]).push(...join.between);
+    }
+
+    const result: ChainSegment[] = [];
+    pieces.forEach((piece, i) => result.push(piece, ...(joins[i] as ChainSegment[])));
+    return result;
+  }
+
+  // The pieces cut back to their crossing nearest the corner, or null when they do not cross
+  function insideMeeting(before: ChainSegment, after: ChainSegment, tolerance: number): [ChainSegment, ChainSegment] | null {
+    const crossings = SegmentIntersector.intersect(before, after, tolerance);
+    if (crossings.length === 0) return null;
+
+    // Nearest the corner: latest on the incoming piece
+    const crossing = crossings.reduce((best, c) => (c.t1 > best.t1 ? c : best));
+    const [cutBefore] = SegmentEditing.subSegments(before, 0, crossing.t1) as [ChainSegment];
+    const [cutAfter] = SegmentEditing.subSegments(after, crossing.t2 ?? 0, 1) as [ChainSegment];
+    return [cutBefore, cutAfter];
+  }
+
+  function outsideJoin(
+    before: ChainSegment,
+    after: ChainSegment,
+    corner: Vec2,
+    incoming: Vec2,
+    outgoing: Vec2,
+    distance: number,
+    options: OffsetOptions
+  ): { before: ChainSegment; after: ChainSegment; between: ChainSegment[] } {
+    const from = before.endPoint;
+    const to = after.startPoint;
+
+    if (options.join === 'round') {
+      const sweep = Math.atan2(from.subtract(corner).cross(to.subtract(corner)), from.subtract(corner).dot(to.subtract(corner)));
+      const startAngle = from.subtract(corner).angle;
+      return { before, after, between: [new ArcSegment(corner, distance, startAngle, sweep)] };
+    }
+
+    if (options.join === 'miter') {
+      const miter = tangentLinesMeet(from, incoming, to, outgoing);
+      if (miter && miter.distanceTo(corner) <= options.miterLimit * distance) {
+        // Lines stretch to the miter point; arcs are continued by straight tangent pieces
+        const between: ChainSegment[] = [];
+        const stretchedBefore = before instanceof LineSegment
+          ? new LineSegment(before.startPoint, miter)
+          : (between.push(new LineSegment(from, miter)), before);
+        const stretchedAfter = after instanceof LineSegment
+          ? new LineSegment(miter, after.endPoint)
+          : (between.push(new LineSegment(miter, to)), after);
+        return { before: stretchedBefore, after: stretchedAfter, between };
+      }
+    }
+
+    return { before, after, between: [new LineSegment(from, to)] };
+  }
+
+  // Intersection of the line through p along u and the line through q along v
+  function tangentLinesMeet(p: Vec2, u: Vec2, q: Vec2, v: Vec2): Vec2 | null {
+    const cross = u.cross(v);
+    if (Math.abs(cross) < 1e-12) return null;
+    const s = q.subtract(p).cross(v) / cross;
+    return p.add(u.multiply(s));
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../math/vec2.js';
+
+import { ArcSegment } from './arc-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentRegistry, segmentRegistry } from './segment-registry.js';
+import { SEGMENT_SCHEMA_VERSION } from './segment-schema.js';
+import { REPARAMETERIZED_SEGMENT_TYPE, ReparameterizedSegment, Segment, SegmentType } from './segment.js';
+
+function roundTrip(segment: Segment): Segment {
+  return segmentRegistry.fromJSON(JSON.parse(JSON.stringify(segment.toJSON())));
+}
+
+describe('SegmentRegistry', () => {
+  describe('Round trip', () => {
+    it('should restore line segments', () => {
+      const line = new LineSegment(new Vec2(1, 2), new Vec2(-3, 4.5), 'line-1');
+      const restored = roundTrip(line);
+
+      expect(restored).toBeInstanceOf(LineSegment);
+      expect(restored.id).toBe('line-1');
+      expect(restored.isEqual(line)).toBe(true);
+    });
+
+    it('should restore arc segments including clockwise sweeps', () => {
+      const arc = new ArcSegment(new Vec2(1, 2), 5, Math.PI / 3, -Math.PI * 1.5, 'arc-1');
+      const restored = roundTrip(arc);
+
+      expect(restored).toBeInstanceOf(ArcSegment);
+      expect(restored.id).toBe('arc-1');
+      expect((restored as ArcSegment).isEqual(arc)).toBe(true);
+    });
+
+    it('should restore reparameterized segments and their original', () => {
+      const arc = new ArcSegment(Vec2.ZERO, 2, 0, Math.PI, 'arc-2');
+      const reparameterized = arc.reparameterize(t => 1 - t);
+      const restored = roundTrip(reparameterized);
+
+      expect(restored).toBeInstanceOf(ReparameterizedSegment);
+      expect(restored.id).toBe(reparameterized.id);
+      expect(restored.type).toBe(SegmentType.ARC);
+      expect((restored as ReparameterizedSegment).original).toBeInstanceOf(ArcSegment);
+      for (const t of [0, 0.13, 0.5, 0.87, 1]) {
+        expect(restored.pointAt(t).isEqual(reparameterized.pointAt(t), 1e-12)).toBe(true);
+      }
+    });
+
+    it('should approximate non-affine reparameterizations', () => {
+      const line = new LineSegment(Vec2.ZERO, new Vec2(10, 0));
+      const eased = line.reparameterize(t => t * t);
+      const restored = roundTrip(eased);
+
+      expect(restored.pointAt(0.3).x).toBeCloseTo(0.9, 2);
+    });
+
+    it('should write the current schema version', () => {
+      const json = new LineSegment(Vec2.ZERO, new Vec2(1, 0)).toJSON();
+
+      expect(json.version).toBe(SEGMENT_SCHEMA_VERSION);
+      expect(json.type).toBe(SegmentType.LINE);
+      expect(new ArcSegment(Vec2.ZERO, 1, 0, 1).reparameterize(t => t).toJSON().type)
+        .toBe(REPARAMETERIZED_SEGMENT_TYPE);
+    });
+
+    it('should restore arrays of mixed segments', () => {
+      const segments = [
+        new LineSegment(Vec2.ZERO, new Vec2(1, 0), 'a'),
+        new ArcSegment(new Vec2(1, 1), 1, -Math.PI / 2, Math.PI / 2, 'b')
+      ];
+      const restored = segmentRegistry.fromJSONArray(segments.map(s => s.toJSON()));
+
+      expect(restored.map(s => s.id)).toEqual(['a', 'b']);
+      expect(restored[1]).toBeInstanceOf(ArcSegment);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept unversioned legacy data', () => {
+      const legacy = { id: 'old', type: 'line', startPoint: { x: 0, y: 0 }, endPoint: { x: 1, y: 1 } };
+
+      expect(segmentRegistry.fromJSON(legacy).id).toBe('old');
+    });
+
+    it('should reject data from a newer schema version', () => {
+      const json = { ...new LineSegment(Vec2.ZERO, new Vec2(1, 0)).toJSON(), version: SEGMENT_SCHEMA_VERSION + 1 };
+
+      expect(() => segmentRegistry.fromJSON(json)).toThrow('unsupported version');
+    });
+
+    it('should reject unknown segment types', () => {
+      expect(() => segmentRegistry.fromJSON({ id: 'x', type: 'hyperbola', version: 1 }))
+        .toThrow('segment.type: no deserializer registered for segment type "hyperbola"');
+    });
+
+    it('should report the path of malformed fields', () => {
+      const json = { id: 'l', type: 'line', version: 1, startPoint: { x: 0, y: 'zero' }, endPoint: { x: 1, y: 1 } };
+
+      expect(() => segmentRegistry.fromJSON(json))
+        .toThrow('Invalid segment JSON at segment.startPoint.y: expected a finite number, got "zero"');
+    });
+
+    it('should reject arcs with a non-positive radius', () => {
+      const json = { ...new ArcSegment(Vec2.ZERO, 1, 0, 1).toJSON(), radius: 0 };
+
+      expect(() => segmentRegistry.fromJSON(json)).toThrow('segment.radius: expected a positive number');
+    });
+
+    it('should report the index of malformed array entries', () => {
+      const good = new LineSegment(Vec2.ZERO, new Vec2(1, 0)).toJSON();
+
+      expect(() => segmentRegistry.fromJSONArray([good, null])).toThrow('segments[1]: expected an object, got null');
+      expect(() => segmentRegistry.fromJSONArray({})).toThrow('segments: expected an array');
+    });
+
+    it('should report nested paths inside reparameterized segments', () => {
+      const json = (new LineSegment(Vec2.ZERO, new Vec2(1, 0)).reparameterize(t => t) as ReparameterizedSegment).toJSON();
+      const broken = { ...json, original: { ...json.original, id: '' } };
+
+      expect(() => segmentRegistry.fromJSON(broken)).toThrow('segment.original.id');
+    });
+
+    it('should point generic callers to the registry', () => {
+      expect(() => Segment.fromJSON({})).toThrow('SegmentRegistry.fromJSON');
+    });
+  });
+
+  describe('Registration', () => {
+    it('should dispatch to custom deserializers', () => {
+      const registry = new SegmentRegistry();
+      registry.register('custom', () => new LineSegment(Vec2.ZERO, new Vec2(2, 0), 'custom-line'));
+
+      expect(registry.has('custom')).toBe(true);
+      expect(registry.fromJSON({ type: 'custom' }).id).toBe('custom-line');
+      expect(registry.has(SegmentType.LINE)).toBe(false);
+    });
+
+    it('should register every built-in type by default', () => {
+      expect(SegmentRegistry.createDefault().registeredTypes).toEqual([
+        SegmentType.LINE,
+        SegmentType.ARC,
+        SegmentType.ELLIPSE,
+        SegmentType.SPLINE,
+        REPARAMETERIZED_SEGMENT_TYPE
+      ]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { ArcSegment } from './arc-segment.js';
+import { EllipseSegment } from './ellipse-segment.js';
+import { LineSegment } from './line-segment.js';
+import { SegmentSchema } from './segment-schema.js';
+import { REPARAMETERIZED_SEGMENT_TYPE, ReparameterizedSegment, Segment, SegmentType } from './segment.js';
+import { SplineSegment } from './spline-segment.js';
+
+/**
+ * Polymorphic segment deserialization for Zotebook.
+ * Maps the `type` tag of serialized segments to the function that reconstructs
+ * the matching subclass, so callers never need to know which concrete class a
+ * document contains.
+ */
+
+export type SegmentDeserializer = (data: unknown, path: string, registry: SegmentRegistry) => Segment;
+
+export class SegmentRegistry {
+  private deserializers = new Map<string, SegmentDeserializer>();
+
+  /**
+   * Registry with every built-in segment type registered
+   */
+  static createDefault(): SegmentRegistry {
+    const registry = new SegmentRegistry();
+    registry.register(SegmentType.LINE, (data, path) => LineSegment.fromJSON(data, path));
+    registry.register(SegmentType.ARC, (data, path) => ArcSegment.fromJSON(data, path));
+    registry.register(SegmentType.ELLIPSE, (data, path) => EllipseSegment.fromJSON(data, path));
+    registry.register(SegmentType.SPLINE, (data, path) => SplineSegment.fromJSON(data, path));
+    registry.register(REPARAMETERIZED_SEGMENT_TYPE, (data, path, self) => {
+      const parsed = ReparameterizedSegment.parseJSON(data, path);
+      const original = self.fromJSON(parsed.original, `${path}.original`);
+      return ReparameterizedSegment.fromSamples(original, parsed.samples, parsed.id);
+    });
+    return registry;
+  }
+
+  /**
+   * Register the deserializer for a type tag, replacing any previous registration
+   */
+  register(type: string, deserializer: SegmentDeserializer): void {
+    this.deserializers.set(type, deserializer);
+  }
+
+  unregister(type: string): boolean {
+    return this.deserializers.delete(type);
+  }
+
+  has(type: string): boolean {
+    return this.deserializers.has(type);
+  }
+
+  get registeredTypes(): string[] {
+    return Array.from(this.deserializers.keys());
+  }
+
+  /**
+   * Reconstruct a segment of any registered type
+   */
+  fromJSON(data: unknown, path: string = 'segment'): Segment {
+    const record = SegmentSchema.expectRecord(data, path);
+    const type = SegmentSchema.expectString(record, 'type', path);
+
+    const deserializer = this.deserializers.get(type);
+    if (!deserializer) {
+      SegmentSchema.fail(`${path}.type`, `no deserializer registered for segment type "${type}"`);
+    }
+
+    return deserializer(record, path, this);
+  }
+
+  /**
+   * Reconstruct a list of segments, reporting the index of any malformed entry
+   */
+  fromJSONArray(data: unknown, path: string = 'segments'): Segment[] {
+    if (!Array.isArray(data)) {
+      SegmentSchema.fail(path, `expected an array, got ${SegmentSchema.describe(data)}`);
+    }
+    return data.map((entry: unknown, i) => this.fromJSON(entry, `${path}[${i}]`));
+  }
+}
+
+/**
+ * Shared registry with the built-in segment types, used when loading documents
+ */
+export const segmentRegistry = SegmentRegistry.createDefault();
@@ -0,0 +1,144 @@
+import { Vec2 } from '../math/vec2.js';
+
+/**
+ * Versioned JSON schema shared by all segment types.
+ * Every serialized segment carries `id`, `type` and `version`; concrete segment
+ * classes extend `SegmentJSON` with their own fields and validate input with the
+ * helpers below so malformed documents fail with a descriptive path.
+ */
+
+export const SEGMENT_SCHEMA_VERSION = 1;
+
+export interface Vec2JSON {
+  readonly x: number;
+  readonly y: number;
+}
+
+export interface SegmentJSON {
+  readonly id: string;
+  readonly type: string;
+  readonly version: number;
+}
+
+export type JSONRecord = Readonly<Record<string, unknown>>;
+
+export namespace SegmentSchema {
+  /**
+   * Describe a value for error messages
+   */
+  export function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return `"${value}"`;
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+  }
+
+  export function fail(path: string, message: string): never {
+    throw new Error(`Invalid segment JSON at ${path}: ${message}`);
+  }
+
+  export function expectRecord(value: unknown, path: string): JSONRecord {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, `expected an object, got ${describe(value)}`);
+    }
+    return value as JSONRecord;
+  }
+
+  export function expectString(data: JSONRecord, key: string, path: string): string {
+    const value = data[key];
+    if (typeof value !== 'string' || value.length === 0) {
+      fail(`${path}.${key}`, `expected a non-empty string, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  export function expectNumber(data: JSONRecord, key: string, path: string): number {
+    const value = data[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      fail(`${path}.${key}`, `expected a finite number, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  export function expectPositiveNumber(data: JSONRecord, key: string, path: string): number {
+    const value = expectNumber(data, key, path);
+    if (value <= 0) {
+      fail(`${path}.${key}`, `expected a positive number, got ${value}`);
+    }
+    return value;
+  }
+
+  export function expectVec2(data: JSONRecord, key: string, path: string): Vec2 {
+    const point = expectRecord(data[key], `${path}.${key}`);
+    return new Vec2(
+      expectNumber(point, 'x', `${path}.${key}`),
+      expectNumber(point, 'y', `${path}.${key}`)
+    );
+  }
+
+  export function expectVec2Array(data: JSONRecord, key: string, path: string, minLength: number = 0): Vec2[] {
+    const value = data[key];
+    if (!Array.isArray(value)) {
+      fail(`${path}.${key}`, `expected an array, got ${describe(value)}`);
+    }
+    if (value.length < minLength) {
+      fail(`${path}.${key}`, `expected at least ${minLength} entries, got ${value.length}`);
+    }
+    return value.map((entry: unknown, i) => {
+      const point = expectRecord(entry, `${path}.${key}[${i}]`);
+      return new Vec2(
+        expectNumber(point, 'x', `${path}.${key}[${i}]`),
+        expectNumber(point, 'y', `${path}.${key}[${i}]`)
+      );
+    });
+  }
+
+  export function expectNumberArray(data: JSONRecord, key: string, path: string, minLength: number = 0): number[] {
+    const value = data[key];
+    if (!Array.isArray(value)) {
+      fail(`${path}.${key}`, `expected an array, got ${describe(value)}`);
+    }
+    if (value.length < minLength) {
+      fail(`${path}.${key}`, `expected at least ${minLength} entries, got ${value.length}`);
+    }
+    return value.map((entry: unknown, i) => {
+      if (typeof entry !== 'number' || !Number.isFinite(entry)) {
+        fail(`${path}.${key}[${i}]`, `expected a finite number, got ${describe(entry)}`);
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * Read the schema version. Data written before versioning was introduced has no
+   * `version` field and is treated as version 0, which shares the version 1 layout.
+   */
+  export function readVersion(data: JSONRecord, path: string): number {
+    if (data['version'] === undefined) return 0;
+
+    const version = expectNumber(data, 'version', path);
+    if (!Number.isInteger(version) || version < 0) {
+      fail(`${path}.version`, `expected a non-negative integer, got ${version}`);
+    }
+    if (version > SEGMENT_SCHEMA_VERSION) {
+      fail(`${path}.version`, `unsupported version ${version} (newest supported is ${SEGMENT_SCHEMA_VERSION})`);
+    }
+    return version;
+  }
+
+  /**
+   * Validate the common header and check that the data describes the expected type
+   */
+  export function expectHeader(value: unknown, expectedType: string, path: string = 'segment'): JSONRecord {
+    const data = expectRecord(value, path);
+    expectString(data, 'id', path);
+    readVersion(data, path);
+
+    const type = expectString(data, 'type', path);
+    if (type !== expectedType) {
+      fail(`${path}.type`, `expected "${expectedType}", got "${type}"`);
+    }
+    return data;
+  }
+}
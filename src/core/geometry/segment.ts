@@ -1,6 +1,7 @@
-import { Pt } from '../math/pt.js';
 import { Vec2 } from '../math/vec2.js';
 
+import { SEGMENT_SCHEMA_VERSION, SegmentJSON, SegmentSchema } from './segment-schema.js';
+
 /**
  * Abstract base class for all geometric segments in Zotebook.
  * Based on the original Zotebook Segment hierarchy but designed for immutability and web performance.
@@ -28,6 +29,12 @@ export interface BoundingBox {
   size: Vec2;
 }
 
+// Gauss-Legendre nodes and weights on [-1, 1] used to integrate speed between table entries
+const GAUSS_NODES = [-0.9602898564975363, -0.7966664774136267, -0.5255324099163290, -0.1834346424956498,
+  0.1834346424956498, 0.5255324099163290, 0.7966664774136267, 0.9602898564975363];
+const GAUSS_WEIGHTS = [0.1012285362903763, 0.2223810344533745, 0.3137066458778873, 0.3626837833783620,
+  0.3626837833783620, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763];
+
 /**
  * Abstract base class for all drawable geometric segments.
  * Provides common interface for geometric operations and rendering.
@@ -39,6 +46,7 @@ export abstract class Segment {
   // Cached computed properties for performance
   private _length?: number;
   private _boundingBox?: BoundingBox;
+  private _lengthTable?: number[];
   
   constructor(type: SegmentType, id?: string) {
     this.type = type;
@@ -102,114 +110,135 @@ export abstract class Segment {
     return points;
   }
 
+  /**
+   * Points exactly `spacing` apart along the curve, from the start point on,
+   * finishing with the end point after a last gap of at most `spacing`
+   */
   sampleUniform(spacing: number): Vec2[] {
-    const numPoints = Math.max(2, Math.ceil(this.length / spacing) + 1);
-    return this.samplePoints(numPoints);
+    if (!(spacing > 0)) {
+      throw new Error('Sample spacing must be positive');
+    }
+    const length = this.lengthAtParameter(1);
+    const points: Vec2[] = [];
+    for (let i = 0; i * spacing < length - spacing * 1e-9; i++) {
+      points.push(this.pointAtLength(i * spacing));
+    }
+    points.push(this.endPoint);
+    return points;
   }
 
-  // Geometric queries
-  containsPoint(point: Vec2, tolerance: number = 1e-6): boolean {
-    return this.distanceToPoint(point) <= tolerance;
-  }
+  // Arc-length parameterization
+
+  /**
+   * Distance along the curve from its start to parameter `t` (clamped to [0, 1]).
+   * Curves that are not arc-length parameterized integrate their speed from a
+   * cached table of cumulative lengths.
+   */
+  lengthAtParameter(t: number): number {
+    const table = this.lengthTable;
+    const intervals = table.length - 1;
+    const clamped = this.clampParameter(t);
+    const index = Math.min(Math.floor(clamped * intervals), intervals - 1);
+    return (table[index] as number) + this.integrateSpeed(index / intervals, clamped);
+  }
+
+  /**
+   * Parameter at distance `s` from the start, clamped to the curve. The inverse
+   * of `lengthAtParameter`, solved by Newton iteration kept inside a bisection bracket.
+   */
+  parameterAtLength(s: number): number {
+    const table = this.lengthTable;
+    const intervals = table.length - 1;
+    const total = table[intervals] as number;
+    if (total <= 0) return 0;
+    const target = Math.max(0, Math.min(total, s));
+
+    // Last table entry at or before the target
+    let low = 0;
+    let high = intervals - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if ((table[mid] as number) <= target) low = mid;
+      else high = mid - 1;
+    }
 
-  intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
-    // Default implementation using numerical methods
-    // Subclasses can override with analytical solutions
-    return this.findIntersectionsNumerical(other, tolerance);
-  }
-
-  // Numerical intersection finding (fallback method)
-  private findIntersectionsNumerical(other: Segment, tolerance: number): SegmentIntersection[] {
-    const intersections: SegmentIntersection[] = [];
-    const samples = 100; // Sampling resolution
-
-    // Simple grid-based intersection detection
-    for (let i = 0; i <= samples; i++) {
-      const t1 = i / samples;
-      const p1 = this.pointAt(t1);
-      
-      for (let j = 0; j <= samples; j++) {
-        const t2 = j / samples;
-        const p2 = other.pointAt(t2);
-        
-        if (p1.distanceTo(p2) <= tolerance) {
-          // Found potential intersection, refine it
-          const refined = this.refineIntersection(other, t1, t2, tolerance);
-          if (refined) {
-            intersections.push(refined);
-          }
-        }
-      }
+    const t0 = low / intervals;
+    const start = table[low] as number;
+    const end = table[low + 1] as number;
+    const remaining = target - start;
+    if (end <= start) return t0;
+
+    let lo = t0;
+    let hi = (low + 1) / intervals;
+    let t = t0 + (hi - t0) * remaining / (end - start);
+    for (let iteration = 0; iteration < 32; iteration++) {
+      const error = this.integrateSpeed(t0, t) - remaining;
+      if (Math.abs(error) <= total * 1e-14) break;
+      if (error > 0) hi = t;
+      else lo = t;
+      const speed = this.speedAt(t);
+      const next = speed > 0 ? t - error / speed : NaN;
+      t = next > lo && next < hi ? next : (lo + hi) / 2;
     }
-    
-    return this.removeDuplicateIntersections(intersections, tolerance);
+    return t;
   }
 
-  private refineIntersection(
-    other: Segment, 
-    t1: number, 
-    t2: number, 
-    tolerance: number
-  ): SegmentIntersection | null {
-    // Simple Newton-Raphson refinement
-    let currentT1 = t1;
-    let currentT2 = t2;
-    
-    for (let iter = 0; iter < 10; iter++) {
-      const p1 = this.pointAt(currentT1);
-      const p2 = other.pointAt(currentT2);
-      const distance = p1.distanceTo(p2);
-      
-      if (distance <= tolerance) {
-        const intersectionType = this.classifyIntersection(currentT1, currentT2);
-        return {
-          point: p1.lerp(p2, 0.5),
-          t1: currentT1,
-          t2: currentT2,
-          type: intersectionType
-        };
+  pointAtLength(s: number): Vec2 {
+    return this.pointAt(this.parameterAtLength(s));
+  }
+
+  /**
+   * Magnitude of the derivative with respect to the parameter. Estimated by
+   * central differences; subclasses with an analytic derivative override it.
+   */
+  protected speedAt(t: number): number {
+    const h = 1e-6;
+    const before = this.clampParameter(t - h);
+    const after = this.clampParameter(t + h);
+    return this.pointAt(after).distanceTo(this.pointAt(before)) / (after - before);
+  }
+
+  /**
+   * Number of table intervals the parameter range is cut into. Subclasses
+   * align them with places where the speed is not smooth.
+   */
+  protected get lengthTableIntervals(): number {
+    return 64;
+  }
+
+  // Cumulative lengths at `i / intervals`, starting at 0
+  private get lengthTable(): number[] {
+    if (this._lengthTable === undefined) {
+      const intervals = this.lengthTableIntervals;
+      const table = [0];
+      for (let i = 0; i < intervals; i++) {
+        table.push((table[i] as number) + this.integrateSpeed(i / intervals, (i + 1) / intervals));
       }
-      
-      // Simple step adjustment (could be improved with proper derivatives)
-      const step = 0.01;
-      const gradient1 = this.pointAt(currentT1 + step).subtract(p1);
-      const gradient2 = other.pointAt(currentT2 + step).subtract(p2);
-      
-      currentT1 = Math.max(0, Math.min(1, currentT1 - step));
-      currentT2 = Math.max(0, Math.min(1, currentT2 - step));
+      this._lengthTable = table;
     }
-    
-    return null;
+    return this._lengthTable;
   }
 
-  private classifyIntersection(t1: number, t2: number): 'endpoint' | 'interior' | 'tangent' | 'overlap' {
-    const epsilon = 1e-6;
-    const isT1Endpoint = t1 < epsilon || t1 > (1 - epsilon);
-    const isT2Endpoint = t2 < epsilon || t2 > (1 - epsilon);
-    
-    if (isT1Endpoint || isT2Endpoint) {
-      return 'endpoint';
+  // Gauss-Legendre quadrature of the speed over [from, to]
+  private integrateSpeed(from: number, to: number): number {
+    const middle = (from + to) / 2;
+    const half = (to - from) / 2;
+    let sum = 0;
+    for (let i = 0; i < GAUSS_NODES.length; i++) {
+      sum += (GAUSS_WEIGHTS[i] as number) * this.speedAt(middle + half * (GAUSS_NODES[i] as number));
     }
-    return 'interior';
+    return sum * half;
   }
 
-  private removeDuplicateIntersections(
-    intersections: SegmentIntersection[], 
-    tolerance: number
-  ): SegmentIntersection[] {
-    const unique: SegmentIntersection[] = [];
-    
-    for (const intersection of intersections) {
-      const isDuplicate = unique.some(existing => 
-        existing.point.distanceTo(intersection.point) <= tolerance
-      );
-      
-      if (!isDuplicate) {
-        unique.push(intersection);
-      }
-    }
-    
-    return unique;
+  // Geometric queries
+  containsPoint(point: Vec2, tolerance: number = 1e-6): boolean {
+    return this.distanceToPoint(point) <= tolerance;
+  }
+
+  intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
+    // Default implementation using numerical methods
+    // Subclasses can override with analytical solutions
+    return SegmentUtils.findIntersectionsNumerical(this, other, tolerance);
   }
 
   // Utility methods
@@ -226,18 +255,19 @@ export abstract class Segment {
   }
 
   // Serialization support
-  toJSON(): any {
+  toJSON(): SegmentJSON {
     return {
       id: this.id,
       type: this.type,
+      version: SEGMENT_SCHEMA_VERSION
       // Subclasses should extend this with their specific data
     };
   }
 
   // Factory method for deserialization
-  static fromJSON(data: any): Segment {
-    // Will be implemented by specific segment types
-    throw new Error('fromJSON must be implemented by concrete segment classes');
+  static fromJSON(data: unknown): Segment {
+    // The base class cannot know every subclass; dispatch on `type` lives in SegmentRegistry
+    throw new Error('Segment.fromJSON cannot reconstruct a subclass; use SegmentRegistry.fromJSON instead');
   }
 
   // Unique ID generation
@@ -263,19 +293,65 @@ export abstract class Segment {
   }
 }
 
+export const REPARAMETERIZED_SEGMENT_TYPE = 'reparameterized';
+
+export interface ReparameterizedSegmentJSON extends SegmentJSON {
+  readonly original: SegmentJSON;
+  readonly parameterSamples: number[]; // paramFn sampled uniformly over [0,1]
+}
+
 /**
  * Utility class for reparameterized segments
  */
-class ReparameterizedSegment extends Segment {
+export class ReparameterizedSegment extends Segment {
+  // Intervals used to sample the parameter function for serialization
+  static readonly PARAMETER_SAMPLE_INTERVALS = 32;
+
   private originalSegment: Segment;
   private paramFn: (t: number) => number;
 
-  constructor(original: Segment, paramFn: (t: number) => number) {
-    super(original.type, `reparam_${original.id}`);
+  constructor(original: Segment, paramFn: (t: number) => number, id?: string) {
+    super(original.type, id ?? `reparam_${original.id}`);
     this.originalSegment = original;
     this.paramFn = paramFn;
   }
 
+  /**
+   * Rebuild a reparameterized segment from sampled parameter values.
+   * Samples are interpolated linearly, so affine reparameterizations such as
+   * `t => 1 - t` round-trip exactly and other mappings are approximated.
+   */
+  static fromSamples(original: Segment, samples: ReadonlyArray<number>, id?: string): ReparameterizedSegment {
+    if (samples.length < 2) {
+      throw new Error('Reparameterized segment needs at least two parameter samples');
+    }
+
+    const values = [...samples];
+    const intervals = values.length - 1;
+    const paramFn = (t: number): number => {
+      const position = Math.max(0, Math.min(1, t)) * intervals;
+      const index = Math.min(Math.floor(position), intervals - 1);
+      const a = values[index] ?? 0;
+      const b = values[index + 1] ?? a;
+      return a + (b - a) * (position - index);
+    };
+
+    return new ReparameterizedSegment(original, paramFn, id);
+  }
+
+  get original(): Segment {
+    return this.originalSegment;
+  }
+
+  get parameterSamples(): number[] {
+    const intervals = ReparameterizedSegment.PARAMETER_SAMPLE_INTERVALS;
+    const samples: number[] = [];
+    for (let i = 0; i <= intervals; i++) {
+      samples.push(this.paramFn(i / intervals));
+    }
+    return samples;
+  }
+
   get startPoint(): Vec2 {
     return this.originalSegment.pointAt(this.paramFn(0));
   }
@@ -321,11 +397,11 @@ class ReparameterizedSegment extends Segment {
   }
 
   transform(matrix: any): Segment {
-    return new ReparameterizedSegment(this.originalSegment.transform(matrix), this.paramFn);
+    return new ReparameterizedSegment(this.originalSegment.transform(matrix), this.paramFn, this.id);
   }
 
   clone(): Segment {
-    return new ReparameterizedSegment(this.originalSegment.clone(), this.paramFn);
+    return new ReparameterizedSegment(this.originalSegment.clone(), this.paramFn, this.id);
   }
 
   protected computeLength(): number {
@@ -335,6 +411,27 @@ class ReparameterizedSegment extends Segment {
   protected computeBoundingBox(): BoundingBox {
     return this.originalSegment.boundingBox;
   }
+
+  toJSON(): ReparameterizedSegmentJSON {
+    return {
+      ...super.toJSON(),
+      type: REPARAMETERIZED_SEGMENT_TYPE,
+      original: this.originalSegment.toJSON(),
+      parameterSamples: this.parameterSamples
+    };
+  }
+
+  /**
+   * Validate the reparameterization fields; the nested original is decoded by the caller
+   */
+  static parseJSON(data: unknown, path: string = 'segment'): { id: string; original: unknown; samples: number[] } {
+    const record = SegmentSchema.expectHeader(data, REPARAMETERIZED_SEGMENT_TYPE, path);
+    return {
+      id: SegmentSchema.expectString(record, 'id', path),
+      original: SegmentSchema.expectRecord(record['original'], `${path}.original`),
+      samples: SegmentSchema.expectNumberArray(record, 'parameterSamples', path, 2)
+    };
+  }
 }
 
 // Utility functions for working with segments
@@ -381,4 +478,161 @@ export namespace SegmentUtils {
     return !(box1.max.x < box2.min.x || box2.max.x < box1.min.x ||
              box1.max.y < box2.min.y || box2.max.y < box1.min.y);
   }
-}
\ No newline at end of file
+
+  /**
+   * Intersections of two arbitrary segments found numerically, sorted by `t1`.
+   * Both segments are traced as polylines; every pair of edges passing within
+   * the chord error of each other seeds a Newton iteration on `a(t1) = b(t2)`,
+   * and seeds where Newton stalls (tangencies) fall back to alternating
+   * closest-point projection. Use the analytic routines in SegmentIntersector
+   * where they exist.
+   */
+  export function findIntersectionsNumerical(
+    a: Segment, b: Segment, tolerance: number = 1e-6, samples: number = 64
+  ): SegmentIntersection[] {
+    if (!boundingBoxesIntersect(expandBoundingBox(a.boundingBox, tolerance), b.boundingBox)) return [];
+
+    const polylineA = tracePolyline(a, samples);
+    const polylineB = tracePolyline(b, samples);
+    const found: SegmentIntersection[] = [];
+
+    for (let i = 0; i < samples; i++) {
+      for (let j = 0; j < samples; j++) {
+        const margin = tolerance + (polylineA.sag[i] as number) + (polylineB.sag[j] as number);
+        const seed = closestEdgeParameters(
+          polylineA.points[i] as Vec2, polylineA.points[i + 1] as Vec2,
+          polylineB.points[j] as Vec2, polylineB.points[j + 1] as Vec2,
+          margin
+        );
+        if (!seed) continue;
+
+        const refined = refineIntersection(a, b, (i + seed.u) / samples, (j + seed.v) / samples, tolerance);
+        if (refined && !found.some(existing => existing.point.distanceTo(refined.point) <= Math.max(tolerance, 1e-9))) {
+          found.push(refined);
+        }
+      }
+    }
+    return found.sort((p, q) => p.t1 - q.t1);
+  }
+
+  /**
+   * Type of an intersection at `t1` on `a` and `t2` on `b`: at an end of either
+   * segment, where the curves touch without crossing, or a plain crossing
+   */
+  export function classifyIntersection(
+    a: Segment, b: Segment, t1: number, t2: number, tolerance: number = 1e-6, tangent?: boolean
+  ): SegmentIntersection['type'] {
+    const nearEnd = (segment: Segment, t: number): boolean => {
+      if (segment.isClosed) return false;
+      const epsilon = segment.length > 0 ? tolerance / segment.length : tolerance;
+      return t <= epsilon || t >= 1 - epsilon;
+    };
+    if (nearEnd(a, t1) || nearEnd(b, t2)) return 'endpoint';
+
+    const touching = tangent ?? Math.abs(a.tangentAt(t1).cross(b.tangentAt(t2))) < 1e-6;
+    return touching ? 'tangent' : 'interior';
+  }
+
+  // Polyline through evenly spaced parameters, with each edge's chord error
+  function tracePolyline(segment: Segment, samples: number): { points: Vec2[]; sag: number[] } {
+    const points = Array.from({ length: samples + 1 }, (_, i) => segment.pointAt(i / samples));
+    const sag = points.slice(0, -1).map((point, i) => {
+      const middle = segment.pointAt((i + 0.5) / samples);
+      // The sagitta under-reports S-shaped edges, so take it twice
+      return 2 * middle.distanceTo(point.lerp(points[i + 1] as Vec2, 0.5));
+    });
+    return { points, sag };
+  }
+
+  // Local parameters of the closest approach of two edges, or null when farther than `margin`
+  function closestEdgeParameters(
+    p0: Vec2, p1: Vec2, q0: Vec2, q1: Vec2, margin: number
+  ): { u: number; v: number } | null {
+    const d1 = p1.subtract(p0);
+    const d2 = q1.subtract(q0);
+    const r = p0.subtract(q0);
+    const a = d1.dot(d1);
+    const e = d2.dot(d2);
+    const f = d2.dot(r);
+
+    let u = 0;
+    let v = 0;
+    if (a <= 1e-24 && e <= 1e-24) {
+      // Both edges are points
+    } else if (a <= 1e-24) {
+      v = clamp01(f / e);
+    } else {
+      const c = d1.dot(r);
+      if (e <= 1e-24) {
+        u = clamp01(-c / a);
+      } else {
+        const b = d1.dot(d2);
+        const denominator = a * e - b * b;
+        u = denominator > 1e-24 ? clamp01((b * f - c * e) / denominator) : 0;
+        v = (b * u + f) / e;
+        if (v < 0) {
+          v = 0;
+          u = clamp01(-c / a);
+        } else if (v > 1) {
+          v = 1;
+          u = clamp01((b - c) / a);
+        }
+      }
+    }
+
+    const distance = p0.add(d1.multiply(u)).distanceTo(q0.add(d2.multiply(v)));
+    return distance <= margin ? { u, v } : null;
+  }
+
+  function refineIntersection(
+    a: Segment, b: Segment, t1: number, t2: number, tolerance: number
+  ): SegmentIntersection | null {
+    const step = 1e-7;
+
+    // Newton on a(t1) - b(t2) = 0 with central-difference derivatives
+    for (let iteration = 0; iteration < 20; iteration++) {
+      const residual = a.pointAt(t1).subtract(b.pointAt(t2));
+      if (residual.length <= tolerance * 1e-3) break;
+
+      const da = a.pointAt(Math.min(1, t1 + step)).subtract(a.pointAt(Math.max(0, t1 - step)))
+        .divide(Math.min(1, t1 + step) - Math.max(0, t1 - step));
+      const db = b.pointAt(Math.min(1, t2 + step)).subtract(b.pointAt(Math.max(0, t2 - step)))
+        .divide(Math.min(1, t2 + step) - Math.max(0, t2 - step));
+      const determinant = db.cross(da);
+      if (Math.abs(determinant) < 1e-12 * da.length * db.length) break;
+
+      // Solve da Δ1 - db Δ2 = -residual by Cramer's rule
+      const next1 = clamp01(t1 - db.cross(residual) / determinant);
+      const next2 = clamp01(t2 - da.cross(residual) / determinant);
+      if (Math.abs(next1 - t1) < 1e-15 && Math.abs(next2 - t2) < 1e-15) break;
+      t1 = next1;
+      t2 = next2;
+    }
+
+    // Tangencies make the Jacobian singular; settle them by projection instead
+    let tangent = false;
+    if (a.pointAt(t1).distanceTo(b.pointAt(t2)) > tolerance) {
+      tangent = true;
+      for (let iteration = 0; iteration < 50; iteration++) {
+        t2 = clamp01(b.closestPointTo(a.pointAt(t1)).t);
+        t1 = clamp01(a.closestPointTo(b.pointAt(t2)).t);
+        if (a.pointAt(t1).distanceTo(b.pointAt(t2)) <= tolerance) break;
+      }
+    }
+
+    const p1 = a.pointAt(t1);
+    const p2 = b.pointAt(t2);
+    if (p1.distanceTo(p2) > tolerance) return null;
+
+    return {
+      point: p1.lerp(p2, 0.5),
+      t1,
+      t2,
+      type: classifyIntersection(a, b, t1, t2, tolerance, tangent || undefined)
+    };
+  }
+
+  function clamp01(t: number): number {
+    return Math.max(0, Math.min(1, t));
+  }
+}
@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { segmentRegistry } from './segment-registry.js';
+import { SegmentType } from './segment.js';
+import { SplineSegment, SplineSegmentUtils } from './spline-segment.js';
+
+describe('SplineSegment', () => {
+  // Symmetric arch from (0, 0) to (30, 0) peaking at y = 7.5
+  const arch = SplineSegment.fromBezier(new Vec2(0, 0), new Vec2(10, 10), new Vec2(20, 10), new Vec2(30, 0), 'arch');
+  // Two pieces: the arch followed by its mirror image below the axis
+  const wave = new SplineSegment([
+    new Vec2(0, 0), new Vec2(10, 10), new Vec2(20, 10), new Vec2(30, 0),
+    new Vec2(40, -10), new Vec2(50, -10), new Vec2(60, 0)
+  ], 'wave');
+
+  describe('Construction', () => {
+    it('should require 3n + 1 control points', () => {
+      expect(() => new SplineSegment([Vec2.ZERO, Vec2.ONE])).toThrow('3n + 1');
+      expect(() => new SplineSegment([Vec2.ZERO, Vec2.ONE, Vec2.ONE, Vec2.ZERO, Vec2.ONE])).toThrow();
+    });
+
+    it('should expose its pieces', () => {
+      expect(wave.type).toBe(SegmentType.SPLINE);
+      expect(wave.pieceCount).toBe(2);
+      expect(wave.piece(1)[0].isEqual(new Vec2(30, 0))).toBe(true);
+      expect(wave.startPoint.isEqual(Vec2.ZERO)).toBe(true);
+      expect(wave.endPoint.isEqual(new Vec2(60, 0))).toBe(true);
+      expect(wave.isClosed).toBe(false);
+    });
+
+    it('should interpolate the points of a Catmull-Rom spline', () => {
+      const points = [new Vec2(0, 0), new Vec2(10, 5), new Vec2(20, 0), new Vec2(30, 5)];
+      const spline = SplineSegment.fromCatmullRom(points);
+
+      expect(spline.pieceCount).toBe(3);
+      points.forEach((p, i) => expect(spline.pointAt(i / 3).isEqual(p, 1e-9)).toBe(true));
+    });
+
+    it('should close a Catmull-Rom spline smoothly', () => {
+      const square = [new Vec2(0, 0), new Vec2(10, 0), new Vec2(10, 10), new Vec2(0, 10), new Vec2(0, 0)];
+      const spline = SplineSegment.fromCatmullRom(square);
+
+      expect(spline.isClosed).toBe(true);
+      expect(spline.tangentAt(0).isEqual(spline.tangentAt(1), 1e-9)).toBe(true);
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should evaluate points along the curve', () => {
+      expect(arch.pointAt(0).isEqual(Vec2.ZERO)).toBe(true);
+      expect(arch.pointAt(0.5).isEqual(new Vec2(15, 7.5), 1e-12)).toBe(true);
+      expect(wave.pointAt(0.75).isEqual(new Vec2(45, -7.5), 1e-12)).toBe(true);
+    });
+
+    it('should give unit tangents and left normals', () => {
+      expect(arch.tangentAt(0).isEqual(new Vec2(1, 1).normalized, 1e-12)).toBe(true);
+      expect(arch.tangentAt(0.5).isEqual(Vec2.UNIT_X, 1e-12)).toBe(true);
+      expect(arch.normalAt(0.5).isEqual(Vec2.UNIT_Y, 1e-12)).toBe(true);
+    });
+
+    it('should fall back to the control polygon when a control point sits on an end', () => {
+      const spline = SplineSegment.fromBezier(Vec2.ZERO, Vec2.ZERO, new Vec2(10, 10), new Vec2(20, 0));
+
+      expect(spline.tangentAt(0).isEqual(new Vec2(1, 1).normalized, 1e-12)).toBe(true);
+    });
+
+    it('should compute curvature', () => {
+      // At the apex: |B'| = 30, |B''| = 60 (along y) → κ = 30·60 / 30³
+      expect(arch.curvatureAt(0.5)).toBeCloseTo(1 / 15);
+
+      const straight = SplineSegment.fromBezier(Vec2.ZERO, new Vec2(1, 0), new Vec2(2, 0), new Vec2(3, 0));
+      expect(straight.curvatureAt(0.3)).toBeCloseTo(0);
+    });
+
+    it('should scale derivatives with the number of pieces', () => {
+      expect(wave.derivativeAt(0.25).x).toBeCloseTo(arch.derivativeAt(0.5).x * 2);
+    });
+  });
+
+  describe('Measurement', () => {
+    it('should measure the length of a straight spline exactly', () => {
+      const straight = SplineSegment.fromBezier(Vec2.ZERO, new Vec2(1, 0), new Vec2(7, 0), new Vec2(10, 0));
+      expect(straight.length).toBeCloseTo(10, 9);
+    });
+
+    it('should measure curved lengths', () => {
+      const dense = arch.samplePoints(2001);
+      const polyline = dense.slice(1).reduce((sum, p, i) => sum + p.distanceTo(dense[i] as Vec2), 0);
+
+      expect(arch.length).toBeCloseTo(polyline, 3);
+      expect(wave.length).toBeCloseTo(arch.length * 2, 9);
+    });
+
+    it('should find points by distance even where the parameter runs unevenly', () => {
+      const straight = SplineSegment.fromBezier(Vec2.ZERO, new Vec2(1, 0), new Vec2(2, 0), new Vec2(10, 0));
+
+      expect(straight.pointAt(0.5).x).toBeGreaterThan(1);
+      expect(straight.pointAtLength(5).isEqual(new Vec2(5, 0), 1e-9)).toBe(true);
+      straight.sampleUniform(1).forEach((p, i) => expect(p.isEqual(new Vec2(i, 0), 1e-9)).toBe(true));
+    });
+
+    it('should invert lengths across pieces', () => {
+      expect(wave.lengthAtParameter(1)).toBeCloseTo(wave.length, 9);
+      expect(wave.lengthAtParameter(0.5)).toBeCloseTo(arch.length, 9);
+      for (const s of [0.3, 17, arch.length, 50, wave.length - 1e-3]) {
+        expect(wave.lengthAtParameter(wave.parameterAtLength(s))).toBeCloseTo(s, 9);
+      }
+    });
+
+    it('should bound the curve tightly', () => {
+      const box = wave.boundingBox;
+
+      expect(box.min.isEqual(new Vec2(0, -7.5), 1e-9)).toBe(true);
+      expect(box.max.isEqual(new Vec2(60, 7.5), 1e-9)).toBe(true);
+    });
+  });
+
+  describe('Closest point', () => {
+    it('should find the closest point on the curve', () => {
+      const result = arch.closestPointTo(new Vec2(15, 20));
+
+      expect(result.t).toBeCloseTo(0.5);
+      expect(result.point.isEqual(new Vec2(15, 7.5), 1e-6)).toBe(true);
+      expect(result.distance).toBeCloseTo(12.5);
+    });
+
+    it('should clamp to the end points', () => {
+      const result = wave.closestPointTo(new Vec2(80, 0));
+
+      expect(result.t).toBe(1);
+      expect(wave.distanceToPoint(new Vec2(80, 0))).toBeCloseTo(20);
+    });
+  });
+
+  describe('Subdivision', () => {
+    it('should split a piece with de Casteljau', () => {
+      const [first, second] = arch.subdivide(0.5);
+
+      expect(first.endPoint.isEqual(new Vec2(15, 7.5), 1e-12)).toBe(true);
+      expect(second.startPoint.isEqual(first.endPoint)).toBe(true);
+      expect(first.pointAt(0.5).isEqual(arch.pointAt(0.25), 1e-12)).toBe(true);
+      expect(first.length + second.length).toBeCloseTo(arch.length, 9);
+    });
+
+    it('should split on piece boundaries without adding pieces', () => {
+      const [first, second] = wave.subdivide(0.5);
+
+      expect(first.pieceCount).toBe(1);
+      expect(second.pieceCount).toBe(1);
+      expect(first.isEqual(SplineSegment.fromBezier(...arch.piece(0)))).toBe(true);
+    });
+
+    it('should keep the other pieces when splitting inside one', () => {
+      const [first, second] = wave.subdivide(0.75);
+
+      expect(first.pieceCount).toBe(2);
+      expect(second.pieceCount).toBe(1);
+      expect(first.endPoint.isEqual(wave.pointAt(0.75), 1e-12)).toBe(true);
+    });
+  });
+
+  describe('Transformation', () => {
+    it('should transform control points', () => {
+      const moved = wave.transform(Mat3.translation(5, 5));
+
+      expect(moved.id).toBe('wave');
+      expect(moved.pointAt(0.25).isEqual(wave.pointAt(0.25).add(new Vec2(5, 5)), 1e-12)).toBe(true);
+    });
+
+    it('should support non-uniform scaling', () => {
+      const stretched = arch.transform(Mat3.scale(2, 1));
+
+      expect(stretched.pointAt(0.5).isEqual(new Vec2(30, 7.5), 1e-12)).toBe(true);
+    });
+
+    it('should reverse direction', () => {
+      const reversed = wave.reverse();
+
+      expect(reversed.startPoint.isEqual(wave.endPoint)).toBe(true);
+      expect(reversed.pointAt(0.25).isEqual(wave.pointAt(0.75), 1e-12)).toBe(true);
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should round-trip through JSON and the segment registry', () => {
+      const restored = segmentRegistry.fromJSON(JSON.parse(JSON.stringify(wave)));
+
+      expect(restored).toBeInstanceOf(SplineSegment);
+      expect(restored.id).toBe('wave');
+      expect(restored.isEqual(wave)).toBe(true);
+    });
+
+    it('should reject malformed control point lists', () => {
+      const data = { ...wave.toJSON(), controlPoints: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }, { x: 4, y: 4 }] };
+      const bad = { ...wave.toJSON(), controlPoints: [{ x: 0, y: 0 }, { x: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }] };
+
+      expect(() => SplineSegment.fromJSON(data)).toThrow('segment.controlPoints: expected 3n + 1 points, got 5');
+      expect(() => SplineSegment.fromJSON(bad)).toThrow('segment.controlPoints[1].y');
+    });
+  });
+});
+
+describe('SplineSegmentUtils', () => {
+  it('should find the axis extrema of a piece', () => {
+    const parameters = SplineSegmentUtils.extremaParameters([Vec2.ZERO, new Vec2(10, 10), new Vec2(20, 10), new Vec2(30, 0)]);
+
+    expect(parameters).toHaveLength(1);
+    expect(parameters[0]).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,404 @@
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SegmentIntersector } from './segment-intersection.js';
+import { SegmentJSON, SegmentSchema, Vec2JSON } from './segment-schema.js';
+import { Segment, SegmentType, SegmentIntersection, BoundingBox, SegmentUtils } from './segment.js';
+
+export interface SplineSegmentJSON extends SegmentJSON {
+  readonly controlPoints: Vec2JSON[]; // 3n + 1 points for n cubic pieces
+}
+
+// Gauss-Legendre nodes and weights on [-1, 1] used for piece lengths
+const GAUSS_NODES = [-0.9602898564975363, -0.7966664774136267, -0.5255324099163290, -0.1834346424956498,
+  0.1834346424956498, 0.5255324099163290, 0.7966664774136267, 0.9602898564975363];
+const GAUSS_WEIGHTS = [0.1012285362903763, 0.2223810344533745, 0.3137066458778873, 0.3626837833783620,
+  0.3626837833783620, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763];
+
+/**
+ * Immutable spline segment implementation for Zotebook.
+ * Represents a chain of cubic Bézier pieces sharing their end points: control
+ * points `[p0, c1, c2, p1, c1, c2, p2, ...]`. The segment parameter is split
+ * evenly between the pieces, so `t = i / n` is the start of piece `i`.
+ */
+export class SplineSegment extends Segment {
+  private readonly _controlPoints: ReadonlyArray<Vec2>;
+
+  constructor(controlPoints: ReadonlyArray<Vec2>, id?: string) {
+    super(SegmentType.SPLINE, id);
+    if (controlPoints.length < 4 || (controlPoints.length - 1) % 3 !== 0) {
+      throw new Error(`Spline needs 3n + 1 control points, got ${controlPoints.length}`);
+    }
+    this._controlPoints = [...controlPoints];
+  }
+
+  // Static factory methods
+  static fromBezier(p0: Vec2, c1: Vec2, c2: Vec2, p1: Vec2, id?: string): SplineSegment {
+    return new SplineSegment([p0, c1, c2, p1], id);
+  }
+
+  /**
+   * Uniform Catmull-Rom spline through `points`, converted to Bézier pieces.
+   * The end tangents mirror the neighbouring point; when the first and last
+   * points coincide the curve is closed smoothly.
+   */
+  static fromCatmullRom(points: ReadonlyArray<Vec2>, id?: string): SplineSegment {
+    if (points.length < 2) {
+      throw new Error('Catmull-Rom spline needs at least two points');
+    }
+
+    const last = points.length - 1;
+    const closed = points.length > 3 && (points[0] ?? Vec2.ZERO).isEqual(points[last] ?? Vec2.ZERO, 1e-9);
+    const at = (i: number): Vec2 => {
+      if (closed) return points[((i % last) + last) % last] ?? Vec2.ZERO;
+      if (i < 0) return (points[0] ?? Vec2.ZERO).multiply(2).subtract(points[1] ?? Vec2.ZERO);
+      if (i > last) return (points[last] ?? Vec2.ZERO).multiply(2).subtract(points[last - 1] ?? Vec2.ZERO);
+      return points[i] ?? Vec2.ZERO;
+    };
+
+    const controlPoints: Vec2[] = [points[0] ?? Vec2.ZERO];
+    for (let i = 0; i < last; i++) {
+      const p0 = at(i - 1);
+      const p1 = at(i);
+      const p2 = at(i + 1);
+      const p3 = at(i + 2);
+      controlPoints.push(
+        p1.add(p2.subtract(p0).divide(6)),
+        p2.subtract(p3.subtract(p1).divide(6)),
+        points[i + 1] ?? Vec2.ZERO
+      );
+    }
+    return new SplineSegment(controlPoints, id);
+  }
+
+  // Properties
+  get controlPoints(): ReadonlyArray<Vec2> {
+    return this._controlPoints;
+  }
+
+  get pieceCount(): number {
+    return (this._controlPoints.length - 1) / 3;
+  }
+
+  get startPoint(): Vec2 {
+    return this._controlPoints[0] ?? Vec2.ZERO;
+  }
+
+  get endPoint(): Vec2 {
+    return this._controlPoints[this._controlPoints.length - 1] ?? Vec2.ZERO;
+  }
+
+  get isClosed(): boolean {
+    return this.startPoint.isEqual(this.endPoint, 1e-9);
+  }
+
+  /**
+   * Control points `[p0, c1, c2, p1]` of piece `index`
+   */
+  piece(index: number): [Vec2, Vec2, Vec2, Vec2] {
+    const i = Math.max(0, Math.min(this.pieceCount - 1, index)) * 3;
+    const points = this._controlPoints;
+    return [points[i] ?? Vec2.ZERO, points[i + 1] ?? Vec2.ZERO, points[i + 2] ?? Vec2.ZERO, points[i + 3] ?? Vec2.ZERO];
+  }
+
+  /**
+   * Piece index and local parameter for a segment parameter
+   */
+  locate(t: number): { index: number; u: number } {
+    const n = this.pieceCount;
+    const scaled = this.clampParameter(t) * n;
+    const index = Math.min(Math.floor(scaled), n - 1);
+    return { index, u: scaled - index };
+  }
+
+  // Parametric evaluation
+  pointAt(t: number): Vec2 {
+    const { index, u } = this.locate(t);
+    return SplineSegmentUtils.bezierPoint(this.piece(index), u);
+  }
+
+  /**
+   * First derivative with respect to the segment parameter
+   */
+  derivativeAt(t: number): Vec2 {
+    const { index, u } = this.locate(t);
+    return SplineSegmentUtils.bezierDerivative(this.piece(index), u).multiply(this.pieceCount);
+  }
+
+  /**
+   * Second derivative with respect to the segment parameter
+   */
+  secondDerivativeAt(t: number): Vec2 {
+    const { index, u } = this.locate(t);
+    const n = this.pieceCount;
+    return SplineSegmentUtils.bezierSecondDerivative(this.piece(index), u).multiply(n * n);
+  }
+
+  protected speedAt(t: number): number {
+    return this.derivativeAt(t).length;
+  }
+
+  // Sixteen intervals per piece, so none straddles a joint between pieces
+  protected get lengthTableIntervals(): number {
+    return this.pieceCount * 16;
+  }
+
+  tangentAt(t: number): Vec2 {
+    const derivative = this.derivativeAt(t);
+    if (!derivative.isZero(1e-12)) return derivative.normalized;
+
+    // A control point on the end point: aim at the nearest distinct control point
+    const { index, u } = this.locate(t);
+    const [p0, c1, c2, p1] = this.piece(index);
+    const direction = u < 0.5
+      ? ([c1, c2, p1].find(p => !p.isEqual(p0, 1e-12)) ?? p0).subtract(p0)
+      : p1.subtract([c2, c1, p0].find(p => !p.isEqual(p1, 1e-12)) ?? p1);
+    return direction.isZero(1e-12) ? Vec2.UNIT_X : direction.normalized;
+  }
+
+  normalAt(t: number): Vec2 {
+    return this.tangentAt(t).perpendicular;
+  }
+
+  curvatureAt(t: number): number {
+    const d1 = this.derivativeAt(t);
+    const speed = d1.length;
+    if (speed < 1e-12) return 0;
+    return Math.abs(d1.cross(this.secondDerivativeAt(t))) / (speed * speed * speed);
+  }
+
+  // Distance calculations
+  distanceToPoint(point: Vec2): number {
+    return this.closestPointTo(point).distance;
+  }
+
+  /**
+   * Closest point found by sampling every piece and refining the best sample
+   * with Newton iterations on the squared distance
+   */
+  closestPointTo(point: Vec2): { point: Vec2; t: number; distance: number } {
+    const n = this.pieceCount;
+    const samplesPerPiece = 16;
+
+    let bestT = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i <= n * samplesPerPiece; i++) {
+      const t = i / (n * samplesPerPiece);
+      const distance = this.pointAt(t).distanceToSquared(point);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestT = t;
+      }
+    }
+
+    let t = bestT;
+    for (let iteration = 0; iteration < 8; iteration++) {
+      const offset = this.pointAt(t).subtract(point);
+      const d1 = this.derivativeAt(t);
+      const d2 = this.secondDerivativeAt(t);
+      const numerator = offset.dot(d1);
+      const denominator = d1.dot(d1) + offset.dot(d2);
+      if (Math.abs(denominator) < 1e-12) break;
+
+      const next = this.clampParameter(t - numerator / denominator);
+      if (Math.abs(next - t) < 1e-12) break;
+      t = next;
+    }
+
+    const closest = this.pointAt(t);
+    const distance = closest.distanceTo(point);
+    if (distance * distance > bestDistance) {
+      const sample = this.pointAt(bestT);
+      return { point: sample, t: bestT, distance: Math.sqrt(bestDistance) };
+    }
+    return { point: closest, t, distance };
+  }
+
+  // Transformation: affine maps send Bézier control points to control points
+  transform(matrix: Mat3): SplineSegment {
+    return new SplineSegment(this._controlPoints.map(p => matrix.transformPoint(p)), this.id);
+  }
+
+  // Subdivision
+  subdivide(t: number): [SplineSegment, SplineSegment] {
+    const n = this.pieceCount;
+    const scaled = this.clampParameter(t) * n;
+    const boundary = Math.round(scaled);
+
+    // Splitting on a piece boundary keeps the pieces intact
+    if (Math.abs(scaled - boundary) < 1e-9 && boundary > 0 && boundary < n) {
+      return [
+        new SplineSegment(this._controlPoints.slice(0, boundary * 3 + 1)),
+        new SplineSegment(this._controlPoints.slice(boundary * 3))
+      ];
+    }
+
+    const { index, u } = this.locate(t);
+    const [left, right] = SplineSegmentUtils.splitBezier(this.piece(index), u);
+    return [
+      new SplineSegment([...this._controlPoints.slice(0, index * 3), ...left]),
+      new SplineSegment([...right, ...this._controlPoints.slice(index * 3 + 4)])
+    ];
+  }
+
+  /**
+   * The curve between parameters `from` and `to`, for `from < to`. Pieces get an
+   * equal share of the parameter range, so cutting one short changes how the
+   * parameters of the rest map; `from` is placed on the layout left by the cut.
+   */
+  between(from: number, to: number): SplineSegment {
+    const [head] = this.subdivide(to);
+    if (from <= 0) return head;
+
+    const start = this.locate(from);
+    const end = this.locate(to);
+    // Both ends in one piece: the last piece of `head` covers only `[0, end.u]` of it
+    const u = start.index === end.index && end.u > 0 ? start.u / end.u : start.u;
+    return head.subdivide((start.index + u) / head.pieceCount)[1];
+  }
+
+  // Cloning and copying
+  clone(): SplineSegment {
+    return new SplineSegment(this._controlPoints, this.id);
+  }
+
+  reverse(): SplineSegment {
+    return new SplineSegment([...this._controlPoints].reverse());
+  }
+
+  // Length computation: Gauss-Legendre quadrature, each piece split in halves
+  protected computeLength(): number {
+    let length = 0;
+    for (let i = 0; i < this.pieceCount; i++) {
+      const piece = this.piece(i);
+      length += SplineSegmentUtils.bezierLength(piece, 0, 0.5) + SplineSegmentUtils.bezierLength(piece, 0.5, 1);
+    }
+    return length;
+  }
+
+  // Bounding box computation: end points plus the axis extrema of every piece
+  protected computeBoundingBox(): BoundingBox {
+    const points: Vec2[] = [this.startPoint];
+    for (let i = 0; i < this.pieceCount; i++) {
+      const piece = this.piece(i);
+      for (const u of SplineSegmentUtils.extremaParameters(piece)) {
+        points.push(SplineSegmentUtils.bezierPoint(piece, u));
+      }
+      points.push(piece[3]);
+    }
+    return SegmentUtils.createBoundingBox(points);
+  }
+
+  // Specialized intersection overrides
+  intersectWithSegment(other: Segment, tolerance: number = 1e-6): SegmentIntersection[] {
+    return SegmentIntersector.intersect(this, other, tolerance);
+  }
+
+  // Equality testing
+  isEqual(other: Segment, tolerance: number = 1e-6): boolean {
+    if (!(other instanceof SplineSegment) || other._controlPoints.length !== this._controlPoints.length) {
+      return false;
+    }
+    return this._controlPoints.every((p, i) => p.isEqual(other._controlPoints[i] ?? Vec2.ZERO, tolerance));
+  }
+
+  // Serialization
+  toJSON(): SplineSegmentJSON {
+    return {
+      ...super.toJSON(),
+      controlPoints: this._controlPoints.map(p => p.toJSON())
+    };
+  }
+
+  static fromJSON(data: unknown, path: string = 'segment'): SplineSegment {
+    const record = SegmentSchema.expectHeader(data, SegmentType.SPLINE, path);
+    const controlPoints = SegmentSchema.expectVec2Array(record, 'controlPoints', path, 4);
+    if ((controlPoints.length - 1) % 3 !== 0) {
+      SegmentSchema.fail(`${path}.controlPoints`, `expected 3n + 1 points, got ${controlPoints.length}`);
+    }
+    return new SplineSegment(controlPoints, SegmentSchema.expectString(record, 'id', path));
+  }
+
+  // Debug information
+  toString(): string {
+    return `SPLINE[${this.startPoint.toString()} -> ${this.endPoint.toString()}] pieces=${this.pieceCount}`;
+  }
+}
+
+// Utility functions for working with cubic Bézier pieces
+export namespace SplineSegmentUtils {
+  export type BezierPiece = readonly [Vec2, Vec2, Vec2, Vec2];
+
+  export function bezierPoint([p0, c1, c2, p1]: BezierPiece, u: number): Vec2 {
+    const v = 1 - u;
+    return p0.multiply(v * v * v)
+      .add(c1.multiply(3 * v * v * u))
+      .add(c2.multiply(3 * v * u * u))
+      .add(p1.multiply(u * u * u));
+  }
+
+  export function bezierDerivative([p0, c1, c2, p1]: BezierPiece, u: number): Vec2 {
+    const v = 1 - u;
+    return c1.subtract(p0).multiply(3 * v * v)
+      .add(c2.subtract(c1).multiply(6 * v * u))
+      .add(p1.subtract(c2).multiply(3 * u * u));
+  }
+
+  export function bezierSecondDerivative([p0, c1, c2, p1]: BezierPiece, u: number): Vec2 {
+    const a = c2.subtract(c1.multiply(2)).add(p0);
+    const b = p1.subtract(c2.multiply(2)).add(c1);
+    return a.multiply(6 * (1 - u)).add(b.multiply(6 * u));
+  }
+
+  /**
+   * de Casteljau split of a piece at `u`
+   */
+  export function splitBezier([p0, c1, c2, p1]: BezierPiece, u: number): [Vec2[], Vec2[]] {
+    const a = p0.lerp(c1, u);
+    const b = c1.lerp(c2, u);
+    const c = c2.lerp(p1, u);
+    const d = a.lerp(b, u);
+    const e = b.lerp(c, u);
+    const split = d.lerp(e, u);
+    return [[p0, a, d, split], [split, e, c, p1]];
+  }
+
+  /**
+   * Arc length of a piece between local parameters `from` and `to`
+   */
+  export function bezierLength(piece: BezierPiece, from: number, to: number): number {
+    const half = (to - from) / 2;
+    const middle = (to + from) / 2;
+    let length = 0;
+    for (let i = 0; i < GAUSS_NODES.length; i++) {
+      const u = middle + half * (GAUSS_NODES[i] ?? 0);
+      length += (GAUSS_WEIGHTS[i] ?? 0) * bezierDerivative(piece, u).length;
+    }
+    return length * half;
+  }
+
+  /**
+   * Local parameters in (0, 1) where x or y of the piece reaches an extremum
+   */
+  export function extremaParameters([p0, c1, c2, p1]: BezierPiece): number[] {
+    const parameters: number[] = [];
+    for (const axis of ['x', 'y'] as const) {
+      // Derivative / 3 = a u² + b u + c
+      const a = -p0[axis] + 3 * c1[axis] - 3 * c2[axis] + p1[axis];
+      const b = 2 * (p0[axis] - 2 * c1[axis] + c2[axis]);
+      const c = c1[axis] - p0[axis];
+      parameters.push(...solveQuadratic(a, b, c).filter(u => u > 0 && u < 1));
+    }
+    return parameters;
+  }
+
+  function solveQuadratic(a: number, b: number, c: number): number[] {
+    if (Math.abs(a) < 1e-12) {
+      return Math.abs(b) < 1e-12 ? [] : [-c / b];
+    }
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    const root = Math.sqrt(discriminant);
+    return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment, ArcSegmentUtils } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { DxfExporter, DxfExportUtils } from './dxf-export.js';
+
+type Group = [number, string];
+
+function groups(dxf: string): Group[] {
+  const lines = dxf.split('\n');
+  const result: Group[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    result.push([Number(lines[i]), lines[i + 1] ?? '']);
+  }
+  return result;
+}
+
+/**
+ * Group lists of each entity of the given type, in file order
+ */
+function entities(dxf: string, type: string): Map<number, string>[] {
+  const all = groups(dxf);
+  const start = all.findIndex(([code, value]) => code === 2 && value === 'ENTITIES');
+  const found: Map<number, string>[] = [];
+  let current: Map<number, string> | null = null;
+  for (const [code, value] of all.slice(start + 1)) {
+    if (code === 0) {
+      current = value === type ? new Map() : null;
+      if (current) found.push(current);
+    } else {
+      current?.set(code, value);
+    }
+  }
+  return found;
+}
+
+function headerValue(dxf: string, variable: string): string | undefined {
+  const all = groups(dxf);
+  const index = all.findIndex(([code, value]) => code === 9 && value === variable);
+  return all[index + 1]?.[1];
+}
+
+describe('DxfExporter', () => {
+  const identity = { transform: Mat3.IDENTITY };
+
+  it('should write an R12 file with all sections', () => {
+    const dxf = new DxfExporter().export([]);
+    const sections = groups(dxf).filter(([code]) => code === 2).map(([, value]) => value);
+
+    expect(headerValue(dxf, '$ACADVER')).toBe('AC1009');
+    expect(sections.slice(0, 2)).toEqual(['HEADER', 'TABLES']);
+    expect(sections).toContain('ENTITIES');
+    expect(dxf.endsWith('  0\nEOF\n')).toBe(true);
+  });
+
+  it('should write lines as LINE entities', () => {
+    const dxf = new DxfExporter(identity).export([new LineSegment(new Vec2(1, 2), new Vec2(3.5, 4))]);
+    const [line] = entities(dxf, 'LINE');
+
+    expect(line?.get(8)).toBe('0');
+    expect([line?.get(10), line?.get(20), line?.get(11), line?.get(21)]).toEqual(['1.0', '2.0', '3.5', '4.0']);
+  });
+
+  it('should write counter-clockwise arcs from start to end', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 5, 0, Math.PI / 2);
+    const [entity] = entities(new DxfExporter(identity).export([arc]), 'ARC');
+
+    expect(entity?.get(40)).toBe('5.0');
+    expect([entity?.get(50), entity?.get(51)]).toEqual(['0.0', '90.0']);
+  });
+
+  it('should write clockwise arcs from their end point', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 5, 0, -Math.PI / 2);
+    const [entity] = entities(new DxfExporter(identity).export([arc]), 'ARC');
+
+    expect([entity?.get(50), entity?.get(51)]).toEqual(['270.0', '0.0']);
+  });
+
+  it('should flip the y axis by default', () => {
+    // Clockwise on a y-down screen is counter-clockwise in y-up DXF
+    const arc = new ArcSegment(Vec2.ZERO, 5, 0, Math.PI / 2);
+    const dxf = new DxfExporter().export([arc, new LineSegment(Vec2.ZERO, new Vec2(0, 10))]);
+    const [entity] = entities(dxf, 'ARC');
+    const [line] = entities(dxf, 'LINE');
+
+    expect([entity?.get(50), entity?.get(51)]).toEqual(['270.0', '0.0']);
+    expect(line?.get(21)).toBe('-10.0');
+  });
+
+  it('should write full circles as CIRCLE entities', () => {
+    const dxf = new DxfExporter(identity).export([ArcSegmentUtils.createFullCircle(new Vec2(2, 3), 4)]);
+    const [circle] = entities(dxf, 'CIRCLE');
+
+    expect(entities(dxf, 'ARC')).toHaveLength(0);
+    expect([circle?.get(10), circle?.get(20), circle?.get(40)]).toEqual(['2.0', '3.0', '4.0']);
+  });
+
+  it('should assign segments to layers and declare them', () => {
+    const dxf = new DxfExporter({
+      ...identity,
+      layers: [{ name: 'Outline', color: 1 }],
+      layerOf: (segment): string => (segment.id === 'hole' ? 'Holes' : 'Outline')
+    }).export([
+      new LineSegment(Vec2.ZERO, new Vec2(1, 0), 'edge'),
+      new ArcSegment(Vec2.ZERO, 1, 0, Math.PI * 2, 'hole')
+    ]);
+    const layers = entities(dxf.replace(/ENTITIES[\s\S]*$/, ''), 'LAYER');
+
+    expect(entities(dxf, 'LINE')[0]?.get(8)).toBe('Outline');
+    expect(entities(dxf, 'CIRCLE')[0]?.get(8)).toBe('Holes');
+    expect(layers.map(l => [l.get(2), l.get(62)])).toEqual([['0', '7'], ['Outline', '1'], ['Holes', '7']]);
+  });
+
+  it('should reject invalid layer names', () => {
+    expect(() => new DxfExporter({ defaultLayer: 'a/b' }).export([])).toThrow('Invalid DXF layer name "a/b"');
+  });
+
+  it('should write unit headers', () => {
+    const inches = new DxfExporter({ units: 'inches' }).export([]);
+    const millimetres = new DxfExporter().export([]);
+
+    expect(headerValue(inches, '$INSUNITS')).toBe('1');
+    expect(headerValue(inches, '$MEASUREMENT')).toBe('0');
+    expect(headerValue(millimetres, '$INSUNITS')).toBe('4');
+    expect(headerValue(millimetres, '$MEASUREMENT')).toBe('1');
+  });
+
+  it('should leave out unit headers when no units are set', () => {
+    const dxf = new DxfExporter({ units: null }).export([new LineSegment(Vec2.ZERO, new Vec2(1, 1))]);
+    const variables = groups(dxf).filter(([code]) => code === 9).map(([, value]) => value);
+
+    expect(variables).toEqual(['$ACADVER', '$EXTMIN', '$EXTMAX']);
+  });
+
+  it('should convert units through the transform', () => {
+    // Millimetre world coordinates written as inches
+    const inches = new DxfExporter({ transform: Mat3.scale(1 / 25.4, 1 / 25.4), units: 'inches' });
+    const dxf = inches.export([new LineSegment(Vec2.ZERO, new Vec2(254, 0))]);
+
+    expect(headerValue(dxf, '$INSUNITS')).toBe('1');
+    expect(Number(entities(dxf, 'LINE')[0]?.get(11))).toBeCloseTo(10, 6);
+  });
+
+  it('should fall back to polylines for arcs under non-uniform scaling', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 1, 0, Math.PI / 2);
+    const dxf = new DxfExporter({ transform: Mat3.scale(2, 1), curveSamples: 3 }).export([arc]);
+
+    expect(entities(dxf, 'POLYLINE')).toHaveLength(1);
+    expect(entities(dxf, 'VERTEX').map(v => v.get(10))).toEqual(['2.0', '1.414214', '0.0']);
+    expect(entities(dxf, 'SEQEND')).toHaveLength(1);
+  });
+});
+
+describe('DxfExportUtils', () => {
+  it('should normalise angles into [0, 360)', () => {
+    expect(DxfExportUtils.normalizeDegrees(-90)).toBe(270);
+    expect(DxfExportUtils.normalizeDegrees(720)).toBe(0);
+  });
+
+  it('should map arcs that cross zero degrees', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 1, -Math.PI / 4, Math.PI / 2);
+    const angles = DxfExportUtils.arcAngles(arc);
+
+    expect(angles.startDegrees).toBeCloseTo(315);
+    expect(angles.endDegrees).toBeCloseTo(45);
+  });
+
+  it('should format groups with right-aligned codes', () => {
+    expect(DxfExportUtils.formatGroup(0, 'LINE')).toBe('  0\nLINE\n');
+    expect(DxfExportUtils.formatGroup(10, 2)).toBe(' 10\n2.0\n');
+    expect(DxfExportUtils.formatGroup(70, 1)).toBe(' 70\n1\n');
+  });
+});
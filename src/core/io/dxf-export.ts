@@ -0,0 +1,286 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment, SegmentUtils } from '../geometry/segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SvgExportUtils } from './svg-export.js';
+
+/**
+ * DXF export for Zotebook drawings.
+ * Writes an AutoCAD R12 (AC1009) ASCII file that LibreCAD, AutoCAD and most CAM
+ * tools read. Lines become LINE entities, arcs become ARC (always counter-clockwise
+ * in DXF, so clockwise arcs are written from their end point) and full circles
+ * become CIRCLE. Curves without a DXF primitive are written as sampled 2D POLYLINEs.
+ * Drawing units go in $INSUNITS and $MEASUREMENT; R12 predates both, but LibreCAD
+ * and AutoCAD read them from an AC1009 header and other readers skip them.
+ */
+
+/**
+ * Drawing units, written as the $INSUNITS header code
+ */
+export type DxfUnits = 'unitless' | 'inches' | 'feet' | 'millimeters' | 'centimeters' | 'meters';
+
+export interface DxfLayer {
+  readonly name: string;
+  readonly color: number;             // AutoCAD Color Index, 1-255
+}
+
+export interface DxfExportOptions {
+  readonly transform: Mat3;           // World (y-down) to DXF (y-up) coordinates
+  readonly units: DxfUnits | null;    // Written as unit headers unless null
+  readonly defaultLayer: string;      // Layer for segments without an assignment
+  readonly layerOf: ((segment: Segment) => string | undefined) | null;
+  readonly layers: ReadonlyArray<DxfLayer>; // Layer table entries; referenced layers not listed get white
+  readonly precision: number;         // Decimal places in coordinates
+  readonly curveSamples: number;      // Polyline vertices for curves without a DXF primitive
+}
+
+const DEFAULT_DXF_EXPORT_OPTIONS: DxfExportOptions = {
+  transform: Mat3.scale(1, -1),
+  units: 'millimeters',
+  defaultLayer: '0',
+  layerOf: null,
+  layers: [],
+  precision: 6,
+  curveSamples: 64
+};
+
+// AutoCAD Color Index used for layers without an explicit color
+const DEFAULT_LAYER_COLOR = 7;
+
+/**
+ * Segment converted to DXF coordinates, ready to be written
+ */
+export type DxfEntity =
+  | { readonly kind: 'line'; readonly start: Vec2; readonly end: Vec2 }
+  | { readonly kind: 'arc'; readonly center: Vec2; readonly radius: number; readonly startDegrees: number; readonly endDegrees: number }
+  | { readonly kind: 'circle'; readonly center: Vec2; readonly radius: number }
+  | { readonly kind: 'polyline'; readonly points: Vec2[] };
+
+export class DxfExporter {
+  private options: DxfExportOptions;
+
+  constructor(options: Partial<DxfExportOptions> = {}) {
+    this.options = { ...DEFAULT_DXF_EXPORT_OPTIONS, ...options };
+  }
+
+  /**
+   * Write a complete DXF document containing the given segments
+   */
+  export(segments: ReadonlyArray<Segment>): string {
+    const { transform, curveSamples, precision } = this.options;
+    const entities = segments.map(segment => ({
+      layer: this.layerFor(segment),
+      entity: DxfExportUtils.toDxfSpace(segment, transform, curveSamples)
+    }));
+
+    const layers = new Map<string, number>();
+    layers.set(DxfExportUtils.validateLayerName(this.options.defaultLayer), DEFAULT_LAYER_COLOR);
+    for (const layer of this.options.layers) {
+      layers.set(DxfExportUtils.validateLayerName(layer.name), layer.color);
+    }
+    for (const { layer } of entities) {
+      if (!layers.has(layer)) layers.set(layer, DEFAULT_LAYER_COLOR);
+    }
+
+    const groups: Array<[number, string | number]> = [];
+    const add = (...pairs: Array<[number, string | number]>): void => {
+      groups.push(...pairs);
+    };
+
+    add([0, 'SECTION'], [2, 'HEADER']);
+    add([9, '$ACADVER'], [1, 'AC1009']);
+    if (this.options.units !== null) {
+      add([9, '$INSUNITS'], [70, DxfExportUtils.unitsCode(this.options.units)]);
+      add([9, '$MEASUREMENT'], [70, DxfExportUtils.isMetric(this.options.units) ? 1 : 0]);
+    }
+    const extents = DxfExportUtils.extents(entities.map(e => e.entity));
+    add([9, '$EXTMIN'], [10, extents.min.x], [20, extents.min.y], [30, 0]);
+    add([9, '$EXTMAX'], [10, extents.max.x], [20, extents.max.y], [30, 0]);
+    add([0, 'ENDSEC']);
+
+    add([0, 'SECTION'], [2, 'TABLES']);
+    add([0, 'TABLE'], [2, 'LTYPE'], [70, 1]);
+    add([0, 'LTYPE'], [2, 'CONTINUOUS'], [70, 0], [3, 'Solid line'], [72, 65], [73, 0], [40, 0]);
+    add([0, 'ENDTAB']);
+    add([0, 'TABLE'], [2, 'LAYER'], [70, layers.size]);
+    for (const [name, color] of layers) {
+      add([0, 'LAYER'], [2, name], [70, 0], [62, color], [6, 'CONTINUOUS']);
+    }
+    add([0, 'ENDTAB'], [0, 'ENDSEC']);
+
+    add([0, 'SECTION'], [2, 'ENTITIES']);
+    for (const { layer, entity } of entities) {
+      groups.push(...DxfExportUtils.entityGroups(entity, layer));
+    }
+    add([0, 'ENDSEC'], [0, 'EOF']);
+
+    return groups.map(([code, value]) => DxfExportUtils.formatGroup(code, value, precision)).join('');
+  }
+
+  /**
+   * Update export options
+   */
+  updateOptions(newOptions: Partial<DxfExportOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private layerFor(segment: Segment): string {
+    const layer = this.options.layerOf?.(segment) ?? this.options.defaultLayer;
+    return DxfExportUtils.validateLayerName(layer);
+  }
+}
+
+// Utility functions for DXF output
+export namespace DxfExportUtils {
+  /**
+   * Map a segment into DXF space. Arcs stay arcs under similarity transforms
+   * (a reflection reverses their sweep); other curves fall back to a polyline.
+   */
+  export function toDxfSpace(segment: Segment, matrix: Mat3, curveSamples: number = 64): DxfEntity {
+    if (segment instanceof LineSegment) {
+      return { kind: 'line', start: matrix.transformPoint(segment.startPoint), end: matrix.transformPoint(segment.endPoint) };
+    }
+
+    if (segment instanceof ArcSegment && SvgExportUtils.isSimilarity(matrix)) {
+      const arc = segment.transform(matrix);
+      if (arc.isClosed) {
+        return { kind: 'circle', center: arc.center, radius: arc.radius };
+      }
+      return { kind: 'arc', center: arc.center, radius: arc.radius, ...arcAngles(arc) };
+    }
+
+    return {
+      kind: 'polyline',
+      points: segment.samplePoints(Math.max(2, curveSamples)).map(p => matrix.transformPoint(p))
+    };
+  }
+
+  /**
+   * DXF arc angles in degrees. DXF arcs always run counter-clockwise from start
+   * to end, so an arc with a negative sweep is written from its end angle.
+   */
+  export function arcAngles(arc: ArcSegment): { startDegrees: number; endDegrees: number } {
+    const from = arc.sweepAngle >= 0 ? arc.startAngle : arc.startAngle + arc.sweepAngle;
+    const to = from + Math.abs(arc.sweepAngle);
+    return { startDegrees: normalizeDegrees(toDegrees(from)), endDegrees: normalizeDegrees(toDegrees(to)) };
+  }
+
+  export function toDegrees(radians: number): number {
+    return (radians * 180) / Math.PI;
+  }
+
+  /**
+   * Wrap an angle into [0, 360)
+   */
+  export function normalizeDegrees(degrees: number): number {
+    const wrapped = degrees % 360;
+    return wrapped < 0 ? wrapped + 360 : wrapped;
+  }
+
+  export function unitsCode(units: DxfUnits): number {
+    switch (units) {
+      case 'unitless': return 0;
+      case 'inches': return 1;
+      case 'feet': return 2;
+      case 'millimeters': return 4;
+      case 'centimeters': return 5;
+      case 'meters': return 6;
+    }
+  }
+
+  export function isMetric(units: DxfUnits): boolean {
+    return units !== 'inches' && units !== 'feet';
+  }
+
+  /**
+   * Reject layer names that DXF readers refuse
+   */
+  export function validateLayerName(name: string): string {
+    if (name.length === 0 || name.length > 255 || /[<>/\\":;?*|=`\n\r]/.test(name)) {
+      throw new Error(`Invalid DXF layer name "${name}"`);
+    }
+    return name;
+  }
+
+  /**
+   * Bounding box of entities in DXF space (zero box when empty)
+   */
+  export function extents(entities: ReadonlyArray<DxfEntity>): { min: Vec2; max: Vec2 } {
+    const points: Vec2[] = [];
+    for (const entity of entities) {
+      switch (entity.kind) {
+        case 'line':
+          points.push(entity.start, entity.end);
+          break;
+        case 'arc':
+        case 'circle': {
+          // Full circle bounds are a safe, slightly loose extent for arcs
+          const r = new Vec2(entity.radius, entity.radius);
+          points.push(entity.center.subtract(r), entity.center.add(r));
+          break;
+        }
+        case 'polyline':
+          points.push(...entity.points);
+          break;
+      }
+    }
+    const box = SegmentUtils.createBoundingBox(points);
+    return { min: box.min, max: box.max };
+  }
+
+  /**
+   * Group code/value pairs for one entity
+   */
+  export function entityGroups(entity: DxfEntity, layer: string): Array<[number, string | number]> {
+    switch (entity.kind) {
+      case 'line':
+        return [
+          [0, 'LINE'], [8, layer],
+          [10, entity.start.x], [20, entity.start.y], [30, 0],
+          [11, entity.end.x], [21, entity.end.y], [31, 0]
+        ];
+      case 'circle':
+        return [
+          [0, 'CIRCLE'], [8, layer],
+          [10, entity.center.x], [20, entity.center.y], [30, 0],
+          [40, entity.radius]
+        ];
+      case 'arc':
+        return [
+          [0, 'ARC'], [8, layer],
+          [10, entity.center.x], [20, entity.center.y], [30, 0],
+          [40, entity.radius],
+          [50, entity.startDegrees], [51, entity.endDegrees]
+        ];
+      case 'polyline': {
+        const groups: Array<[number, string | number]> = [
+          [0, 'POLYLINE'], [8, layer], [66, 1], [10, 0], [20, 0], [30, 0], [70, 0]
+        ];
+        for (const point of entity.points) {
+          groups.push([0, 'VERTEX'], [8, layer], [10, point.x], [20, point.y], [30, 0]);
+        }
+        groups.push([0, 'SEQEND'], [8, layer]);
+        return groups;
+      }
+    }
+  }
+
+  /**
+   * Write one group: the code right-aligned on its own line, then the value.
+   * Codes 10-59 are floating point and always carry a decimal point.
+   */
+  export function formatGroup(code: number, value: string | number, precision: number = 6): string {
+    let text: string;
+    if (typeof value === 'string') {
+      text = value;
+    } else if (code >= 10 && code < 60) {
+      text = SvgExportUtils.formatNumber(value, precision);
+      if (!text.includes('.')) text += '.0';
+    } else {
+      text = String(Math.round(value));
+    }
+    return `${String(code).padStart(3)}\n${text}\n`;
+  }
+}
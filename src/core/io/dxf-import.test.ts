@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { DxfExporter } from './dxf-export.js';
+import { DxfImporter, DxfImportUtils } from './dxf-import.js';
+
+/**
+ * Minimal DXF document with the given entity groups, written as [code, value] pairs
+ */
+function dxf(...entities: Array<Array<[number, string | number]>>): string {
+  const groups: Array<[number, string | number]> = [
+    [0, 'SECTION'], [2, 'ENTITIES'],
+    ...entities.flat(),
+    [0, 'ENDSEC'], [0, 'EOF']
+  ];
+  return groups.map(([code, value]) => `${code}\n${value}\n`).join('');
+}
+
+// Import in DXF coordinates so expectations read like the file
+const identity = { transform: Mat3.IDENTITY };
+
+describe('DxfImporter', () => {
+  it('should import lines', () => {
+    const { segments } = new DxfImporter(identity).import(dxf(
+      [[0, 'LINE'], [8, '0'], [10, 1], [20, 2], [30, 0], [11, 4], [21, 6], [31, 0]]
+    ));
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toBeInstanceOf(LineSegment);
+    expect(segments[0]?.startPoint.isEqual(new Vec2(1, 2))).toBe(true);
+    expect(segments[0]?.length).toBeCloseTo(5);
+  });
+
+  it('should import arcs counter-clockwise from start to end angle', () => {
+    const { segments } = new DxfImporter(identity).import(dxf(
+      [[0, 'ARC'], [10, 0], [20, 0], [40, 2], [50, 270], [51, 90]]
+    ));
+    const arc = segments[0];
+    if (!(arc instanceof ArcSegment)) throw new Error('expected arc');
+
+    expect(arc.sweepAngle).toBeCloseTo(Math.PI);
+    expect(arc.startPoint.isEqual(new Vec2(0, -2), 1e-9)).toBe(true);
+    expect(arc.endPoint.isEqual(new Vec2(0, 2), 1e-9)).toBe(true);
+  });
+
+  it('should import circles as full arcs', () => {
+    const { segments } = new DxfImporter(identity).import(dxf([[0, 'CIRCLE'], [10, 3], [20, 4], [40, 1.5]]));
+
+    expect(segments[0]?.isClosed).toBe(true);
+    expect((segments[0] as ArcSegment).radius).toBe(1.5);
+  });
+
+  it('should expand LWPOLYLINE bulges into arcs', () => {
+    const { segments } = new DxfImporter(identity).import(dxf([
+      [0, 'LWPOLYLINE'], [8, 'Outline'], [90, 3], [70, 1],
+      [10, 0], [20, 0],
+      [10, 10], [20, 0], [42, 1],
+      [10, 10], [20, 10]
+    ]));
+
+    expect(segments.map(s => s.constructor.name)).toEqual(['LineSegment', 'ArcSegment', 'LineSegment']);
+    const arc = segments[1] as ArcSegment;
+    expect(arc.sweepAngle).toBeCloseTo(Math.PI);
+    expect(arc.center.isEqual(new Vec2(10, 5), 1e-9)).toBe(true);
+    expect(arc.pointAt(0.5).x).toBeCloseTo(15);
+    expect(segments[2]?.endPoint.isEqual(Vec2.ZERO)).toBe(true);
+  });
+
+  it('should import old-style POLYLINE vertices', () => {
+    const { segments } = new DxfImporter(identity).import(dxf(
+      [[0, 'POLYLINE'], [66, 1], [70, 0]],
+      [[0, 'VERTEX'], [10, 0], [20, 0]],
+      [[0, 'VERTEX'], [10, 5], [20, 0], [42, -0.5]],
+      [[0, 'VERTEX'], [10, 10], [20, 0]],
+      [[0, 'SEQEND']],
+      [[0, 'LINE'], [10, 0], [20, 1], [11, 0], [21, 2]]
+    ));
+
+    expect(segments).toHaveLength(3);
+    expect((segments[1] as ArcSegment).sweepAngle).toBeLessThan(0);
+  });
+
+  it('should record the layer of each segment', () => {
+    const { segments, layers } = new DxfImporter(identity).import(dxf(
+      [[0, 'LINE'], [8, 'Holes'], [10, 0], [20, 0], [11, 1], [21, 0]]
+    ));
+
+    expect(layers.get(segments[0]?.id ?? '')).toBe('Holes');
+  });
+
+  it('should filter by layer', () => {
+    const { segments } = new DxfImporter({ ...identity, layerFilter: (layer): boolean => layer !== 'Dimensions' }).import(dxf(
+      [[0, 'LINE'], [8, 'Dimensions'], [10, 0], [20, 0], [11, 1], [21, 0]],
+      [[0, 'LINE'], [8, 'Outline'], [10, 0], [20, 0], [11, 0], [21, 1]]
+    ));
+
+    expect(segments).toHaveLength(1);
+  });
+
+  it('should report skipped entity types', () => {
+    const { skipped } = new DxfImporter().import(dxf(
+      [[0, 'TEXT'], [1, 'Label']],
+      [[0, 'INSERT'], [2, 'Bolt']],
+      [[0, 'TEXT'], [1, 'Other']]
+    ));
+
+    expect(skipped).toEqual([{ type: 'INSERT', count: 1 }, { type: 'TEXT', count: 2 }]);
+  });
+
+  it('should warn about malformed entities and keep the rest', () => {
+    const { segments, warnings } = new DxfImporter().import(dxf(
+      [[0, 'CIRCLE'], [10, 0], [20, 0], [40, 0]],
+      [[0, 'LINE'], [10, 0], [20, 0], [11, 'x'], [21, 0]],
+      [[0, 'ARC'], [10, 0], [20, 0], [40, 1], [50, 0], [51, 45]]
+    ));
+
+    expect(segments).toHaveLength(1);
+    expect(warnings.map(w => [w.entity, w.message])).toEqual([
+      ['CIRCLE', 'invalid radius 0; entity skipped'],
+      ['LINE', 'group 11 is not a number: "x"; entity skipped']
+    ]);
+    expect(warnings[1]?.line).toBe(13);
+  });
+
+  it('should mirror entities with a flipped extrusion direction', () => {
+    const { segments } = new DxfImporter(identity).import(dxf(
+      [[0, 'ARC'], [10, 5], [20, 0], [40, 1], [50, 0], [51, 90], [210, 0], [220, 0], [230, -1]]
+    ));
+    const arc = segments[0] as ArcSegment;
+
+    expect(arc.center.isEqual(new Vec2(-5, 0), 1e-9)).toBe(true);
+    expect(arc.sweepAngle).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('should flip the y axis by default', () => {
+    const { segments } = new DxfImporter().import(dxf([[0, 'ARC'], [10, 0], [20, 0], [40, 1], [50, 0], [51, 90]]));
+    const arc = segments[0] as ArcSegment;
+
+    expect(arc.endPoint.isEqual(new Vec2(0, -1), 1e-9)).toBe(true);
+    expect(arc.sweepAngle).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('should reject files that are not ASCII DXF', () => {
+    expect(() => new DxfImporter().import('0\nSECTION\n2\nHEADER\n0\nENDSEC\n0\nEOF\n')).toThrow('no ENTITIES section');
+    expect(() => new DxfImporter().import('0\nSECTION\nfoo\n')).toThrow('Invalid DXF at line 3');
+    expect(() => new DxfImporter().import('AutoCAD Binary DXF\r\n')).toThrow('Binary DXF');
+  });
+
+  it('should read back exported drawings', () => {
+    const original = [
+      new LineSegment(new Vec2(0, 0), new Vec2(10, 5)),
+      new ArcSegment(new Vec2(5, 5), 3, 0.2, -2.5),
+      new ArcSegment(new Vec2(20, 20), 4, 0, Math.PI * 2)
+    ];
+    const text = new DxfExporter({ layerOf: (): string => 'Part' }).export(original);
+    const { segments, layers, skipped } = new DxfImporter().import(text);
+
+    expect(skipped).toEqual([]);
+    expect(segments).toHaveLength(3);
+    expect([...layers.values()]).toEqual(['Part', 'Part', 'Part']);
+    expect(segments[0]?.endPoint.isEqual(new Vec2(10, 5), 1e-6)).toBe(true);
+    const arc = segments[1] as ArcSegment;
+    // Counter-clockwise in the y-up file, clockwise again once flipped back
+    expect(arc.sweepAngle).toBeCloseTo(-2.5, 5);
+    expect(arc.startPoint.isEqual(original[1]?.startPoint ?? Vec2.ZERO, 1e-5)).toBe(true);
+    expect(segments[2]?.isClosed).toBe(true);
+  });
+});
+
+describe('DxfImportUtils', () => {
+  it('should accept CRLF line endings and padded group codes', () => {
+    const groups = DxfImportUtils.parseGroups('  0\r\nSECTION\r\n  2\r\nENTITIES\r\n');
+
+    expect(groups.map(g => [g.code, g.value])).toEqual([[0, 'SECTION'], [2, 'ENTITIES']]);
+  });
+
+  it('should normalise arc sweeps into (0, 360]', () => {
+    expect(DxfImportUtils.normalizeSweepDegrees(-90)).toBe(270);
+    expect(DxfImportUtils.normalizeSweepDegrees(0)).toBe(360);
+  });
+});
@@ -0,0 +1,335 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SvgExportUtils } from './svg-export.js';
+import { SvgImportUtils } from './svg-import.js';
+
+/**
+ * DXF import for Zotebook.
+ * Reads ASCII DXF files (any version) and converts LINE, ARC, CIRCLE, LWPOLYLINE
+ * and 2D POLYLINE entities of the ENTITIES section into segments. Polyline bulges
+ * become arcs via `ArcSegment.fromStartEndAndBulge`. Every other entity type is
+ * counted in a skip report, and malformed entities are reported as warnings.
+ */
+
+export interface DxfImportOptions {
+  readonly transform: Mat3;           // DXF (y-up) to world (y-down) coordinates
+  readonly tolerance: number;         // Deviation allowed when a non-uniform transform forces arcs to be approximated
+  readonly layerFilter: ((layer: string) => boolean) | null; // Import only entities on matching layers
+}
+
+const DEFAULT_DXF_IMPORT_OPTIONS: DxfImportOptions = {
+  transform: Mat3.scale(1, -1),
+  tolerance: 0.01,
+  layerFilter: null
+};
+
+export interface DxfSkippedEntity {
+  readonly type: string;
+  readonly count: number;
+}
+
+export interface DxfImportWarning {
+  readonly entity: string;            // Entity type
+  readonly line: number;              // 1-based line of the entity's "0" group
+  readonly message: string;
+}
+
+export interface DxfImportResult {
+  readonly segments: Segment[];
+  readonly layers: ReadonlyMap<string, string>; // Segment id to DXF layer name
+  readonly skipped: DxfSkippedEntity[];         // Unsupported entity types, sorted by type
+  readonly warnings: DxfImportWarning[];
+}
+
+export interface DxfGroup {
+  readonly code: number;
+  readonly value: string;
+  readonly line: number;              // 1-based line of the group code
+}
+
+export interface DxfRawEntity {
+  readonly type: string;
+  readonly line: number;
+  readonly groups: DxfGroup[];
+  readonly vertices: DxfRawEntity[];  // VERTEX entities following a POLYLINE
+}
+
+export interface DxfVertex {
+  readonly point: Vec2;
+  readonly bulge: number;
+}
+
+// Group 70 flags of POLYLINE and LWPOLYLINE entities
+const POLYLINE_CLOSED_FLAG = 1;
+const POLYLINE_NON_PLANAR_FLAGS = 8 | 16 | 64;  // 3D polyline, polygon mesh, polyface mesh
+const VERTEX_SPLINE_FRAME_FLAG = 16;            // Spline control point, not on the curve
+
+export class DxfImporter {
+  private options: DxfImportOptions;
+
+  constructor(options: Partial<DxfImportOptions> = {}) {
+    this.options = { ...DEFAULT_DXF_IMPORT_OPTIONS, ...options };
+  }
+
+  /**
+   * Convert the entities of a DXF document into segments
+   */
+  import(dxfText: string): DxfImportResult {
+    const entities = DxfImportUtils.readEntities(DxfImportUtils.parseGroups(dxfText));
+    const segments: Segment[] = [];
+    const layers = new Map<string, string>();
+    const skipped = new Map<string, number>();
+    const warnings: DxfImportWarning[] = [];
+
+    for (const entity of entities) {
+      const layer = DxfImportUtils.stringValue(entity, 8) ?? '0';
+      if (this.options.layerFilter && !this.options.layerFilter(layer)) continue;
+
+      let converted: Segment[] | null;
+      try {
+        converted = this.convert(entity);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        warnings.push({ entity: entity.type, line: entity.line, message: `${message}; entity skipped` });
+        continue;
+      }
+
+      if (converted === null) {
+        skipped.set(entity.type, (skipped.get(entity.type) ?? 0) + 1);
+        continue;
+      }
+      for (const segment of converted) {
+        segments.push(segment);
+        layers.set(segment.id, layer);
+      }
+    }
+
+    return {
+      segments,
+      layers,
+      skipped: [...skipped]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([type, count]) => ({ type, count })),
+      warnings
+    };
+  }
+
+  /**
+   * Update import options
+   */
+  updateOptions(newOptions: Partial<DxfImportOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  /**
+   * Segments for one entity, or null when the entity type is not supported
+   */
+  private convert(entity: DxfRawEntity): Segment[] | null {
+    const matrix = this.options.transform.multiply(DxfImportUtils.objectCoordinateSystem(entity));
+    const number = (code: number, fallback?: number): number => DxfImportUtils.numberValue(entity, code, fallback);
+
+    switch (entity.type) {
+      case 'LINE': {
+        const start = new Vec2(number(10), number(20));
+        const end = new Vec2(number(11), number(21));
+        if (start.isEqual(end, 1e-12)) throw new Error('zero-length line');
+        return [new LineSegment(matrix.transformPoint(start), matrix.transformPoint(end))];
+      }
+      case 'CIRCLE':
+        return this.transformArc(new ArcSegment(new Vec2(number(10), number(20)), this.radius(number(40)), 0, Math.PI * 2), matrix);
+      case 'ARC': {
+        const start = number(50);
+        // Counter-clockwise from start to end; equal angles describe a full turn
+        const sweep = DxfImportUtils.normalizeSweepDegrees(number(51) - start);
+        const arc = new ArcSegment(
+          new Vec2(number(10), number(20)),
+          this.radius(number(40)),
+          (start * Math.PI) / 180,
+          (sweep * Math.PI) / 180
+        );
+        return this.transformArc(arc, matrix);
+      }
+      case 'LWPOLYLINE':
+        return this.polylineSegments(DxfImportUtils.lwPolylineVertices(entity), number(70, 0), matrix);
+      case 'POLYLINE': {
+        const flags = number(70, 0);
+        // 3D polylines, polyface and polygon meshes share the POLYLINE entity
+        if ((flags & POLYLINE_NON_PLANAR_FLAGS) !== 0) return null;
+        const vertices = entity.vertices
+          .filter(vertex => (DxfImportUtils.numberValue(vertex, 70, 0) & VERTEX_SPLINE_FRAME_FLAG) === 0)
+          .map(vertex => ({
+            point: new Vec2(DxfImportUtils.numberValue(vertex, 10), DxfImportUtils.numberValue(vertex, 20)),
+            bulge: DxfImportUtils.numberValue(vertex, 42, 0)
+          }));
+        return this.polylineSegments(vertices, flags, matrix);
+      }
+      default:
+        return null;
+    }
+  }
+
+  private polylineSegments(vertices: ReadonlyArray<DxfVertex>, flags: number, matrix: Mat3): Segment[] {
+    const closed = (flags & POLYLINE_CLOSED_FLAG) !== 0;
+    const segments: Segment[] = [];
+    const spans = closed ? vertices.length : vertices.length - 1;
+
+    for (let i = 0; i < spans; i++) {
+      const from = vertices[i];
+      const to = vertices[(i + 1) % vertices.length];
+      if (!from || !to || from.point.isEqual(to.point, 1e-12)) continue;
+
+      if (from.bulge === 0) {
+        segments.push(new LineSegment(matrix.transformPoint(from.point), matrix.transformPoint(to.point)));
+      } else {
+        segments.push(...this.transformArc(ArcSegment.fromStartEndAndBulge(from.point, to.point, from.bulge), matrix));
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Map an arc into world space, approximating it when the transform is not a similarity
+   */
+  private transformArc(arc: ArcSegment, matrix: Mat3): Segment[] {
+    if (SvgExportUtils.isSimilarity(matrix)) {
+      return [arc.transform(matrix)];
+    }
+    return SvgImportUtils.ellipticalArcToCubics(arc.center, arc.radius, arc.radius, 0, arc.startAngle, arc.sweepAngle)
+      .flatMap(cubic => SvgImportUtils.approximateCubic(
+        cubic.map(p => matrix.transformPoint(p)) as [Vec2, Vec2, Vec2, Vec2],
+        this.options.tolerance
+      ));
+  }
+
+  private radius(value: number): number {
+    if (!(value > 0)) throw new Error(`invalid radius ${value}`);
+    return value;
+  }
+}
+
+// Utility functions for DXF parsing
+export namespace DxfImportUtils {
+  /**
+   * Split ASCII DXF text into group code/value pairs
+   */
+  export function parseGroups(text: string): DxfGroup[] {
+    if (text.startsWith('AutoCAD Binary DXF')) {
+      throw new Error('Binary DXF files are not supported');
+    }
+
+    const lines = text.split(/\r?\n/);
+    // A trailing newline leaves one empty line behind
+    if (lines.length % 2 === 1 && lines[lines.length - 1]?.trim() === '') lines.pop();
+    if (lines.length % 2 !== 0) {
+      throw new Error(`Invalid DXF at line ${lines.length}: group code without a value`);
+    }
+
+    const groups: DxfGroup[] = [];
+    for (let i = 0; i < lines.length; i += 2) {
+      const codeText = lines[i]?.trim() ?? '';
+      if (!/^-?\d+$/.test(codeText)) {
+        throw new Error(`Invalid DXF at line ${i + 1}: expected a group code, got "${codeText}"`);
+      }
+      groups.push({ code: Number(codeText), value: (lines[i + 1] ?? '').trim(), line: i + 1 });
+    }
+    return groups;
+  }
+
+  /**
+   * Entities of the ENTITIES section, with POLYLINE vertices attached to their polyline
+   */
+  export function readEntities(groups: ReadonlyArray<DxfGroup>): DxfRawEntity[] {
+    const sectionStart = groups.findIndex((group, i) =>
+      group.code === 0 && group.value === 'SECTION' &&
+      groups[i + 1]?.code === 2 && groups[i + 1]?.value === 'ENTITIES');
+    if (sectionStart < 0) {
+      throw new Error('Invalid DXF: no ENTITIES section');
+    }
+
+    const entities: DxfRawEntity[] = [];
+    let current: DxfRawEntity | null = null;
+    let polyline: DxfRawEntity | null = null;
+
+    for (const group of groups.slice(sectionStart + 2)) {
+      if (group.code !== 0) {
+        current?.groups.push(group);
+        continue;
+      }
+      if (group.value === 'ENDSEC' || group.value === 'EOF') return entities;
+
+      current = { type: group.value, line: group.line, groups: [], vertices: [] };
+      if (polyline && group.value === 'VERTEX') {
+        polyline.vertices.push(current);
+      } else if (polyline && group.value === 'SEQEND') {
+        polyline = null;
+        current = null;
+      } else {
+        polyline = group.value === 'POLYLINE' ? current : null;
+        entities.push(current);
+      }
+    }
+    throw new Error('Invalid DXF: unterminated ENTITIES section');
+  }
+
+  export function stringValue(entity: DxfRawEntity, code: number): string | undefined {
+    return entity.groups.find(group => group.code === code)?.value;
+  }
+
+  export function numberValue(entity: DxfRawEntity, code: number, fallback?: number): number {
+    const text = stringValue(entity, code);
+    if (text === undefined) {
+      if (fallback !== undefined) return fallback;
+      throw new Error(`missing group ${code}`);
+    }
+    const value = Number(text);
+    if (text === '' || !Number.isFinite(value)) {
+      throw new Error(`group ${code} is not a number: "${text}"`);
+    }
+    return value;
+  }
+
+  /**
+   * Vertices of an LWPOLYLINE in order. Each vertex starts at a 10 group;
+   * the optional 42 group that follows holds the bulge of the span it starts.
+   */
+  export function lwPolylineVertices(entity: DxfRawEntity): DxfVertex[] {
+    const vertices: Array<{ x: number; y: number; bulge: number }> = [];
+    for (const group of entity.groups) {
+      const value = Number(group.value);
+      const last = vertices[vertices.length - 1];
+      if (group.code === 10) {
+        vertices.push({ x: value, y: NaN, bulge: 0 });
+      } else if (group.code === 20 && last) {
+        last.y = value;
+      } else if (group.code === 42 && last) {
+        last.bulge = value;
+      }
+    }
+
+    if (vertices.some(v => !Number.isFinite(v.x) || !Number.isFinite(v.y) || !Number.isFinite(v.bulge))) {
+      throw new Error('malformed polyline vertex');
+    }
+    return vertices.map(v => ({ point: new Vec2(v.x, v.y), bulge: v.bulge }));
+  }
+
+  /**
+   * Planar entities drawn with a flipped extrusion direction (0, 0, -1) store
+   * their coordinates mirrored in x (the DXF arbitrary axis algorithm)
+   */
+  export function objectCoordinateSystem(entity: DxfRawEntity): Mat3 {
+    const extrusionZ = numberValue(entity, 230, 1);
+    return extrusionZ < 0 ? Mat3.scale(-1, 1) : Mat3.IDENTITY;
+  }
+
+  /**
+   * Counter-clockwise sweep in (0, 360]
+   */
+  export function normalizeSweepDegrees(degrees: number): number {
+    const wrapped = ((degrees % 360) + 360) % 360;
+    return wrapped === 0 ? 360 : wrapped;
+  }
+}
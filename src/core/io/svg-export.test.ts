@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment, ArcSegmentUtils } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SvgExporter, SvgExportUtils, SvgUnits } from './svg-export.js';
+
+function attribute(svg: string, name: string): string | undefined {
+  return new RegExp(`${name}="([^"]*)"`).exec(svg)?.[1];
+}
+
+describe('SvgExporter', () => {
+  it('should write lines as path data', () => {
+    const svg = new SvgExporter().export([new LineSegment(new Vec2(0, 0), new Vec2(10, 5), 'edge')]);
+
+    expect(svg).toContain('<path id="edge" d="M 0 0 L 10 5"/>');
+    expect(svg.startsWith('<?xml')).toBe(true);
+  });
+
+  it('should fit the viewBox to content, stroke width and padding', () => {
+    const svg = new SvgExporter({ strokeWidth: 2, padding: 3 })
+      .export([new LineSegment(new Vec2(0, 0), new Vec2(10, 5))]);
+
+    expect(attribute(svg, 'viewBox')).toBe('-4 -4 18 13');
+    expect(attribute(svg, 'width')).toBe('18px');
+  });
+
+  it('should size the document in millimetres', () => {
+    const svg = new SvgExporter({ units: SvgUnits.MM, strokeWidth: 0 })
+      .export([new LineSegment(new Vec2(0, 0), new Vec2(210, 297))]);
+
+    expect(attribute(svg, 'width')).toBe('210mm');
+    expect(attribute(svg, 'height')).toBe('297mm');
+  });
+
+  it('should use an explicit viewBox when not fitting to content', () => {
+    const viewBox = { x: 0, y: 0, width: 100, height: 50 };
+    const svg = new SvgExporter({ fitToContent: false, viewBox }).export([]);
+
+    expect(attribute(svg, 'viewBox')).toBe('0 0 100 50');
+    expect(() => new SvgExporter({ fitToContent: false }).export([])).toThrow('explicit viewBox');
+  });
+
+  it('should write full circles as circle elements', () => {
+    const svg = new SvgExporter().export([ArcSegmentUtils.createFullCircle(new Vec2(5, 5), 2)]);
+
+    expect(svg).toMatch(/<circle id="[^"]+" cx="5" cy="5" r="2"\/>/);
+  });
+
+  it('should scale and translate geometry with the document transform', () => {
+    const transform = Mat3.translation(new Vec2(100, 0)).multiply(Mat3.scale(2));
+    const svg = new SvgExporter({ transform }).export([
+      new LineSegment(new Vec2(0, 0), new Vec2(1, 1), 'l'),
+      ArcSegmentUtils.createFullCircle(Vec2.ZERO, 3)
+    ]);
+
+    expect(svg).toContain('d="M 100 0 L 102 2"');
+    expect(svg).toContain('r="6"');
+  });
+
+  it('should escape element ids', () => {
+    const svg = new SvgExporter().export([new LineSegment(Vec2.ZERO, new Vec2(1, 0), 'a"<b>')]);
+
+    expect(svg).toContain('id="a&quot;&lt;b&gt;"');
+  });
+
+  it('should fall back to polylines for curves without an SVG primitive', () => {
+    const curve = new LineSegment(Vec2.ZERO, new Vec2(4, 0), 'r').reparameterize(t => t);
+    const svg = new SvgExporter({ curveSamples: 5 }).export([curve]);
+
+    expect(svg).toContain('d="M 0 0 L 1 0 L 2 0 L 3 0 L 4 0"');
+  });
+
+  it('should approximate arcs under non-uniform scaling', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 1, 0, Math.PI / 2, 'a');
+    const svg = new SvgExporter({ transform: Mat3.scale(2, 1), curveSamples: 3 }).export([arc]);
+
+    expect(svg).toContain('d="M 2 0 L 1.414 0.707 L 0 1"');
+  });
+});
+
+describe('SvgExportUtils', () => {
+  it('should set the flags of a quarter counterclockwise arc', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI / 2);
+
+    expect(SvgExportUtils.arcToPathData(arc)).toBe('M 10 0 A 10 10 0 0 1 0 10');
+  });
+
+  it('should set the large-arc flag and clear the sweep flag for long clockwise arcs', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 10, 0, -Math.PI * 1.5);
+
+    expect(SvgExportUtils.arcToPathData(arc)).toBe('M 10 0 A 10 10 0 1 0 0 10');
+  });
+
+  it('should reverse the sweep direction under a reflection', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI / 2, 'q');
+    const shape = SvgExportUtils.toDocumentSpace(arc, Mat3.scale(1, -1));
+    if (shape.kind !== 'arc') throw new Error('expected arc shape');
+
+    expect(SvgExportUtils.arcToPathData(shape.arc)).toBe('M 10 0 A 10 10 0 0 0 0 -10');
+  });
+
+  it('should format numbers compactly', () => {
+    expect(SvgExportUtils.formatNumber(1.23456, 3)).toBe('1.235');
+    expect(SvgExportUtils.formatNumber(2.5000001)).toBe('2.5');
+    expect(SvgExportUtils.formatNumber(-0.0001)).toBe('0');
+  });
+
+  it('should recognise similarity transforms', () => {
+    expect(SvgExportUtils.isSimilarity(Mat3.rotation(0.3).multiply(Mat3.scale(4)))).toBe(true);
+    expect(SvgExportUtils.isSimilarity(Mat3.scale(1, -1))).toBe(true);
+    expect(SvgExportUtils.isSimilarity(Mat3.scale(2, 1))).toBe(false);
+  });
+});
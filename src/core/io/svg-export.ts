@@ -0,0 +1,223 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment, SegmentUtils } from '../geometry/segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+/**
+ * SVG export for Zotebook drawings.
+ * Segments are mapped through a world-to-document `Mat3` and written as SVG
+ * primitives: lines and arcs become `<path>` data (arcs as elliptical arc
+ * commands), full circles become `<circle>` and any other curve is written as a
+ * sampled polyline.
+ */
+
+export enum SvgUnits {
+  PX = 'px',
+  MM = 'mm'
+}
+
+export interface SvgViewBox {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface SvgExportOptions {
+  readonly transform: Mat3;          // World to document coordinates
+  readonly units: SvgUnits;          // Physical size of one document unit
+  readonly strokeWidth: number;      // In document units
+  readonly strokeColor: string;
+  readonly fitToContent: boolean;    // Derive the viewBox from the content bounds
+  readonly padding: number;          // Document units around fitted content
+  readonly viewBox: SvgViewBox | null; // Explicit viewBox when not fitting to content
+  readonly precision: number;        // Decimal places in coordinates
+  readonly curveSamples: number;     // Polyline points for curves without an SVG primitive
+}
+
+const DEFAULT_SVG_EXPORT_OPTIONS: SvgExportOptions = {
+  transform: Mat3.IDENTITY,
+  units: SvgUnits.PX,
+  strokeWidth: 1,
+  strokeColor: '#000000',
+  fitToContent: true,
+  padding: 0,
+  viewBox: null,
+  precision: 3,
+  curveSamples: 64
+};
+
+/**
+ * Segment converted to document space, ready to be written
+ */
+export type SvgShape =
+  | { readonly kind: 'line'; readonly id: string; readonly line: LineSegment }
+  | { readonly kind: 'arc'; readonly id: string; readonly arc: ArcSegment }
+  | { readonly kind: 'polyline'; readonly id: string; readonly points: Vec2[] };
+
+export class SvgExporter {
+  private options: SvgExportOptions;
+
+  constructor(options: Partial<SvgExportOptions> = {}) {
+    this.options = { ...DEFAULT_SVG_EXPORT_OPTIONS, ...options };
+  }
+
+  /**
+   * Write a complete SVG document containing the given segments
+   */
+  export(segments: ReadonlyArray<Segment>): string {
+    const { precision } = this.options;
+    const shapes = segments.map(segment => SvgExportUtils.toDocumentSpace(segment, this.options.transform, this.options.curveSamples));
+    const viewBox = this.computeViewBox(shapes);
+    const format = (value: number): string => SvgExportUtils.formatNumber(value, precision);
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" ` +
+        `width="${format(viewBox.width)}${this.options.units}" ` +
+        `height="${format(viewBox.height)}${this.options.units}" ` +
+        `viewBox="${[viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(format).join(' ')}">`,
+      `  <g fill="none" stroke="${SvgExportUtils.escapeXml(this.options.strokeColor)}" ` +
+        `stroke-width="${format(this.options.strokeWidth)}" stroke-linecap="round" stroke-linejoin="round">`
+    ];
+
+    for (const shape of shapes) {
+      lines.push(`    ${SvgExportUtils.shapeToElement(shape, precision)}`);
+    }
+
+    lines.push('  </g>', '</svg>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Update export options
+   */
+  updateOptions(newOptions: Partial<SvgExportOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private computeViewBox(shapes: ReadonlyArray<SvgShape>): SvgViewBox {
+    if (!this.options.fitToContent) {
+      if (!this.options.viewBox) {
+        throw new Error('SVG export needs an explicit viewBox when fitToContent is disabled');
+      }
+      return this.options.viewBox;
+    }
+
+    const points: Vec2[] = [];
+    for (const shape of shapes) {
+      switch (shape.kind) {
+        case 'line':
+          points.push(shape.line.startPoint, shape.line.endPoint);
+          break;
+        case 'arc':
+          points.push(shape.arc.boundingBox.min, shape.arc.boundingBox.max);
+          break;
+        case 'polyline':
+          points.push(...shape.points);
+          break;
+      }
+    }
+
+    // Strokes extend half their width beyond the geometry
+    const margin = this.options.padding + (points.length > 0 ? this.options.strokeWidth / 2 : 0);
+    const box = SegmentUtils.expandBoundingBox(SegmentUtils.createBoundingBox(points), margin);
+    return { x: box.min.x, y: box.min.y, width: box.size.x, height: box.size.y };
+  }
+}
+
+// Utility functions for SVG output
+export namespace SvgExportUtils {
+  /**
+   * Format a coordinate with limited precision and without trailing zeros or `-0`
+   */
+  export function formatNumber(value: number, precision: number = 3): string {
+    const rounded = Number(value.toFixed(precision));
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+  }
+
+  export function escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Check whether a matrix maps circles to circles (rotation, reflection, uniform scale, translation)
+   */
+  export function isSimilarity(matrix: Mat3, tolerance: number = 1e-9): boolean {
+    return matrix.isSimilarity(tolerance);
+  }
+
+  /**
+   * Map a segment into document space. Arcs stay arcs under similarity transforms
+   * (a reflection reverses their sweep); other cases fall back to a sampled polyline.
+   */
+  export function toDocumentSpace(segment: Segment, matrix: Mat3, curveSamples: number = 64): SvgShape {
+    if (segment instanceof LineSegment) {
+      return {
+        kind: 'line',
+        id: segment.id,
+        line: new LineSegment(matrix.transformPoint(segment.startPoint), matrix.transformPoint(segment.endPoint), segment.id)
+      };
+    }
+
+    if (segment instanceof ArcSegment && isSimilarity(matrix)) {
+      return { kind: 'arc', id: segment.id, arc: segment.transform(matrix) };
+    }
+
+    return {
+      kind: 'polyline',
+      id: segment.id,
+      points: segment.samplePoints(Math.max(2, curveSamples)).map(p => matrix.transformPoint(p))
+    };
+  }
+
+  /**
+   * SVG path data for an arc: move to the start, then one elliptical arc command.
+   * The large-arc flag is set for sweeps beyond 180°, the sweep flag for positive
+   * (increasing angle) sweeps.
+   */
+  export function arcToPathData(arc: ArcSegment, precision: number = 3): string {
+    const format = (value: number): string => formatNumber(value, precision);
+    const r = format(arc.radius);
+    const largeArc = Math.abs(arc.sweepAngle) > Math.PI ? 1 : 0;
+    const sweep = arc.sweepAngle > 0 ? 1 : 0;
+    return `M ${format(arc.startPoint.x)} ${format(arc.startPoint.y)} ` +
+           `A ${r} ${r} 0 ${largeArc} ${sweep} ${format(arc.endPoint.x)} ${format(arc.endPoint.y)}`;
+  }
+
+  export function lineToPathData(line: LineSegment, precision: number = 3): string {
+    const format = (value: number): string => formatNumber(value, precision);
+    return `M ${format(line.startPoint.x)} ${format(line.startPoint.y)} ` +
+           `L ${format(line.endPoint.x)} ${format(line.endPoint.y)}`;
+  }
+
+  export function polylineToPathData(points: ReadonlyArray<Vec2>, precision: number = 3): string {
+    const format = (value: number): string => formatNumber(value, precision);
+    return points
+      .map((p, i) => `${i === 0 ? 'M' : 'L'} ${format(p.x)} ${format(p.y)}`)
+      .join(' ');
+  }
+
+  export function shapeToElement(shape: SvgShape, precision: number = 3): string {
+    const format = (value: number): string => formatNumber(value, precision);
+    const id = `id="${escapeXml(shape.id)}"`;
+
+    switch (shape.kind) {
+      case 'line':
+        return `<path ${id} d="${lineToPathData(shape.line, precision)}"/>`;
+      case 'arc':
+        if (shape.arc.isClosed) {
+          const { center, radius } = shape.arc;
+          return `<circle ${id} cx="${format(center.x)}" cy="${format(center.y)}" r="${format(radius)}"/>`;
+        }
+        return `<path ${id} d="${arcToPathData(shape.arc, precision)}"/>`;
+      case 'polyline':
+        return `<path ${id} d="${polylineToPathData(shape.points, precision)}"/>`;
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SvgExporter } from './svg-export.js';
+import { SvgImporter, SvgImportUtils } from './svg-import.js';
+
+function svg(body: string): string {
+  return `<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`;
+}
+
+function distanceToSegments(point: Vec2, segments: ReadonlyArray<Segment>): number {
+  return Math.min(...segments.map(segment => segment.distanceToPoint(point)));
+}
+
+describe('SvgImporter', () => {
+  describe('Shapes', () => {
+    it('should import lines with their ids', () => {
+      const { segments, warnings } = new SvgImporter().import(svg('<line id="edge" x1="0" y1="0" x2="10" y2="5"/>'));
+
+      expect(warnings).toEqual([]);
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toBeInstanceOf(LineSegment);
+      expect(segments[0]?.id).toBe('edge');
+      expect(segments[0]?.endPoint.isEqual(new Vec2(10, 5))).toBe(true);
+    });
+
+    it('should import rectangles and polygons as closed line loops', () => {
+      const { segments } = new SvgImporter().import(svg(
+        '<rect id="r" x="1" y="2" width="4" height="3"/>' +
+        '<polygon points="0,0 10,0 5,8"/>'
+      ));
+
+      expect(segments).toHaveLength(7);
+      expect(segments.slice(0, 4).map(s => s.id)).toEqual(['r_0', 'r_1', 'r_2', 'r_3']);
+      expect(segments[3]?.endPoint.isEqual(new Vec2(1, 2))).toBe(true);
+      expect(segments[6]?.endPoint.isEqual(Vec2.ZERO)).toBe(true);
+    });
+
+    it('should round rectangle corners with arcs', () => {
+      const { segments } = new SvgImporter().import(svg('<rect width="10" height="6" rx="2"/>'));
+
+      expect(segments.filter(s => s instanceof ArcSegment)).toHaveLength(4);
+      expect(segments.filter(s => s instanceof LineSegment)).toHaveLength(4);
+    });
+
+    it('should import circles as full arcs', () => {
+      const { segments } = new SvgImporter().import(svg('<circle id="c" cx="5" cy="6" r="2"/>'));
+      const circle = segments[0];
+
+      expect(circle).toBeInstanceOf(ArcSegment);
+      expect(circle?.isClosed).toBe(true);
+      expect((circle as ArcSegment).center.isEqual(new Vec2(5, 6))).toBe(true);
+    });
+
+    it('should approximate ellipses within tolerance', () => {
+      const tolerance = 0.05;
+      const { segments } = new SvgImporter({ tolerance }).import(svg('<ellipse cx="0" cy="0" rx="20" ry="10"/>'));
+
+      for (let i = 0; i < 64; i++) {
+        const theta = (i / 64) * Math.PI * 2;
+        const point = new Vec2(20 * Math.cos(theta), 10 * Math.sin(theta));
+        expect(distanceToSegments(point, segments)).toBeLessThan(tolerance * 1.5);
+      }
+    });
+  });
+
+  describe('Path data', () => {
+    it('should handle absolute and relative line commands', () => {
+      const { segments } = new SvgImporter().import(svg('<path d="M10 10 h5 V20 l-5 0 z"/>'));
+      const ends = segments.map(s => s.endPoint);
+
+      expect(ends).toHaveLength(4);
+      expect(ends[0]?.isEqual(new Vec2(15, 10))).toBe(true);
+      expect(ends[1]?.isEqual(new Vec2(15, 20))).toBe(true);
+      expect(ends[2]?.isEqual(new Vec2(10, 20))).toBe(true);
+      expect(ends[3]?.isEqual(new Vec2(10, 10))).toBe(true);
+    });
+
+    it('should treat coordinates after moveto as implicit lineto', () => {
+      const { segments } = new SvgImporter().import(svg('<path d="m0 0 10 0 0 10"/>'));
+
+      expect(segments).toHaveLength(2);
+      expect(segments[1]?.endPoint.isEqual(new Vec2(10, 10))).toBe(true);
+    });
+
+    it('should convert circular arc commands with the sweep direction preserved', () => {
+      const { segments } = new SvgImporter().import(svg('<path d="M 10 0 A 10 10 0 0 1 0 10"/>'));
+      const arc = segments[0];
+      if (!(arc instanceof ArcSegment)) throw new Error('expected arc');
+
+      expect(arc.center.isEqual(Vec2.ZERO, 1e-9)).toBe(true);
+      expect(arc.sweepAngle).toBeCloseTo(Math.PI / 2);
+      expect(arc.endPoint.isEqual(new Vec2(0, 10), 1e-9)).toBe(true);
+    });
+
+    it('should honour the large-arc flag', () => {
+      const { segments } = new SvgImporter().import(svg('<path d="M 10 0 A 10 10 0 1 0 0 10"/>'));
+      const arc = segments[0];
+      if (!(arc instanceof ArcSegment)) throw new Error('expected arc');
+
+      expect(arc.sweepAngle).toBeCloseTo(-Math.PI * 1.5);
+    });
+
+    it('should read arc flags written without separators', () => {
+      expect(SvgImportUtils.tokenizePathData('a5 5 0 015 5')).toEqual(['a', '5', '5', '0', '0', '1', '5', '5']);
+    });
+
+    it('should approximate cubic curves within tolerance', () => {
+      const tolerance = 0.01;
+      const controls: [Vec2, Vec2, Vec2, Vec2] = [new Vec2(0, 0), new Vec2(0, 40), new Vec2(60, -20), new Vec2(50, 30)];
+      const { segments } = new SvgImporter({ tolerance }).import(svg('<path d="M0 0 C0 40 60 -20 50 30"/>'));
+
+      expect(segments.length).toBeGreaterThan(1);
+      for (let i = 0; i <= 100; i++) {
+        const point = SvgImportUtils.evaluateCubic(controls, i / 100);
+        expect(distanceToSegments(point, segments)).toBeLessThan(tolerance * 1.5);
+      }
+    });
+
+    it('should import straight quadratic curves as a single line', () => {
+      const { segments } = new SvgImporter().import(svg('<path d="M0 0 Q 5 0 10 0"/>'));
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toBeInstanceOf(LineSegment);
+    });
+  });
+
+  describe('Transforms', () => {
+    it('should parse transform lists in application order', () => {
+      const matrix = SvgImportUtils.parseTransform('translate(10, 0) scale(2)');
+
+      expect(matrix.transformPoint(new Vec2(1, 1)).isEqual(new Vec2(12, 2))).toBe(true);
+    });
+
+    it('should rotate about an explicit center', () => {
+      const matrix = SvgImportUtils.parseTransform('rotate(90 5 5)');
+
+      expect(matrix.transformPoint(new Vec2(10, 5)).isEqual(new Vec2(5, 10), 1e-9)).toBe(true);
+    });
+
+    it('should compose nested group transforms', () => {
+      const { segments } = new SvgImporter().import(svg(
+        '<g transform="translate(100 0)"><g transform="scale(2)"><line x1="0" y1="0" x2="1" y2="0"/></g></g>'
+      ));
+
+      expect(segments[0]?.startPoint.isEqual(new Vec2(100, 0))).toBe(true);
+      expect(segments[0]?.endPoint.isEqual(new Vec2(102, 0))).toBe(true);
+    });
+
+    it('should reverse arcs under a reflecting transform', () => {
+      const { segments } = new SvgImporter({ transform: Mat3.scale(1, -1) })
+        .import(svg('<path d="M 10 0 A 10 10 0 0 1 0 10"/>'));
+      const arc = segments[0];
+      if (!(arc instanceof ArcSegment)) throw new Error('expected arc');
+
+      expect(arc.sweepAngle).toBeCloseTo(-Math.PI / 2);
+      expect(arc.endPoint.isEqual(new Vec2(0, -10), 1e-9)).toBe(true);
+    });
+
+    it('should approximate circles under non-uniform scaling', () => {
+      const tolerance = 0.05;
+      const { segments } = new SvgImporter({ tolerance })
+        .import(svg('<circle r="10" transform="scale(2 1)"/>'));
+
+      expect(segments.length).toBeGreaterThan(1);
+      for (let i = 0; i < 32; i++) {
+        const theta = (i / 32) * Math.PI * 2;
+        expect(distanceToSegments(new Vec2(20 * Math.cos(theta), 10 * Math.sin(theta)), segments))
+          .toBeLessThan(tolerance * 1.5);
+      }
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should report unsupported elements and keep the rest', () => {
+      const { segments, warnings } = new SvgImporter().import(svg(
+        '<title>Drawing</title><g id="layer"><text>label</text><line x2="1"/></g><image href="a.png"/>'
+      ));
+
+      expect(segments).toHaveLength(1);
+      expect(warnings.map(w => w.element)).toEqual(['text', 'image']);
+      expect(warnings[0]?.path).toBe('svg > g#layer > text');
+    });
+
+    it('should keep geometry before malformed path data', () => {
+      const { segments, warnings } = new SvgImporter().import(svg('<path d="M0 0 L10 0 L5"/>'));
+
+      expect(segments).toHaveLength(1);
+      expect(warnings[0]?.message).toContain('expected a number');
+    });
+
+    it('should report unsupported units', () => {
+      const { segments, warnings } = new SvgImporter().import(svg('<circle r="2cm"/>'));
+
+      expect(segments).toEqual([]);
+      expect(warnings[0]?.message).toContain('unsupported r value "2cm"');
+    });
+
+    it('should reject malformed XML', () => {
+      expect(() => new SvgImporter().import('<svg><g></svg>')).toThrow('Invalid SVG at offset');
+      expect(() => new SvgImporter().import('<html></html>')).toThrow('expects an <svg> root');
+    });
+  });
+
+  it('should read back exported drawings', () => {
+    const original = [
+      new LineSegment(new Vec2(0, 0), new Vec2(10, 5), 'edge'),
+      new ArcSegment(new Vec2(5, 5), 3, 0.2, -2.5, 'bend'),
+      new ArcSegment(new Vec2(20, 20), 4, 0, Math.PI * 2, 'hole')
+    ];
+    const text = new SvgExporter({ precision: 6 }).export(original);
+    const { segments, warnings } = new SvgImporter().import(text);
+
+    expect(warnings).toEqual([]);
+    expect(segments.map(s => s.id)).toEqual(['edge', 'bend', 'hole']);
+    segments.forEach((segment, i) => {
+      expect(segment.startPoint.isEqual(original[i]?.startPoint ?? Vec2.ZERO, 1e-5)).toBe(true);
+      expect(segment.endPoint.isEqual(original[i]?.endPoint ?? Vec2.ZERO, 1e-5)).toBe(true);
+    });
+    expect((segments[1] as ArcSegment).sweepAngle).toBeCloseTo(-2.5, 5);
+  });
+});
@@ -0,0 +1,826 @@
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Segment } from '../geometry/segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { SvgExportUtils } from './svg-export.js';
+
+/**
+ * SVG import for Zotebook.
+ * Parses SVG text without a DOM and converts its geometry into segments:
+ * straight path commands become `LineSegment`s, circular arcs become
+ * `ArcSegment`s and Bézier or elliptical curves are approximated by arcs and
+ * lines within a tolerance. Elements that cannot be converted are reported as
+ * warnings rather than dropped silently. SVG user units map 1:1 to world units
+ * before the optional import transform is applied.
+ */
+
+export interface SvgImportOptions {
+  readonly transform: Mat3;           // Document to world coordinates, applied outside all SVG transforms
+  readonly tolerance: number;         // Maximum deviation of curve approximations (world units)
+  readonly maxSubdivisionDepth: number; // Recursion limit when approximating curves
+  readonly preserveIds: boolean;      // Derive segment ids from element ids
+}
+
+const DEFAULT_SVG_IMPORT_OPTIONS: SvgImportOptions = {
+  transform: Mat3.IDENTITY,
+  tolerance: 0.1,
+  maxSubdivisionDepth: 10,
+  preserveIds: true
+};
+
+export interface SvgImportWarning {
+  readonly element: string;   // Tag name
+  readonly path: string;      // Location in the document, e.g. "svg > g#layer1 > text"
+  readonly message: string;
+}
+
+export interface SvgImportResult {
+  readonly segments: Segment[];
+  readonly warnings: SvgImportWarning[];
+}
+
+export interface XmlElement {
+  readonly name: string;
+  readonly attributes: ReadonlyMap<string, string>;
+  readonly children: ReadonlyArray<XmlElement>;
+}
+
+/**
+ * Geometry in the local coordinates of an SVG element, before transformation
+ */
+type LocalPiece =
+  | { readonly kind: 'line'; readonly from: Vec2; readonly to: Vec2 }
+  | { readonly kind: 'arc'; readonly center: Vec2; readonly radius: number; readonly startAngle: number; readonly sweepAngle: number }
+  | { readonly kind: 'cubic'; readonly points: readonly [Vec2, Vec2, Vec2, Vec2] };
+
+// Elements that carry no geometry and are skipped without a warning
+const IGNORED_ELEMENTS = new Set(['title', 'desc', 'metadata']);
+const GROUP_ELEMENTS = new Set(['svg', 'g']);
+
+export class SvgImporter {
+  private options: SvgImportOptions;
+
+  constructor(options: Partial<SvgImportOptions> = {}) {
+    this.options = { ...DEFAULT_SVG_IMPORT_OPTIONS, ...options };
+  }
+
+  /**
+   * Convert an SVG document into segments
+   */
+  import(svgText: string): SvgImportResult {
+    const root = SvgImportUtils.parseXml(svgText);
+    if (root.name !== 'svg') {
+      throw new Error(`SVG import expects an <svg> root element, got <${root.name}>`);
+    }
+
+    const result: SvgImportResult = { segments: [], warnings: [] };
+    this.visit(root, this.options.transform, 'svg', result);
+    return result;
+  }
+
+  /**
+   * Update import options
+   */
+  updateOptions(newOptions: Partial<SvgImportOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private visit(element: XmlElement, parentTransform: Mat3, path: string, result: SvgImportResult): void {
+    const warn = (message: string): void => {
+      result.warnings.push({ element: element.name, path, message });
+    };
+
+    let transform = parentTransform;
+    const transformAttribute = element.attributes.get('transform');
+    if (transformAttribute !== undefined) {
+      try {
+        transform = parentTransform.multiply(SvgImportUtils.parseTransform(transformAttribute));
+      } catch (error) {
+        warn(`${error instanceof Error ? error.message : String(error)}; element skipped`);
+        return;
+      }
+    }
+
+    if (GROUP_ELEMENTS.has(element.name)) {
+      for (const child of element.children) {
+        const id = child.attributes.get('id');
+        this.visit(child, transform, `${path} > ${child.name}${id ? `#${id}` : ''}`, result);
+      }
+      return;
+    }
+
+    if (IGNORED_ELEMENTS.has(element.name)) return;
+
+    let pieces: LocalPiece[];
+    try {
+      pieces = this.elementPieces(element, warn);
+    } catch (error) {
+      warn(`${error instanceof Error ? error.message : String(error)}; element skipped`);
+      return;
+    }
+    if (pieces.length === 0) return;
+
+    const segments = pieces.flatMap(piece => this.toSegments(piece, transform));
+    const id = this.options.preserveIds ? element.attributes.get('id') : undefined;
+    segments.forEach((segment, i) => {
+      result.segments.push(id === undefined ? segment : SvgImportUtils.withId(segment, segments.length === 1 ? id : `${id}_${i}`));
+    });
+  }
+
+  /**
+   * Local geometry of a shape element. Unsupported elements produce a warning and no pieces.
+   */
+  private elementPieces(element: XmlElement, warn: (message: string) => void): LocalPiece[] {
+    const number = (name: string, fallback?: number): number => {
+      const value = element.attributes.get(name);
+      if (value === undefined) {
+        if (fallback !== undefined) return fallback;
+        throw new Error(`missing attribute ${name}`);
+      }
+      return SvgImportUtils.parseLength(value, name);
+    };
+    const builder = new PathBuilder();
+
+    switch (element.name) {
+      case 'path': {
+        const error = SvgImportUtils.parsePathData(element.attributes.get('d') ?? '', builder);
+        if (error) warn(`${error}; geometry after the error was ignored`);
+        return builder.pieces;
+      }
+      case 'line':
+        builder.moveTo(new Vec2(number('x1', 0), number('y1', 0)));
+        builder.lineTo(new Vec2(number('x2', 0), number('y2', 0)));
+        return builder.pieces;
+      case 'polyline':
+      case 'polygon': {
+        const values = SvgImportUtils.parseNumberList(element.attributes.get('points') ?? '');
+        if (values.length % 2 !== 0) warn('odd number of coordinates in points; last value ignored');
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          const point = new Vec2(values[i] ?? 0, values[i + 1] ?? 0);
+          if (i === 0) builder.moveTo(point); else builder.lineTo(point);
+        }
+        if (element.name === 'polygon') builder.close();
+        return builder.pieces;
+      }
+      case 'rect':
+        this.buildRect(builder, number);
+        return builder.pieces;
+      case 'circle':
+        builder.circle(new Vec2(number('cx', 0), number('cy', 0)), number('r'));
+        return builder.pieces;
+      case 'ellipse': {
+        const center = new Vec2(number('cx', 0), number('cy', 0));
+        const rx = number('rx');
+        const ry = number('ry');
+        if (rx === ry) {
+          builder.circle(center, rx);
+        } else {
+          builder.moveTo(center.add(new Vec2(rx, 0)));
+          builder.arcTo(rx, ry, 0, false, true, center.subtract(new Vec2(rx, 0)));
+          builder.arcTo(rx, ry, 0, false, true, center.add(new Vec2(rx, 0)));
+        }
+        return builder.pieces;
+      }
+      default:
+        warn(`unsupported element <${element.name}> skipped`);
+        return [];
+    }
+  }
+
+  private buildRect(builder: PathBuilder, number: (name: string, fallback?: number) => number): void {
+    const x = number('x', 0);
+    const y = number('y', 0);
+    const width = number('width');
+    const height = number('height');
+    if (width <= 0 || height <= 0) return;
+
+    // Missing corner radii default to each other, then clamp to half the side (SVG 2 rules)
+    const rxRaw = number('rx', -1);
+    const ryRaw = number('ry', -1);
+    const rx = Math.min(width / 2, Math.max(0, rxRaw >= 0 ? rxRaw : ryRaw));
+    const ry = Math.min(height / 2, Math.max(0, ryRaw >= 0 ? ryRaw : rxRaw));
+
+    if (rx === 0 || ry === 0) {
+      builder.moveTo(new Vec2(x, y));
+      builder.lineTo(new Vec2(x + width, y));
+      builder.lineTo(new Vec2(x + width, y + height));
+      builder.lineTo(new Vec2(x, y + height));
+      builder.close();
+      return;
+    }
+
+    builder.moveTo(new Vec2(x + rx, y));
+    builder.lineTo(new Vec2(x + width - rx, y));
+    builder.arcTo(rx, ry, 0, false, true, new Vec2(x + width, y + ry));
+    builder.lineTo(new Vec2(x + width, y + height - ry));
+    builder.arcTo(rx, ry, 0, false, true, new Vec2(x + width - rx, y + height));
+    builder.lineTo(new Vec2(x + rx, y + height));
+    builder.arcTo(rx, ry, 0, false, true, new Vec2(x, y + height - ry));
+    builder.lineTo(new Vec2(x, y + ry));
+    builder.arcTo(rx, ry, 0, false, true, new Vec2(x + rx, y));
+  }
+
+  /**
+   * Transform a local piece into world segments, approximating where the
+   * transform does not preserve the primitive
+   */
+  private toSegments(piece: LocalPiece, transform: Mat3): Segment[] {
+    const { tolerance, maxSubdivisionDepth } = this.options;
+
+    switch (piece.kind) {
+      case 'line': {
+        const from = transform.transformPoint(piece.from);
+        const to = transform.transformPoint(piece.to);
+        return from.isEqual(to, 1e-12) ? [] : [new LineSegment(from, to)];
+      }
+      case 'arc': {
+        const arc = new ArcSegment(piece.center, piece.radius, piece.startAngle, piece.sweepAngle);
+        if (SvgExportUtils.isSimilarity(transform)) {
+          return [arc.transform(transform)];
+        }
+        return SvgImportUtils.ellipticalArcToCubics(piece.center, piece.radius, piece.radius, 0, piece.startAngle, piece.sweepAngle)
+          .flatMap(cubic => SvgImportUtils.approximateCubic(
+            cubic.map(p => transform.transformPoint(p)) as [Vec2, Vec2, Vec2, Vec2],
+            tolerance,
+            maxSubdivisionDepth
+          ));
+      }
+      case 'cubic':
+        return SvgImportUtils.approximateCubic(
+          piece.points.map(p => transform.transformPoint(p)) as [Vec2, Vec2, Vec2, Vec2],
+          tolerance,
+          maxSubdivisionDepth
+        );
+    }
+  }
+}
+
+/**
+ * Accumulates local pieces from path-like drawing commands (absolute coordinates)
+ */
+class PathBuilder {
+  readonly pieces: LocalPiece[] = [];
+  private current = Vec2.ZERO;
+  private subpathStart = Vec2.ZERO;
+
+  get position(): Vec2 {
+    return this.current;
+  }
+
+  moveTo(point: Vec2): void {
+    this.current = point;
+    this.subpathStart = point;
+  }
+
+  lineTo(point: Vec2): void {
+    if (!point.isEqual(this.current, 1e-12)) {
+      this.pieces.push({ kind: 'line', from: this.current, to: point });
+    }
+    this.current = point;
+  }
+
+  cubicTo(c1: Vec2, c2: Vec2, point: Vec2): void {
+    this.pieces.push({ kind: 'cubic', points: [this.current, c1, c2, point] });
+    this.current = point;
+  }
+
+  quadTo(control: Vec2, point: Vec2): void {
+    // Degree elevation: a quadratic is a cubic with controls 2/3 of the way to the quadratic control
+    const c1 = this.current.add(control.subtract(this.current).multiply(2 / 3));
+    const c2 = point.add(control.subtract(point).multiply(2 / 3));
+    this.cubicTo(c1, c2, point);
+  }
+
+  /**
+   * SVG elliptical arc command (endpoint parameterization, SVG 1.1 appendix F.6.5)
+   */
+  arcTo(rx: number, ry: number, xAxisRotationDegrees: number, largeArc: boolean, sweep: boolean, point: Vec2): void {
+    const start = this.current;
+    if (start.isEqual(point, 1e-12)) return;
+    if (rx === 0 || ry === 0) {
+      this.lineTo(point);
+      return;
+    }
+
+    const phi = (xAxisRotationDegrees * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (start.x - point.x) / 2;
+    const dy = (start.y - point.y) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+
+    let radiusX = Math.abs(rx);
+    let radiusY = Math.abs(ry);
+    const lambda = (x1p * x1p) / (radiusX * radiusX) + (y1p * y1p) / (radiusY * radiusY);
+    if (lambda > 1) {
+      radiusX *= Math.sqrt(lambda);
+      radiusY *= Math.sqrt(lambda);
+    }
+
+    const rx2 = radiusX * radiusX;
+    const ry2 = radiusY * radiusY;
+    const numerator = rx2 * ry2 - rx2 * y1p * y1p - ry2 * x1p * x1p;
+    const denominator = rx2 * y1p * y1p + ry2 * x1p * x1p;
+    const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cxp = coefficient * (radiusX * y1p) / radiusY;
+    const cyp = coefficient * -(radiusY * x1p) / radiusX;
+    const center = new Vec2(
+      cos * cxp - sin * cyp + (start.x + point.x) / 2,
+      sin * cxp + cos * cyp + (start.y + point.y) / 2
+    );
+
+    const angleOf = (ux: number, uy: number): number => Math.atan2(uy, ux);
+    const theta1 = angleOf((x1p - cxp) / radiusX, (y1p - cyp) / radiusY);
+    let deltaTheta = angleOf((-x1p - cxp) / radiusX, (-y1p - cyp) / radiusY) - theta1;
+    while (deltaTheta > Math.PI) deltaTheta -= Math.PI * 2;
+    while (deltaTheta < -Math.PI) deltaTheta += Math.PI * 2;
+    if (largeArc && Math.abs(deltaTheta) < Math.PI) {
+      deltaTheta += deltaTheta > 0 ? -Math.PI * 2 : Math.PI * 2;
+    }
+    if (!sweep && deltaTheta > 0) deltaTheta -= Math.PI * 2;
+    if (sweep && deltaTheta < 0) deltaTheta += Math.PI * 2;
+
+    if (Math.abs(radiusX - radiusY) <= 1e-9 * Math.max(radiusX, radiusY)) {
+      this.pieces.push({ kind: 'arc', center, radius: radiusX, startAngle: theta1 + phi, sweepAngle: deltaTheta });
+    } else {
+      for (const points of SvgImportUtils.ellipticalArcToCubics(center, radiusX, radiusY, phi, theta1, deltaTheta)) {
+        this.pieces.push({ kind: 'cubic', points });
+      }
+    }
+    this.current = point;
+  }
+
+  circle(center: Vec2, radius: number): void {
+    if (radius <= 0) return;
+    this.pieces.push({ kind: 'arc', center, radius, startAngle: 0, sweepAngle: Math.PI * 2 });
+  }
+
+  close(): void {
+    this.lineTo(this.subpathStart);
+  }
+}
+
+// Utility functions for SVG parsing and curve approximation
+export namespace SvgImportUtils {
+  /**
+   * Minimal XML parser: elements, attributes and entities. Text content,
+   * comments, processing instructions, CDATA and doctypes are skipped.
+   */
+  export function parseXml(text: string): XmlElement {
+    interface OpenElement { name: string; attributes: Map<string, string>; children: XmlElement[] }
+    const stack: OpenElement[] = [];
+    const roots: XmlElement[] = [];
+    let i = 0;
+
+    const fail = (message: string): never => {
+      throw new Error(`Invalid SVG at offset ${i}: ${message}`);
+    };
+    const skipPast = (terminator: string): void => {
+      const end = text.indexOf(terminator, i);
+      if (end < 0) fail(`unterminated construct, expected "${terminator}"`);
+      i = end + terminator.length;
+    };
+    const addElement = (element: XmlElement): void => {
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (roots.length > 0) {
+        fail('more than one root element');
+      } else {
+        roots.push(element);
+      }
+    };
+
+    while (i < text.length) {
+      const lt = text.indexOf('<', i);
+      if (lt < 0) break;
+      i = lt;
+
+      if (text.startsWith('<!--', i)) { skipPast('-->'); continue; }
+      if (text.startsWith('<![CDATA[', i)) { skipPast(']]>'); continue; }
+      if (text.startsWith('<?', i)) { skipPast('?>'); continue; }
+      if (text.startsWith('<!', i)) {
+        // Doctype, possibly with an internal subset
+        const bracket = text.indexOf('[', i);
+        const close = text.indexOf('>', i);
+        if (bracket >= 0 && close >= 0 && bracket < close) {
+          i = bracket;
+          skipPast(']');
+        }
+        skipPast('>');
+        continue;
+      }
+
+      if (text.startsWith('</', i)) {
+        const match = /^<\/([\w:.-]+)\s*>/.exec(text.slice(i));
+        if (!match) fail('malformed end tag');
+        const name = match?.[1] ?? '';
+        const open = stack.pop();
+        if (!open || open.name !== name) fail(`unexpected </${name}>`);
+        i += match?.[0].length ?? 0;
+        if (open) addElement({ name: open.name, attributes: open.attributes, children: open.children });
+        continue;
+      }
+
+      const nameMatch = /^<([\w:.-]+)/.exec(text.slice(i));
+      if (!nameMatch) fail('malformed start tag');
+      const name = nameMatch?.[1] ?? '';
+      i += nameMatch?.[0].length ?? 0;
+
+      const attributes = new Map<string, string>();
+      const attributePattern = /^\s+([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/;
+      for (;;) {
+        const attribute = attributePattern.exec(text.slice(i));
+        if (!attribute) break;
+        attributes.set(attribute[1] ?? '', decodeEntities(attribute[3] ?? attribute[4] ?? ''));
+        i += attribute[0].length;
+      }
+
+      const end = /^\s*(\/?)>/.exec(text.slice(i));
+      if (!end) fail(`malformed attributes in <${name}>`);
+      i += end?.[0].length ?? 0;
+
+      if (end?.[1] === '/') {
+        addElement({ name, attributes, children: [] });
+      } else {
+        stack.push({ name, attributes, children: [] });
+      }
+    }
+
+    if (stack.length > 0) fail(`unclosed <${stack[stack.length - 1]?.name}>`);
+    const root = roots[0];
+    if (!root) return fail('no root element');
+    return root;
+  }
+
+  export function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+      switch (entity) {
+        case 'amp': return '&';
+        case 'lt': return '<';
+        case 'gt': return '>';
+        case 'quot': return '"';
+        case 'apos': return '\'';
+        default:
+          return String.fromCodePoint(entity.startsWith('#x')
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10));
+      }
+    });
+  }
+
+  /**
+   * Parse a length attribute. Only unitless and `px` values map to user units.
+   */
+  export function parseLength(value: string, name: string = 'length'): number {
+    const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)(px)?\s*$/.exec(value);
+    if (!match) {
+      throw new Error(`unsupported ${name} value "${value}"`);
+    }
+    return Number(match[1]);
+  }
+
+  export function parseNumberList(value: string): number[] {
+    const matches = value.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g);
+    return matches ? matches.map(Number) : [];
+  }
+
+  /**
+   * Parse an SVG transform list into a single matrix (leftmost transform applied last)
+   */
+  export function parseTransform(value: string): Mat3 {
+    const pattern = /\s*(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)\s*,?/gy;
+    let result = Mat3.IDENTITY;
+    let consumed = 0;
+
+    for (let match = pattern.exec(value); match; match = pattern.exec(value)) {
+      consumed = pattern.lastIndex;
+      const name = match[1] ?? '';
+      const args = parseNumberList(match[2] ?? '');
+      const arg = (i: number, fallback?: number): number => {
+        const v = args[i] ?? fallback;
+        if (v === undefined) throw new Error(`transform ${name}() is missing arguments`);
+        return v;
+      };
+      const radians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+      let matrix: Mat3;
+      switch (name) {
+        case 'matrix':
+          matrix = Mat3.fromTransform(arg(0), arg(1), arg(2), arg(3), arg(4), arg(5));
+          break;
+        case 'translate':
+          matrix = Mat3.translation(arg(0), arg(1, 0));
+          break;
+        case 'scale':
+          matrix = Mat3.scale(arg(0), arg(1, arg(0)));
+          break;
+        case 'rotate': {
+          const center = new Vec2(arg(1, 0), arg(2, 0));
+          matrix = Mat3.translation(center)
+            .multiply(Mat3.rotation(radians(arg(0))))
+            .multiply(Mat3.translation(center.negate()));
+          break;
+        }
+        case 'skewX':
+          matrix = Mat3.fromTransform(1, 0, Math.tan(radians(arg(0))), 1, 0, 0);
+          break;
+        default:
+          matrix = Mat3.fromTransform(1, Math.tan(radians(arg(0))), 0, 1, 0, 0);
+          break;
+      }
+      result = result.multiply(matrix);
+    }
+
+    if (value.slice(consumed).trim().length > 0) {
+      throw new Error(`unsupported transform "${value}"`);
+    }
+    return result;
+  }
+
+  /**
+   * Feed SVG path data into a builder. Returns an error description if the data
+   * is malformed; everything before the error has already been built.
+   */
+  export function parsePathData(data: string, builder: PathBuilderLike): string | null {
+    const tokens = tokenizePathData(data);
+    let index = 0;
+    let command = '';
+    let lastControl: Vec2 | null = null;  // Reflection point for S/T
+    let lastCommand = '';
+
+    const isCommand = (token: string | undefined): boolean => token !== undefined && /^[a-zA-Z]$/.test(token);
+    const hasNumber = (): boolean => index < tokens.length && !isCommand(tokens[index]);
+    const next = (): number => {
+      const token = tokens[index++];
+      const value = token === undefined ? NaN : Number(token);
+      if (!Number.isFinite(value)) throw new Error(`expected a number in path data near "${token ?? 'end'}"`);
+      return value;
+    };
+    const flag = (): boolean => {
+      const value = next();
+      if (value !== 0 && value !== 1) throw new Error(`expected an arc flag (0 or 1), got ${value}`);
+      return value === 1;
+    };
+
+    try {
+      while (index < tokens.length) {
+        if (isCommand(tokens[index])) {
+          command = tokens[index++] ?? '';
+        } else if (!command) {
+          throw new Error('path data must start with a moveto command');
+        }
+
+        const relative = command === command.toLowerCase();
+        const origin = (): Vec2 => (relative ? builder.position : Vec2.ZERO);
+        const point = (): Vec2 => {
+          const base = origin();
+          const x = next();
+          const y = next();
+          return new Vec2(base.x + x, base.y + y);
+        };
+
+        switch (command.toUpperCase()) {
+          case 'M':
+            builder.moveTo(point());
+            // Subsequent coordinate pairs are implicit lineto commands
+            command = relative ? 'l' : 'L';
+            lastControl = null;
+            break;
+          case 'L':
+            builder.lineTo(point());
+            lastControl = null;
+            break;
+          case 'H': {
+            const x = next();
+            builder.lineTo(new Vec2(relative ? builder.position.x + x : x, builder.position.y));
+            lastControl = null;
+            break;
+          }
+          case 'V': {
+            const y = next();
+            builder.lineTo(new Vec2(builder.position.x, relative ? builder.position.y + y : y));
+            lastControl = null;
+            break;
+          }
+          case 'C': {
+            const c1 = point();
+            const c2 = point();
+            const end = point();
+            builder.cubicTo(c1, c2, end);
+            lastControl = c2;
+            break;
+          }
+          case 'S': {
+            const reflected: Vec2 = lastControl && /[CS]/i.test(lastCommand)
+              ? builder.position.multiply(2).subtract(lastControl)
+              : builder.position;
+            const c2 = point();
+            const end = point();
+            builder.cubicTo(reflected, c2, end);
+            lastControl = c2;
+            break;
+          }
+          case 'Q': {
+            const control = point();
+            const end = point();
+            builder.quadTo(control, end);
+            lastControl = control;
+            break;
+          }
+          case 'T': {
+            const control: Vec2 = lastControl && /[QT]/i.test(lastCommand)
+              ? builder.position.multiply(2).subtract(lastControl)
+              : builder.position;
+            const end = point();
+            builder.quadTo(control, end);
+            lastControl = control;
+            break;
+          }
+          case 'A': {
+            const rx = next();
+            const ry = next();
+            const rotation = next();
+            const largeArc = flag();
+            const sweep = flag();
+            builder.arcTo(rx, ry, rotation, largeArc, sweep, point());
+            lastControl = null;
+            break;
+          }
+          case 'Z':
+            builder.close();
+            lastControl = null;
+            break;
+          default:
+            throw new Error(`unsupported path command "${command}"`);
+        }
+        lastCommand = command;
+
+        // Z takes no arguments; anything else repeats while numbers follow
+        if (command.toUpperCase() === 'Z' && hasNumber()) {
+          throw new Error('unexpected number after closepath');
+        }
+      }
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return null;
+  }
+
+  /**
+   * Split path data into command letters and numbers. Arc flags may be written
+   * without separators ("a1 1 0 01 5 5"), so digits are split one by one there.
+   */
+  export function tokenizePathData(data: string): string[] {
+    const tokens: string[] = [];
+    const pattern = /([a-zA-Z])|([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/g;
+    let arcArgument = -1;  // Position within the current arc argument group
+
+    for (let match = pattern.exec(data); match; match = pattern.exec(data)) {
+      if (match[1]) {
+        tokens.push(match[1]);
+        arcArgument = /[aA]/.test(match[1]) ? 0 : -1;
+        continue;
+      }
+
+      let number = match[2] ?? '';
+      if (arcArgument >= 0) {
+        const position = arcArgument % 7;
+        if ((position === 3 || position === 4) && number.length > 1 && /^[01]/.test(number)) {
+          // Flag glued to the following number: take one digit and rescan the rest
+          pattern.lastIndex = match.index + 1;
+          number = number.charAt(0);
+        }
+        arcArgument++;
+      }
+      tokens.push(number);
+    }
+    return tokens;
+  }
+
+  /**
+   * Cubic Bézier pieces for an elliptical arc, each spanning at most 90°
+   */
+  export function ellipticalArcToCubics(
+    center: Vec2,
+    rx: number,
+    ry: number,
+    phi: number,
+    startAngle: number,
+    sweepAngle: number
+  ): Array<[Vec2, Vec2, Vec2, Vec2]> {
+    const count = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+    const step = sweepAngle / count;
+    const k = (4 / 3) * Math.tan(step / 4);
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const pointAt = (theta: number): Vec2 => {
+      const x = rx * Math.cos(theta);
+      const y = ry * Math.sin(theta);
+      return new Vec2(center.x + cos * x - sin * y, center.y + sin * x + cos * y);
+    };
+    const derivativeAt = (theta: number): Vec2 => {
+      const x = -rx * Math.sin(theta);
+      const y = ry * Math.cos(theta);
+      return new Vec2(cos * x - sin * y, sin * x + cos * y);
+    };
+
+    const cubics: Array<[Vec2, Vec2, Vec2, Vec2]> = [];
+    for (let i = 0; i < count; i++) {
+      const a = startAngle + step * i;
+      const b = a + step;
+      const p0 = pointAt(a);
+      const p3 = pointAt(b);
+      cubics.push([p0, p0.add(derivativeAt(a).multiply(k)), p3.subtract(derivativeAt(b).multiply(k)), p3]);
+    }
+    return cubics;
+  }
+
+  export function evaluateCubic(points: readonly [Vec2, Vec2, Vec2, Vec2], t: number): Vec2 {
+    const [p0, p1, p2, p3] = points;
+    const u = 1 - t;
+    return p0.multiply(u * u * u)
+      .add(p1.multiply(3 * u * u * t))
+      .add(p2.multiply(3 * u * t * t))
+      .add(p3.multiply(t * t * t));
+  }
+
+  /**
+   * Approximate a cubic Bézier by lines and arcs. Each candidate is checked at
+   * interior samples; the curve is split in half until a candidate fits within
+   * the tolerance or the depth limit is reached.
+   */
+  export function approximateCubic(
+    points: readonly [Vec2, Vec2, Vec2, Vec2],
+    tolerance: number,
+    maxDepth: number = 10
+  ): Segment[] {
+    const [p0, , , p3] = points;
+    const samples = [0.125, 0.25, 0.375, 0.5, 0.625, 0.75, 0.875].map(t => evaluateCubic(points, t));
+    const fits = (segment: Segment): boolean => samples.every(p => segment.distanceToPoint(p) <= tolerance);
+
+    if (!p0.isEqual(p3, 1e-12)) {
+      const line = new LineSegment(p0, p3);
+      if (fits(line)) return [line];
+
+      const arc = ArcSegment.fromThreePoints(p0, evaluateCubic(points, 0.5), p3);
+      if (arc && fits(arc)) return [arc];
+
+      if (maxDepth <= 0) return [line];
+    } else if (maxDepth <= 0 || samples.every(p => p.distanceTo(p0) <= tolerance)) {
+      return [];
+    }
+
+    const [left, right] = splitCubic(points, 0.5);
+    return [
+      ...approximateCubic(left, tolerance, maxDepth - 1),
+      ...approximateCubic(right, tolerance, maxDepth - 1)
+    ];
+  }
+
+  /**
+   * De Casteljau split of a cubic Bézier
+   */
+  export function splitCubic(
+    points: readonly [Vec2, Vec2, Vec2, Vec2],
+    t: number
+  ): [[Vec2, Vec2, Vec2, Vec2], [Vec2, Vec2, Vec2, Vec2]] {
+    const [p0, p1, p2, p3] = points;
+    const a = p0.lerp(p1, t);
+    const b = p1.lerp(p2, t);
+    const c = p2.lerp(p3, t);
+    const d = a.lerp(b, t);
+    const e = b.lerp(c, t);
+    const mid = d.lerp(e, t);
+    return [[p0, a, d, mid], [mid, e, c, p3]];
+  }
+
+  /**
+   * Copy a segment under a new id
+   */
+  export function withId(segment: Segment, id: string): Segment {
+    if (segment instanceof LineSegment) {
+      return new LineSegment(segment.startPoint, segment.endPoint, id);
+    }
+    if (segment instanceof ArcSegment) {
+      return new ArcSegment(segment.center, segment.radius, segment.startAngle, segment.sweepAngle, id);
+    }
+    return segment;
+  }
+}
+
+/**
+ * Drawing commands accepted by `SvgImportUtils.parsePathData`
+ */
+export interface PathBuilderLike {
+  readonly position: Vec2;
+  moveTo(point: Vec2): void;
+  lineTo(point: Vec2): void;
+  cubicTo(c1: Vec2, c2: Vec2, point: Vec2): void;
+  quadTo(control: Vec2, point: Vec2): void;
+  arcTo(rx: number, ry: number, xAxisRotationDegrees: number, largeArc: boolean, sweep: boolean, point: Vec2): void;
+  close(): void;
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+
+import { GeometryType } from '../../input/stroke-to-geometry.js';
+import { ConstraintModel } from '../constraints/constraint-model.js';
+import { ConstraintType, ConstraintUtils } from '../constraints/constraint.js';
+import { DrawingModel } from '../document/drawing-model.js';
+import { ArcSegment } from '../geometry/arc-segment.js';
+import { LineSegment } from '../geometry/line-segment.js';
+import { Mat3 } from '../math/mat3.js';
+import { Vec2 } from '../math/vec2.js';
+
+import { ZotebookDocument, ZotebookFormat } from './zotebook-format.js';
+
+const METADATA = {
+  title: 'Bracket',
+  author: 'Ada',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  modifiedAt: '2024-01-02T00:00:00.000Z'
+};
+
+function sampleDocument(): ZotebookDocument {
+  const drawing = new DrawingModel();
+  drawing.addSegment(new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'base'), {
+    strokeId: 'stroke_1',
+    geometryType: GeometryType.LINE,
+    confidence: 0.95
+  });
+  drawing.addSegment(new ArcSegment(new Vec2(10, 5), 5, -Math.PI / 2, Math.PI, 'hook'));
+
+  return ZotebookFormat.create({
+    metadata: METADATA,
+    elements: drawing.allElements,
+    constraints: [
+      ConstraintUtils.horizontal('base', 'c-horizontal'),
+      ConstraintUtils.coincident({ segmentId: 'base', point: 'end' }, { segmentId: 'hook', point: 'start' }, 'c-joint'),
+      ConstraintUtils.fixed('base', 'start', new Vec2(0, 0), 'c-anchor')
+    ],
+    viewport: Mat3.translation(new Vec2(20, -5)).multiply(Mat3.scale(2)),
+    grid: { enabled: true, spacing: 5, snap: true }
+  });
+}
+
+describe('ZotebookFormat', () => {
+  describe('Round trip', () => {
+    it('should restore every part of a document', () => {
+      const original = sampleDocument();
+      const restored = ZotebookFormat.parse(ZotebookFormat.serialize(original));
+
+      expect(restored.metadata).toEqual(METADATA);
+      expect(restored.grid).toEqual(original.grid);
+      expect(restored.viewport.isEqual(original.viewport)).toBe(true);
+      expect(restored.elements.map(e => e.id)).toEqual(['base', 'hook']);
+      expect(restored.elements[0]?.source).toEqual({ strokeId: 'stroke_1', geometryType: GeometryType.LINE, confidence: 0.95 });
+      const [, hook] = original.elements;
+      if (!hook) throw new Error('expected arc element');
+      expect(restored.elements[1]?.segment).toBeInstanceOf(ArcSegment);
+      expect(restored.elements[1]?.segment.isEqual(hook.segment)).toBe(true);
+
+      const anchor = restored.constraints.find(c => c.id === 'c-anchor');
+      if (anchor?.type !== ConstraintType.FIXED) throw new Error('expected fixed constraint');
+      expect(anchor.point).toBe('start');
+      expect(anchor.position?.isEqual(Vec2.ZERO)).toBe(true);
+    });
+
+    it('should load documents into drawing and constraint models', () => {
+      const document = ZotebookFormat.parse(ZotebookFormat.serialize(sampleDocument()));
+      const drawing = new DrawingModel();
+      const constraints = new ConstraintModel();
+
+      ZotebookFormat.populate(document, drawing, constraints);
+
+      expect(drawing.size).toBe(2);
+      expect(drawing.getElementsForStroke('stroke_1')).toHaveLength(1);
+      expect(constraints.allConstraints).toHaveLength(3);
+      expect(ZotebookFormat.fromModels(drawing, constraints, { metadata: METADATA }).constraints).toHaveLength(3);
+    });
+  });
+
+  describe('Stable output', () => {
+    it('should write byte-identical output for identical content', () => {
+      const document = sampleDocument();
+      const text = ZotebookFormat.serialize(document);
+      const shuffled: ZotebookDocument = {
+        ...document,
+        elements: [...document.elements].reverse(),
+        constraints: [...document.constraints].reverse()
+      };
+
+      expect(ZotebookFormat.serialize(ZotebookFormat.parse(text))).toBe(text);
+      expect(ZotebookFormat.serialize(shuffled)).toBe(text);
+    });
+
+    it('should sort keys, indent and end with a newline', () => {
+      const text = ZotebookFormat.serialize(ZotebookFormat.create({ metadata: METADATA }));
+      const topLevelKeys = text.split('\n').filter(line => /^ {2}"/.test(line)).map(line => line.trim().split('"')[1]);
+
+      expect(topLevelKeys).toEqual(['constraints', 'elements', 'format', 'grid', 'metadata', 'version', 'viewport']);
+      expect(text.endsWith('}\n')).toBe(true);
+    });
+
+    it('should write negative zero as zero', () => {
+      const line = new LineSegment(new Vec2(-0, 0), new Vec2(1, -0), 'z');
+      const text = ZotebookFormat.serialize(ZotebookFormat.create({
+        metadata: METADATA,
+        elements: [{ id: 'z', segment: line, source: {}, createdAt: 0 }]
+      }));
+
+      expect(text).toContain('"x": 0,');
+      expect(text).not.toMatch(/-0[,\n]/);
+    });
+  });
+
+  describe('Migration', () => {
+    it('should upgrade a bare segment list', () => {
+      const legacy = [
+        new LineSegment(new Vec2(0, 0), new Vec2(1, 0), 'a').toJSON(),
+        { id: 'b', type: 'arc', center: { x: 0, y: 0 }, radius: 1, startAngle: 0, sweepAngle: 1 }
+      ];
+      const document = ZotebookFormat.parse(JSON.stringify(legacy));
+
+      expect(document.elements.map(e => e.id)).toEqual(['a', 'b']);
+      expect(document.constraints).toEqual([]);
+      expect(document.viewport.isIdentity()).toBe(true);
+    });
+
+    it('should reject documents from a newer version', () => {
+      const data = JSON.parse(ZotebookFormat.serialize(sampleDocument()));
+      data.version = ZotebookFormat.VERSION + 1;
+
+      expect(() => ZotebookFormat.fromData(data)).toThrow('document.version: unsupported version 2');
+    });
+  });
+
+  describe('Validation', () => {
+    // Raw parsed JSON, edited freely to simulate corrupt files
+    type RawDocument = ReturnType<typeof JSON.parse>;
+
+    function corrupt(edit: (data: RawDocument) => void): () => ZotebookDocument {
+      const data = JSON.parse(ZotebookFormat.serialize(sampleDocument()));
+      edit(data);
+      return () => ZotebookFormat.fromData(data);
+    }
+
+    it('should reject text that is not JSON', () => {
+      expect(() => ZotebookFormat.parse('{ "format": ')).toThrow('Invalid zotebook document at document: not valid JSON');
+    });
+
+    it('should reject other formats', () => {
+      expect(() => ZotebookFormat.parse('{ "format": "svg" }')).toThrow('document.format: expected "zotebook", got "svg"');
+    });
+
+    it('should report precise paths into segments', () => {
+      expect(corrupt(data => { data.elements[1].segment.radius = 'big'; }))
+        .toThrow('document.elements[1].segment.radius: expected a finite number, got "big"');
+    });
+
+    it('should report dangling constraint references', () => {
+      // Constraints are written sorted by id: c-anchor, c-horizontal, c-joint
+      expect(corrupt(data => { data.constraints[2].pointB.segmentId = 'ghost'; }))
+        .toThrow('document.constraints[2].pointB.segmentId: references unknown element "ghost"');
+    });
+
+    it('should report unknown constraint types', () => {
+      expect(corrupt(data => { data.constraints[0].type = 'symmetric'; }))
+        .toThrow('document.constraints[0].type: unknown constraint type "symmetric"');
+    });
+
+    it('should report malformed viewport entries', () => {
+      expect(corrupt(data => { data.viewport[4] = null; }))
+        .toThrow('document.viewport[4]: expected a finite number, got null');
+    });
+
+    it('should report duplicate element ids', () => {
+      expect(corrupt(data => { data.elements[1].segment.id = 'base'; }))
+        .toThrow('document.elements[1].segment.id: duplicate element id "base"');
+    });
+
+    it('should report invalid grid and metadata fields', () => {
+      expect(corrupt(data => { data.grid.spacing = 0; })).toThrow('document.grid.spacing: expected a positive number');
+      expect(corrupt(data => { data.metadata.createdAt = 'yesterday'; }))
+        .toThrow('document.metadata.createdAt: expected an ISO 8601 timestamp');
+    });
+  });
+});
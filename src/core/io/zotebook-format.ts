@@ -0,0 +1,447 @@
+import { GeometryType } from '../../input/stroke-to-geometry.js';
+import { ConstraintModel } from '../constraints/constraint-model.js';
+import { Constraint, ConstraintPoint, ConstraintType, ConstraintUtils, PointReference } from '../constraints/constraint.js';
+import { DrawingElement, DrawingModel, ElementSource } from '../document/drawing-model.js';
+import { SegmentRegistry, segmentRegistry } from '../geometry/segment-registry.js';
+import { JSONRecord, SegmentSchema } from '../geometry/segment-schema.js';
+import { Mat3 } from '../math/mat3.js';
+
+/**
+ * `.zotebook` document file format.
+ * A document bundles the drawing elements, their constraints, the viewport
+ * (world transform of the `TransformContext`), grid settings and metadata.
+ * Files are plain JSON written with sorted keys and sorted element/constraint
+ * lists so that saving an unchanged drawing produces byte-identical output and
+ * edits show up as small diffs under version control.
+ */
+
+export interface DocumentMetadata {
+  readonly title: string;
+  readonly author?: string;
+  readonly createdAt: string;   // ISO 8601
+  readonly modifiedAt: string;  // ISO 8601
+}
+
+export interface GridSettings {
+  readonly enabled: boolean;
+  readonly spacing: number;     // World units between grid lines
+  readonly snap: boolean;       // Snap new geometry to grid intersections
+}
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  enabled: true,
+  spacing: 10,
+  snap: false
+};
+
+export interface ZotebookDocument {
+  readonly metadata: DocumentMetadata;
+  readonly elements: ReadonlyArray<DrawingElement>;
+  readonly constraints: ReadonlyArray<Constraint>;
+  readonly viewport: Mat3;
+  readonly grid: GridSettings;
+}
+
+/**
+ * Upgrades raw document data by one version
+ */
+export interface DocumentMigration {
+  readonly fromVersion: number;
+  readonly description: string;
+  migrate(data: unknown): JSONRecord;
+}
+
+export namespace ZotebookFormat {
+  export const FORMAT_ID = 'zotebook';
+  export const VERSION = 1;
+  export const FILE_EXTENSION = '.zotebook';
+
+  /**
+   * Migrations applied in order until the data reaches `VERSION`
+   */
+  export const MIGRATIONS: ReadonlyArray<DocumentMigration> = [
+    {
+      // Before the document format existed drawings were saved as a bare array of segment JSON
+      fromVersion: 0,
+      description: 'Wrap a bare segment list in a version 1 document',
+      migrate: (data: unknown): JSONRecord => {
+        if (!Array.isArray(data)) {
+          fail('document', `expected a segment array, got ${SegmentSchema.describe(data)}`);
+        }
+        const timestamp = new Date(0).toISOString();
+        return {
+          format: FORMAT_ID,
+          version: 1,
+          metadata: { title: 'Untitled', createdAt: timestamp, modifiedAt: timestamp },
+          elements: data.map((segment: unknown) => ({ segment, source: {}, createdAt: 0 })),
+          constraints: [],
+          viewport: Mat3.IDENTITY.toArray(),
+          grid: { ...DEFAULT_GRID_SETTINGS }
+        };
+      }
+    }
+  ];
+
+  /**
+   * Assemble a document; omitted parts fall back to an empty, untransformed drawing
+   */
+  export function create(parts: Partial<ZotebookDocument> = {}): ZotebookDocument {
+    const now = new Date().toISOString();
+    return {
+      metadata: parts.metadata ?? { title: 'Untitled', createdAt: now, modifiedAt: now },
+      elements: parts.elements ?? [],
+      constraints: parts.constraints ?? [],
+      viewport: parts.viewport ?? Mat3.IDENTITY,
+      grid: parts.grid ?? DEFAULT_GRID_SETTINGS
+    };
+  }
+
+  /**
+   * Snapshot the current state of the drawing and constraint models
+   */
+  export function fromModels(
+    drawing: DrawingModel,
+    constraints: ConstraintModel | null,
+    parts: Partial<Omit<ZotebookDocument, 'elements' | 'constraints'>> = {}
+  ): ZotebookDocument {
+    return create({
+      ...parts,
+      elements: drawing.allElements,
+      constraints: constraints?.allConstraints ?? []
+    });
+  }
+
+  /**
+   * Load a document into (empty) drawing and constraint models
+   */
+  export function populate(document: ZotebookDocument, drawing: DrawingModel, constraints?: ConstraintModel): void {
+    for (const element of document.elements) {
+      drawing.restoreElement(element);
+      constraints?.addSegment(element.segment);
+    }
+    for (const constraint of document.constraints) {
+      constraints?.addConstraint(constraint);
+    }
+  }
+
+  /**
+   * Write a document as stable, diff-friendly JSON text
+   */
+  export function serialize(document: ZotebookDocument): string {
+    const byId = <T extends { readonly id: string }>(a: T, b: T): number =>
+      a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+    const data = {
+      format: FORMAT_ID,
+      version: VERSION,
+      metadata: document.metadata,
+      elements: [...document.elements].sort(byId).map(element => ({
+        segment: element.segment.toJSON(),
+        source: element.source,
+        createdAt: element.createdAt
+      })),
+      constraints: [...document.constraints].sort(byId),
+      viewport: document.viewport.toArray(),
+      grid: document.grid
+    };
+
+    return `${stableStringify(data, '')}\n`;
+  }
+
+  /**
+   * Read document text, migrating older versions and validating every field
+   */
+  export function parse(text: string, registry: SegmentRegistry = segmentRegistry): ZotebookDocument {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      fail('document', `not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+    }
+    return fromData(data, registry);
+  }
+
+  /**
+   * Validate already-parsed document data
+   */
+  export function fromData(data: unknown, registry: SegmentRegistry = segmentRegistry): ZotebookDocument {
+    const record = migrate(data);
+
+    const elements = expectArray(record, 'elements', 'document').map((value, i) =>
+      parseElement(value, `document.elements[${i}]`, registry)
+    );
+    const ids = new Set<string>();
+    elements.forEach((element, i) => {
+      if (ids.has(element.id)) {
+        fail(`document.elements[${i}].segment.id`, `duplicate element id "${element.id}"`);
+      }
+      ids.add(element.id);
+    });
+
+    const constraints = expectArray(record, 'constraints', 'document').map((value, i) =>
+      parseConstraint(value, `document.constraints[${i}]`, ids)
+    );
+
+    return {
+      metadata: parseMetadata(record['metadata'], 'document.metadata'),
+      elements,
+      constraints,
+      viewport: parseViewport(record['viewport'], 'document.viewport'),
+      grid: parseGrid(record['grid'], 'document.grid')
+    };
+  }
+
+  /**
+   * Bring raw data of any supported version up to the current version
+   */
+  export function migrate(data: unknown): JSONRecord {
+    let version = detectVersion(data);
+    let current = data;
+
+    while (version < VERSION) {
+      const migration = MIGRATIONS.find(m => m.fromVersion === version);
+      if (!migration) {
+        fail('document.version', `no migration available from version ${version}`);
+      }
+      current = migration.migrate(current);
+      version = detectVersion(current);
+    }
+
+    return current as JSONRecord;
+  }
+
+  function detectVersion(data: unknown): number {
+    if (Array.isArray(data)) return 0;
+
+    const record = expectRecord(data, 'document');
+    if (record['format'] !== FORMAT_ID) {
+      fail('document.format', `expected "${FORMAT_ID}", got ${SegmentSchema.describe(record['format'])}`);
+    }
+
+    const version = expectNumber(record, 'version', 'document');
+    if (!Number.isInteger(version) || version < 1) {
+      fail('document.version', `expected a positive integer, got ${version}`);
+    }
+    if (version > VERSION) {
+      fail('document.version', `unsupported version ${version} (newest supported is ${VERSION})`);
+    }
+    return version;
+  }
+}
+
+// Parsing of document sections
+
+const CONSTRAINT_POINTS: ReadonlyArray<ConstraintPoint> = ['start', 'end', 'center'];
+const GEOMETRY_TYPES: ReadonlyArray<string> = Object.values(GeometryType);
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid zotebook document at ${path}: ${message}`);
+}
+
+function expectRecord(value: unknown, path: string): JSONRecord {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, `expected an object, got ${SegmentSchema.describe(value)}`);
+  }
+  return value as JSONRecord;
+}
+
+function expectArray(data: JSONRecord, key: string, path: string): unknown[] {
+  const value = data[key];
+  if (!Array.isArray(value)) {
+    fail(`${path}.${key}`, `expected an array, got ${SegmentSchema.describe(value)}`);
+  }
+  return value;
+}
+
+function expectString(data: JSONRecord, key: string, path: string): string {
+  const value = data[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    fail(`${path}.${key}`, `expected a non-empty string, got ${SegmentSchema.describe(value)}`);
+  }
+  return value;
+}
+
+function optionalString(data: JSONRecord, key: string, path: string): string | undefined {
+  return data[key] === undefined ? undefined : expectString(data, key, path);
+}
+
+function expectNumber(data: JSONRecord, key: string, path: string): number {
+  const value = data[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(`${path}.${key}`, `expected a finite number, got ${SegmentSchema.describe(value)}`);
+  }
+  return value;
+}
+
+function expectBoolean(data: JSONRecord, key: string, path: string): boolean {
+  const value = data[key];
+  if (typeof value !== 'boolean') {
+    fail(`${path}.${key}`, `expected a boolean, got ${SegmentSchema.describe(value)}`);
+  }
+  return value;
+}
+
+function expectTimestamp(data: JSONRecord, key: string, path: string): string {
+  const value = expectString(data, key, path);
+  if (Number.isNaN(Date.parse(value))) {
+    fail(`${path}.${key}`, `expected an ISO 8601 timestamp, got "${value}"`);
+  }
+  return value;
+}
+
+function parseMetadata(value: unknown, path: string): DocumentMetadata {
+  const data = expectRecord(value, path);
+  const title = data['title'];
+  if (typeof title !== 'string') {
+    fail(`${path}.title`, `expected a string, got ${SegmentSchema.describe(title)}`);
+  }
+  const author = optionalString(data, 'author', path);
+  return {
+    title,
+    ...(author !== undefined ? { author } : {}),
+    createdAt: expectTimestamp(data, 'createdAt', path),
+    modifiedAt: expectTimestamp(data, 'modifiedAt', path)
+  };
+}
+
+function parseGrid(value: unknown, path: string): GridSettings {
+  const data = expectRecord(value, path);
+  const spacing = expectNumber(data, 'spacing', path);
+  if (spacing <= 0) {
+    fail(`${path}.spacing`, `expected a positive number, got ${spacing}`);
+  }
+  return {
+    enabled: expectBoolean(data, 'enabled', path),
+    spacing,
+    snap: expectBoolean(data, 'snap', path)
+  };
+}
+
+function parseViewport(value: unknown, path: string): Mat3 {
+  if (!Array.isArray(value) || value.length !== 9) {
+    fail(path, `expected an array of 9 numbers, got ${SegmentSchema.describe(value)}`);
+  }
+  value.forEach((entry: unknown, i) => {
+    if (typeof entry !== 'number' || !Number.isFinite(entry)) {
+      fail(`${path}[${i}]`, `expected a finite number, got ${SegmentSchema.describe(entry)}`);
+    }
+  });
+  return Mat3.fromJSON(value as number[]);
+}
+
+function parseElement(value: unknown, path: string, registry: SegmentRegistry): DrawingElement {
+  const data = expectRecord(value, path);
+  const segment = registry.fromJSON(data['segment'], `${path}.segment`);
+  return {
+    id: segment.id,
+    segment,
+    source: parseSource(data['source'] ?? {}, `${path}.source`),
+    createdAt: expectNumber(data, 'createdAt', path)
+  };
+}
+
+function parseSource(value: unknown, path: string): ElementSource {
+  const data = expectRecord(value, path);
+  const strokeId = optionalString(data, 'strokeId', path);
+  const derivedFrom = optionalString(data, 'derivedFrom', path);
+  const geometryType = optionalString(data, 'geometryType', path);
+  if (geometryType !== undefined && !GEOMETRY_TYPES.includes(geometryType)) {
+    fail(`${path}.geometryType`, `unknown geometry type "${geometryType}"`);
+  }
+  const confidence = data['confidence'] === undefined ? undefined : expectNumber(data, 'confidence', path);
+
+  return {
+    ...(strokeId !== undefined ? { strokeId } : {}),
+    ...(geometryType !== undefined ? { geometryType: geometryType as GeometryType } : {}),
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(derivedFrom !== undefined ? { derivedFrom } : {})
+  };
+}
+
+function parseConstraint(value: unknown, path: string, elementIds: ReadonlySet<string>): Constraint {
+  const data = expectRecord(value, path);
+  const id = expectString(data, 'id', path);
+  const type = expectString(data, 'type', path);
+
+  const segmentRef = (key: string): string => {
+    const segmentId = expectString(data, key, path);
+    if (!elementIds.has(segmentId)) {
+      fail(`${path}.${key}`, `references unknown element "${segmentId}"`);
+    }
+    return segmentId;
+  };
+  const point = (raw: unknown, pointPath: string): ConstraintPoint => {
+    if (typeof raw !== 'string' || !(CONSTRAINT_POINTS as ReadonlyArray<string>).includes(raw)) {
+      fail(pointPath, `expected one of ${CONSTRAINT_POINTS.join(', ')}, got ${SegmentSchema.describe(raw)}`);
+    }
+    return raw as ConstraintPoint;
+  };
+  const pointRef = (key: string): PointReference => {
+    const ref = expectRecord(data[key], `${path}.${key}`);
+    const segmentId = expectString(ref, 'segmentId', `${path}.${key}`);
+    if (!elementIds.has(segmentId)) {
+      fail(`${path}.${key}.segmentId`, `references unknown element "${segmentId}"`);
+    }
+    return { segmentId, point: point(ref['point'], `${path}.${key}.point`) };
+  };
+
+  switch (type) {
+    case ConstraintType.COINCIDENT:
+      return ConstraintUtils.coincident(pointRef('pointA'), pointRef('pointB'), id);
+    case ConstraintType.PARALLEL:
+      return ConstraintUtils.parallel(segmentRef('segment1Id'), segmentRef('segment2Id'), id);
+    case ConstraintType.PERPENDICULAR:
+      return ConstraintUtils.perpendicular(segmentRef('segment1Id'), segmentRef('segment2Id'), id);
+    case ConstraintType.EQUAL_LENGTH:
+      return ConstraintUtils.equalLength(segmentRef('segment1Id'), segmentRef('segment2Id'), id);
+    case ConstraintType.HORIZONTAL:
+      return ConstraintUtils.horizontal(segmentRef('segmentId'), id);
+    case ConstraintType.VERTICAL:
+      return ConstraintUtils.vertical(segmentRef('segmentId'), id);
+    case ConstraintType.TANGENT:
+      return ConstraintUtils.tangent(segmentRef('segment1Id'), segmentRef('segment2Id'), id);
+    case ConstraintType.CONCENTRIC:
+      return ConstraintUtils.concentric(segmentRef('segment1Id'), segmentRef('segment2Id'), id);
+    case ConstraintType.FIXED: {
+      const segmentId = segmentRef('segmentId');
+      const fixedPoint = data['point'] === undefined ? undefined : point(data['point'], `${path}.point`);
+      const position = data['position'] === undefined
+        ? undefined
+        : SegmentSchema.expectVec2(data, 'position', path);
+      return ConstraintUtils.fixed(segmentId, fixedPoint, position, id);
+    }
+    default:
+      return fail(`${path}.type`, `unknown constraint type "${type}"`);
+  }
+}
+
+// Stable JSON output
+
+/**
+ * JSON.stringify with recursively sorted keys, two-space indentation and `-0` written as `0`
+ */
+function stableStringify(value: unknown, indent: string): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return stableStringify((value as { toJSON(): unknown }).toJSON(), indent);
+  }
+  if (typeof value === 'number') {
+    return JSON.stringify(Object.is(value, -0) ? 0 : value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  const inner = `${indent}  `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map(item => `${inner}${stableStringify(item, inner)}`);
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  if (entries.length === 0) return '{}';
+  const fields = entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${stableStringify(item, inner)}`);
+  return `{\n${fields.join(',\n')}\n${indent}}`;
+}
@@ -274,6 +274,13 @@ describe('Mat3', () => {
       expect(Mat3.scale(2).isIdentity()).toBe(false);
     });
 
+    it('should test similarity', () => {
+      expect(Mat3.translation(3, 4).multiply(Mat3.rotation(0.5)).multiply(Mat3.scale(2)).isSimilarity()).toBe(true);
+      expect(Mat3.scale(-1, 1).isSimilarity()).toBe(true);
+      expect(Mat3.scale(2, 1).isSimilarity()).toBe(false);
+      expect(Mat3.skew(0.2, 0).isSimilarity()).toBe(false);
+    });
+
     it('should test equality', () => {
       const m1 = Mat3.translation(1, 2);
       const m2 = Mat3.translation(1, 2);
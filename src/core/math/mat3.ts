@@ -231,6 +231,18 @@ export class Mat3 {
     );
   }
 
+  /**
+   * Check whether the matrix maps circles to circles (rotation, reflection,
+   * uniform scale and translation only)
+   */
+  isSimilarity(epsilon: number = 1e-9): boolean {
+    const ex = this.transformVector(new Vec2(1, 0));
+    const ey = this.transformVector(new Vec2(0, 1));
+    const scale = Math.max(ex.length, ey.length, epsilon);
+    return Math.abs(ex.length - ey.length) <= epsilon * scale &&
+           Math.abs(ex.dot(ey)) <= epsilon * scale * scale;
+  }
+
   isIdentity(epsilon: number = Number.EPSILON): boolean {
     return this.isEqual(Mat3.IDENTITY, epsilon);
   }
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../core/math/vec2.js';
+
+import { EllipseFitter } from './ellipse-fitter.js';
+
+// Points along an ellipse from `start` over `sweep`, nudged by a small wobble
+function ellipseStroke(
+  center: Vec2, radiusX: number, radiusY: number, rotation: number,
+  start: number, sweep: number, count: number = 60, wobble: number = 0
+): Vec2[] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = start + (sweep * i) / (count - 1);
+    const local = new Vec2(radiusX * Math.cos(angle), radiusY * Math.sin(angle));
+    return center.add(local.rotateBy(rotation)).add(new Vec2(0, wobble * Math.sin(i * 1.7)));
+  });
+}
+
+describe('EllipseFitter', () => {
+  it('should recover an exact ellipse', () => {
+    const fit = EllipseFitter.fitDirect(ellipseStroke(new Vec2(100, 80), 60, 25, 0.4, 0, Math.PI * 2));
+
+    expect(fit?.center.isEqual(new Vec2(100, 80), 1e-6)).toBe(true);
+    expect(fit?.radiusX).toBeCloseTo(60, 6);
+    expect(fit?.radiusY).toBeCloseTo(25, 6);
+    expect(fit?.rotation).toBeCloseTo(0.4, 6);
+  });
+
+  it('should fit a noisy partial arc', () => {
+    const points = ellipseStroke(new Vec2(0, 0), 80, 40, -0.3, 0.2, Math.PI * 1.2, 60, 0.5);
+    const fit = EllipseFitter.fitDirect(points);
+    if (!fit) throw new Error('expected a fit');
+
+    const segment = EllipseFitter.toSegment(fit, points, false);
+    expect(segment.isClosed).toBe(false);
+    expect(segment.sweepAngle).toBeGreaterThan(0);
+    for (const point of points) {
+      expect(segment.distanceToPoint(point)).toBeLessThan(2);
+    }
+  });
+
+  it('should close strokes that go all the way round', () => {
+    const points = ellipseStroke(new Vec2(0, 0), 50, 30, 0, 0, -Math.PI * 2.05);
+    const fit = EllipseFitter.fitDirect(points);
+    if (!fit) throw new Error('expected a fit');
+
+    const segment = EllipseFitter.toSegment(fit, points, false);
+    expect(segment.isClosed).toBe(true);
+    expect(segment.isClockwise).toBe(true);
+  });
+
+  it('should reject degenerate input', () => {
+    const line = Array.from({ length: 10 }, (_, i) => new Vec2(i * 5, i * 2));
+
+    expect(EllipseFitter.fitDirect(line)).toBeNull();
+    expect(EllipseFitter.fitDirect(line.slice(0, 4))).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+import { EllipseSegment, EllipseSegmentUtils } from '../core/geometry/ellipse-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+/**
+ * Direct least-squares ellipse fitting for stroke conversion.
+ * Implements the numerically stable formulation by Halíř and Flusser (1998) of
+ * Fitzgibbon, Pilu and Fisher's ellipse-specific conic fit: the algebraic error
+ * is minimized under the constraint 4AC - B² = 1, so the result is always an
+ * ellipse, even for short elliptical arcs.
+ */
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+export interface EllipseFit {
+  readonly center: Vec2;
+  readonly radiusX: number;
+  readonly radiusY: number;
+  readonly rotation: number;
+}
+
+export namespace EllipseFitter {
+  /**
+   * Best-fitting ellipse through at least five points, or null when the points
+   * are degenerate (e.g. collinear)
+   */
+  export function fitDirect(points: ReadonlyArray<Vec2>): EllipseFit | null {
+    if (points.length < 5) return null;
+
+    // Center and scale the points so the normal equations stay well conditioned
+    const mean = points.reduce((sum, p) => sum.add(p), Vec2.ZERO).divide(points.length);
+    const scale = Math.sqrt(points.reduce((sum, p) => sum + p.distanceToSquared(mean), 0) / points.length);
+    if (scale < 1e-12) return null;
+
+    const s1: Matrix3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const s2: Matrix3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const s3: Matrix3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    for (const point of points) {
+      const x = (point.x - mean.x) / scale;
+      const y = (point.y - mean.y) / scale;
+      const quadratic = [x * x, x * y, y * y];
+      const linear = [x, y, 1];
+      for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+          const i = r * 3 + c;
+          s1[i] = (s1[i] ?? 0) + (quadratic[r] ?? 0) * (quadratic[c] ?? 0);
+          s2[i] = (s2[i] ?? 0) + (quadratic[r] ?? 0) * (linear[c] ?? 0);
+          s3[i] = (s3[i] ?? 0) + (linear[r] ?? 0) * (linear[c] ?? 0);
+        }
+      }
+    }
+
+    const s3Inverse = invert(s3);
+    if (!s3Inverse) return null;
+
+    // Linear coefficients in terms of the quadratic ones: a2 = T a1
+    const t = multiply(s3Inverse, transpose(s2)).map(v => -v) as Matrix3;
+    const reduced = add(s1, multiply(s2, t));
+
+    // Premultiply by the inverse of the constraint matrix [[0, 0, 2], [0, -1, 0], [2, 0, 0]]
+    const m: Matrix3 = [
+      reduced[6] / 2, reduced[7] / 2, reduced[8] / 2,
+      -reduced[3], -reduced[4], -reduced[5],
+      reduced[0] / 2, reduced[1] / 2, reduced[2] / 2
+    ];
+
+    for (const eigenvalue of realEigenvalues(m)) {
+      const quadratic = eigenvector(m, eigenvalue);
+      if (!quadratic) continue;
+      const [A, B, C] = quadratic;
+      if (4 * A * C - B * B <= 0) continue;
+
+      const D = t[0] * A + t[1] * B + t[2] * C;
+      const E = t[3] * A + t[4] * B + t[5] * C;
+      const F = t[6] * A + t[7] * B + t[8] * C;
+      const ellipse = EllipseSegmentUtils.fromConic(A, B, C, D, E, F);
+      if (!ellipse) continue;
+
+      return {
+        center: ellipse.center.multiply(scale).add(mean),
+        radiusX: ellipse.radiusX * scale,
+        radiusY: ellipse.radiusY * scale,
+        rotation: ellipse.rotation
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Ellipse segment covering the points in drawing order: a closed ellipse when
+   * `closed` or when the points go all the way round, otherwise the arc from the
+   * first to the last point
+   */
+  export function toSegment(fit: EllipseFit, points: ReadonlyArray<Vec2>, closed: boolean): EllipseSegment {
+    const full = EllipseSegment.fullEllipse(fit.center, fit.radiusX, fit.radiusY, fit.rotation);
+    const angles = points.map(p => {
+      const local = full.toLocal(p);
+      return Math.atan2(local.y / fit.radiusY, local.x / fit.radiusX);
+    });
+
+    // Unwrap the parametric angles to follow the stroke
+    let sweep = 0;
+    for (let i = 1; i < angles.length; i++) {
+      let step = (angles[i] ?? 0) - (angles[i - 1] ?? 0);
+      if (step > Math.PI) step -= Math.PI * 2;
+      if (step < -Math.PI) step += Math.PI * 2;
+      sweep += step;
+    }
+
+    const start = angles[0] ?? 0;
+    if (closed || Math.abs(sweep) >= Math.PI * 2) {
+      return new EllipseSegment(fit.center, fit.radiusX, fit.radiusY, fit.rotation, start, Math.sign(sweep || 1) * Math.PI * 2);
+    }
+    return new EllipseSegment(fit.center, fit.radiusX, fit.radiusY, fit.rotation, start, sweep);
+  }
+
+  function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+    const result: Matrix3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let k = 0; k < 3; k++) sum += (a[r * 3 + k] ?? 0) * (b[k * 3 + c] ?? 0);
+        result[r * 3 + c] = sum;
+      }
+    }
+    return result;
+  }
+
+  function add(a: Matrix3, b: Matrix3): Matrix3 {
+    return a.map((v, i) => v + (b[i] ?? 0)) as Matrix3;
+  }
+
+  function transpose(m: Matrix3): Matrix3 {
+    return [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]];
+  }
+
+  function determinant(m: Matrix3): number {
+    return m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[1] * (m[3] * m[8] - m[5] * m[6]) +
+      m[2] * (m[3] * m[7] - m[4] * m[6]);
+  }
+
+  function invert(m: Matrix3): Matrix3 | null {
+    const det = determinant(m);
+    if (Math.abs(det) < 1e-12) return null;
+    return [
+      (m[4] * m[8] - m[5] * m[7]) / det, (m[2] * m[7] - m[1] * m[8]) / det, (m[1] * m[5] - m[2] * m[4]) / det,
+      (m[5] * m[6] - m[3] * m[8]) / det, (m[0] * m[8] - m[2] * m[6]) / det, (m[2] * m[3] - m[0] * m[5]) / det,
+      (m[3] * m[7] - m[4] * m[6]) / det, (m[1] * m[6] - m[0] * m[7]) / det, (m[0] * m[4] - m[1] * m[3]) / det
+    ];
+  }
+
+  // Real roots of the characteristic polynomial λ³ - trace λ² + minors λ - det
+  function realEigenvalues(m: Matrix3): number[] {
+    const trace = m[0] + m[4] + m[8];
+    const minors = (m[0] * m[4] - m[1] * m[3]) + (m[0] * m[8] - m[2] * m[6]) + (m[4] * m[8] - m[5] * m[7]);
+    return solveCubic(-trace, minors, -determinant(m));
+  }
+
+  // Real roots of x³ + b x² + c x + d
+  function solveCubic(b: number, c: number, d: number): number[] {
+    const p = c - b * b / 3;
+    const q = 2 * b * b * b / 27 - b * c / 3 + d;
+    const shift = -b / 3;
+    const discriminant = q * q / 4 + p * p * p / 27;
+
+    if (discriminant > 1e-14) {
+      const root = Math.sqrt(discriminant);
+      return [Math.cbrt(-q / 2 + root) + Math.cbrt(-q / 2 - root) + shift];
+    }
+    if (Math.abs(p) < 1e-14) {
+      return [Math.cbrt(-q) + shift];
+    }
+
+    const radius = 2 * Math.sqrt(-p / 3);
+    const angle = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * radius))));
+    return [0, 1, 2].map(k => radius * Math.cos(angle / 3 - (2 * Math.PI * k) / 3) + shift);
+  }
+
+  // Null vector of m - λI from the best-conditioned cross product of two rows
+  function eigenvector(m: Matrix3, eigenvalue: number): [number, number, number] | null {
+    const rows = [0, 1, 2].map(r => [0, 1, 2].map(c => (m[r * 3 + c] ?? 0) - (r === c ? eigenvalue : 0)));
+    let best: [number, number, number] | null = null;
+    let bestNorm = 0;
+    for (const [i, j] of [[0, 1], [0, 2], [1, 2]] as const) {
+      const a = rows[i] ?? [];
+      const b = rows[j] ?? [];
+      const cross: [number, number, number] = [
+        (a[1] ?? 0) * (b[2] ?? 0) - (a[2] ?? 0) * (b[1] ?? 0),
+        (a[2] ?? 0) * (b[0] ?? 0) - (a[0] ?? 0) * (b[2] ?? 0),
+        (a[0] ?? 0) * (b[1] ?? 0) - (a[1] ?? 0) * (b[0] ?? 0)
+      ];
+      const norm = Math.hypot(...cross);
+      if (norm > bestNorm) {
+        best = cross;
+        bestNorm = norm;
+      }
+    }
+    return best && bestNorm > 1e-14 ? best.map(v => v / bestNorm) as [number, number, number] : null;
+  }
+}
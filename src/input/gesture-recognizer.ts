@@ -69,6 +69,12 @@ export interface GestureData {
   };
 }
 
+export interface SwipeDetection {
+  readonly direction: Vec2;
+  readonly velocity: number; // pixels per second
+  readonly distance: number;
+}
+
 export interface GestureRecognitionOptions {
   readonly panThreshold: number;         // Minimum movement for pan (pixels)
   readonly zoomThreshold: number;        // Minimum scale change for zoom
@@ -330,12 +336,14 @@ export class GestureRecognizer {
     
     const duration = currentTime - this.tapState.startTime;
     const displacement = pointer.position.subtract(this.tapState.startPosition);
-    const distance = displacement.length;
-    const velocity = duration > 0 ? (distance / duration) * 1000 : 0; // pixels per second
-    
-    if (velocity >= this.options.swipeMinVelocity && distance >= this.options.swipeMinDistance) {
-      const direction = displacement.normalized;
-      
+    const swipe = GestureUtils.detectSwipe(
+      displacement,
+      duration,
+      this.options.swipeMinVelocity,
+      this.options.swipeMinDistance
+    );
+    
+    if (swipe) {
       const gesture: RecognizedGesture = {
         type: GestureType.SWIPE,
         phase: GesturePhase.ENDED,
@@ -343,13 +351,9 @@ export class GestureRecognizer {
         duration,
         pointers,
         centroid: pointer.position,
-        confidence: Math.min(1.0, velocity / (this.options.swipeMinVelocity * 3)),
+        confidence: Math.min(1.0, swipe.velocity / (this.options.swipeMinVelocity * 3)),
         data: {
-          swipe: {
-            direction,
-            velocity,
-            distance
-          }
+          swipe
         }
       };
       
@@ -657,6 +661,39 @@ export class GestureRecognizer {
  * Utility functions for gesture analysis and debugging
  */
 export namespace GestureUtils {
+  /**
+   * Classify a displacement over a duration as a swipe.
+   * Shared by single-finger swipes and the three-finger redo swipe.
+   */
+  export function detectSwipe(
+    displacement: Vec2,
+    durationMs: number,
+    minVelocity: number = DEFAULT_GESTURE_OPTIONS.swipeMinVelocity,
+    minDistance: number = DEFAULT_GESTURE_OPTIONS.swipeMinDistance
+  ): SwipeDetection | null {
+    const distance = displacement.length;
+    const velocity = durationMs > 0 ? (distance / durationMs) * 1000 : 0; // pixels per second
+    
+    if (velocity < minVelocity || distance < minDistance) {
+      return null;
+    }
+    
+    return {
+      direction: displacement.normalized,
+      velocity,
+      distance
+    };
+  }
+
+  /**
+   * Whether a three finger gesture ends in a swipe to the right, which redoes.
+   * Swipes in other directions are left to undo like a hold.
+   */
+  export function isRedoSwipe(centroidDelta: Vec2, durationMs: number): boolean {
+    const swipe = detectSwipe(centroidDelta, durationMs);
+    return swipe !== null && swipe.direction.x > Math.abs(swipe.direction.y);
+  }
+
   /**
    * Calculate gesture similarity for pattern recognition
    */
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { Pt } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { PointerScript } from '../test/pointer-script.js';
+
+import { InputCoordinator, InputCoordinatorOptions } from './input-coordinator.js';
+
+function setup(options: Partial<InputCoordinatorOptions> = {}): { script: PointerScript; triggered: string[] } {
+  const transformContext = Pt.createTransformContext(new Vec2(800, 600), Vec2.ZERO, 1, 1);
+  const script = new PointerScript(transformContext);
+  const coordinator = new InputCoordinator({
+    element: globalThis.document.createElement('div'),
+    transformContext,
+    maxEventsPerSecond: Number.POSITIVE_INFINITY,
+    ...options
+  });
+
+  const triggered: string[] = [];
+  coordinator.activate({
+    onUndoTriggered: () => triggered.push('undo'),
+    onRedoTriggered: () => triggered.push('redo')
+  });
+  return { script, triggered };
+}
+
+describe('InputCoordinator', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Three finger gestures', () => {
+    const at = new Vec2(400, 300);
+
+    it('should undo on a hold', () => {
+      const { script, triggered } = setup();
+      script.threeFingers(at, new Vec2(2, 1), 600);
+      expect(triggered).toEqual(['undo']);
+    });
+
+    it('should redo on a swipe to the right', () => {
+      const { script, triggered } = setup();
+      script.threeFingers(at, new Vec2(150, 20), 200);
+      expect(triggered).toEqual(['redo']);
+    });
+
+    it('should undo on swipes in other directions', () => {
+      const { script, triggered } = setup();
+      script.threeFingers(at, new Vec2(-150, 0), 200);
+      script.threeFingers(at, new Vec2(0, 150), 200, 5000);
+      expect(triggered).toEqual(['undo', 'undo']);
+    });
+
+    it('should treat a slow drag as a hold', () => {
+      const { script, triggered } = setup();
+      // 60 pixels over two seconds is below the swipe velocity
+      script.threeFingers(at, new Vec2(60, 0), 2000);
+      expect(triggered).toEqual(['undo']);
+    });
+
+    it('should fall back to undo when redo is disabled', () => {
+      const { script, triggered } = setup({ enableRedoGesture: false });
+      script.threeFingers(at, new Vec2(150, 0), 200);
+      expect(triggered).toEqual(['undo']);
+    });
+  });
+});
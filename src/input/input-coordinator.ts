@@ -1,7 +1,9 @@
-import { Vec2 } from '../core/math/vec2.js';
 import { TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { GestureUtils } from './gesture-recognizer.js';
 import { PointerEventManager, PointerEventData, PointerEventHandlers } from './pointer-events.js';
-import { TouchStateManager, TouchMode, TouchStateEventHandlers, AnyTouchGesture } from './touch-state.js';
+import { TouchStateManager, TouchMode, TouchStateEventHandlers, AnyTouchGesture, UndoGesture } from './touch-state.js';
 
 /**
  * Input Event Coordinator - Central hub for all input processing in Zotebook.
@@ -26,6 +28,7 @@ export interface InputEventHandlers {
   
   // Utility events
   onUndoTriggered?: (position: Vec2, gesture: AnyTouchGesture) => void;
+  onRedoTriggered?: (position: Vec2, gesture: AnyTouchGesture) => void;
   
   // Mode change events
   onInputModeChanged?: (previousMode: TouchMode, currentMode: TouchMode) => void;
@@ -48,6 +51,7 @@ export interface InputCoordinatorOptions {
   readonly enablePerformanceMonitoring?: boolean;
   readonly maxEventsPerSecond?: number;  // Performance throttling
   readonly enableDebugVisualization?: boolean;
+  readonly enableRedoGesture?: boolean;  // Three finger swipe to the right redoes instead of undoing
 }
 
 /**
@@ -79,12 +83,15 @@ export class InputCoordinator {
   private readonly enableDebugVisualization: boolean;
   private debugOverlay?: HTMLElement;
   
+  private readonly enableRedoGesture: boolean;
+  
   constructor(options: InputCoordinatorOptions) {
     this.element = options.element;
     this.transformContext = options.transformContext;
     this.enablePerformanceMonitoring = options.enablePerformanceMonitoring ?? false;
     this.maxEventsPerSecond = options.maxEventsPerSecond ?? 240; // 240 FPS max
     this.enableDebugVisualization = options.enableDebugVisualization ?? false;
+    this.enableRedoGesture = options.enableRedoGesture ?? true;
     
     // Initialize sub-systems
     this.pointerManager = new PointerEventManager(this.element, this.transformContext);
@@ -349,11 +356,21 @@ export class InputCoordinator {
         }
         break;
         
-      case TouchMode.UNDO:
-        if (this.handlers.onUndoTriggered) {
+      case TouchMode.UNDO: {
+        // A three finger swipe to the right redoes, anything else undoes
+        const undoGesture = gesture as UndoGesture;
+        const isRedo = this.enableRedoGesture && undoGesture.data !== undefined &&
+          GestureUtils.isRedoSwipe(undoGesture.data.centroidDelta, gesture.duration);
+        
+        if (isRedo) {
+          if (this.handlers.onRedoTriggered) {
+            this.handlers.onRedoTriggered(gesture.centroid, gesture);
+          }
+        } else if (this.handlers.onUndoTriggered) {
           this.handlers.onUndoTriggered(gesture.centroid, gesture);
         }
         break;
+      }
     }
   }
 
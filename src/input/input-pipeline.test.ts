@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import { AddSegmentCommand, CommandHistory } from '../core/document/command-history.js';
+import { DrawingModel } from '../core/document/drawing-model.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Pt } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { PointerScript } from '../test/pointer-script.js';
+
+import { InputPipeline } from './input-pipeline.js';
+
+describe('InputPipeline', () => {
+  const at = new Vec2(400, 300);
+  const hold = new Vec2(0, 0);
+  const swipeRight = new Vec2(150, 0);
+
+  function setup(): { script: PointerScript; pipeline: InputPipeline; model: DrawingModel; history: CommandHistory } {
+    const transformContext = Pt.createTransformContext(new Vec2(800, 600), Vec2.ZERO, 1, 1);
+    const script = new PointerScript(transformContext);
+    const model = new DrawingModel();
+    const history = new CommandHistory();
+    history.execute(new AddSegmentCommand(model, new LineSegment(new Vec2(0, 0), new Vec2(10, 0), 'a')));
+
+    const pipeline = new InputPipeline({
+      element: globalThis.document.createElement('div'),
+      transformContext,
+      maxEventsPerSecond: Number.POSITIVE_INFINITY,
+      commandHistory: history
+    });
+    return { script, pipeline, model, history };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should step the command history with the undo and redo gestures', () => {
+    const { script, pipeline, model } = setup();
+    const requests: string[] = [];
+    pipeline.activate({
+      onUndoRequested: () => requests.push('undo'),
+      onRedoRequested: () => requests.push('redo')
+    });
+
+    script.threeFingers(at, hold, 600);
+    expect(model.has('a')).toBe(false);
+
+    script.threeFingers(at, swipeRight, 200, 5000);
+    expect(model.has('a')).toBe(true);
+    expect(requests).toEqual(['undo', 'redo']);
+    pipeline.deactivate();
+  });
+
+  it('should report instead of throwing while a transaction is open', () => {
+    const { script, pipeline, model, history } = setup();
+    const errors: Error[] = [];
+    pipeline.activate({ onError: error => errors.push(error) });
+    vi.spyOn(globalThis.console, 'error').mockImplementation(() => undefined);
+
+    history.beginTransaction('drag');
+    expect(() => script.threeFingers(at, hold, 600)).not.toThrow();
+    expect(() => script.threeFingers(at, swipeRight, 200, 5000)).not.toThrow();
+
+    expect(errors.map(error => error.message)).toEqual([
+      'Cannot undo while a transaction is open',
+      'Cannot redo while a transaction is open'
+    ]);
+    expect(model.has('a')).toBe(true);
+    pipeline.deactivate();
+  });
+});
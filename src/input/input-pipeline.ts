@@ -1,10 +1,12 @@
-import { Vec2 } from '../core/math/vec2.js';
-import { Pt, TransformContext } from '../core/math/pt.js';
+import { CommandHistory } from '../core/document/command-history.js';
 import { Segment } from '../core/geometry/segment.js';
+import { Pt, TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { GestureRecognizer, RecognizedGesture, GestureType } from './gesture-recognizer.js';
 import { InputCoordinator, InputEventHandlers, InputCoordinatorOptions } from './input-coordinator.js';
 import { StrokeProcessor, ProcessedStroke, StrokePoint } from './stroke-processor.js';
 import { StrokeToGeometryConverter, GeometryFitResult } from './stroke-to-geometry.js';
-import { GestureRecognizer, RecognizedGesture, GestureType } from './gesture-recognizer.js';
 import { TouchMode, AnyTouchGesture, DrawingGesture } from './touch-state.js';
 
 /**
@@ -23,6 +25,7 @@ export interface InputPipelineEvents {
   // Navigation events
   onViewportChanged?: (transform: { pan: Vec2; zoom: number; rotation: number }) => void;
   onUndoRequested?: (position: Vec2) => void;
+  onRedoRequested?: (position: Vec2) => void;
   
   // Interaction events
   onSelectionStarted?: (position: Vec2) => void;
@@ -41,9 +44,10 @@ export interface InputPipelineOptions extends InputCoordinatorOptions {
   readonly strokeProcessingDelay?: number;     // Delay before processing stroke (ms)
   readonly previewUpdateInterval?: number;     // How often to update preview (ms)
   readonly enableUndoGesture?: boolean;        // Enable 3-finger undo gesture
+  readonly commandHistory?: CommandHistory;    // History driven by the undo/redo gestures
 }
 
-const DEFAULT_PIPELINE_OPTIONS: Required<Omit<InputPipelineOptions, keyof InputCoordinatorOptions>> = {
+const DEFAULT_PIPELINE_OPTIONS: Required<Omit<InputPipelineOptions, keyof InputCoordinatorOptions | 'commandHistory'>> = {
   enableRealTimePreview: true,
   enableGestureRecognition: true,
   strokeProcessingDelay: 100,
@@ -192,6 +196,10 @@ export class InputPipeline {
         this.handleUndoTriggered(position, gesture);
       },
       
+      onRedoTriggered: (position) => {
+        this.handleRedoTriggered(position);
+      },
+      
       // Mode changes
       onInputModeChanged: (previousMode, currentMode) => {
         this.handleInputModeChanged(previousMode, currentMode);
@@ -339,11 +347,47 @@ export class InputPipeline {
    * Handle undo gesture
    */
   private handleUndoTriggered(position: Vec2, gesture: AnyTouchGesture): void {
+    if (!this.options.enableUndoGesture) return;
+    
+    this.stepHistory('undo');
+    
     if (this.handlers.onUndoRequested) {
       this.handlers.onUndoRequested(position);
     }
   }
 
+  /**
+   * Handle redo gesture
+   */
+  private handleRedoTriggered(position: Vec2): void {
+    this.stepHistory('redo');
+    
+    if (this.handlers.onRedoRequested) {
+      this.handlers.onRedoRequested(position);
+    }
+  }
+
+  /**
+   * Undo or redo on the command history. Gestures arrive from pointer event
+   * handlers, so failures are reported instead of thrown.
+   */
+  private stepHistory(direction: 'undo' | 'redo'): void {
+    const history = this.options.commandHistory;
+    if (!history) return;
+    
+    if (history.isInTransaction) {
+      this.handleError(new Error(`Cannot ${direction} while a transaction is open`), direction);
+      return;
+    }
+    
+    try {
+      if (direction === 'undo') history.undo();
+      else history.redo();
+    } catch (error) {
+      this.handleError(error as Error, direction);
+    }
+  }
+
   /**
    * Handle input mode changes
    */
@@ -371,7 +371,7 @@ export namespace PointerUtils {
   /**
    * Calculate the centroid of multiple pointers (useful for multi-touch gestures)
    */
-  export function calculateCentroid(pointers: PointerState[]): Vec2 {
+  export function calculateCentroid(pointers: ReadonlyArray<PointerState>): Vec2 {
     if (pointers.length === 0) return Vec2.ZERO;
     
     let sum = Vec2.ZERO;
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../core/math/vec2.js';
+
+import { SplineFitter, SplineFitterUtils } from './spline-fitter.js';
+
+// Points every few pixels along y = amplitude · sin(x / wavelength · 2π)
+function sineStroke(length: number, amplitude: number, wavelength: number, spacing: number = 3): Vec2[] {
+  const points: Vec2[] = [];
+  for (let x = 0; x <= length; x += spacing) {
+    points.push(new Vec2(x, amplitude * Math.sin(x / wavelength * Math.PI * 2)));
+  }
+  return points;
+}
+
+describe('SplineFitter', () => {
+  it('should fit a gentle curve with a single piece', () => {
+    const points = sineStroke(60, 8, 120);
+    const result = new SplineFitter().fit(points, 'curve');
+
+    expect(result?.spline.id).toBe('curve');
+    expect(result?.spline.pieceCount).toBe(1);
+    expect(result?.spline.startPoint.isEqual(points[0] as Vec2)).toBe(true);
+    expect(result?.spline.endPoint.isEqual(points[points.length - 1] as Vec2)).toBe(true);
+    expect(result?.maxError).toBeLessThanOrEqual(4);
+  });
+
+  it('should split an S-curve into several pieces within tolerance', () => {
+    const points = sineStroke(240, 40, 120);
+    const result = new SplineFitter({ tolerance: 1 }).fit(points);
+
+    expect(result?.spline.pieceCount).toBeGreaterThan(1);
+    expect(result?.maxError).toBeLessThanOrEqual(1);
+    for (const point of points) {
+      expect(result?.spline.distanceToPoint(point)).toBeLessThan(1);
+    }
+  });
+
+  it('should join pieces smoothly', () => {
+    const result = new SplineFitter({ tolerance: 1 }).fit(sineStroke(240, 40, 120));
+    const spline = result?.spline;
+    const n = spline?.pieceCount ?? 0;
+
+    for (let i = 1; i < n; i++) {
+      const before = spline?.piece(i - 1)[2] as Vec2;
+      const joint = spline?.piece(i)[0] as Vec2;
+      const after = spline?.piece(i)[1] as Vec2;
+      expect(joint.subtract(before).normalized.isEqual(after.subtract(joint).normalized, 1e-9)).toBe(true);
+    }
+  });
+
+  it('should give up when too many pieces are needed', () => {
+    const jagged = Array.from({ length: 60 }, (_, i) => new Vec2(i * 4, i % 2 === 0 ? 0 : 30));
+
+    expect(new SplineFitter({ tolerance: 0.5, maxPieces: 3 }).fit(jagged)).toBeNull();
+  });
+
+  it('should reject degenerate input', () => {
+    const fitter = new SplineFitter();
+
+    expect(fitter.fit([new Vec2(1, 1)])).toBeNull();
+    expect(fitter.fit([new Vec2(1, 1), new Vec2(1, 1)])).toBeNull();
+  });
+});
+
+describe('SplineFitterUtils', () => {
+  it('should parameterize by chord length', () => {
+    const points = [new Vec2(0, 0), new Vec2(1, 0), new Vec2(4, 0)];
+
+    expect(SplineFitterUtils.chordLengthParameters(points, 0, 2)).toEqual([0, 0.25, 1]);
+  });
+
+  it('should recover a cubic from its own samples', () => {
+    const piece = [new Vec2(0, 0), new Vec2(10, 20), new Vec2(30, 20), new Vec2(40, 0)] as const;
+    const parameters = Array.from({ length: 11 }, (_, i) => i / 10);
+    const points = parameters.map(u => {
+      const v = 1 - u;
+      return piece[0].multiply(v * v * v).add(piece[1].multiply(3 * v * v * u))
+        .add(piece[2].multiply(3 * v * u * u)).add(piece[3].multiply(u * u * u));
+    });
+    const fitted = SplineFitterUtils.generateBezier(
+      points, 0, 10, parameters, new Vec2(1, 2).normalized, new Vec2(-1, 2).normalized
+    );
+
+    expect(fitted[1].isEqual(piece[1], 1e-9)).toBe(true);
+    expect(fitted[2].isEqual(piece[2], 1e-9)).toBe(true);
+  });
+});
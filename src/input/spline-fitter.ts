@@ -0,0 +1,266 @@
+import { SplineSegment, SplineSegmentUtils } from '../core/geometry/spline-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+/**
+ * Cubic Bézier spline fitting for strokes that are neither lines nor arcs.
+ * Implements Schneider's algorithm ("An Algorithm for Automatically Fitting
+ * Digitized Curves", Graphics Gems 1990): fit one cubic by least squares with
+ * fixed end tangents, improve the parameterization with Newton steps, and split
+ * at the worst point when the curve is still too far from the stroke.
+ */
+
+export interface SplineFitOptions {
+  readonly tolerance: number;      // Maximum distance from a stroke point to the curve (pixels)
+  readonly maxIterations: number;  // Reparameterization passes per piece
+  readonly maxPieces: number;      // Give up when more pieces would be needed
+}
+
+const DEFAULT_SPLINE_FIT_OPTIONS: SplineFitOptions = {
+  tolerance: 4.0,
+  maxIterations: 8,
+  maxPieces: 8
+};
+
+export interface SplineFitResult {
+  readonly spline: SplineSegment;
+  readonly error: number;     // RMS distance of the points to their curve pieces
+  readonly maxError: number;
+  readonly iterations: number;
+}
+
+interface PieceFit {
+  readonly piece: SplineSegmentUtils.BezierPiece;
+  readonly errors: number[];
+}
+
+/**
+ * Fits piecewise cubic Bézier splines to point sequences.
+ */
+export class SplineFitter {
+  private options: SplineFitOptions;
+  private iterations = 0;
+
+  constructor(options: Partial<SplineFitOptions> = {}) {
+    this.options = { ...DEFAULT_SPLINE_FIT_OPTIONS, ...options };
+  }
+
+  /**
+   * Fit a spline through `points` (at least two). Returns null when the points
+   * are degenerate or need more than `maxPieces` pieces.
+   */
+  fit(points: ReadonlyArray<Vec2>, id?: string): SplineFitResult | null {
+    const unique = points.filter((p, i) => i === 0 || !p.isEqual(points[i - 1] ?? Vec2.ZERO, 1e-9));
+    if (unique.length < 2) return null;
+
+    const last = unique.length - 1;
+    const startTangent = SplineFitterUtils.endTangent(unique, 0, 1);
+    const endTangent = SplineFitterUtils.endTangent(unique, last, -1);
+    if (!startTangent || !endTangent) return null;
+
+    this.iterations = 0;
+    const pieces: PieceFit[] = [];
+    if (!this.fitCubic(unique, 0, last, startTangent, endTangent, pieces)) return null;
+
+    const controlPoints: Vec2[] = [pieces[0]?.piece[0] ?? Vec2.ZERO];
+    const errors: number[] = [];
+    for (const { piece, errors: pieceErrors } of pieces) {
+      controlPoints.push(piece[1], piece[2], piece[3]);
+      errors.push(...pieceErrors);
+    }
+
+    return {
+      spline: new SplineSegment(controlPoints, id),
+      error: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length),
+      maxError: Math.max(...errors),
+      iterations: this.iterations
+    };
+  }
+
+  /**
+   * Update spline fitting options
+   */
+  updateOptions(newOptions: Partial<SplineFitOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private fitCubic(
+    points: ReadonlyArray<Vec2>,
+    first: number,
+    last: number,
+    startTangent: Vec2,
+    endTangent: Vec2,
+    pieces: PieceFit[]
+  ): boolean {
+    if (pieces.length >= this.options.maxPieces) return false;
+
+    const p0 = points[first] ?? Vec2.ZERO;
+    const p1 = points[last] ?? Vec2.ZERO;
+
+    // Two points: straight piece with control points a third of the way along
+    if (last - first === 1) {
+      const third = p0.distanceTo(p1) / 3;
+      const piece = [p0, p0.add(startTangent.multiply(third)), p1.add(endTangent.multiply(third)), p1] as const;
+      pieces.push({ piece, errors: [0, 0] });
+      return true;
+    }
+
+    const tolerance = this.options.tolerance;
+    let parameters = SplineFitterUtils.chordLengthParameters(points, first, last);
+    let piece = SplineFitterUtils.generateBezier(points, first, last, parameters, startTangent, endTangent);
+    let fit = SplineFitterUtils.maxError(points, first, last, piece, parameters);
+
+    // Close enough that a better parameterization may be all that is needed
+    if (fit.maxError > tolerance && fit.maxError < tolerance * 4) {
+      for (let i = 0; i < this.options.maxIterations && fit.maxError > tolerance; i++) {
+        this.iterations++;
+        parameters = SplineFitterUtils.reparameterize(points, first, parameters, piece);
+        piece = SplineFitterUtils.generateBezier(points, first, last, parameters, startTangent, endTangent);
+        fit = SplineFitterUtils.maxError(points, first, last, piece, parameters);
+      }
+    }
+
+    if (fit.maxError <= tolerance) {
+      pieces.push({ piece, errors: fit.errors });
+      return true;
+    }
+
+    const split = fit.splitIndex;
+    const centerTangent = SplineFitterUtils.centerTangent(points, split);
+    return this.fitCubic(points, first, split, startTangent, centerTangent, pieces) &&
+      this.fitCubic(points, split, last, centerTangent.negate(), endTangent, pieces);
+  }
+}
+
+/**
+ * Building blocks of the spline fitter
+ */
+export namespace SplineFitterUtils {
+  /**
+   * Unit tangent at an end of the point list, pointing into the curve.
+   * Averages over a few neighbours to reduce the effect of jitter.
+   */
+  export function endTangent(points: ReadonlyArray<Vec2>, index: number, step: 1 | -1): Vec2 | null {
+    const origin = points[index] ?? Vec2.ZERO;
+    let direction = Vec2.ZERO;
+    for (let k = 1; k <= 3; k++) {
+      const neighbor = points[index + step * k];
+      if (!neighbor) break;
+      direction = direction.add(neighbor.subtract(origin).normalized);
+    }
+    return direction.isZero(1e-12) ? null : direction.normalized;
+  }
+
+  /**
+   * Unit tangent at an interior split point, pointing towards the earlier points
+   */
+  export function centerTangent(points: ReadonlyArray<Vec2>, index: number): Vec2 {
+    const before = points[index - 1] ?? Vec2.ZERO;
+    const after = points[index + 1] ?? Vec2.ZERO;
+    const direction = before.subtract(after);
+    return direction.isZero(1e-12) ? (points[index] ?? Vec2.ZERO).subtract(after).normalized : direction.normalized;
+  }
+
+  /**
+   * Parameters in [0, 1] proportional to cumulative chord length
+   */
+  export function chordLengthParameters(points: ReadonlyArray<Vec2>, first: number, last: number): number[] {
+    const parameters = [0];
+    for (let i = first + 1; i <= last; i++) {
+      const previous = parameters[parameters.length - 1] ?? 0;
+      parameters.push(previous + (points[i] ?? Vec2.ZERO).distanceTo(points[i - 1] ?? Vec2.ZERO));
+    }
+    const total = parameters[parameters.length - 1] ?? 0;
+    return total > 0 ? parameters.map(u => u / total) : parameters;
+  }
+
+  /**
+   * Least-squares cubic with fixed end points and tangent directions; only the
+   * distances of the inner control points along the tangents are solved for
+   */
+  export function generateBezier(
+    points: ReadonlyArray<Vec2>,
+    first: number,
+    last: number,
+    parameters: ReadonlyArray<number>,
+    startTangent: Vec2,
+    endTangent: Vec2
+  ): SplineSegmentUtils.BezierPiece {
+    const p0 = points[first] ?? Vec2.ZERO;
+    const p1 = points[last] ?? Vec2.ZERO;
+
+    let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+    parameters.forEach((u, i) => {
+      const v = 1 - u;
+      const b0 = v * v * v;
+      const b1 = 3 * u * v * v;
+      const b2 = 3 * u * u * v;
+      const b3 = u * u * u;
+      const a0 = startTangent.multiply(b1);
+      const a1 = endTangent.multiply(b2);
+      const residual = (points[first + i] ?? Vec2.ZERO).subtract(p0.multiply(b0 + b1)).subtract(p1.multiply(b2 + b3));
+
+      c00 += a0.dot(a0);
+      c01 += a0.dot(a1);
+      c11 += a1.dot(a1);
+      x0 += a0.dot(residual);
+      x1 += a1.dot(residual);
+    });
+
+    const chord = p0.distanceTo(p1);
+    const det = c00 * c11 - c01 * c01;
+    let alpha0 = det !== 0 ? (x0 * c11 - x1 * c01) / det : 0;
+    let alpha1 = det !== 0 ? (c00 * x1 - c01 * x0) / det : 0;
+
+    // Degenerate or backwards solutions: fall back to Wu/Barsky's heuristic
+    const epsilon = 1e-6 * chord;
+    if (alpha0 < epsilon || alpha1 < epsilon) {
+      alpha0 = alpha1 = chord / 3;
+    }
+
+    return [p0, p0.add(startTangent.multiply(alpha0)), p1.add(endTangent.multiply(alpha1)), p1];
+  }
+
+  /**
+   * Largest distance between a point and the curve at its parameter, and the
+   * interior index where it occurs
+   */
+  export function maxError(
+    points: ReadonlyArray<Vec2>,
+    first: number,
+    last: number,
+    piece: SplineSegmentUtils.BezierPiece,
+    parameters: ReadonlyArray<number>
+  ): { maxError: number; splitIndex: number; errors: number[] } {
+    let maxError = 0;
+    let splitIndex = Math.floor((first + last) / 2);
+    const errors = parameters.map((u, i) => {
+      const error = SplineSegmentUtils.bezierPoint(piece, u).distanceTo(points[first + i] ?? Vec2.ZERO);
+      const index = first + i;
+      if (error > maxError && index > first && index < last) {
+        maxError = error;
+        splitIndex = index;
+      }
+      return error;
+    });
+    return { maxError: Math.max(maxError, ...errors), splitIndex, errors };
+  }
+
+  /**
+   * One Newton-Raphson step per point towards the closest curve parameter
+   */
+  export function reparameterize(
+    points: ReadonlyArray<Vec2>,
+    first: number,
+    parameters: ReadonlyArray<number>,
+    piece: SplineSegmentUtils.BezierPiece
+  ): number[] {
+    return parameters.map((u, i) => {
+      const offset = SplineSegmentUtils.bezierPoint(piece, u).subtract(points[first + i] ?? Vec2.ZERO);
+      const d1 = SplineSegmentUtils.bezierDerivative(piece, u);
+      const d2 = SplineSegmentUtils.bezierSecondDerivative(piece, u);
+      const denominator = d1.dot(d1) + offset.dot(d2);
+      if (Math.abs(denominator) < 1e-12) return u;
+      return Math.max(0, Math.min(1, u - offset.dot(d1) / denominator));
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+
+import { Vec2 } from '../core/math/vec2.js';
+import { drawStroke } from '../test/draw-stroke.js';
+
+import { ProcessedStroke, StrokePoint } from './stroke-processor.js';
+
+// Pointer samples every 2px, with real-time smoothing off
+const draw = (vertices: ReadonlyArray<Vec2>): ProcessedStroke =>
+  drawStroke(vertices, { spacing: 2, processing: { enableRealTimeSmoothing: false } });
+
+describe('StrokeProcessor', () => {
+  describe('Corner detection', () => {
+    it('should find no corners on a straight stroke', () => {
+      const stroke = draw([new Vec2(0, 0), new Vec2(120, 0)]);
+
+      expect(stroke.cornerIndices).toEqual([]);
+    });
+
+    it('should find one corner at a right-angle bend', () => {
+      const stroke = draw([new Vec2(0, 0), new Vec2(60, 0), new Vec2(60, 60)]);
+
+      expect(stroke.cornerIndices).toHaveLength(1);
+      const corner = stroke.resampledPoints[stroke.cornerIndices[0] as number] as StrokePoint;
+      expect(corner.position.distanceTo(new Vec2(60, 0))).toBeLessThan(6);
+    });
+
+    it('should find each corner of a zig-zag once', () => {
+      const stroke = draw([new Vec2(0, 0), new Vec2(40, 60), new Vec2(80, 0), new Vec2(120, 60)]);
+
+      expect(stroke.cornerIndices).toHaveLength(2);
+    });
+  });
+});
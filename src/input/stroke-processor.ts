@@ -392,14 +392,25 @@ export class StrokeProcessor {
     const corners: number[] = [];
     const minAngle = this.options.minCornerAngle;
     const windowSize = 3;
+    let runBest = -1;
+    let runAngle = 0;
     
+    // `angle` is the turn at each point; a sharp turn marks a run of neighbouring
+    // points, of which only the sharpest becomes the corner
     for (let i = windowSize; i < points.length - windowSize; i++) {
       const angle = this.calculateAngleAtPoint(points, i, windowSize);
       
-      if (angle < minAngle) {
-        corners.push(i);
+      if (angle > minAngle) {
+        if (runBest < 0 || angle > runAngle) {
+          runBest = i;
+          runAngle = angle;
+        }
+      } else if (runBest >= 0) {
+        corners.push(runBest);
+        runBest = -1;
       }
     }
+    if (runBest >= 0) corners.push(runBest);
     
     return corners;
   }
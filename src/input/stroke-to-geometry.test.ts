@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+
+import { EllipseSegment } from '../core/geometry/ellipse-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { drawStroke } from '../test/draw-stroke.js';
+
+import { GeometryType, StrokeToGeometryConverter } from './stroke-to-geometry.js';
+
+// Vertices along an ellipse from `from` to `to` radians, every 0.05 radians
+function ellipse(center: Vec2, radiusX: number, radiusY: number, rotation: number, from: number, to: number): Vec2[] {
+  const count = Math.ceil(Math.abs(to - from) / 0.05);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / count;
+    const local = new Vec2(radiusX * Math.cos(angle), radiusY * Math.sin(angle));
+    return center.add(local.rotateBy(rotation));
+  });
+}
+
+describe('StrokeToGeometryConverter', () => {
+  const converter = new StrokeToGeometryConverter();
+  const types = (vertices: Vec2[]): GeometryType[] => converter.convertStroke(drawStroke(vertices)).map(result => result.type);
+  const center = new Vec2(300, 200);
+
+  describe('Ellipses', () => {
+    it('should fit a closed ellipse', () => {
+      const results = converter.convertStroke(drawStroke(ellipse(center, 120, 60, 0, 0, Math.PI * 2)));
+      const segment = results[0]?.segment as EllipseSegment;
+
+      expect(results.map(result => result.type)).toEqual([GeometryType.ELLIPSE]);
+      expect(segment.isClosed).toBe(true);
+      expect(segment.center.distanceTo(center)).toBeLessThan(1);
+      expect(Math.max(segment.radiusX, segment.radiusY)).toBeCloseTo(120, 0);
+      expect(Math.min(segment.radiusX, segment.radiusY)).toBeCloseTo(60, 0);
+    });
+
+    it('should fit a rotated ellipse', () => {
+      expect(types(ellipse(center, 120, 60, Math.PI / 6, 0, Math.PI * 2))).toEqual([GeometryType.ELLIPSE]);
+    });
+
+    it('should fit part of an ellipse as an elliptical arc', () => {
+      const results = converter.convertStroke(drawStroke(ellipse(center, 120, 60, 0.3, 0, Math.PI * 1.2)));
+
+      expect(results.map(result => result.type)).toEqual([GeometryType.ELLIPSE]);
+      expect(results[0]?.segment.isClosed).toBe(false);
+    });
+
+    it('should leave round strokes to circles and arcs', () => {
+      expect(types(ellipse(center, 80, 80, 0, 0, Math.PI * 2))).toEqual([GeometryType.CIRCLE]);
+      expect(types(ellipse(center, 80, 80, 0, 0, Math.PI * 0.8))).toEqual([GeometryType.ARC]);
+    });
+  });
+
+  describe('Spline fallback', () => {
+    // One full sine period: no line, arc or circle comes close
+    const sCurve = Array.from({ length: 81 }, (_, i) => new Vec2(100 + i * 3, 200 + 60 * Math.sin((i / 80) * Math.PI * 2)));
+
+    it('should fit an S-curve with a spline', () => {
+      const results = converter.convertStroke(drawStroke(sCurve));
+
+      expect(results.map(result => result.type)).toEqual([GeometryType.SPLINE]);
+      expect(results[0]?.segment.startPoint.distanceTo(sCurve[0] ?? Vec2.ZERO)).toBeLessThan(4);
+    });
+
+    it('should keep lines and arcs as primitives', () => {
+      expect(types([new Vec2(100, 100), new Vec2(300, 150)])).toEqual([GeometryType.LINE]);
+      expect(types(ellipse(center, 80, 80, 0, 0, Math.PI * 0.8))).toEqual([GeometryType.ARC]);
+    });
+
+    it('should not fall back when spline generation is off', () => {
+      const primitivesOnly = new StrokeToGeometryConverter({ enableSplineGeneration: false });
+      const results = primitivesOnly.convertStroke(drawStroke(sCurve));
+
+      expect(results.every(result => result.type !== GeometryType.SPLINE)).toBe(true);
+    });
+  });
+});
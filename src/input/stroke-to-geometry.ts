@@ -1,9 +1,12 @@
 import { Vec2 } from '../core/math/vec2.js';
 import { LineSegment } from '../core/geometry/line-segment.js';
 import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { EllipseSegment } from '../core/geometry/ellipse-segment.js';
 import { Segment } from '../core/geometry/segment.js';
 import { ProcessedStroke, StrokePoint } from './stroke-processor.js';
 import { CornerDetector, CornerDetectionResult } from './corner-detector.js';
+import { EllipseFitter } from './ellipse-fitter.js';
+import { SplineFitter } from './spline-fitter.js';
 
 /**
  * Stroke-to-geometry conversion system for Zotebook.
@@ -15,6 +18,7 @@ export enum GeometryType {
   LINE = 'line',
   ARC = 'arc',
   CIRCLE = 'circle',
+  ELLIPSE = 'ellipse',
   SPLINE = 'spline',
   UNKNOWN = 'unknown'
 }
@@ -36,8 +40,11 @@ export interface ConversionOptions {
   readonly lineThreshold: number;        // Maximum error for line fitting (pixels)
   readonly arcThreshold: number;         // Maximum error for arc fitting (pixels)
   readonly circleThreshold: number;      // Maximum error for circle fitting (pixels)
+  readonly ellipseThreshold: number;     // Maximum error for ellipse fitting (pixels)
+  readonly splineThreshold: number;      // Maximum distance from stroke to spline (pixels)
   readonly minSegmentLength: number;     // Minimum segment length (pixels)
   readonly enableCircleDetection: boolean;
+  readonly enableEllipseDetection: boolean;
   readonly enableSplineGeneration: boolean;
   readonly maxFittingIterations: number;
   readonly confidenceThreshold: number;  // Minimum confidence to accept fit
@@ -47,9 +54,12 @@ const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
   lineThreshold: 3.0,
   arcThreshold: 5.0,
   circleThreshold: 8.0,
+  ellipseThreshold: 5.0,
+  splineThreshold: 4.0,
   minSegmentLength: 20.0,
   enableCircleDetection: true,
-  enableSplineGeneration: false, // Not implemented yet
+  enableEllipseDetection: true,
+  enableSplineGeneration: true,
   maxFittingIterations: 50,
   confidenceThreshold: 0.6
 };
@@ -60,10 +70,15 @@ const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
 export class StrokeToGeometryConverter {
   private options: ConversionOptions;
   private cornerDetector: CornerDetector;
+  private splineFitter: SplineFitter;
 
   constructor(options: Partial<ConversionOptions> = {}) {
     this.options = { ...DEFAULT_CONVERSION_OPTIONS, ...options };
     this.cornerDetector = new CornerDetector();
+    this.splineFitter = new SplineFitter({
+      tolerance: this.options.splineThreshold,
+      maxIterations: this.options.maxFittingIterations
+    });
   }
 
   /**
@@ -141,6 +156,18 @@ export class StrokeToGeometryConverter {
       if (arcFit) fittingResults.push(arcFit);
     }
     
+    // 4. Try ellipse fitting, which competes with circles and arcs
+    if (this.options.enableEllipseDetection && points.length >= 6) {
+      const ellipseFit = this.fitEllipse(points);
+      if (ellipseFit) fittingResults.push(ellipseFit);
+    }
+    
+    // 5. Fall back to a spline when no primitive fits within its threshold
+    if (this.options.enableSplineGeneration && points.length >= 4 && !this.hasAcceptableFit(fittingResults)) {
+      const splineFit = this.fitSpline(points);
+      if (splineFit) fittingResults.push(splineFit);
+    }
+    
     // Choose the best fit based on confidence and error
     if (fittingResults.length === 0) return null;
     
@@ -293,6 +320,103 @@ export class StrokeToGeometryConverter {
     };
   }
 
+  /**
+   * Fit an ellipse or elliptical arc to the given points using the direct
+   * least-squares conic fit
+   */
+  private fitEllipse(points: Vec2[]): GeometryFitResult | null {
+    const fit = EllipseFitter.fitDirect(points);
+    if (!fit) return null;
+    
+    // Nearly flat fits are better described by lines or splines; nearly round
+    // ones are left to lose to circles and arcs on their complexity penalty
+    const ratio = Math.min(fit.radiusX, fit.radiusY) / Math.max(fit.radiusX, fit.radiusY);
+    if (ratio < 0.05) return null;
+    
+    const closureDistance = (points[0] as Vec2).distanceTo(points[points.length - 1] as Vec2);
+    const averageSpacing = this.calculateAverageSpacing(points);
+    const closed = closureDistance <= averageSpacing * 3;
+    const segment = EllipseFitter.toSegment(fit, points, closed);
+    
+    // Calculate error
+    const error = this.calculateEllipseError(points, segment);
+    
+    // Calculate confidence
+    let confidence = 1.0;
+    if (error > this.options.ellipseThreshold) {
+      confidence = Math.max(0, 1 - (error - this.options.ellipseThreshold) / this.options.ellipseThreshold);
+    }
+    
+    // Short arcs pin down the ellipse poorly; favor strokes that cover more of it
+    const coverage = Math.min(1, Math.abs(segment.sweepAngle) / Math.PI);
+    confidence *= 0.5 + 0.5 * coverage;
+    
+    // Closed ellipses are judged on closure like circles
+    if (closed) {
+      confidence *= 1 - Math.min(1, closureDistance / (averageSpacing * 3)) * 0.5;
+    }
+    
+    return {
+      segment,
+      type: GeometryType.ELLIPSE,
+      confidence,
+      error,
+      points,
+      metadata: {
+        method: 'direct_least_squares_ellipse',
+        parameters: {
+          radiusX: segment.radiusX,
+          radiusY: segment.radiusY,
+          rotation: segment.rotation,
+          coverage
+        }
+      }
+    };
+  }
+
+  /**
+   * Fit a piecewise cubic Bézier spline to the given points
+   */
+  private fitSpline(points: Vec2[]): GeometryFitResult | null {
+    const fit = this.splineFitter.fit(points);
+    if (!fit) return null;
+    
+    // A fit within the threshold keeps at least 0.75; every extra piece makes the
+    // curve less likely to be what was meant
+    const pieces = fit.spline.pieceCount;
+    const confidence = Math.max(0, 1 - fit.maxError / (this.options.splineThreshold * 4)) * Math.pow(0.95, pieces - 1);
+    
+    return {
+      segment: fit.spline,
+      type: GeometryType.SPLINE,
+      confidence,
+      error: fit.error,
+      points,
+      metadata: {
+        method: 'schneider_bezier',
+        iterations: fit.iterations,
+        parameters: {
+          pieces,
+          maxError: fit.maxError
+        }
+      }
+    };
+  }
+
+  /**
+   * Whether any primitive fit stays within its type's error threshold
+   */
+  private hasAcceptableFit(results: GeometryFitResult[]): boolean {
+    const thresholds: Partial<Record<GeometryType, number>> = {
+      [GeometryType.LINE]: this.options.lineThreshold,
+      [GeometryType.ARC]: this.options.arcThreshold,
+      [GeometryType.CIRCLE]: this.options.circleThreshold,
+      [GeometryType.ELLIPSE]: this.options.ellipseThreshold
+    };
+    
+    return results.some(result => result.error <= (thresholds[result.type] ?? 0));
+  }
+
   /**
    * Calculate RMS error for line fit
    */
@@ -335,6 +459,20 @@ export class StrokeToGeometryConverter {
     return Math.sqrt(sumSquaredError / points.length);
   }
 
+  /**
+   * Calculate RMS error for ellipse fit
+   */
+  private calculateEllipseError(points: Vec2[], ellipse: EllipseSegment): number {
+    let sumSquaredError = 0;
+    
+    for (const point of points) {
+      const distance = ellipse.distanceToPoint(point);
+      sumSquaredError += distance * distance;
+    }
+    
+    return Math.sqrt(sumSquaredError / points.length);
+  }
+
   /**
    * Calculate linearity score (how straight the points are)
    */
@@ -440,14 +578,14 @@ export class StrokeToGeometryConverter {
     const A = n * sumXX - sumX * sumX;
     const B = n * sumXY - sumX * sumY;
     const C = n * sumYY - sumY * sumY;
-    const D = 0.5 * (n * sumXXY - sumX * sumXY + n * sumYYY - sumY * sumYY);
-    const E = 0.5 * (n * sumXXX - sumX * sumXX + n * sumXYY - sumY * sumXY);
+    const D = 0.5 * (n * sumXXY - sumY * sumXX + n * sumYYY - sumY * sumYY);
+    const E = 0.5 * (n * sumXXX - sumX * sumXX + n * sumXYY - sumX * sumYY);
     
     const denominator = A * C - B * B;
     if (Math.abs(denominator) < 1e-10) return null;
     
-    const centerX = (D * C - B * E) / denominator;
-    const centerY = (A * E - B * D) / denominator;
+    const centerX = (E * C - B * D) / denominator;
+    const centerY = (A * D - B * E) / denominator;
     
     // Calculate radius
     let sumRadiusSquared = 0;
@@ -508,16 +646,14 @@ export class StrokeToGeometryConverter {
   }
 
   /**
-   * Check if segment is too short to process
+   * Check if segment is too short to process. Measured along the stroke, so
+   * closed strokes, whose ends meet, still count their full length.
    */
   private isSegmentTooShort(points: Vec2[]): boolean {
     if (points.length < 2) return true;
     
-    const startPoint = points[0];
-    const endPoint = points[points.length - 1];
-    const distance = startPoint.distanceTo(endPoint);
-    
-    return distance < this.options.minSegmentLength;
+    const pathLength = this.calculateAverageSpacing(points) * (points.length - 1);
+    return pathLength < this.options.minSegmentLength;
   }
 
   /**
@@ -562,6 +698,7 @@ export class StrokeToGeometryConverter {
       [GeometryType.LINE]: 0.1,
       [GeometryType.ARC]: 0.05,
       [GeometryType.CIRCLE]: 0.0,
+      [GeometryType.ELLIPSE]: -0.03,
       [GeometryType.SPLINE]: -0.05,
       [GeometryType.UNKNOWN]: -0.1
     };
@@ -591,6 +728,10 @@ export class StrokeToGeometryConverter {
    */
   updateOptions(newOptions: Partial<ConversionOptions>): void {
     this.options = { ...this.options, ...newOptions };
+    this.splineFitter.updateOptions({
+      tolerance: this.options.splineThreshold,
+      maxIterations: this.options.maxFittingIterations
+    });
   }
 }
 
@@ -647,9 +788,9 @@ export namespace StrokeToGeometryUtils {
         ctx.moveTo(line.startPoint.x, line.startPoint.y);
         ctx.lineTo(line.endPoint.x, line.endPoint.y);
         ctx.stroke();
-      } else if (result.type === GeometryType.ARC || result.type === GeometryType.CIRCLE) {
-        const arc = result.segment as ArcSegment;
-        const points = arc.samplePoints(50);
+      } else {
+        // Arcs, circles, ellipses and splines
+        const points = result.segment.samplePoints(50);
         
         ctx.beginPath();
         for (let j = 0; j < points.length; j++) {
@@ -688,6 +829,7 @@ export namespace StrokeToGeometryUtils {
       [GeometryType.LINE]: 0,
       [GeometryType.ARC]: 0,
       [GeometryType.CIRCLE]: 0,
+      [GeometryType.ELLIPSE]: 0,
       [GeometryType.SPLINE]: 0,
       [GeometryType.UNKNOWN]: 0
     };
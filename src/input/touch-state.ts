@@ -69,6 +69,8 @@ export interface UndoGesture extends TouchGesture {
   readonly data: {
     triggerPosition: Vec2;
     confirmationTime: number;
+    initialCentroid: Vec2;  // Centroid when the third finger landed
+    centroidDelta: Vec2;    // Movement of the centroid since then (swipe = redo)
   };
 }
 
@@ -491,7 +493,9 @@ export class TouchStateManager {
       type: TouchMode.UNDO,
       data: {
         triggerPosition: pointer.position,
-        confirmationTime: pointer.timestamp + this.UNDO_HOLD_TIME
+        confirmationTime: pointer.timestamp + this.UNDO_HOLD_TIME,
+        initialCentroid: base.centroid,
+        centroidDelta: Vec2.ZERO
       }
     };
   }
@@ -504,7 +508,7 @@ export class TouchStateManager {
       ...gesture,
       data: {
         ...gesture.data,
-        // Undo gesture data doesn't change during update
+        centroidDelta: gesture.centroid.subtract(gesture.data.initialCentroid)
       }
     };
   }
@@ -1,31 +1,124 @@
 // Zotebook Web - Main entry point
-console.log('Zotebook Web - Development environment ready!')
+import { Constraint, ConstraintUtils } from './core/constraints/constraint.js'
+import {
+  AddSegmentCommand,
+  Command,
+  CommandHistory,
+  RemoveSegmentCommand
+} from './core/document/command-history.js'
+import { DrawingModel } from './core/document/drawing-model.js'
+import { Pt, TransformContext } from './core/math/pt.js'
+import { Vec2 } from './core/math/vec2.js'
+import { InputPipeline } from './input/input-pipeline.js'
+import { DeferredRecognizer, DeferredUtils } from './recognition/deferred-recognizer.js'
+import { EraseRecognizer } from './recognition/erase-recognizer.js'
+import { LatchRecognizer } from './recognition/latch-recognizer.js'
+import { PenUpRecognizer } from './recognition/pen-up-recognizer.js'
+import { createRenderer } from './rendering/create-renderer.js'
 
 // Initialize the application
 const app = document.getElementById('app')
 if (app) {
-  app.innerHTML = `
-    <div style="
-      display: flex; 
-      align-items: center; 
-      justify-content: center; 
-      height: 100vh; 
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-      color: white;
-      margin: 0;
-    ">
-      <div style="text-align: center;">
-        <h1 style="margin: 0 0 1rem 0; font-size: 3rem; font-weight: 300;">
-          Zotebook Web
-        </h1>
-        <p style="margin: 0; font-size: 1.2rem; opacity: 0.9;">
-          Gesture-based CAD drawing application
-        </p>
-        <p style="margin: 1rem 0 0 0; font-size: 0.9rem; opacity: 0.7;">
-          Development environment initialized
-        </p>
-      </div>
-    </div>
-  `
-}
\ No newline at end of file
+  app.style.position = 'fixed'
+  app.style.inset = '0'
+  app.style.touchAction = 'none'
+
+  const viewportSize = (): Vec2 => new Vec2(app.clientWidth, app.clientHeight)
+  const createTransformContext = (): TransformContext =>
+    Pt.createTransformContext(viewportSize(), Vec2.ZERO, 1, window.devicePixelRatio || 1)
+
+  let transformContext = createTransformContext()
+  const drawing = new DrawingModel()
+  // Driven by the three finger undo and redo gestures
+  const history = new CommandHistory()
+  const renderer = createRenderer(app, transformContext, {
+    onFallback: (error): void => globalThis.console.warn('WebGL2 renderer unavailable, falling back to Canvas 2D:', error)
+  })
+  renderer.setDrawing(drawing)
+  renderer.resize(viewportSize(), window.devicePixelRatio || 1)
+
+  const eraseRecognizer = new EraseRecognizer()
+  const latchRecognizer = new LatchRecognizer()
+  const penUpRecognizer = new PenUpRecognizer()
+  const deferredRecognizer = new DeferredRecognizer(drawing)
+  const constraints: Constraint[] = []
+
+  const setConstraints = (next: ReadonlyArray<Constraint>): void => {
+    constraints.splice(0, constraints.length, ...next)
+    renderer.setConstraints(constraints)
+  }
+
+  // Constraint edits join the drawing edits of the same undo step
+  const constraintsCommand = (next: ReadonlyArray<Constraint>): Command => {
+    const previous = [...constraints]
+    return {
+      label: 'Update constraints',
+      execute: (): void => setConstraints(next),
+      undo: (): void => setConstraints(previous)
+    }
+  }
+
+  const constraintsWithout = (segmentIds: ReadonlyArray<string>): Constraint[] => {
+    const removed = new Set(segmentIds)
+    return constraints.filter(c => !ConstraintUtils.referencedSegmentIds(c).some(id => removed.has(id)))
+  }
+
+  // Multi-stroke shapes are regularized once the pen has been idle
+  deferredRecognizer.subscribe(event => {
+    history.transaction('Regularize shape', () => {
+      const changes = DeferredUtils.applyProposal(drawing, event.proposal, constraints, history)
+      history.execute(constraintsCommand([...constraintsWithout(changes.removedSegmentIds), ...changes.added]))
+    })
+  })
+
+  const pipeline = new InputPipeline({ element: app, transformContext, commandHistory: history })
+  pipeline.activate({
+    onStrokeProgress: stroke => renderer.setStrokePreview(stroke),
+    onStrokeCompleted: (stroke, geometry) => {
+      renderer.setStrokePreview(null)
+
+      // A scribble deletes what it covers instead of adding geometry
+      const erase = eraseRecognizer.recognize(stroke, drawing.allSegments)
+      if (erase) {
+        history.transaction('Erase', () => {
+          erase.segmentIds.forEach(id => history.execute(new RemoveSegmentCommand(drawing, id)))
+          history.execute(constraintsCommand(constraintsWithout(erase.segmentIds)))
+        })
+        return
+      }
+
+      const latched = latchRecognizer.recognize(geometry, drawing.allSegments, transformContext, stroke.id)
+      const relations = penUpRecognizer.recognize(
+        latched.results.map(result => result.segment),
+        drawing.allSegments,
+        constraints,
+        stroke.id
+      )
+      history.transaction('Draw', () => {
+        for (const result of latched.results) {
+          history.execute(new AddSegmentCommand(drawing, result.segment, {
+            strokeId: stroke.id,
+            geometryType: result.type,
+            confidence: result.confidence
+          }))
+        }
+        history.execute(constraintsCommand([
+          ...constraints,
+          ...latched.constraints,
+          ...relations.accepted.map(relation => relation.constraint)
+        ]))
+      })
+      deferredRecognizer.addStroke(stroke.id, latched.results)
+    },
+    onStrokeCancelled: () => renderer.setStrokePreview(null),
+    onSelectionChanged: area => renderer.setSelectionArea(area),
+    onSelectionCompleted: () => renderer.setSelectionArea(null)
+  })
+
+  window.addEventListener('resize', () => {
+    transformContext = createTransformContext()
+    pipeline.updateTransformContext(transformContext)
+    renderer.setTransformContext(transformContext)
+    renderer.resize(viewportSize(), window.devicePixelRatio || 1)
+  })
+}
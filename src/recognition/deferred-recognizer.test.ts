@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ConstraintType, ConstraintUtils } from '../core/constraints/constraint.js';
+import { CommandHistory } from '../core/document/command-history.js';
+import { DrawingModel } from '../core/document/drawing-model.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { fitResult } from '../test/geometry.js';
+
+import { DeferredRecognitionEvent, DeferredRecognizer, DeferredUtils } from './deferred-recognizer.js';
+import { RecognitionType } from './recognition.js';
+
+function line(id: string, x1: number, y1: number, x2: number, y2: number): LineSegment {
+  return new LineSegment(new Vec2(x1, y1), new Vec2(x2, y2), id);
+}
+
+describe('DeferredRecognizer', () => {
+  let drawing: DrawingModel;
+  let recognizer: DeferredRecognizer;
+
+  // Each segment is drawn as its own stroke, like a shape drawn side by side
+  const draw = (segments: Segment[], timestamp = 0): void => {
+    for (const segment of segments) {
+      const results = [fitResult(segment)];
+      drawing.addStrokeGeometry(`stroke-${segment.id}`, results);
+      recognizer.addStroke(`stroke-${segment.id}`, results, timestamp);
+    }
+  };
+
+  beforeEach(() => {
+    drawing = new DrawingModel();
+    recognizer = new DeferredRecognizer(drawing);
+  });
+
+  afterEach(() => {
+    recognizer.dispose();
+  });
+
+  it('should regularize a rough axis-aligned rectangle drawn in four strokes', () => {
+    draw([
+      line('bottom', 2, 1, 98, -2),
+      line('right', 101, 3, 99, 52),
+      line('top', 96, 49, 1, 51),
+      line('left', -2, 47, 1, 4)
+    ]);
+    const [proposal] = recognizer.recognize(0);
+
+    expect(proposal?.type).toBe(RecognitionType.RECTANGLE);
+    expect(proposal?.strokeIds).toHaveLength(4);
+    const [bottom, right] = proposal?.segments as LineSegment[];
+    expect(bottom?.id).toBe('bottom');
+    expect(bottom?.startPoint.y).toBeCloseTo(bottom?.endPoint.y as number);
+    expect(right?.startPoint.x).toBeCloseTo(right?.endPoint.x as number);
+    expect(bottom?.endPoint.isEqual(right?.startPoint as Vec2, 1e-9)).toBe(true);
+
+    const types = proposal?.constraints.map(c => c.type);
+    expect(types?.filter(t => t === ConstraintType.COINCIDENT)).toHaveLength(4);
+    expect(types?.filter(t => t === ConstraintType.HORIZONTAL)).toHaveLength(2);
+    expect(types?.filter(t => t === ConstraintType.VERTICAL)).toHaveLength(2);
+  });
+
+  it('should keep the orientation of a rotated rectangle', () => {
+    const corners = [new Vec2(0, 0), new Vec2(80, 0), new Vec2(80, 40), new Vec2(0, 40)]
+      .map(p => p.rotateBy(Math.PI / 6));
+    draw(corners.map((p, i) => {
+      const q = corners[(i + 1) % 4] as Vec2;
+      return new LineSegment(p.add(new Vec2(1, -1)), q.add(new Vec2(-1, 1)), `side${i}`);
+    }));
+    const [proposal] = recognizer.recognize(0);
+    const segments = proposal?.segments as LineSegment[];
+
+    expect(proposal?.type).toBe(RecognitionType.RECTANGLE);
+    expect(segments[0]?.direction.angle).toBeCloseTo(Math.PI / 6);
+    expect(segments[0]?.length).toBeCloseTo(80, 0);
+    expect(segments[1]?.length).toBeCloseTo(40, 0);
+    expect(proposal?.constraints.map(c => c.type)).toEqual(expect.arrayContaining([
+      ConstraintType.PARALLEL,
+      ConstraintType.PERPENDICULAR
+    ]));
+  });
+
+  it('should turn a nearly square rectangle into a square', () => {
+    draw([
+      line('a', 0, 0, 100, 0),
+      line('b', 100, 0, 100, 95),
+      line('c', 100, 95, 0, 95),
+      line('d', 0, 95, 0, 0)
+    ]);
+    const [proposal] = recognizer.recognize(0);
+    const segments = proposal?.segments as LineSegment[];
+
+    expect(segments[0]?.length).toBeCloseTo(segments[1]?.length as number);
+    expect(proposal?.constraints.some(c => c.type === ConstraintType.EQUAL_LENGTH)).toBe(true);
+  });
+
+  it('should follow lines drawn in either direction', () => {
+    draw([
+      line('a', 0, 0, 100, 0),
+      line('b', 50, 86, 100, 0),
+      line('c', 50, 86, 0, 0)
+    ]);
+    const [proposal] = recognizer.recognize(0);
+
+    expect(proposal?.type).toBe(RecognitionType.REGULAR_POLYGON);
+    const coincident = proposal?.constraints.find(c =>
+      c.type === ConstraintType.COINCIDENT && c.pointA.segmentId === 'a');
+    expect(coincident).toEqual(expect.objectContaining({
+      pointA: { segmentId: 'a', point: 'end' },
+      pointB: { segmentId: 'b', point: 'end' }
+    }));
+  });
+
+  it('should regularize a hand-drawn hexagon', () => {
+    const vertices = Array.from({ length: 6 }, (_, i) =>
+      Vec2.fromPolar(50 + (i % 2 === 0 ? 2 : -2), i * Math.PI / 3));
+    draw(vertices.map((p, i) => new LineSegment(p, vertices[(i + 1) % 6] as Vec2, `h${i}`)));
+    const [proposal] = recognizer.recognize(0);
+    const lengths = (proposal?.segments ?? []).map(s => (s as LineSegment).length);
+
+    expect(proposal?.type).toBe(RecognitionType.REGULAR_POLYGON);
+    expect(Math.max(...lengths) - Math.min(...lengths)).toBeLessThan(1e-9);
+    expect(proposal?.constraints.filter(c => c.type === ConstraintType.EQUAL_LENGTH)).toHaveLength(5);
+  });
+
+  it('should snap the joints of an irregular closed polygon', () => {
+    draw([
+      line('a', 0, 0, 120, 0),
+      line('b', 123, 2, 60, 30),
+      line('c', 58, 31, 0, 80),
+      line('d', 0, 80, 0, 5)
+    ]);
+    const [proposal] = recognizer.recognize(0);
+    const segments = proposal?.segments as LineSegment[];
+
+    expect(proposal?.type).toBe(RecognitionType.CLOSED_POLYGON);
+    expect(segments[0]?.endPoint.isEqual(segments[1]?.startPoint as Vec2)).toBe(true);
+    expect(segments[3]?.endPoint.isEqual(segments[0]?.startPoint as Vec2)).toBe(true);
+    expect(proposal?.confidence).toBeGreaterThan(0);
+  });
+
+  it('should ignore open chains', () => {
+    draw([
+      line('a', 0, 0, 100, 0),
+      line('b', 100, 0, 100, 100),
+      line('c', 100, 100, 0, 100)
+    ]);
+
+    expect(recognizer.recognize(0)).toHaveLength(0);
+  });
+
+  it('should merge arcs that together make a circle', () => {
+    draw([
+      new ArcSegment(new Vec2(0, 0), 50, 0.1, Math.PI, 'upper'),
+      new ArcSegment(new Vec2(2, -1), 52, Math.PI, Math.PI - 0.1, 'lower')
+    ]);
+    const [proposal] = recognizer.recognize(0);
+    const circle = proposal?.segments[0] as ArcSegment;
+
+    expect(proposal?.type).toBe(RecognitionType.CIRCLE);
+    expect(proposal?.replaces).toEqual(['upper', 'lower']);
+    expect(circle.isClosed).toBe(true);
+    expect(circle.id).toBe('upper');
+    expect(circle.radius).toBeCloseTo(51, 0);
+  });
+
+  it('should make nearly concentric circles share a center', () => {
+    draw([
+      new ArcSegment(new Vec2(0, 0), 20, 0, Math.PI * 2, 'inner'),
+      new ArcSegment(new Vec2(4, -3), 60, 0, Math.PI * 2, 'outer'),
+      new ArcSegment(new Vec2(300, 0), 40, 0, Math.PI * 2, 'elsewhere')
+    ]);
+    const [proposal] = recognizer.recognize(0);
+    const [inner, outer] = proposal?.segments as ArcSegment[];
+
+    expect(proposal?.type).toBe(RecognitionType.CONCENTRIC);
+    expect(proposal?.replaces).toEqual(['inner', 'outer']);
+    expect(inner?.center.isEqual(outer?.center as Vec2)).toBe(true);
+    expect(inner?.radius).toBe(20);
+    expect(proposal?.constraints).toEqual([
+      expect.objectContaining({ type: ConstraintType.CONCENTRIC, segment1Id: 'inner', segment2Id: 'outer' })
+    ]);
+  });
+
+  it('should use the current geometry of the drawing', () => {
+    draw([
+      line('a', 0, 0, 100, 0),
+      line('b', 100, 0, 100, 50),
+      line('c', 100, 50, 0, 50),
+      line('d', 0, 50, 0, 0)
+    ]);
+    drawing.removeSegment('c');
+
+    expect(recognizer.recognize(0)).toHaveLength(0);
+  });
+
+  it('should only look at recent strokes', () => {
+    const shortWindow = new DeferredRecognizer(drawing, { windowSize: 3 });
+    const sides = [
+      line('a', 0, 0, 100, 0),
+      line('b', 100, 0, 100, 50),
+      line('c', 100, 50, 0, 50),
+      line('d', 0, 50, 0, 0)
+    ];
+    for (const side of sides) {
+      drawing.addStrokeGeometry(side.id, [fitResult(side)]);
+      shortWindow.addStroke(side.id, [fitResult(side)], 0);
+    }
+
+    expect(shortWindow.recentStrokeIds).toEqual(['b', 'c', 'd']);
+    expect(shortWindow.recognize(0)).toHaveLength(0);
+    shortWindow.dispose();
+  });
+
+  it('should drop strokes older than the maximum age', () => {
+    draw([line('a', 0, 0, 100, 0), line('b', 100, 0, 100, 50)], 0);
+    draw([line('c', 100, 50, 0, 50), line('d', 0, 50, 0, 0)], 30000);
+
+    expect(recognizer.recognize(30000)).toHaveLength(0);
+  });
+
+  describe('idle recognition', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should report proposals once the pen has been idle', () => {
+      const events: DeferredRecognitionEvent[] = [];
+      recognizer.subscribe(event => events.push(event));
+      const now = Date.now();
+      draw([
+        line('a', 0, 0, 100, 0),
+        line('b', 100, 0, 100, 50),
+        line('c', 100, 50, 0, 50)
+      ], now);
+      vi.advanceTimersByTime(300);
+      draw([line('d', 0, 50, 0, 0)], now);
+
+      vi.advanceTimersByTime(300);
+      expect(events).toHaveLength(0);
+
+      vi.advanceTimersByTime(400);
+      expect(events).toHaveLength(1);
+      expect(events[0]?.type).toBe(RecognitionType.RECTANGLE);
+      expect(events[0]?.strokeId).toBe('stroke-d');
+    });
+
+    it('should not propose the same pattern twice', () => {
+      draw([
+        line('a', 0, 0, 100, 0),
+        line('b', 100, 0, 100, 50),
+        line('c', 100, 50, 0, 50),
+        line('d', 0, 50, 0, 0)
+      ], Date.now());
+
+      expect(recognizer.flush()).toHaveLength(1);
+      expect(recognizer.flush()).toHaveLength(0);
+    });
+  });
+});
+
+describe('DeferredUtils', () => {
+  describe('findClosedChains', () => {
+    it('should not reuse a line in two loops', () => {
+      const lines = [
+        line('a', 0, 0, 10, 0),
+        line('b', 10, 0, 5, 8),
+        line('c', 5, 8, 0, 0),
+        line('d', 10, 0, 0, 0)
+      ];
+      const chains = DeferredUtils.findClosedChains(lines, 1, 12);
+
+      expect(chains).toHaveLength(1);
+      expect(chains[0]?.map(link => link.line.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('applyProposal', () => {
+    it('should update kept segments and remove merged ones', () => {
+      const drawing = new DrawingModel();
+      const upper = new ArcSegment(Vec2.ZERO, 50, 0, Math.PI, 'upper');
+      const lower = new ArcSegment(Vec2.ZERO, 50, Math.PI, Math.PI, 'lower');
+      drawing.addStrokeGeometry('s1', [fitResult(upper)]);
+      drawing.addStrokeGeometry('s2', [fitResult(lower)]);
+      const circle = DeferredUtils.mergeArcs([upper, lower], 0.15)?.circle as ArcSegment;
+
+      const changes = DeferredUtils.applyProposal(drawing, {
+        type: RecognitionType.CIRCLE,
+        replaces: ['upper', 'lower'],
+        segments: [circle],
+        constraints: [],
+        strokeIds: ['s1', 's2'],
+        confidence: 1
+      });
+
+      expect(changes.removedSegmentIds).toEqual(['lower']);
+      expect(drawing.size).toBe(1);
+      expect((drawing.getSegment('upper') as ArcSegment).isClosed).toBe(true);
+    });
+
+    it('should record its edits as one undoable step', () => {
+      const drawing = new DrawingModel();
+      const history = new CommandHistory();
+      const upper = new ArcSegment(Vec2.ZERO, 50, 0, Math.PI, 'upper');
+      const lower = new ArcSegment(Vec2.ZERO, 50, Math.PI, Math.PI, 'lower');
+      drawing.addStrokeGeometry('s1', [fitResult(upper)]);
+      drawing.addStrokeGeometry('s2', [fitResult(lower)]);
+      const circle = DeferredUtils.mergeArcs([upper, lower], 0.15)?.circle as ArcSegment;
+
+      history.transaction('Regularize', () => DeferredUtils.applyProposal(drawing, {
+        type: RecognitionType.CIRCLE,
+        replaces: ['upper', 'lower'],
+        segments: [circle],
+        constraints: [],
+        strokeIds: ['s1', 's2'],
+        confidence: 1
+      }, [], history));
+      expect(drawing.size).toBe(1);
+
+      expect(history.undo()).toBe(true);
+      expect(drawing.getSegment('upper')).toBe(upper);
+      expect(drawing.getSegment('lower')).toBe(lower);
+      expect(history.canUndo).toBe(false);
+    });
+
+    it('should skip constraints that already exist', () => {
+      const drawing = new DrawingModel();
+      const a = line('a', 0, 0, 10, 0);
+      drawing.addSegment(a);
+      const existing = ConstraintUtils.coincident({ segmentId: 'a', point: 'end' }, { segmentId: 'b', point: 'start' });
+      const swapped = ConstraintUtils.coincident({ segmentId: 'b', point: 'start' }, { segmentId: 'a', point: 'end' });
+      const other = ConstraintUtils.coincident({ segmentId: 'a', point: 'start' }, { segmentId: 'b', point: 'end' });
+
+      const changes = DeferredUtils.applyProposal(drawing, {
+        type: RecognitionType.CLOSED_POLYGON,
+        replaces: ['a'],
+        segments: [a],
+        constraints: [swapped, other],
+        strokeIds: [],
+        confidence: 1
+      }, [existing]);
+
+      expect(changes.added).toEqual([other]);
+    });
+  });
+});
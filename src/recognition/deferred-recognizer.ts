@@ -0,0 +1,776 @@
+import {
+  Constraint,
+  ConstraintPoint,
+  ConstraintType,
+  ConstraintUtils
+} from '../core/constraints/constraint.js';
+import {
+  AddSegmentCommand,
+  Command,
+  CommandHistory,
+  RemoveSegmentCommand,
+  UpdateSegmentCommand
+} from '../core/document/command-history.js';
+import { DrawingModel } from '../core/document/drawing-model.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+import type { GeometryFitResult } from '../input/stroke-to-geometry.js';
+
+import { PenUpUtils } from './pen-up-recognizer.js';
+import { RecognitionEvent, RecognitionType } from './recognition.js';
+
+/**
+ * Deferred recognition (stage 3 of the recognition pipeline).
+ * Pen-up recognition only sees one stroke at a time. This stage keeps a short
+ * window of recently converted strokes and, once the pen has been idle for a
+ * moment, looks at them together for shapes that span several strokes: closed
+ * polygons, rectangles, regular polygons, arcs that make up a circle and
+ * concentric circles. Each match is reported as a proposal with regularized
+ * geometry and the constraints that keep it that way.
+ *
+ * The window holds the `GeometryFitResult`s of each stroke; segments are looked
+ * up again in the `DrawingModel` before every run, so geometry that has since
+ * been latched, edited or erased is seen as it is now.
+ */
+
+export interface DeferredRecognitionOptions {
+  readonly windowSize: number;       // Most recent strokes considered together
+  readonly maxAge: number;           // Milliseconds before a stroke leaves the window
+  readonly idleDelay: number;        // Milliseconds without new strokes before recognition runs
+  readonly joinTolerance: number;    // Maximum gap between joined endpoints (pixels)
+  readonly angleTolerance: number;   // Maximum corner angle deviation (radians)
+  readonly lengthTolerance: number;  // Maximum relative side length deviation
+  readonly radiusTolerance: number;  // Maximum relative radius / center deviation for circles
+  readonly maxPolygonSides: number;
+}
+
+const DEFAULT_DEFERRED_OPTIONS: DeferredRecognitionOptions = {
+  windowSize: 8,
+  maxAge: 20000,
+  idleDelay: 600,
+  joinTolerance: 12,
+  angleTolerance: Math.PI / 18,
+  lengthTolerance: 0.15,
+  radiusTolerance: 0.15,
+  maxPolygonSides: 12
+};
+
+/**
+ * Merged or regularized geometry proposed for a multi-stroke pattern.
+ * Segments that keep the id of a replaced segment update it in place, so
+ * constraints on it stay valid; replaced ids without a counterpart are removed.
+ */
+export interface DeferredProposal {
+  readonly type: RecognitionType;
+  readonly replaces: ReadonlyArray<string>;
+  readonly segments: ReadonlyArray<Segment>;
+  readonly constraints: ReadonlyArray<Constraint>;
+  readonly strokeIds: ReadonlyArray<string>;
+  readonly confidence: number;  // 0.0-1.0
+}
+
+export interface DeferredRecognitionEvent extends RecognitionEvent {
+  readonly proposal: DeferredProposal;
+  readonly confidence: number;
+}
+
+export type DeferredRecognitionListener = (event: DeferredRecognitionEvent) => void;
+
+/**
+ * Line of a closed chain, walked from start to end or in reverse
+ */
+export interface ChainLink {
+  readonly line: LineSegment;
+  readonly reversed: boolean;
+}
+
+export interface ProposalChanges {
+  readonly added: Constraint[];         // Proposal constraints that were not present yet
+  readonly removedSegmentIds: string[]; // Replaced segments removed from the drawing
+}
+
+interface WindowEntry {
+  readonly strokeId: string;
+  readonly results: ReadonlyArray<GeometryFitResult>;
+  readonly timestamp: number;
+}
+
+interface WindowSegment {
+  readonly segment: Segment;
+  readonly strokeId: string;
+}
+
+/**
+ * Looks for multi-stroke patterns in the most recent strokes.
+ */
+export class DeferredRecognizer {
+  private options: DeferredRecognitionOptions;
+  private readonly drawing: DrawingModel;
+  private window: WindowEntry[] = [];
+  private proposed = new Set<string>();
+  private idleTimer: number | null = null;
+  private listeners = new Set<DeferredRecognitionListener>();
+
+  constructor(drawing: DrawingModel, options: Partial<DeferredRecognitionOptions> = {}) {
+    this.drawing = drawing;
+    this.options = { ...DEFAULT_DEFERRED_OPTIONS, ...options };
+  }
+
+  /**
+   * Subscribe to deferred recognition events. Returns an unsubscribe function.
+   */
+  subscribe(listener: DeferredRecognitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add the converted geometry of a completed stroke to the window and restart
+   * the idle timer
+   */
+  addStroke(strokeId: string, results: ReadonlyArray<GeometryFitResult>, timestamp: number = Date.now()): void {
+    this.window.push({ strokeId, results, timestamp });
+    if (this.window.length > this.options.windowSize) {
+      this.window.splice(0, this.window.length - this.options.windowSize);
+    }
+    this.scheduleIdle();
+  }
+
+  /**
+   * Ids of the strokes currently in the window, oldest first
+   */
+  get recentStrokeIds(): string[] {
+    return this.window.map(entry => entry.strokeId);
+  }
+
+  /**
+   * Run recognition now instead of waiting for the idle timer. Proposals are
+   * reported to subscribers once; the same pattern is not proposed again.
+   */
+  flush(now: number = Date.now()): DeferredProposal[] {
+    this.cancelIdle();
+
+    const proposals = this.recognize(now);
+    for (const proposal of proposals) {
+      this.proposed.add(DeferredUtils.proposalKey(proposal));
+    }
+
+    for (const proposal of proposals) {
+      const event = DeferredUtils.toEvent(proposal);
+      for (const listener of Array.from(this.listeners)) {
+        listener(event);
+      }
+    }
+    return proposals;
+  }
+
+  /**
+   * Find patterns in the current window without reporting them. Each segment is
+   * used by at most one proposal; polygons are matched before circles.
+   */
+  recognize(now: number = Date.now()): DeferredProposal[] {
+    const segments = this.windowSegments(now);
+    const strokeOf = new Map(segments.map(entry => [entry.segment.id, entry.strokeId]));
+    const lines = segments.map(entry => entry.segment).filter((s): s is LineSegment => s instanceof LineSegment);
+    const arcs = segments.map(entry => entry.segment).filter((s): s is ArcSegment => s instanceof ArcSegment);
+
+    const candidates: DeferredProposal[] = [];
+    for (const chain of DeferredUtils.findClosedChains(lines, this.options.joinTolerance, this.options.maxPolygonSides)) {
+      candidates.push(this.polygonProposal(chain, strokeOf));
+    }
+    for (const group of DeferredUtils.groupCoincidentArcs(arcs.filter(arc => !arc.isClosed), this.options.radiusTolerance)) {
+      const proposal = this.circleProposal(group, strokeOf);
+      if (proposal) candidates.push(proposal);
+    }
+    for (const group of DeferredUtils.groupConcentricCircles(
+      arcs.filter(arc => arc.isClosed),
+      this.options.joinTolerance,
+      this.options.radiusTolerance
+    )) {
+      candidates.push(this.concentricProposal(group, strokeOf));
+    }
+
+    const claimed = new Set<string>();
+    const proposals: DeferredProposal[] = [];
+    for (const proposal of candidates) {
+      if (this.proposed.has(DeferredUtils.proposalKey(proposal))) continue;
+      if (proposal.replaces.some(id => claimed.has(id))) continue;
+      proposal.replaces.forEach(id => claimed.add(id));
+      proposals.push(proposal);
+    }
+    return proposals;
+  }
+
+  /**
+   * Forget the window and pending recognition
+   */
+  clear(): void {
+    this.cancelIdle();
+    this.window = [];
+    this.proposed.clear();
+  }
+
+  /**
+   * Stop the idle timer and drop all subscribers
+   */
+  dispose(): void {
+    this.clear();
+    this.listeners.clear();
+  }
+
+  /**
+   * Update deferred recognition options
+   */
+  updateOptions(newOptions: Partial<DeferredRecognitionOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private scheduleIdle(): void {
+    this.cancelIdle();
+    this.idleTimer = window.setTimeout(() => {
+      this.idleTimer = null;
+      this.flush();
+    }, this.options.idleDelay);
+  }
+
+  private cancelIdle(): void {
+    if (this.idleTimer !== null) {
+      window.clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  // Current version of every segment in the window that still exists
+  private windowSegments(now: number): WindowSegment[] {
+    this.window = this.window.filter(entry => now - entry.timestamp <= this.options.maxAge);
+
+    const segments: WindowSegment[] = [];
+    for (const entry of this.window) {
+      for (const result of entry.results) {
+        const segment = this.drawing.getSegment(result.segment.id);
+        if (segment) segments.push({ segment, strokeId: entry.strokeId });
+      }
+    }
+    return segments;
+  }
+
+  private polygonProposal(chain: ReadonlyArray<ChainLink>, strokeOf: ReadonlyMap<string, string>): DeferredProposal {
+    const { angleTolerance, lengthTolerance, joinTolerance } = this.options;
+    const vertices = DeferredUtils.chainVertices(chain);
+    const joints = DeferredUtils.jointConstraints(chain);
+    const replaces = chain.map(link => link.line.id);
+    const strokeIds = uniqueStrokeIds(replaces, strokeOf);
+
+    const rectangle = DeferredUtils.regularizeRectangle(vertices, angleTolerance, lengthTolerance);
+    if (rectangle) {
+      const [first, second, third, fourth] = replaces as [string, string, string, string];
+      const constraints: Constraint[] = [...joints];
+      if (rectangle.axisAligned) {
+        chain.forEach((link, i) => {
+          const edge = DeferredUtils.edge(rectangle.vertices, i);
+          constraints.push(Math.abs(edge.x) >= Math.abs(edge.y)
+            ? ConstraintUtils.horizontal(link.line.id)
+            : ConstraintUtils.vertical(link.line.id));
+        });
+      } else {
+        constraints.push(
+          ConstraintUtils.parallel(first, third),
+          ConstraintUtils.parallel(second, fourth),
+          ConstraintUtils.perpendicular(first, second)
+        );
+      }
+      if (rectangle.square) {
+        constraints.push(ConstraintUtils.equalLength(first, second));
+      }
+      return {
+        type: RecognitionType.RECTANGLE,
+        replaces,
+        segments: DeferredUtils.rebuildChain(chain, rectangle.vertices),
+        constraints,
+        strokeIds,
+        confidence: rectangle.confidence
+      };
+    }
+
+    const regular = DeferredUtils.regularizePolygon(vertices, angleTolerance, lengthTolerance);
+    if (regular) {
+      const constraints: Constraint[] = [...joints];
+      for (let i = 1; i < chain.length; i++) {
+        constraints.push(ConstraintUtils.equalLength(replaces[0] as string, replaces[i] as string));
+      }
+      return {
+        type: RecognitionType.REGULAR_POLYGON,
+        replaces,
+        segments: DeferredUtils.rebuildChain(chain, regular.vertices),
+        constraints,
+        strokeIds,
+        confidence: regular.confidence
+      };
+    }
+
+    return {
+      type: RecognitionType.CLOSED_POLYGON,
+      replaces,
+      segments: DeferredUtils.rebuildChain(chain, vertices),
+      constraints: joints,
+      strokeIds,
+      confidence: clamp01(1 - DeferredUtils.chainGap(chain) / joinTolerance)
+    };
+  }
+
+  private circleProposal(arcs: ReadonlyArray<ArcSegment>, strokeOf: ReadonlyMap<string, string>): DeferredProposal | null {
+    const circle = DeferredUtils.mergeArcs(arcs, this.options.radiusTolerance);
+    if (!circle) return null;
+
+    const replaces = arcs.map(arc => arc.id);
+    return {
+      type: RecognitionType.CIRCLE,
+      replaces,
+      segments: [circle.circle],
+      constraints: [],
+      strokeIds: uniqueStrokeIds(replaces, strokeOf),
+      confidence: circle.confidence
+    };
+  }
+
+  private concentricProposal(
+    circles: ReadonlyArray<ArcSegment>,
+    strokeOf: ReadonlyMap<string, string>
+  ): DeferredProposal {
+    const center = DeferredUtils.centroid(circles.map(circle => circle.center));
+    const tolerance = DeferredUtils.centerTolerance(circles, this.options.joinTolerance, this.options.radiusTolerance);
+    const deviation = Math.max(...circles.map(circle => circle.center.distanceTo(center)));
+    const [first, ...rest] = circles;
+    const replaces = circles.map(circle => circle.id);
+
+    return {
+      type: RecognitionType.CONCENTRIC,
+      replaces,
+      segments: circles.map(circle =>
+        new ArcSegment(center, circle.radius, circle.startAngle, circle.sweepAngle, circle.id)),
+      constraints: first ? rest.map(circle => ConstraintUtils.concentric(first.id, circle.id)) : [],
+      strokeIds: uniqueStrokeIds(replaces, strokeOf),
+      confidence: clamp01(1 - deviation / tolerance)
+    };
+  }
+}
+
+function uniqueStrokeIds(segmentIds: ReadonlyArray<string>, strokeOf: ReadonlyMap<string, string>): string[] {
+  const ids: string[] = [];
+  for (const segmentId of segmentIds) {
+    const strokeId = strokeOf.get(segmentId);
+    if (strokeId !== undefined && !ids.includes(strokeId)) ids.push(strokeId);
+  }
+  return ids;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Utility functions for deferred recognition
+ */
+export namespace DeferredUtils {
+  export function linkStart(link: ChainLink): Vec2 {
+    return link.reversed ? link.line.endPoint : link.line.startPoint;
+  }
+
+  export function linkEnd(link: ChainLink): Vec2 {
+    return link.reversed ? link.line.startPoint : link.line.endPoint;
+  }
+
+  /**
+   * Closed loops of lines whose endpoints meet within `tolerance`. Each line is
+   * used by at most one loop; at every joint the nearest free endpoint is taken.
+   */
+  export function findClosedChains(
+    lines: ReadonlyArray<LineSegment>,
+    tolerance: number,
+    maxSides: number
+  ): ChainLink[][] {
+    const used = new Set<string>();
+    const chains: ChainLink[][] = [];
+
+    for (const first of lines) {
+      if (used.has(first.id)) continue;
+
+      const chain: ChainLink[] = [{ line: first, reversed: false }];
+      const visited = new Set([first.id]);
+
+      while (chain.length <= maxSides) {
+        const tail = chain[chain.length - 1];
+        if (!tail) break;
+        const cursor = linkEnd(tail);
+        if (chain.length >= 3 && cursor.distanceTo(first.startPoint) <= tolerance) {
+          chain.forEach(link => used.add(link.line.id));
+          chains.push(chain);
+          break;
+        }
+
+        const next = nearestLink(lines, cursor, tolerance, id => visited.has(id) || used.has(id));
+        if (!next) break;
+        chain.push(next);
+        visited.add(next.line.id);
+      }
+    }
+    return chains;
+  }
+
+  function nearestLink(
+    lines: ReadonlyArray<LineSegment>,
+    position: Vec2,
+    tolerance: number,
+    excluded: (id: string) => boolean
+  ): ChainLink | null {
+    let best: ChainLink | null = null;
+    let bestDistance = Infinity;
+
+    for (const line of lines) {
+      if (excluded(line.id)) continue;
+
+      const toStart = position.distanceTo(line.startPoint);
+      const toEnd = position.distanceTo(line.endPoint);
+      if (toStart < bestDistance) {
+        best = { line, reversed: false };
+        bestDistance = toStart;
+      }
+      if (toEnd < bestDistance) {
+        best = { line, reversed: true };
+        bestDistance = toEnd;
+      }
+    }
+    return bestDistance <= tolerance ? best : null;
+  }
+
+  /**
+   * Polygon vertices of a closed chain: vertex i joins link i - 1 to link i and
+   * sits halfway between the two endpoints
+   */
+  export function chainVertices(chain: ReadonlyArray<ChainLink>): Vec2[] {
+    return chain.map((link, i) => {
+      const previous = chain[(i + chain.length - 1) % chain.length] ?? link;
+      return linkEnd(previous).lerp(linkStart(link), 0.5);
+    });
+  }
+
+  /**
+   * Largest distance between two joined endpoints
+   */
+  export function chainGap(chain: ReadonlyArray<ChainLink>): number {
+    return Math.max(...chain.map((link, i) => {
+      const previous = chain[(i + chain.length - 1) % chain.length] ?? link;
+      return linkEnd(previous).distanceTo(linkStart(link));
+    }));
+  }
+
+  /**
+   * Lines of the chain moved onto `vertices`, keeping ids and directions
+   */
+  export function rebuildChain(chain: ReadonlyArray<ChainLink>, vertices: ReadonlyArray<Vec2>): LineSegment[] {
+    return chain.map((link, i) => {
+      const from = vertices[i] ?? Vec2.ZERO;
+      const to = vertices[(i + 1) % vertices.length] ?? Vec2.ZERO;
+      return link.reversed
+        ? new LineSegment(to, from, link.line.id)
+        : new LineSegment(from, to, link.line.id);
+    });
+  }
+
+  /**
+   * Coincident constraints for every joint of the chain
+   */
+  export function jointConstraints(chain: ReadonlyArray<ChainLink>): Constraint[] {
+    const endOf = (link: ChainLink): ConstraintPoint => link.reversed ? 'start' : 'end';
+    const startOf = (link: ChainLink): ConstraintPoint => link.reversed ? 'end' : 'start';
+
+    return chain.map((link, i) => {
+      const next = chain[(i + 1) % chain.length] ?? link;
+      return ConstraintUtils.coincident(
+        { segmentId: link.line.id, point: endOf(link) },
+        { segmentId: next.line.id, point: startOf(next) }
+      );
+    });
+  }
+
+  export function edge(vertices: ReadonlyArray<Vec2>, index: number): Vec2 {
+    const from = vertices[index] ?? Vec2.ZERO;
+    const to = vertices[(index + 1) % vertices.length] ?? Vec2.ZERO;
+    return to.subtract(from);
+  }
+
+  /**
+   * Signed turn at each vertex, from the incoming to the outgoing edge
+   */
+  export function turningAngles(vertices: ReadonlyArray<Vec2>): number[] {
+    return vertices.map((_, i) => {
+      const incoming = edge(vertices, (i + vertices.length - 1) % vertices.length);
+      return incoming.angleTo(edge(vertices, i));
+    });
+  }
+
+  export function centroid(points: ReadonlyArray<Vec2>): Vec2 {
+    return points.reduce((sum, point) => sum.add(point), Vec2.ZERO).divide(points.length);
+  }
+
+  /**
+   * Rectangle fitted to four vertices: all turns within `angleTolerance` of a
+   * right angle in the same direction and opposite sides of similar length.
+   * Orientation is the average edge direction (modulo 90°), snapped to the axes
+   * when within tolerance; near-equal sides become a square.
+   */
+  export function regularizeRectangle(
+    vertices: ReadonlyArray<Vec2>,
+    angleTolerance: number,
+    lengthTolerance: number
+  ): { vertices: Vec2[]; axisAligned: boolean; square: boolean; confidence: number } | null {
+    if (vertices.length !== 4) return null;
+
+    const turns = turningAngles(vertices);
+    const direction = Math.sign(turns[0] ?? 0);
+    const deviation = Math.max(...turns.map(turn => Math.abs(Math.abs(turn) - Math.PI / 2)));
+    if (deviation > angleTolerance || turns.some(turn => Math.sign(turn) !== direction)) return null;
+
+    const lengths = vertices.map((_, i) => edge(vertices, i).length);
+    for (const [a, b] of [[0, 2], [1, 3]] as const) {
+      if (!isSimilarLength(lengths[a] ?? 0, lengths[b] ?? 0, lengthTolerance)) return null;
+    }
+
+    // Average orientation: edge angles repeat every 90°, so average them at 4x
+    let sumCos = 0;
+    let sumSin = 0;
+    for (let i = 0; i < 4; i++) {
+      const angle = edge(vertices, i).angle * 4;
+      sumCos += Math.cos(angle);
+      sumSin += Math.sin(angle);
+    }
+    let orientation = Math.atan2(sumSin, sumCos) / 4;
+    const axisAligned = Math.abs(orientation) <= angleTolerance;
+    if (axisAligned) orientation = 0;
+
+    const center = centroid(vertices);
+    const u = Vec2.fromAngle(orientation);
+    const w = u.perpendicular;
+    let halfWidth = 0;
+    let halfHeight = 0;
+    for (const vertex of vertices) {
+      const offset = vertex.subtract(center);
+      halfWidth += Math.abs(offset.dot(u)) / 4;
+      halfHeight += Math.abs(offset.dot(w)) / 4;
+    }
+
+    const square = isSimilarLength(halfWidth, halfHeight, lengthTolerance);
+    if (square) {
+      halfWidth = halfHeight = (halfWidth + halfHeight) / 2;
+    }
+
+    const regular = vertices.map(vertex => {
+      const offset = vertex.subtract(center);
+      return center
+        .add(u.multiply(Math.sign(offset.dot(u)) * halfWidth))
+        .add(w.multiply(Math.sign(offset.dot(w)) * halfHeight));
+    });
+
+    return { vertices: regular, axisAligned, square, confidence: clamp01(1 - deviation / angleTolerance) };
+  }
+
+  /**
+   * Regular polygon fitted to the vertices of a convex polygon whose sides and
+   * turns are all within tolerance of each other. Keeps the centroid, mean
+   * circumradius, winding and the direction to the first vertex.
+   */
+  export function regularizePolygon(
+    vertices: ReadonlyArray<Vec2>,
+    angleTolerance: number,
+    lengthTolerance: number
+  ): { vertices: Vec2[]; confidence: number } | null {
+    const n = vertices.length;
+    if (n < 3) return null;
+
+    const turns = turningAngles(vertices);
+    const direction = Math.sign(turns[0] ?? 0);
+    const exterior = Math.PI * 2 / n;
+    const angleDeviation = Math.max(...turns.map(turn => Math.abs(Math.abs(turn) - exterior)));
+    if (angleDeviation > angleTolerance || turns.some(turn => Math.sign(turn) !== direction)) return null;
+
+    const lengths = vertices.map((_, i) => edge(vertices, i).length);
+    const meanLength = lengths.reduce((sum, length) => sum + length, 0) / n;
+    const lengthDeviation = Math.max(...lengths.map(length => Math.abs(length - meanLength) / meanLength));
+    if (lengthDeviation > lengthTolerance) return null;
+
+    const center = centroid(vertices);
+    const radius = vertices.reduce((sum, vertex) => sum + vertex.distanceTo(center), 0) / n;
+    const phase = (vertices[0] ?? Vec2.ZERO).subtract(center).angle;
+    const regular = vertices.map((_, i) => center.add(Vec2.fromPolar(radius, phase + direction * exterior * i)));
+
+    const confidence = Math.min(1 - angleDeviation / angleTolerance, 1 - lengthDeviation / lengthTolerance);
+    return { vertices: regular, confidence: clamp01(confidence) };
+  }
+
+  /**
+   * Groups of arcs on roughly the same circle: centers within
+   * `radiusTolerance` × radius of each other and similar radii
+   */
+  export function groupCoincidentArcs(arcs: ReadonlyArray<ArcSegment>, radiusTolerance: number): ArcSegment[][] {
+    return groupBy(arcs, (a, b) =>
+      a.center.distanceTo(b.center) <= radiusTolerance * Math.min(a.radius, b.radius) &&
+      isSimilarLength(a.radius, b.radius, radiusTolerance));
+  }
+
+  /**
+   * Full circle covered by two or more arcs of one circle whose sweeps add up to
+   * a full turn within `radiusTolerance`. Center and radius are averaged by sweep;
+   * the circle keeps the id of the first arc.
+   */
+  export function mergeArcs(
+    arcs: ReadonlyArray<ArcSegment>,
+    radiusTolerance: number
+  ): { circle: ArcSegment; confidence: number } | null {
+    const first = arcs[0];
+    if (!first || arcs.length < 2) return null;
+
+    const fullTurn = Math.PI * 2;
+    const totalSweep = arcs.reduce((sum, arc) => sum + Math.abs(arc.sweepAngle), 0);
+    const coverageDeviation = Math.abs(totalSweep - fullTurn) / fullTurn;
+    if (coverageDeviation > radiusTolerance) return null;
+
+    let center = Vec2.ZERO;
+    let radius = 0;
+    for (const arc of arcs) {
+      const weight = Math.abs(arc.sweepAngle) / totalSweep;
+      center = center.add(arc.center.multiply(weight));
+      radius += arc.radius * weight;
+    }
+
+    const deviation = Math.max(...arcs.map(arc =>
+      Math.max(arc.center.distanceTo(center), Math.abs(arc.radius - radius)) / radius));
+    const direction = Math.sign(first.sweepAngle) || 1;
+    const circle = new ArcSegment(center, radius, first.startAngle, direction * fullTurn, first.id);
+    const confidence = Math.min(1 - coverageDeviation / radiusTolerance, 1 - deviation / radiusTolerance);
+
+    return { circle, confidence: clamp01(confidence) };
+  }
+
+  /**
+   * Largest center offset at which circles still count as concentric
+   */
+  export function centerTolerance(
+    circles: ReadonlyArray<ArcSegment>,
+    joinTolerance: number,
+    radiusTolerance: number
+  ): number {
+    return Math.max(joinTolerance, radiusTolerance * Math.min(...circles.map(circle => circle.radius)));
+  }
+
+  /**
+   * Groups of two or more circles with nearby centers and distinct radii
+   */
+  export function groupConcentricCircles(
+    circles: ReadonlyArray<ArcSegment>,
+    joinTolerance: number,
+    radiusTolerance: number
+  ): ArcSegment[][] {
+    return groupBy(circles, (a, b) =>
+      a.center.distanceTo(b.center) <= centerTolerance([a, b], joinTolerance, radiusTolerance) &&
+      !isSimilarLength(a.radius, b.radius, radiusTolerance));
+  }
+
+  // Greedy grouping: each item joins the first group whose members all match it
+  function groupBy<T>(items: ReadonlyArray<T>, matches: (a: T, b: T) => boolean): T[][] {
+    const groups: T[][] = [];
+    for (const item of items) {
+      const group = groups.find(members => members.every(member => matches(member, item)));
+      if (group) {
+        group.push(item);
+      } else {
+        groups.push([item]);
+      }
+    }
+    return groups.filter(group => group.length >= 2);
+  }
+
+  function isSimilarLength(a: number, b: number, relativeTolerance: number): boolean {
+    return Math.abs(a - b) <= relativeTolerance * Math.max(a, b);
+  }
+
+  /**
+   * Order-independent key identifying a proposal type over a set of segments
+   */
+  export function proposalKey(proposal: DeferredProposal): string {
+    return `${proposal.type}:${[...proposal.replaces].sort().join(',')}`;
+  }
+
+  /**
+   * Like `PenUpUtils.relationKey`, but coincident constraints also include the
+   * constrained points
+   */
+  export function constraintKey(constraint: Constraint): string {
+    if (constraint.type === ConstraintType.COINCIDENT) {
+      const points = [constraint.pointA, constraint.pointB].map(ref => `${ref.segmentId}.${ref.point}`);
+      return `${constraint.type}:${points.sort().join(',')}`;
+    }
+    return PenUpUtils.relationKey(constraint);
+  }
+
+  /**
+   * Apply a proposal to the drawing: update segments that keep their id, add the
+   * new ones and remove replaced segments that have no counterpart. Returns the
+   * constraints not already in `existing` and the removed segment ids. Edits go
+   * through `history` when one is given, so they can be undone.
+   */
+  export function applyProposal(
+    drawing: DrawingModel,
+    proposal: DeferredProposal,
+    existing: ReadonlyArray<Constraint> = [],
+    history: CommandHistory | null = null
+  ): ProposalChanges {
+    const kept = new Set(proposal.segments.map(segment => segment.id));
+    const replaced = proposal.replaces.find(id => drawing.has(id));
+    const source = replaced !== undefined ? drawing.getElement(replaced)?.source : undefined;
+    const run = (command: Command): void => {
+      if (history) history.execute(command);
+      else command.execute();
+    };
+
+    const removedSegmentIds = proposal.replaces.filter(id => !kept.has(id) && drawing.has(id));
+    removedSegmentIds.forEach(id => run(new RemoveSegmentCommand(drawing, id)));
+
+    for (const segment of proposal.segments) {
+      if (drawing.has(segment.id)) {
+        run(new UpdateSegmentCommand(drawing, segment));
+      } else {
+        run(new AddSegmentCommand(drawing, segment, {
+          ...(source?.strokeId !== undefined ? { strokeId: source.strokeId } : {}),
+          ...(replaced !== undefined ? { derivedFrom: replaced } : {})
+        }));
+      }
+    }
+
+    const known = new Set(existing.map(constraintKey));
+    const added = proposal.constraints.filter(constraint => {
+      const key = constraintKey(constraint);
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+
+    return { added, removedSegmentIds };
+  }
+
+  export function toEvent(proposal: DeferredProposal): DeferredRecognitionEvent {
+    const strokeId = proposal.strokeIds[proposal.strokeIds.length - 1];
+    return {
+      type: proposal.type,
+      ...(strokeId !== undefined ? { strokeId } : {}),
+      segmentIds: proposal.replaces,
+      constraints: proposal.constraints,
+      timestamp: Date.now(),
+      proposal,
+      confidence: proposal.confidence
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { ProcessedStroke } from '../input/stroke-processor.js';
+import { drawStroke } from '../test/draw-stroke.js';
+import {
+  ARROW,
+  DELETE_MARK,
+  HANDWRITTEN_HEY,
+  PIGTAIL,
+  RIGHT_CURLY_BRACE,
+  STAR
+} from '../test/recorded-strokes.js';
+
+import { EraseRecognizer, EraseUtils } from './erase-recognizer.js';
+import { RecognitionEvent, RecognitionType } from './recognition.js';
+
+type Polyline = ReadonlyArray<readonly [number, number]>;
+
+// Synthetic strokes given as hand-picked polyline vertices, with small irregular
+// offsets to imitate a hand-drawn scribble; the pointer path between vertices is
+// traced at a 3px pitch, 8ms apart
+const BACK_AND_FORTH_SCRIBBLE: Polyline = [
+  [100, 100], [158, 106], [103, 109], [161, 113], [99, 117], [157, 121], [102, 124], [160, 128],
+  [101, 131], [156, 135], [104, 138], [159, 142], [100, 145], [157, 148], [103, 151]
+];
+const ZIGZAG: Polyline = [[0, 0], [40, 60], [80, 0], [120, 60], [160, 0], [200, 60]];
+const SPRING: Polyline = [
+  [0, 0], [25, 100], [50, 0], [75, 100], [100, 0], [125, 100], [150, 0], [175, 100], [200, 0]
+];
+const RECTANGLE: Polyline = [[0, 0], [100, 0], [100, 60], [0, 60], [0, 0]];
+const PENTAGRAM: Polyline = [[50, 0], [79, 90], [2, 35], [98, 35], [21, 90], [50, 0]];
+
+// Loops drifting slowly (scribble) and quickly (a drawn coil)
+function loops(drift: number, count: number): Polyline {
+  return Array.from({ length: count }, (_, i) => {
+    const t = i / 8;
+    return [100 + drift * t + 18 * Math.cos(t), 100 + 18 * Math.sin(t) + 0.5 * t] as const;
+  });
+}
+
+const draw = (polyline: Polyline): ProcessedStroke => drawStroke(polyline.map(([x, y]) => new Vec2(x, y)));
+
+describe('EraseRecognizer', () => {
+  const recognizer = new EraseRecognizer();
+
+  describe('analyze', () => {
+    it('should recognize a back-and-forth scribble', () => {
+      const analysis = recognizer.analyze(draw(BACK_AND_FORTH_SCRIBBLE));
+
+      expect(analysis.isScribble).toBe(true);
+      expect(analysis.features.reversalCount).toBeGreaterThanOrEqual(10);
+      expect(analysis.features.coverageRatio).toBeGreaterThan(6);
+    });
+
+    it('should recognize a circular scribble by its self-crossings', () => {
+      const analysis = recognizer.analyze(draw(loops(1.5, 200)));
+
+      expect(analysis.isScribble).toBe(true);
+      expect(analysis.features.selfIntersections).toBeGreaterThanOrEqual(4);
+    });
+
+    it.each([
+      ['zig-zag', ZIGZAG],
+      ['spring', SPRING],
+      ['rectangle', RECTANGLE],
+      ['pentagram', PENTAGRAM],
+      ['coil', loops(8, 240)]
+    ])('should not misfire on a %s', (_name, vertices) => {
+      const analysis = recognizer.analyze(draw(vertices));
+
+      expect(analysis.isScribble).toBe(false);
+      expect(analysis.confidence).toBeLessThan(0.6);
+    });
+
+    it.each([
+      ['star', STAR],
+      ['curly brace', RIGHT_CURLY_BRACE],
+      ['arrow', ARROW],
+      ['delete mark', DELETE_MARK],
+      ['pigtail', PIGTAIL],
+      ['handwritten word', HANDWRITTEN_HEY]
+    ])('should not misfire on a recorded %s', (_name, recorded) => {
+      expect(recognizer.analyze(draw(recorded)).isScribble).toBe(false);
+    });
+
+    it('should score scribbles above every recorded deliberate stroke', () => {
+      const recorded = [STAR, RIGHT_CURLY_BRACE, ARROW, DELETE_MARK, PIGTAIL, HANDWRITTEN_HEY];
+      const deliberate = Math.max(...recorded.map(stroke => recognizer.analyze(draw(stroke)).confidence));
+      const scribbles = [BACK_AND_FORTH_SCRIBBLE, loops(1.5, 200)].map(stroke => recognizer.analyze(draw(stroke)).confidence);
+
+      expect(Math.min(...scribbles)).toBeGreaterThan(deliberate);
+    });
+
+    it('should score clear scribbles above deliberate polylines', () => {
+      const scribble = recognizer.analyze(draw(BACK_AND_FORTH_SCRIBBLE)).confidence;
+      const spring = recognizer.analyze(draw(SPRING)).confidence;
+
+      expect(scribble).toBeGreaterThan(spring);
+    });
+  });
+
+  describe('recognize', () => {
+    const crossed = new LineSegment(new Vec2(130, 80), new Vec2(130, 170), 'crossed');
+    const inside = new ArcSegment(new Vec2(130, 125), 5, 0, Math.PI * 2, 'inside');
+    const outside = new LineSegment(new Vec2(300, 300), new Vec2(400, 300), 'outside');
+    const above = new LineSegment(new Vec2(0, 95), new Vec2(300, 95), 'above');
+
+    it('should request deletion of the segments the scribble covers', () => {
+      const request = recognizer.recognize(draw(BACK_AND_FORTH_SCRIBBLE), [crossed, inside, outside, above]);
+
+      expect(request?.segmentIds).toEqual(['crossed', 'inside']);
+    });
+
+    it('should return null for strokes that are not scribbles', () => {
+      expect(recognizer.recognize(draw(ZIGZAG), [crossed])).toBeNull();
+    });
+
+    it('should report erase events', () => {
+      const received: RecognitionEvent[] = [];
+      const unsubscribe = recognizer.subscribe(event => received.push(event));
+      const stroke = draw(BACK_AND_FORTH_SCRIBBLE);
+
+      recognizer.recognize(stroke, [crossed]);
+      unsubscribe();
+
+      expect(received).toHaveLength(1);
+      expect(received[0]?.type).toBe(RecognitionType.ERASE);
+      expect(received[0]?.strokeId).toBe(stroke.id);
+      expect(received[0]?.segmentIds).toEqual(['crossed']);
+    });
+  });
+});
+
+describe('EraseUtils', () => {
+  it('should count self-intersections', () => {
+    const figureEight = [new Vec2(0, 0), new Vec2(10, 10), new Vec2(10, 0), new Vec2(0, 10)];
+
+    expect(EraseUtils.countSelfIntersections(figureEight)).toBe(1);
+    expect(EraseUtils.countSelfIntersections([new Vec2(0, 0), new Vec2(10, 0), new Vec2(10, 10)])).toBe(0);
+  });
+
+  it('should not count touching endpoints as crossings', () => {
+    expect(EraseUtils.edgesCross(new Vec2(0, 0), new Vec2(10, 0), new Vec2(10, 0), new Vec2(10, 10))).toBe(false);
+    expect(EraseUtils.edgesCross(new Vec2(0, 0), new Vec2(10, 10), new Vec2(0, 10), new Vec2(10, 0))).toBe(true);
+  });
+
+  it('should compute a convex hull and test containment', () => {
+    const hull = EraseUtils.convexHull([
+      new Vec2(0, 0), new Vec2(10, 0), new Vec2(5, 5), new Vec2(10, 10), new Vec2(0, 10)
+    ]);
+
+    expect(hull).toHaveLength(4);
+    expect(EraseUtils.isInsideConvexPolygon(new Vec2(5, 5), hull)).toBe(true);
+    expect(EraseUtils.isInsideConvexPolygon(new Vec2(15, 5), hull)).toBe(false);
+  });
+
+  it('should measure coverage relative to the bounding box', () => {
+    const straight = [new Vec2(0, 0), new Vec2(10, 0)];
+    const doubled = [new Vec2(0, 0), new Vec2(10, 0), new Vec2(0, 0), new Vec2(10, 0)];
+
+    expect(EraseUtils.coverageRatio(straight)).toBeCloseTo(1);
+    expect(EraseUtils.coverageRatio(doubled)).toBeCloseTo(3);
+  });
+});
@@ -0,0 +1,335 @@
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { CornerDetector } from '../input/corner-detector.js';
+import type { ProcessedStroke } from '../input/stroke-processor.js';
+
+import { RecognitionEvent, RecognitionListener, RecognitionType } from './recognition.js';
+
+/**
+ * Scribble-to-erase recognizer for Zotebook.
+ * A scribble is a stroke that doubles back on itself many times inside a small
+ * area. Such a stroke produces no geometry; instead the segments it covers are
+ * reported in a delete request. Hit testing uses the same point coordinates
+ * `StrokeToGeometryConverter` fits geometry in, so tolerances are in pixels.
+ *
+ * Scribbles are told apart from deliberate zig-zag polylines by combining
+ * several features into a confidence score: zig-zags turn at their corners but
+ * rarely reverse, cover ground instead of overlapping themselves and seldom
+ * cross their own path.
+ */
+
+export interface ScribbleFeatures {
+  readonly cornerCount: number;
+  readonly reversalCount: number;      // Corners that turn back by at least `reversalAngle`
+  readonly selfIntersections: number;  // Crossings between non-adjacent parts of the stroke
+  readonly totalTurns: number;         // Total curvature from `CornerDetector`, in full turns
+  readonly coverageRatio: number;      // Path length over bounding-box diagonal
+}
+
+export interface ScribbleAnalysis {
+  readonly features: ScribbleFeatures;
+  readonly confidence: number;  // 0.0-1.0
+  readonly isScribble: boolean;
+}
+
+export interface EraseRecognitionOptions {
+  readonly minCorners: number;            // Fewer corners and self-crossings is never a scribble
+  readonly reversalAngle: number;         // Turn (radians) that counts as doubling back
+  readonly confidenceThreshold: number;   // Minimum confidence to treat a stroke as a scribble
+  readonly minCrossings: number;          // Stroke crossings that mark a segment as covered
+  readonly segmentSamples: number;        // Samples for hit testing curved segments
+}
+
+const DEFAULT_ERASE_OPTIONS: EraseRecognitionOptions = {
+  minCorners: 4,
+  reversalAngle: (5 * Math.PI) / 6, // 150 degrees, sharper than the points of a pentagram
+  confidenceThreshold: 0.6,
+  minCrossings: 2,
+  segmentSamples: 32
+};
+
+export interface EraseEvent extends RecognitionEvent {
+  readonly type: RecognitionType.ERASE;
+  readonly confidence: number;
+}
+
+/**
+ * Request to delete the segments covered by a scribble
+ */
+export interface EraseRequest {
+  readonly strokeId: string;
+  readonly segmentIds: string[];  // Empty when the scribble covers nothing
+  readonly analysis: ScribbleAnalysis;
+}
+
+/**
+ * Recognizes scribbles and resolves the segments they cover.
+ */
+export class EraseRecognizer {
+  private options: EraseRecognitionOptions;
+  private readonly cornerDetector: CornerDetector;
+  private listeners = new Set<RecognitionListener>();
+
+  constructor(options: Partial<EraseRecognitionOptions> = {}) {
+    this.options = { ...DEFAULT_ERASE_OPTIONS, ...options };
+    this.cornerDetector = new CornerDetector();
+  }
+
+  /**
+   * Subscribe to erase events. Returns an unsubscribe function.
+   */
+  subscribe(listener: RecognitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Return a delete request when the stroke is a scribble, or null when it should
+   * be converted to geometry as usual
+   */
+  recognize(stroke: ProcessedStroke, existing: Iterable<Segment>): EraseRequest | null {
+    const analysis = this.analyze(stroke);
+    if (!analysis.isScribble) return null;
+
+    const path = stroke.resampledPoints.map(p => p.position);
+    const segmentIds: string[] = [];
+    for (const segment of existing) {
+      if (this.isCovered(segment, path)) segmentIds.push(segment.id);
+    }
+
+    const event: EraseEvent = {
+      type: RecognitionType.ERASE,
+      strokeId: stroke.id,
+      segmentIds,
+      constraints: [],
+      timestamp: Date.now(),
+      confidence: analysis.confidence
+    };
+    for (const listener of Array.from(this.listeners)) {
+      listener(event);
+    }
+
+    return { strokeId: stroke.id, segmentIds, analysis };
+  }
+
+  /**
+   * Measure scribble features of a stroke and combine them into a confidence
+   */
+  analyze(stroke: ProcessedStroke): ScribbleAnalysis {
+    const points = stroke.resampledPoints.map(p => p.position);
+    const detection = this.cornerDetector.detectCorners(points);
+    const corners = Array.from(new Set([...stroke.cornerIndices, ...detection.cornerIndices]))
+      .filter(index => index > 0 && index < points.length - 1)
+      .sort((a, b) => a - b);
+
+    const features: ScribbleFeatures = {
+      cornerCount: corners.length,
+      reversalCount: EraseUtils.turningAngles(points, corners)
+        .filter(angle => angle >= this.options.reversalAngle).length,
+      selfIntersections: EraseUtils.countSelfIntersections(points),
+      totalTurns: EraseUtils.totalCurvature(points, detection.curvatures) / (Math.PI * 2),
+      coverageRatio: EraseUtils.coverageRatio(points)
+    };
+
+    const confidence = EraseUtils.scribbleConfidence(features, this.options.minCorners);
+    return { features, confidence, isScribble: confidence >= this.options.confidenceThreshold };
+  }
+
+  /**
+   * Update erase recognition options
+   */
+  updateOptions(newOptions: Partial<EraseRecognitionOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  /**
+   * A segment is covered when the scribble crosses it repeatedly or when it lies
+   * entirely inside the scribbled area
+   */
+  private isCovered(segment: Segment, path: ReadonlyArray<Vec2>): boolean {
+    const samples = segment.samplePoints(segment instanceof LineSegment ? 2 : this.options.segmentSamples);
+    if (!EraseUtils.boundsOverlap(samples, path)) return false;
+
+    if (EraseUtils.countCrossings(samples, path) >= this.options.minCrossings) return true;
+
+    const hull = EraseUtils.convexHull(path);
+    return samples.every(sample => EraseUtils.isInsideConvexPolygon(sample, hull));
+  }
+}
+
+/**
+ * Utility functions for scribble analysis
+ */
+export namespace EraseUtils {
+  /**
+   * Turning angle (0 straight on, π full reversal) at each corner, measured
+   * between the neighboring corners or the stroke ends
+   */
+  export function turningAngles(points: ReadonlyArray<Vec2>, corners: ReadonlyArray<number>): number[] {
+    const angles: number[] = [];
+    for (let i = 0; i < corners.length; i++) {
+      const previous = points[corners[i - 1] ?? 0];
+      const current = points[corners[i] ?? 0];
+      const next = points[corners[i + 1] ?? points.length - 1];
+      if (!previous || !current || !next) continue;
+
+      const incoming = current.subtract(previous);
+      const outgoing = next.subtract(current);
+      if (incoming.lengthSquared < 1e-12 || outgoing.lengthSquared < 1e-12) continue;
+      angles.push(incoming.angleToUnsigned(outgoing));
+    }
+    return angles;
+  }
+
+  /**
+   * Total absolute curvature along a polyline (radians), integrating per-point
+   * curvature over the spacing around each point
+   */
+  export function totalCurvature(points: ReadonlyArray<Vec2>, curvatures: ReadonlyArray<number>): number {
+    let total = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const c = points[i + 1];
+      if (!a || !b || !c) continue;
+      total += Math.abs(curvatures[i] ?? 0) * (a.distanceTo(b) + b.distanceTo(c)) / 2;
+    }
+    return total;
+  }
+
+  export function pathLength(points: ReadonlyArray<Vec2>): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += (points[i] ?? Vec2.ZERO).distanceTo(points[i - 1] ?? Vec2.ZERO);
+    }
+    return length;
+  }
+
+  /**
+   * Path length over bounding-box diagonal: about 1 for a straight stroke,
+   * large for a stroke that keeps going over the same area
+   */
+  export function coverageRatio(points: ReadonlyArray<Vec2>): number {
+    const { min, max } = bounds(points);
+    const diagonal = max.distanceTo(min);
+    return diagonal > 1e-9 ? pathLength(points) / diagonal : 0;
+  }
+
+  /**
+   * Number of crossings between non-adjacent edges of a polyline
+   */
+  export function countSelfIntersections(points: ReadonlyArray<Vec2>): number {
+    let count = 0;
+    for (let i = 0; i + 1 < points.length; i++) {
+      for (let j = i + 2; j + 1 < points.length; j++) {
+        if (edgesCross(points[i], points[i + 1], points[j], points[j + 1])) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Number of crossings between the edges of two polylines
+   */
+  export function countCrossings(a: ReadonlyArray<Vec2>, b: ReadonlyArray<Vec2>): number {
+    let count = 0;
+    for (let i = 0; i + 1 < a.length; i++) {
+      for (let j = 0; j + 1 < b.length; j++) {
+        if (edgesCross(a[i], a[i + 1], b[j], b[j + 1])) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Proper crossing test for two edges; touching endpoints do not count
+   */
+  export function edgesCross(
+    a: Vec2 | undefined,
+    b: Vec2 | undefined,
+    c: Vec2 | undefined,
+    d: Vec2 | undefined
+  ): boolean {
+    if (!a || !b || !c || !d) return false;
+    const d1 = b.subtract(a).cross(c.subtract(a));
+    const d2 = b.subtract(a).cross(d.subtract(a));
+    const d3 = d.subtract(c).cross(a.subtract(c));
+    const d4 = d.subtract(c).cross(b.subtract(c));
+    return d1 * d2 < 0 && d3 * d4 < 0;
+  }
+
+  export function bounds(points: ReadonlyArray<Vec2>): { min: Vec2; max: Vec2 } {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+    return points.length > 0
+      ? { min: new Vec2(minX, minY), max: new Vec2(maxX, maxY) }
+      : { min: Vec2.ZERO, max: Vec2.ZERO };
+  }
+
+  export function boundsOverlap(a: ReadonlyArray<Vec2>, b: ReadonlyArray<Vec2>): boolean {
+    const boxA = bounds(a);
+    const boxB = bounds(b);
+    return boxA.min.x <= boxB.max.x && boxB.min.x <= boxA.max.x &&
+      boxA.min.y <= boxB.max.y && boxB.min.y <= boxA.max.y;
+  }
+
+  /**
+   * Convex hull (Andrew's monotone chain), counter-clockwise in a y-up frame
+   */
+  export function convexHull(points: ReadonlyArray<Vec2>): Vec2[] {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+
+    const turn = (o: Vec2, a: Vec2, b: Vec2): number => a.subtract(o).cross(b.subtract(o));
+    const lower: Vec2[] = [];
+    for (const p of sorted) {
+      while (lower.length >= 2 && turn(lower[lower.length - 2] as Vec2, lower[lower.length - 1] as Vec2, p) <= 0) {
+        lower.pop();
+      }
+      lower.push(p);
+    }
+    const upper: Vec2[] = [];
+    for (const p of sorted.reverse()) {
+      while (upper.length >= 2 && turn(upper[upper.length - 2] as Vec2, upper[upper.length - 1] as Vec2, p) <= 0) {
+        upper.pop();
+      }
+      upper.push(p);
+    }
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+  }
+
+  export function isInsideConvexPolygon(point: Vec2, polygon: ReadonlyArray<Vec2>): boolean {
+    if (polygon.length < 3) return false;
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i] as Vec2;
+      const b = polygon[(i + 1) % polygon.length] as Vec2;
+      if (b.subtract(a).cross(point.subtract(a)) < 0) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Weighted combination of the scribble features. Back-and-forth scribbles score
+   * through reversals, circular ones through self-crossings; both need to stay
+   * inside a small area (coverage) to reach the default threshold.
+   */
+  export function scribbleConfidence(features: ScribbleFeatures, minCorners: number): number {
+    if (Math.max(features.cornerCount, features.selfIntersections) < minCorners) return 0;
+
+    const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+    const reversals = clamp((features.reversalCount - 1) / 4);
+    const coverage = clamp((features.coverageRatio - 2) / 4);
+    const crossings = clamp(features.selfIntersections / 4);
+    const turns = clamp((features.totalTurns - 1) / 3);
+
+    return 0.3 * reversals + 0.3 * coverage + 0.2 * crossings + 0.2 * turns;
+  }
+}
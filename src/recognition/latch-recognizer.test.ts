@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { ConstraintType } from '../core/constraints/constraint.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Pt, TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+import { fitResult } from '../test/geometry.js';
+
+import { LatchEvent, LatchRecognizer, LatchTargetKind, LatchUtils } from './latch-recognizer.js';
+import { RecognitionEvent, RecognitionType } from './recognition.js';
+
+describe('LatchRecognizer', () => {
+  let context: TransformContext;
+  let recognizer: LatchRecognizer;
+  const existing = new LineSegment(new Vec2(0, 0), new Vec2(100, 0), 'existing');
+
+  beforeEach(() => {
+    context = Pt.createTransformContext(new Vec2(800, 600), Vec2.ZERO, 1, 1);
+    recognizer = new LatchRecognizer({ tolerancePixels: 10 });
+  });
+
+  it('should move a nearby endpoint onto an existing endpoint', () => {
+    const drawn = new LineSegment(new Vec2(104, 3), new Vec2(150, 50), 'drawn');
+    const result = recognizer.recognize([fitResult(drawn)], [existing], context, 'stroke_1');
+    const segment = result.results[0]?.segment;
+
+    expect(segment?.id).toBe('drawn');
+    expect(segment?.startPoint.isEqual(new Vec2(100, 0))).toBe(true);
+    expect(segment?.endPoint.isEqual(new Vec2(150, 50))).toBe(true);
+  });
+
+  it('should emit a coincident constraint and a latch event', () => {
+    const drawn = new LineSegment(new Vec2(150, 50), new Vec2(104, 3), 'drawn');
+    const result = recognizer.recognize([fitResult(drawn)], [existing], context, 'stroke_1');
+
+    expect(result.constraints).toHaveLength(1);
+    expect(result.constraints[0]).toMatchObject({
+      type: ConstraintType.COINCIDENT,
+      pointA: { segmentId: 'drawn', point: 'end' },
+      pointB: { segmentId: 'existing', point: 'end' }
+    });
+
+    const event = result.events[0] as LatchEvent;
+    expect(event.type).toBe(RecognitionType.LATCH);
+    expect(event.strokeId).toBe('stroke_1');
+    expect(event.segmentIds).toEqual(['drawn', 'existing']);
+    expect(event.distance).toBeCloseTo(5);
+  });
+
+  it('should measure the tolerance in screen pixels', () => {
+    const drawn = new LineSegment(new Vec2(106, 0), new Vec2(150, 50), 'drawn');
+    const zoomedIn = Pt.createTransformContext(new Vec2(800, 600), Vec2.ZERO, 4, 1);
+
+    expect(recognizer.recognize([fitResult(drawn)], [existing], context).events).toHaveLength(1);
+    expect(recognizer.recognize([fitResult(drawn)], [existing], zoomedIn).events).toHaveLength(0);
+  });
+
+  it('should leave distant geometry untouched', () => {
+    const drawn = new LineSegment(new Vec2(200, 200), new Vec2(300, 200), 'drawn');
+    const result = recognizer.recognize([fitResult(drawn)], [existing], context);
+
+    expect(result.results[0]?.segment).toBe(drawn);
+    expect(result.constraints).toHaveLength(0);
+  });
+
+  it('should latch to the closest candidate', () => {
+    const other = new LineSegment(new Vec2(108, 0), new Vec2(108, 100), 'other');
+    const drawn = new LineSegment(new Vec2(105, 0), new Vec2(150, 50), 'drawn');
+    const result = recognizer.recognize([fitResult(drawn)], [existing, other], context);
+
+    expect(result.events[0]?.target.segmentId).toBe('other');
+  });
+
+  it('should not collapse a segment whose ends are near the same point', () => {
+    const drawn = new LineSegment(new Vec2(103, 0), new Vec2(100, 6), 'drawn');
+    const result = recognizer.recognize([fitResult(drawn)], [existing], context);
+
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0]?.point.point).toBe('start');
+  });
+
+  it('should join consecutive segments of the same stroke', () => {
+    const first = new LineSegment(new Vec2(200, 0), new Vec2(300, 0), 'first');
+    const second = new LineSegment(new Vec2(300, 0), new Vec2(300, 100), 'second');
+    const result = recognizer.recognize([fitResult(first), fitResult(second)], [], context);
+
+    expect(result.constraints).toHaveLength(1);
+    expect(result.constraints[0]).toMatchObject({
+      pointA: { segmentId: 'second', point: 'start' },
+      pointB: { segmentId: 'first', point: 'end' }
+    });
+
+    recognizer.updateOptions({ latchWithinStroke: false });
+    expect(recognizer.recognize([fitResult(first), fitResult(second)], [], context).constraints).toHaveLength(0);
+  });
+
+  it('should latch onto midpoints without a constraint when enabled', () => {
+    const drawn = new LineSegment(new Vec2(52, 4), new Vec2(52, 100), 'drawn');
+
+    expect(recognizer.recognize([fitResult(drawn)], [existing], context).events).toHaveLength(0);
+
+    recognizer.updateOptions({ latchMidpoints: true });
+    const result = recognizer.recognize([fitResult(drawn)], [existing], context);
+
+    expect(result.results[0]?.segment.startPoint.isEqual(new Vec2(50, 0))).toBe(true);
+    expect(result.events[0]?.target.kind).toBe(LatchTargetKind.MIDPOINT);
+    expect(result.constraints).toHaveLength(0);
+  });
+
+  it('should latch onto arc centers when enabled', () => {
+    const circle = new ArcSegment(new Vec2(400, 400), 50, 0, Math.PI * 2, 'circle');
+    const drawn = new LineSegment(new Vec2(403, 398), new Vec2(500, 500), 'drawn');
+    recognizer.updateOptions({ latchCenters: true });
+    const result = recognizer.recognize([fitResult(drawn)], [circle], context);
+
+    expect(result.constraints[0]?.pointB).toEqual({ segmentId: 'circle', point: 'center' });
+  });
+
+  it('should notify subscribers', () => {
+    const received: RecognitionEvent[] = [];
+    const unsubscribe = recognizer.subscribe(event => received.push(event));
+    const drawn = new LineSegment(new Vec2(104, 3), new Vec2(150, 50), 'drawn');
+
+    recognizer.recognize([fitResult(drawn)], [existing], context);
+    unsubscribe();
+    recognizer.recognize([fitResult(drawn)], [existing], context);
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('LatchUtils', () => {
+  it('should keep the sweep of a moved arc', () => {
+    const arc = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI / 2, 'arc');
+    const moved = LatchUtils.moveEndpoints(arc, new Vec2(11, 0), arc.endPoint) as ArcSegment;
+
+    expect(moved.id).toBe('arc');
+    expect(moved.sweepAngle).toBeCloseTo(Math.PI / 2);
+    expect(moved.startPoint.distanceTo(new Vec2(11, 0))).toBeLessThan(1e-9);
+    expect(moved.endPoint.distanceTo(arc.endPoint)).toBeLessThan(1e-9);
+  });
+
+  it('should refuse closed and degenerate results', () => {
+    const circle = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI * 2);
+    const line = new LineSegment(Vec2.ZERO, new Vec2(10, 0));
+
+    expect(LatchUtils.moveEndpoints(circle, Vec2.ZERO, new Vec2(1, 0))).toBeNull();
+    expect(LatchUtils.moveEndpoints(line, Vec2.ZERO, Vec2.ZERO)).toBeNull();
+  });
+
+  it('should only offer endpoints of open segments by default', () => {
+    const circle = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI * 2);
+    const line = new LineSegment(Vec2.ZERO, new Vec2(10, 0));
+
+    expect(LatchUtils.targetsFor(circle)).toHaveLength(0);
+    expect(LatchUtils.targetsFor(line).map(t => t.point)).toEqual(['start', 'end']);
+  });
+});
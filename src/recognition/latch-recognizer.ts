@@ -0,0 +1,274 @@
+import {
+  CoincidentConstraint,
+  ConstraintPoint,
+  ConstraintUtils,
+  PointReference
+} from '../core/constraints/constraint.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { CoordinateSystem, TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+import type { GeometryFitResult } from '../input/stroke-to-geometry.js';
+
+import { RecognitionEvent, RecognitionListener, RecognitionType } from './recognition.js';
+
+/**
+ * Latch recognizer for Zotebook.
+ * Runs on the output of `StrokeToGeometryConverter.convertStroke` and joins the
+ * endpoints of freshly drawn segments to nearby points of existing geometry:
+ * the endpoint is moved onto the target and a coincident constraint records the
+ * connection. Tolerance is measured in screen pixels, so latching feels the same
+ * at every zoom level.
+ */
+
+export enum LatchTargetKind {
+  ENDPOINT = 'endpoint',
+  MIDPOINT = 'midpoint',
+  CENTER = 'center'
+}
+
+/**
+ * Point on a segment that a new endpoint can latch onto (world coordinates).
+ * `point` is set when a coincident constraint can reference the target; midpoints
+ * have no constraint point, so latching onto them only moves the endpoint.
+ */
+export interface LatchTarget {
+  readonly segmentId: string;
+  readonly kind: LatchTargetKind;
+  readonly position: Vec2;
+  readonly point?: ConstraintPoint;
+}
+
+export interface LatchOptions {
+  readonly tolerancePixels: number;     // Maximum screen distance from endpoint to target
+  readonly latchMidpoints: boolean;     // Also latch onto segment midpoints
+  readonly latchCenters: boolean;       // Also latch onto arc centers
+  readonly latchWithinStroke: boolean;  // Join segments of the same stroke to each other
+}
+
+const DEFAULT_LATCH_OPTIONS: LatchOptions = {
+  tolerancePixels: 20,
+  latchMidpoints: false,
+  latchCenters: false,
+  latchWithinStroke: true
+};
+
+export interface LatchEvent extends RecognitionEvent {
+  readonly type: RecognitionType.LATCH;
+  readonly point: PointReference;  // Endpoint of the new segment that latched
+  readonly target: LatchTarget;
+  readonly distance: number;       // Screen pixels the endpoint moved
+}
+
+export interface LatchResult {
+  readonly results: GeometryFitResult[];          // Input results with latched segments swapped in
+  readonly constraints: CoincidentConstraint[];
+  readonly events: LatchEvent[];
+}
+
+export interface LatchMatch {
+  readonly target: LatchTarget;
+  readonly distance: number;
+}
+
+/**
+ * Snaps new segment endpoints onto existing geometry and reports each latch.
+ */
+export class LatchRecognizer {
+  private options: LatchOptions;
+  private listeners = new Set<RecognitionListener>();
+
+  constructor(options: Partial<LatchOptions> = {}) {
+    this.options = { ...DEFAULT_LATCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Subscribe to latch events. Returns an unsubscribe function.
+   */
+  subscribe(listener: RecognitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Latch the geometry of one stroke onto `existing` segments.
+   * Results are processed in order; with `latchWithinStroke` each latched segment
+   * becomes a target for the ones after it.
+   */
+  recognize(
+    results: ReadonlyArray<GeometryFitResult>,
+    existing: Iterable<Segment>,
+    transformContext: TransformContext,
+    strokeId?: string
+  ): LatchResult {
+    const targets: LatchTarget[] = [];
+    for (const segment of existing) {
+      targets.push(...LatchUtils.targetsFor(segment, this.options));
+    }
+
+    const latched: GeometryFitResult[] = [];
+    const constraints: CoincidentConstraint[] = [];
+    const events: LatchEvent[] = [];
+
+    for (const result of results) {
+      const segment = result.segment;
+      const start = this.findTarget(segment.startPoint, targets, transformContext, segment.id);
+      let end = this.findTarget(segment.endPoint, targets, transformContext, segment.id);
+
+      // Both ends on the same spot would collapse the segment
+      if (start && end && start.target.position.isEqual(end.target.position, 1e-9)) {
+        end = start.distance <= end.distance ? null : end;
+      }
+
+      const moved = start || end
+        ? LatchUtils.moveEndpoints(
+          segment,
+          start?.target.position ?? segment.startPoint,
+          end?.target.position ?? segment.endPoint
+        )
+        : null;
+
+      if (moved) {
+        const matches: Array<[ConstraintPoint, LatchMatch | null]> = [['start', start], ['end', end]];
+        for (const [point, match] of matches) {
+          if (!match) continue;
+          const reference: PointReference = { segmentId: segment.id, point };
+          const constraint = LatchUtils.constraintFor(reference, match.target);
+          if (constraint) constraints.push(constraint);
+          events.push(this.createEvent(reference, match, constraint, strokeId));
+        }
+        latched.push({ ...result, segment: moved });
+      } else {
+        latched.push(result);
+      }
+
+      if (this.options.latchWithinStroke) {
+        targets.push(...LatchUtils.targetsFor(moved ?? segment, this.options));
+      }
+    }
+
+    for (const event of events) {
+      for (const listener of Array.from(this.listeners)) {
+        listener(event);
+      }
+    }
+
+    return { results: latched, constraints, events };
+  }
+
+  /**
+   * Closest target within the screen-space tolerance of `position`, ignoring
+   * targets on `excludeSegmentId`
+   */
+  findTarget(
+    position: Vec2,
+    targets: ReadonlyArray<LatchTarget>,
+    transformContext: TransformContext,
+    excludeSegmentId?: string
+  ): LatchMatch | null {
+    const point = transformContext.createPointFromWorld(position);
+    let best: LatchMatch | null = null;
+
+    for (const target of targets) {
+      if (target.segmentId === excludeSegmentId) continue;
+
+      const targetPoint = transformContext.createPointFromWorld(target.position);
+      if (!point.isNearTouch(targetPoint, this.options.tolerancePixels)) continue;
+
+      const distance = point.distanceTo(targetPoint, CoordinateSystem.SCREEN);
+      if (!best || distance < best.distance || (distance === best.distance && isPreferred(target, best.target))) {
+        best = { target, distance };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Update latch options
+   */
+  updateOptions(newOptions: Partial<LatchOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+
+  private createEvent(
+    point: PointReference,
+    match: LatchMatch,
+    constraint: CoincidentConstraint | null,
+    strokeId: string | undefined
+  ): LatchEvent {
+    return {
+      type: RecognitionType.LATCH,
+      ...(strokeId !== undefined ? { strokeId } : {}),
+      segmentIds: [point.segmentId, match.target.segmentId],
+      constraints: constraint ? [constraint] : [],
+      timestamp: Date.now(),
+      point,
+      target: match.target,
+      distance: match.distance
+    };
+  }
+}
+
+// On equal distance an endpoint beats a midpoint or center
+function isPreferred(candidate: LatchTarget, current: LatchTarget): boolean {
+  return candidate.kind === LatchTargetKind.ENDPOINT && current.kind !== LatchTargetKind.ENDPOINT;
+}
+
+/**
+ * Utility functions for latching
+ */
+export namespace LatchUtils {
+  /**
+   * Points of a segment that new endpoints may latch onto
+   */
+  export function targetsFor(segment: Segment, options: LatchOptions = DEFAULT_LATCH_OPTIONS): LatchTarget[] {
+    const targets: LatchTarget[] = [];
+    const segmentId = segment.id;
+
+    if (!segment.isClosed) {
+      targets.push({ segmentId, kind: LatchTargetKind.ENDPOINT, position: segment.startPoint, point: 'start' });
+      targets.push({ segmentId, kind: LatchTargetKind.ENDPOINT, position: segment.endPoint, point: 'end' });
+      if (options.latchMidpoints) {
+        targets.push({ segmentId, kind: LatchTargetKind.MIDPOINT, position: segment.pointAt(0.5) });
+      }
+    }
+    if (options.latchCenters && segment instanceof ArcSegment) {
+      targets.push({ segmentId, kind: LatchTargetKind.CENTER, position: segment.center, point: 'center' });
+    }
+    return targets;
+  }
+
+  /**
+   * Coincident constraint joining a latched endpoint to its target, or null when
+   * the target has no constraint point (midpoints)
+   */
+  export function constraintFor(point: PointReference, target: LatchTarget): CoincidentConstraint | null {
+    if (target.point === undefined) return null;
+    return ConstraintUtils.coincident(point, { segmentId: target.segmentId, point: target.point });
+  }
+
+  /**
+   * Copy of a segment (same id) with new endpoints. Arcs keep their bulge, so the
+   * sweep is preserved and the radius adapts. Returns null for closed or
+   * unsupported segments and when the result would be degenerate.
+   */
+  export function moveEndpoints(segment: Segment, start: Vec2, end: Vec2): Segment | null {
+    if (segment.isClosed || start.isEqual(end, 1e-9)) return null;
+
+    if (segment instanceof LineSegment) {
+      return new LineSegment(start, end, segment.id);
+    }
+
+    if (segment instanceof ArcSegment) {
+      const bulge = Math.tan(segment.sweepAngle / 4);
+      if (bulge === 0) return null;
+      const arc = ArcSegment.fromStartEndAndBulge(start, end, bulge);
+      return new ArcSegment(arc.center, arc.radius, arc.startAngle, arc.sweepAngle, segment.id);
+    }
+
+    return null;
+  }
+}
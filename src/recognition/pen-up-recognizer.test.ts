@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+
+import { ConstraintUtils } from '../core/constraints/constraint.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { PenUpRecognizer, PenUpUtils } from './pen-up-recognizer.js';
+import { RecognitionEvent, RecognitionType } from './recognition.js';
+
+describe('PenUpRecognizer', () => {
+  const bottom = new LineSegment(new Vec2(0, 0), new Vec2(100, 0), 'bottom');
+  const left = new LineSegment(new Vec2(0, 0), new Vec2(0, 100), 'left');
+
+  it('should accept confident relations automatically', () => {
+    const recognizer = new PenUpRecognizer();
+    const top = new LineSegment(new Vec2(0, 100), new Vec2(100, 100.5), 'top');
+    const result = recognizer.recognize([top], [bottom, left]);
+    const types = result.accepted.map(c => c.type);
+
+    expect(types).toContain(RecognitionType.PARALLEL);
+    expect(types).toContain(RecognitionType.PERPENDICULAR);
+    expect(types).toContain(RecognitionType.EQUAL_LENGTH);
+  });
+
+  it('should accept at most one relation of each type per segment', () => {
+    const recognizer = new PenUpRecognizer();
+    const tilted = new LineSegment(new Vec2(0, 0), new Vec2(100, 2), 'tilted');
+    const other = new LineSegment(new Vec2(0, 50), new Vec2(100, 50), 'other');
+    const top = new LineSegment(new Vec2(0, 100), new Vec2(100, 100), 'top');
+    const result = recognizer.recognize([top], [tilted, other]);
+    const parallel = result.accepted.filter(c => c.type === RecognitionType.PARALLEL);
+
+    expect(parallel).toHaveLength(1);
+    expect(parallel[0]?.segmentIds[1]).toBe('other');
+    expect(result.suggestions.some(c => c.type === RecognitionType.PARALLEL)).toBe(true);
+  });
+
+  it('should keep weaker relations as suggestions', () => {
+    const recognizer = new PenUpRecognizer({ autoAcceptThreshold: 1.1 });
+    const top = new LineSegment(new Vec2(0, 100), new Vec2(100, 104), 'top');
+    const result = recognizer.recognize([top], [bottom]);
+
+    expect(result.accepted).toHaveLength(0);
+    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.events.every(e => !('accepted' in e) || e.accepted === false)).toBe(true);
+  });
+
+  it('should compare lines of the same stroke with each other', () => {
+    const recognizer = new PenUpRecognizer();
+    const first = new LineSegment(new Vec2(0, 0), new Vec2(100, 0), 'first');
+    const second = new LineSegment(new Vec2(100, 0), new Vec2(100, 100), 'second');
+    const result = recognizer.recognize([first, second], []);
+
+    expect(result.accepted.map(c => c.segmentIds)).toContainEqual(['second', 'first']);
+  });
+
+  it('should not propose relations that already exist', () => {
+    const recognizer = new PenUpRecognizer();
+    const top = new LineSegment(new Vec2(0, 100), new Vec2(100, 100), 'top');
+    const existing = [ConstraintUtils.parallel('bottom', 'top')];
+    const result = recognizer.recognize([top], [bottom], existing);
+
+    expect(result.accepted.some(c => c.type === RecognitionType.PARALLEL)).toBe(false);
+  });
+
+  it('should ignore non-line segments', () => {
+    const recognizer = new PenUpRecognizer();
+    const arc = new ArcSegment(Vec2.ZERO, 100, 0, Math.PI / 2, 'arc');
+
+    expect(recognizer.recognize([arc], [bottom]).events).toHaveLength(0);
+  });
+
+  it('should report events to subscribers', () => {
+    const recognizer = new PenUpRecognizer();
+    const received: RecognitionEvent[] = [];
+    recognizer.subscribe(event => received.push(event));
+    const top = new LineSegment(new Vec2(0, 100), new Vec2(100, 100), 'top');
+
+    recognizer.recognize([top], [bottom], [], 'stroke_1');
+
+    expect(received.length).toBeGreaterThan(0);
+    expect(received[0]?.strokeId).toBe('stroke_1');
+    expect(received[0]?.segmentIds[0]).toBe('top');
+  });
+});
+
+describe('PenUpUtils', () => {
+  it('should build order-independent relation keys', () => {
+    expect(PenUpUtils.relationKey(ConstraintUtils.parallel('a', 'b')))
+      .toBe(PenUpUtils.relationKey(ConstraintUtils.parallel('b', 'a')));
+    expect(PenUpUtils.relationKey(ConstraintUtils.parallel('a', 'b')))
+      .not.toBe(PenUpUtils.relationKey(ConstraintUtils.perpendicular('a', 'b')));
+  });
+});
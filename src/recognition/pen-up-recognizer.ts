@@ -0,0 +1,164 @@
+import { Constraint, ConstraintUtils } from '../core/constraints/constraint.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+
+import { RecognitionEvent, RecognitionListener, RecognizedConstraint } from './recognition.js';
+import {
+  EqualLengthRecognizer,
+  ParallelRecognizer,
+  PerpendicularRecognizer,
+  RelationRecognizer,
+  RelationUtils
+} from './relation-recognizers.js';
+
+/**
+ * Pen-up recognition (stage 2 of the recognition pipeline).
+ * Once a stroke has been converted and latched, every new line is compared with
+ * the existing lines and with the other lines of the same stroke. Candidates are
+ * ranked by confidence: the best candidate of each relation type is accepted
+ * automatically when it is confident enough, and the rest above a lower
+ * threshold are kept as suggestions the user can confirm.
+ */
+
+export interface PenUpRecognitionOptions {
+  readonly autoAcceptThreshold: number;  // Minimum confidence to add a constraint automatically
+  readonly suggestionThreshold: number;  // Minimum confidence to offer a suggestion
+  readonly maxSuggestions: number;       // Per new segment
+}
+
+const DEFAULT_PEN_UP_OPTIONS: PenUpRecognitionOptions = {
+  autoAcceptThreshold: 0.8,
+  suggestionThreshold: 0.3,
+  maxSuggestions: 3
+};
+
+export interface PenUpRecognitionEvent extends RecognitionEvent {
+  readonly confidence: number;
+  readonly accepted: boolean;  // False for suggestions
+}
+
+export interface PenUpRecognitionResult {
+  readonly accepted: RecognizedConstraint[];
+  readonly suggestions: RecognizedConstraint[];
+  readonly events: PenUpRecognitionEvent[];
+}
+
+/**
+ * Runs the relation recognizers on the geometry of a completed stroke.
+ */
+export class PenUpRecognizer {
+  private options: PenUpRecognitionOptions;
+  private readonly recognizers: ReadonlyArray<RelationRecognizer>;
+  private listeners = new Set<RecognitionListener>();
+
+  constructor(
+    options: Partial<PenUpRecognitionOptions> = {},
+    recognizers: ReadonlyArray<RelationRecognizer> = PenUpUtils.createDefaultRecognizers()
+  ) {
+    this.options = { ...DEFAULT_PEN_UP_OPTIONS, ...options };
+    this.recognizers = recognizers;
+  }
+
+  /**
+   * Subscribe to pen-up recognition events. Returns an unsubscribe function.
+   */
+  subscribe(listener: RecognitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Recognize relations between the new segments of one stroke and `existing`
+   * segments. Relations already covered by `existingConstraints` are not proposed again.
+   */
+  recognize(
+    segments: ReadonlyArray<Segment>,
+    existing: Iterable<Segment>,
+    existingConstraints: ReadonlyArray<Constraint> = [],
+    strokeId?: string
+  ): PenUpRecognitionResult {
+    const neighbors = Array.from(existing).filter((s): s is LineSegment => s instanceof LineSegment);
+    const known = new Set(existingConstraints.map(PenUpUtils.relationKey));
+    const accepted: RecognizedConstraint[] = [];
+    const suggestions: RecognizedConstraint[] = [];
+
+    for (const segment of segments) {
+      if (!(segment instanceof LineSegment)) continue;
+
+      const candidates = RelationUtils.rank(
+        this.recognizers
+          .flatMap(recognizer => recognizer.recognize(segment, neighbors))
+          .filter(candidate => !known.has(PenUpUtils.relationKey(candidate.constraint)))
+      );
+
+      const acceptedTypes = new Set<string>();
+      let suggested = 0;
+      for (const candidate of candidates) {
+        if (candidate.confidence >= this.options.autoAcceptThreshold && !acceptedTypes.has(candidate.type)) {
+          acceptedTypes.add(candidate.type);
+          accepted.push(candidate);
+          known.add(PenUpUtils.relationKey(candidate.constraint));
+        } else if (candidate.confidence >= this.options.suggestionThreshold && suggested < this.options.maxSuggestions) {
+          suggested++;
+          suggestions.push(candidate);
+        }
+      }
+
+      // Later lines of the same stroke are compared with this one too
+      neighbors.push(segment);
+    }
+
+    const events = [
+      ...accepted.map(candidate => PenUpUtils.toEvent(candidate, true, strokeId)),
+      ...suggestions.map(candidate => PenUpUtils.toEvent(candidate, false, strokeId))
+    ];
+    for (const event of events) {
+      for (const listener of Array.from(this.listeners)) {
+        listener(event);
+      }
+    }
+
+    return { accepted, suggestions, events };
+  }
+
+  /**
+   * Update pen-up recognition options
+   */
+  updateOptions(newOptions: Partial<PenUpRecognitionOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+}
+
+/**
+ * Utility functions for pen-up recognition
+ */
+export namespace PenUpUtils {
+  export function createDefaultRecognizers(): RelationRecognizer[] {
+    return [new ParallelRecognizer(), new PerpendicularRecognizer(), new EqualLengthRecognizer()];
+  }
+
+  /**
+   * Order-independent key identifying a constraint type between a set of segments
+   */
+  export function relationKey(constraint: Constraint): string {
+    return `${constraint.type}:${ConstraintUtils.referencedSegmentIds(constraint).sort().join(',')}`;
+  }
+
+  export function toEvent(
+    candidate: RecognizedConstraint,
+    accepted: boolean,
+    strokeId?: string
+  ): PenUpRecognitionEvent {
+    return {
+      type: candidate.type,
+      ...(strokeId !== undefined ? { strokeId } : {}),
+      segmentIds: candidate.segmentIds,
+      constraints: [candidate.constraint],
+      timestamp: Date.now(),
+      confidence: candidate.confidence,
+      accepted
+    };
+  }
+}
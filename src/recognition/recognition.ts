@@ -0,0 +1,40 @@
+import type { Constraint } from '../core/constraints/constraint.js';
+
+/**
+ * Shared types for the recognizers that run after stroke conversion.
+ * Each recognizer reports what it inferred as recognition events so the UI can
+ * show feedback (e.g. a latch glyph) and history can describe the change.
+ */
+
+export enum RecognitionType {
+  LATCH = 'latch',
+  PARALLEL = 'parallel',
+  PERPENDICULAR = 'perpendicular',
+  EQUAL_LENGTH = 'equal_length',
+  ERASE = 'erase',
+  CLOSED_POLYGON = 'closed_polygon',
+  RECTANGLE = 'rectangle',
+  REGULAR_POLYGON = 'regular_polygon',
+  CIRCLE = 'circle',
+  CONCENTRIC = 'concentric'
+}
+
+export interface RecognitionEvent {
+  readonly type: RecognitionType;
+  readonly strokeId?: string;                    // Stroke whose geometry was recognized
+  readonly segmentIds: ReadonlyArray<string>;    // Segments involved, new segment first
+  readonly constraints: ReadonlyArray<Constraint>; // Constraints created for this recognition
+  readonly timestamp: number;
+}
+
+/**
+ * Constraint proposed by a recognizer, not yet added to the sketch
+ */
+export interface RecognizedConstraint {
+  readonly type: RecognitionType;
+  readonly constraint: Constraint;
+  readonly segmentIds: readonly [string, string]; // New segment, related segment
+  readonly confidence: number;                    // 0.0-1.0
+}
+
+export type RecognitionListener = (event: RecognitionEvent) => void;
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+
+import { ConstraintType } from '../core/constraints/constraint.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { RecognitionType } from './recognition.js';
+import {
+  EqualLengthRecognizer,
+  ParallelRecognizer,
+  PerpendicularRecognizer,
+  RelationUtils
+} from './relation-recognizers.js';
+
+function lineAt(id: string, start: Vec2, angleDegrees: number, length: number): LineSegment {
+  const end = LineSegment.fromPointAndAngle(start, (angleDegrees * Math.PI) / 180, length).endPoint;
+  return new LineSegment(start, end, id);
+}
+
+describe('ParallelRecognizer', () => {
+  const recognizer = new ParallelRecognizer();
+  const base = lineAt('base', Vec2.ZERO, 0, 100);
+
+  it('should recognize near-parallel lines within the tolerance', () => {
+    const drawn = lineAt('drawn', new Vec2(0, 20), 3, 100);
+    const [candidate] = recognizer.recognize(drawn, [base]);
+
+    expect(candidate?.type).toBe(RecognitionType.PARALLEL);
+    expect(candidate?.constraint).toMatchObject({
+      type: ConstraintType.PARALLEL,
+      segment1Id: 'drawn',
+      segment2Id: 'base'
+    });
+    expect(candidate?.confidence).toBeGreaterThan(0);
+    expect(candidate?.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('should treat opposite directions as parallel', () => {
+    const drawn = lineAt('drawn', new Vec2(100, 20), 181, 100);
+
+    expect(recognizer.recognize(drawn, [base])).toHaveLength(1);
+  });
+
+  it('should reject lines beyond the tolerance', () => {
+    const drawn = lineAt('drawn', new Vec2(0, 20), 8, 100);
+
+    expect(recognizer.recognize(drawn, [base])).toHaveLength(0);
+  });
+
+  it('should rank more accurate matches first', () => {
+    const close = lineAt('close', new Vec2(0, 40), 1, 100);
+    const rough = lineAt('rough', new Vec2(0, 60), 4, 100);
+    const drawn = lineAt('drawn', new Vec2(0, 20), 0, 100);
+
+    expect(recognizer.recognize(drawn, [rough, close]).map(c => c.segmentIds[1])).toEqual(['close', 'rough']);
+  });
+});
+
+describe('PerpendicularRecognizer', () => {
+  const recognizer = new PerpendicularRecognizer();
+  const base = lineAt('base', Vec2.ZERO, 0, 100);
+
+  it('should recognize near-right angles', () => {
+    const drawn = lineAt('drawn', new Vec2(100, 0), 88, 100);
+    const [candidate] = recognizer.recognize(drawn, [base]);
+
+    expect(candidate?.constraint.type).toBe(ConstraintType.PERPENDICULAR);
+  });
+
+  it('should be more confident when the lines meet', () => {
+    const meeting = lineAt('drawn', new Vec2(100, 0), 88, 100);
+    const apart = lineAt('drawn', new Vec2(400, 300), 88, 100);
+
+    const meetingConfidence = recognizer.recognize(meeting, [base])[0]?.confidence ?? 0;
+    const apartConfidence = recognizer.recognize(apart, [base])[0]?.confidence ?? 0;
+    expect(meetingConfidence).toBeGreaterThan(apartConfidence);
+  });
+
+  it('should reject oblique lines', () => {
+    expect(recognizer.recognize(lineAt('drawn', Vec2.ZERO, 80, 100), [base])).toHaveLength(0);
+  });
+});
+
+describe('EqualLengthRecognizer', () => {
+  const recognizer = new EqualLengthRecognizer();
+  const base = lineAt('base', Vec2.ZERO, 0, 100);
+
+  it('should recognize lengths within the relative tolerance', () => {
+    const [candidate] = recognizer.recognize(lineAt('drawn', new Vec2(0, 50), 45, 96), [base]);
+
+    expect(candidate?.constraint.type).toBe(ConstraintType.EQUAL_LENGTH);
+    expect(candidate?.confidence).toBeCloseTo(0.6);
+  });
+
+  it('should reject clearly different lengths', () => {
+    expect(recognizer.recognize(lineAt('drawn', Vec2.ZERO, 90, 80), [base])).toHaveLength(0);
+  });
+
+  it('should use the absolute tolerance for short lines', () => {
+    const short = lineAt('short', Vec2.ZERO, 0, 5);
+
+    expect(recognizer.recognize(lineAt('drawn', Vec2.ZERO, 90, 6.5), [short])).toHaveLength(1);
+  });
+});
+
+describe('RelationUtils', () => {
+  it('should measure the gap between segments', () => {
+    const a = new LineSegment(Vec2.ZERO, new Vec2(100, 0));
+    const b = new LineSegment(new Vec2(50, 10), new Vec2(50, 100));
+
+    expect(RelationUtils.gap(a, b)).toBeCloseTo(10);
+    expect(RelationUtils.isNearby(a, b, 0.25)).toBe(true);
+    expect(RelationUtils.isNearby(a, b, 0.05)).toBe(false);
+  });
+});
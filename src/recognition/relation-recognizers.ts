@@ -0,0 +1,206 @@
+import { ConstraintUtils } from '../core/constraints/constraint.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+
+import { RecognitionType, RecognizedConstraint } from './recognition.js';
+
+/**
+ * Pairwise relation recognizers for pen-up analysis.
+ * Each recognizer compares a newly drawn line with neighboring lines and proposes
+ * a constraint for every relation that is close enough to be intentional on a
+ * hand-drawn sketch, with a confidence that falls off towards the tolerance.
+ */
+
+export interface RelationRecognizer {
+  readonly type: RecognitionType;
+  recognize(segment: LineSegment, neighbors: ReadonlyArray<LineSegment>): RecognizedConstraint[];
+}
+
+export interface AngleRecognizerOptions {
+  readonly angleTolerance: number;    // Maximum deviation in radians
+  readonly confidenceBoost: number;   // Multiplier when the lines are close together
+  readonly proximityRatio: number;    // "Close" gap relative to the longer line
+}
+
+const DEFAULT_ANGLE_RECOGNIZER_OPTIONS: AngleRecognizerOptions = {
+  angleTolerance: Math.PI / 36, // 5 degrees
+  confidenceBoost: 1.5,
+  proximityRatio: 0.25
+};
+
+export interface EqualLengthRecognizerOptions {
+  readonly relativeTolerance: number; // Fraction of the longer length
+  readonly absoluteTolerance: number; // Floor for short lines, world units
+}
+
+const DEFAULT_EQUAL_LENGTH_OPTIONS: EqualLengthRecognizerOptions = {
+  relativeTolerance: 0.1,
+  absoluteTolerance: 2.0
+};
+
+/**
+ * Near-parallel (or anti-parallel) lines
+ */
+export class ParallelRecognizer implements RelationRecognizer {
+  readonly type = RecognitionType.PARALLEL;
+  private options: AngleRecognizerOptions;
+
+  constructor(options: Partial<AngleRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_ANGLE_RECOGNIZER_OPTIONS, ...options };
+  }
+
+  recognize(segment: LineSegment, neighbors: ReadonlyArray<LineSegment>): RecognizedConstraint[] {
+    const tolerance = this.options.angleTolerance;
+    const candidates: RecognizedConstraint[] = [];
+    if (RelationUtils.isDegenerate(segment)) return candidates;
+
+    for (const neighbor of neighbors) {
+      if (neighbor.id === segment.id || RelationUtils.isDegenerate(neighbor)) continue;
+      // Unit directions: |cross| is the sine of the angle between the lines
+      if (!segment.isParallelTo(neighbor, Math.sin(tolerance))) continue;
+
+      const deviation = Math.asin(Math.min(1, Math.abs(segment.direction.cross(neighbor.direction))));
+      let confidence = 1 - deviation / tolerance;
+      confidence *= 0.5 + 0.5 * RelationUtils.lengthRatio(segment, neighbor);
+      if (RelationUtils.isNearby(segment, neighbor, this.options.proximityRatio)) {
+        confidence *= this.options.confidenceBoost;
+      }
+
+      candidates.push({
+        type: this.type,
+        constraint: ConstraintUtils.parallel(segment.id, neighbor.id),
+        segmentIds: [segment.id, neighbor.id],
+        confidence: Math.min(1, confidence)
+      });
+    }
+    return RelationUtils.rank(candidates);
+  }
+
+  updateOptions(newOptions: Partial<AngleRecognizerOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+}
+
+/**
+ * Lines meeting at a near-right angle
+ */
+export class PerpendicularRecognizer implements RelationRecognizer {
+  readonly type = RecognitionType.PERPENDICULAR;
+  private options: AngleRecognizerOptions;
+
+  constructor(options: Partial<AngleRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_ANGLE_RECOGNIZER_OPTIONS, ...options };
+  }
+
+  recognize(segment: LineSegment, neighbors: ReadonlyArray<LineSegment>): RecognizedConstraint[] {
+    const tolerance = this.options.angleTolerance;
+    const candidates: RecognizedConstraint[] = [];
+    if (RelationUtils.isDegenerate(segment)) return candidates;
+
+    for (const neighbor of neighbors) {
+      if (neighbor.id === segment.id || RelationUtils.isDegenerate(neighbor)) continue;
+      // Unit directions: |dot| is the sine of the deviation from 90°
+      if (!segment.isPerpendicularTo(neighbor, Math.sin(tolerance))) continue;
+
+      const deviation = Math.asin(Math.min(1, Math.abs(segment.direction.dot(neighbor.direction))));
+      let confidence = 1 - deviation / tolerance;
+      if (RelationUtils.isNearby(segment, neighbor, this.options.proximityRatio)) {
+        confidence *= this.options.confidenceBoost;
+      }
+
+      candidates.push({
+        type: this.type,
+        constraint: ConstraintUtils.perpendicular(segment.id, neighbor.id),
+        segmentIds: [segment.id, neighbor.id],
+        confidence: Math.min(1, confidence)
+      });
+    }
+    return RelationUtils.rank(candidates);
+  }
+
+  updateOptions(newOptions: Partial<AngleRecognizerOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+}
+
+/**
+ * Lines of nearly the same length
+ */
+export class EqualLengthRecognizer implements RelationRecognizer {
+  readonly type = RecognitionType.EQUAL_LENGTH;
+  private options: EqualLengthRecognizerOptions;
+
+  constructor(options: Partial<EqualLengthRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_EQUAL_LENGTH_OPTIONS, ...options };
+  }
+
+  recognize(segment: LineSegment, neighbors: ReadonlyArray<LineSegment>): RecognizedConstraint[] {
+    const candidates: RecognizedConstraint[] = [];
+    if (RelationUtils.isDegenerate(segment)) return candidates;
+
+    for (const neighbor of neighbors) {
+      if (neighbor.id === segment.id || RelationUtils.isDegenerate(neighbor)) continue;
+
+      const difference = Math.abs(segment.length - neighbor.length);
+      const tolerance = Math.max(
+        this.options.absoluteTolerance,
+        Math.max(segment.length, neighbor.length) * this.options.relativeTolerance
+      );
+      if (difference > tolerance) continue;
+
+      candidates.push({
+        type: this.type,
+        constraint: ConstraintUtils.equalLength(segment.id, neighbor.id),
+        segmentIds: [segment.id, neighbor.id],
+        confidence: 1 - difference / tolerance
+      });
+    }
+    return RelationUtils.rank(candidates);
+  }
+
+  updateOptions(newOptions: Partial<EqualLengthRecognizerOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+  }
+}
+
+/**
+ * Utility functions shared by the relation recognizers
+ */
+export namespace RelationUtils {
+  export function isDegenerate(line: LineSegment): boolean {
+    return line.length < 1e-9;
+  }
+
+  /**
+   * Shorter length over longer length, 1 for equal lengths
+   */
+  export function lengthRatio(a: LineSegment, b: LineSegment): number {
+    return Math.min(a.length, b.length) / Math.max(a.length, b.length);
+  }
+
+  /**
+   * Smallest endpoint-to-segment distance between two lines
+   */
+  export function gap(a: LineSegment, b: LineSegment): number {
+    return Math.min(
+      b.distanceToPoint(a.startPoint),
+      b.distanceToPoint(a.endPoint),
+      a.distanceToPoint(b.startPoint),
+      a.distanceToPoint(b.endPoint)
+    );
+  }
+
+  /**
+   * Whether two lines are close relative to their size; scale-independent, so it
+   * behaves the same at every zoom level
+   */
+  export function isNearby(a: LineSegment, b: LineSegment, ratio: number): boolean {
+    return gap(a, b) <= Math.max(a.length, b.length) * ratio;
+  }
+
+  /**
+   * Sort candidates by descending confidence
+   */
+  export function rank(candidates: RecognizedConstraint[]): RecognizedConstraint[] {
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+  }
+}
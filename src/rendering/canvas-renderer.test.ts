@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+
+import { ConstraintUtils } from '../core/constraints/constraint.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { Mat3 } from '../core/math/mat3.js';
+import { TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { CanvasRenderUtils, ColorResolver, DEFAULT_CANVAS_RENDERER_OPTIONS } from './canvas-renderer.js';
+
+describe('CanvasRenderUtils', () => {
+  it('should map world to device pixels through the transform context', () => {
+    const context = new TransformContext(new Vec2(100, 100), Mat3.translation(10, 0).multiply(Mat3.scale(2)), 2);
+    const matrix = CanvasRenderUtils.worldToScreen(context);
+
+    expect(matrix.transformPoint(new Vec2(1, 1)).isEqual(new Vec2(24, 4))).toBe(true);
+  });
+
+  it('should bound transformed boxes', () => {
+    const box = new LineSegment(Vec2.ZERO, new Vec2(2, 1)).boundingBox;
+    const bounds = CanvasRenderUtils.transformBounds(box, Mat3.rotation(Math.PI / 2));
+
+    expect(bounds.min.x).toBeCloseTo(-1);
+    expect(bounds.max.y).toBeCloseTo(2);
+  });
+
+  describe('Grid', () => {
+    it('should cover the canvas at the configured spacing', () => {
+      const lines = CanvasRenderUtils.gridLines(Mat3.IDENTITY, new Vec2(100, 50), 10, 4);
+
+      expect(lines.filter(l => l.from.x === l.to.x)).toHaveLength(11);
+      expect(lines.filter(l => l.from.y === l.to.y)).toHaveLength(6);
+      expect(lines.filter(l => l.major).map(l => l.from.x + l.from.y)).toEqual([0, 50, 100, 0, 50]);
+    });
+
+    it('should thin out when zoomed out', () => {
+      const lines = CanvasRenderUtils.gridLines(Mat3.scale(0.1), new Vec2(100, 100), 10, 4);
+
+      // 10 world units are 1 pixel apart; the grid steps up to 50 units (5 pixels)
+      expect(lines.filter(l => l.from.x === l.to.x)).toHaveLength(21);
+    });
+  });
+
+  describe('Constraint anchors', () => {
+    const segments = new Map<string, Segment>([
+      ['a', new LineSegment(Vec2.ZERO, new Vec2(10, 0), 'a')],
+      ['b', new LineSegment(new Vec2(0, 5), new Vec2(0, 15), 'b')],
+      ['c', new ArcSegment(new Vec2(3, 3), 1, 0, Math.PI, 'c')]
+    ]);
+    const lookup = (id: string): Segment | undefined => segments.get(id);
+
+    it('should place two-segment constraints at both midpoints', () => {
+      const anchors = CanvasRenderUtils.constraintAnchors(ConstraintUtils.perpendicular('a', 'b'), lookup);
+
+      expect(anchors.map(p => [p.x, p.y])).toEqual([[5, 0], [0, 10]]);
+    });
+
+    it('should place point constraints at the referenced point', () => {
+      const coincident = ConstraintUtils.coincident({ segmentId: 'a', point: 'end' }, { segmentId: 'b', point: 'start' });
+      const fixedCenter = ConstraintUtils.fixed('c', 'center');
+
+      expect(CanvasRenderUtils.constraintAnchors(coincident, lookup)[0]?.isEqual(new Vec2(10, 0))).toBe(true);
+      expect(CanvasRenderUtils.constraintAnchors(fixedCenter, lookup)[0]?.isEqual(new Vec2(3, 3))).toBe(true);
+    });
+
+    it('should skip missing segments', () => {
+      expect(CanvasRenderUtils.constraintAnchors(ConstraintUtils.horizontal('ghost'), lookup)).toEqual([]);
+    });
+  });
+
+  describe('Colors', () => {
+    // Stands in for a canvas context, which ignores colors it cannot parse
+    function resolver(known: Record<string, string>): ColorResolver {
+      let style = '#000000';
+      return {
+        get fillStyle(): string { return style; },
+        set fillStyle(value: string | CanvasGradient | CanvasPattern) {
+          if (typeof value !== 'string') return;
+          style = value.startsWith('#') ? value : known[value] ?? style;
+        }
+      };
+    }
+
+    it('should read hex and rgba colors premultiplied', () => {
+      expect(CanvasRenderUtils.parseColor('#f00', null)).toEqual([1, 0, 0, 1]);
+      expect(CanvasRenderUtils.parseColor('#336699', null)).toEqual([0.2, 0.4, 0.6, 1]);
+
+      const translucent = CanvasRenderUtils.parseColor('rgba(255, 0, 0, 0.5)', null);
+      expect(translucent.map(channel => Number(channel.toFixed(6)))).toEqual([0.5, 0, 0, 0.5]);
+    });
+
+    it('should resolve named colors through the resolver', () => {
+      expect(CanvasRenderUtils.parseColor('black', resolver({ black: '#000000' }))).toEqual([0, 0, 0, 1]);
+      expect(CanvasRenderUtils.parseColor('white', resolver({ white: '#ffffff' }))).toEqual([1, 1, 1, 1]);
+    });
+
+    it('should reject colors the resolver ignores', () => {
+      expect(() => CanvasRenderUtils.parseColor('blurple', resolver({}))).toThrow('Unsupported color "blurple"');
+      expect(() => CanvasRenderUtils.parseColor('black', null)).toThrow('Unsupported color "black"');
+    });
+
+    it('should check every color option', () => {
+      const options = { ...DEFAULT_CANVAS_RENDERER_OPTIONS, inkColor: 'blurple' };
+
+      expect(() => CanvasRenderUtils.validateColors(DEFAULT_CANVAS_RENDERER_OPTIONS, null)).not.toThrow();
+      expect(() => CanvasRenderUtils.validateColors(options, resolver({}))).toThrow('Unsupported color "blurple"');
+    });
+  });
+});
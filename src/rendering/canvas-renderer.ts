@@ -0,0 +1,652 @@
+import { Constraint, ConstraintPoint, ConstraintType, ConstraintUtils } from '../core/constraints/constraint.js';
+import { DrawingChangeEvent, DrawingChangeType, DrawingModel } from '../core/document/drawing-model.js';
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { BoundingBox, Segment, SegmentUtils } from '../core/geometry/segment.js';
+import { SplineSegment } from '../core/geometry/spline-segment.js';
+import { DEFAULT_GRID_SETTINGS, GridSettings } from '../core/io/zotebook-format.js';
+import { Mat3 } from '../core/math/mat3.js';
+import { TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { RENDER_LAYER_ORDER, RenderLayer, RenderLayerId } from './render-layer.js';
+import { Renderer, RendererBackend, SelectionArea, StrokePreview } from './renderer.js';
+
+/**
+ * Canvas 2D renderer for Zotebook.
+ * Paints the drawing on stacked canvases (grid, geometry, constraints, stroke
+ * preview, selection overlay). Changes only mark the affected device-pixel
+ * rectangles of the affected layer dirty, and the next frame repaints just those.
+ * World geometry is mapped to device pixels through the `TransformContext`
+ * (world → viewport → screen), so the backing store honours devicePixelRatio.
+ */
+
+export interface CanvasRendererOptions {
+  readonly grid: GridSettings;
+  readonly backgroundColor: string;
+  readonly gridColor: string;
+  readonly majorGridColor: string;
+  readonly majorGridEvery: number;      // Grid lines between major lines
+  readonly minGridSpacing: number;      // CSS pixels; sparser grid levels below this
+  readonly segmentColor: string;
+  readonly segmentWidth: number;        // CSS pixels
+  readonly constraintColor: string;
+  readonly constraintGlyphSize: number; // CSS pixels
+  readonly inkColor: string;            // Raw stroke preview
+  readonly previewColor: string;        // Fitted geometry preview
+  readonly selectionColor: string;
+  readonly selectionWidth: number;      // CSS pixels
+  readonly curveSamples: number;        // Polyline points for curves without a canvas primitive
+  readonly layers: ReadonlyArray<RenderLayerId>; // Layers to create; another backend may draw the rest
+}
+
+export const DEFAULT_CANVAS_RENDERER_OPTIONS: CanvasRendererOptions = {
+  grid: DEFAULT_GRID_SETTINGS,
+  backgroundColor: '#ffffff',
+  gridColor: 'rgba(0, 0, 0, 0.06)',
+  majorGridColor: 'rgba(0, 0, 0, 0.12)',
+  majorGridEvery: 5,
+  minGridSpacing: 8,
+  segmentColor: '#1f2933',
+  segmentWidth: 2,
+  constraintColor: '#2563eb',
+  constraintGlyphSize: 12,
+  inkColor: 'rgba(31, 41, 51, 0.45)',
+  previewColor: '#2563eb',
+  selectionColor: 'rgba(37, 99, 235, 0.35)',
+  selectionWidth: 8,
+  curveSamples: 64,
+  layers: RENDER_LAYER_ORDER
+};
+
+// Options holding CSS colors, checked whenever options are set
+const COLOR_OPTIONS: ReadonlyArray<keyof CanvasRendererOptions> = [
+  'backgroundColor', 'gridColor', 'majorGridColor', 'segmentColor',
+  'constraintColor', 'inkColor', 'previewColor', 'selectionColor'
+];
+
+/**
+ * Anything that normalizes CSS colors the way a canvas `fillStyle` does:
+ * valid colors read back as `#rrggbb` or `rgba(...)`, invalid ones are ignored
+ */
+export interface ColorResolver {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+}
+
+const CONSTRAINT_GLYPHS: Readonly<Record<ConstraintType, string>> = {
+  [ConstraintType.COINCIDENT]: '•',
+  [ConstraintType.PARALLEL]: '∥',
+  [ConstraintType.PERPENDICULAR]: '⊥',
+  [ConstraintType.EQUAL_LENGTH]: '=',
+  [ConstraintType.HORIZONTAL]: 'H',
+  [ConstraintType.VERTICAL]: 'V',
+  [ConstraintType.TANGENT]: 'T',
+  [ConstraintType.CONCENTRIC]: '◎',
+  [ConstraintType.FIXED]: '⚓'
+};
+
+// Extra device pixels cleared around dirty geometry for antialiasing
+const DIRTY_MARGIN = 2;
+
+export class CanvasRenderer implements Renderer {
+  readonly backend = RendererBackend.CANVAS_2D;
+  private options: CanvasRendererOptions;
+  private readonly layers = new Map<RenderLayerId, RenderLayer>();
+  private worldToScreen: Mat3;
+  private devicePixelRatio: number;
+  private drawing: DrawingModel | null = null;
+  private unsubscribeDrawing: (() => void) | null = null;
+  private constraints: ReadonlyArray<Constraint> = [];
+  private selection = new Set<string>();
+  private marquee: SelectionArea | null = null;
+  private strokePreview: StrokePreview | null = null;
+  private frameHandle: number | null = null;
+
+  constructor(container: HTMLElement, transformContext: TransformContext, options: Partial<CanvasRendererOptions> = {}) {
+    this.options = CanvasRenderUtils.validateColors({ ...DEFAULT_CANVAS_RENDERER_OPTIONS, ...options });
+    this.worldToScreen = CanvasRenderUtils.worldToScreen(transformContext);
+    this.devicePixelRatio = transformContext.transforms.viewportToScreen.scale.x;
+
+    if (getComputedStyle(container).position === 'static') {
+      container.style.position = 'relative';
+    }
+    for (const id of RENDER_LAYER_ORDER.filter(layer => this.options.layers.includes(layer))) {
+      const canvas = document.createElement('canvas');
+      canvas.style.position = 'absolute';
+      canvas.style.left = '0';
+      canvas.style.top = '0';
+      canvas.style.pointerEvents = 'none';
+      container.appendChild(canvas);
+      this.layers.set(id, new RenderLayer(id, canvas));
+    }
+  }
+
+  /**
+   * Layer by id, or undefined when this renderer does not paint it
+   */
+  getLayer(id: RenderLayerId): RenderLayer | undefined {
+    return this.layers.get(id);
+  }
+
+  /**
+   * Resize every layer to a CSS size. The device pixel ratio comes from the
+   * current transform context unless given explicitly.
+   */
+  resize(cssSize: Vec2, devicePixelRatio: number = this.devicePixelRatio): void {
+    this.devicePixelRatio = devicePixelRatio;
+    for (const layer of this.layers.values()) {
+      layer.resize(cssSize, devicePixelRatio);
+    }
+    this.requestRender();
+  }
+
+  /**
+   * Adopt a new camera (pan, zoom, resize). Everything in world space moves, so
+   * all layers except the screen-space stroke preview are repainted.
+   */
+  setTransformContext(transformContext: TransformContext): void {
+    this.worldToScreen = CanvasRenderUtils.worldToScreen(transformContext);
+    this.devicePixelRatio = transformContext.transforms.viewportToScreen.scale.x;
+    for (const layer of this.layers.values()) {
+      if (layer.id !== RenderLayerId.INTERACTION) layer.dirty.markAll();
+    }
+    this.requestRender();
+  }
+
+  /**
+   * Render a drawing model and follow its changes. Pass null to detach.
+   */
+  setDrawing(drawing: DrawingModel | null): void {
+    this.unsubscribeDrawing?.();
+    this.unsubscribeDrawing = null;
+    this.drawing = drawing;
+    if (drawing) {
+      this.unsubscribeDrawing = drawing.subscribe(event => this.handleDrawingChange(event));
+    }
+    this.invalidate(RenderLayerId.GEOMETRY, RenderLayerId.CONSTRAINTS, RenderLayerId.OVERLAY);
+  }
+
+  setConstraints(constraints: ReadonlyArray<Constraint>): void {
+    this.constraints = constraints;
+    this.invalidate(RenderLayerId.CONSTRAINTS);
+  }
+
+  setSelection(segmentIds: Iterable<string>): void {
+    const next = new Set(segmentIds);
+    for (const id of new Set([...this.selection, ...next])) {
+      if (this.selection.has(id) !== next.has(id)) this.markSegmentDirty(RenderLayerId.OVERLAY, id);
+    }
+    this.selection = next;
+    this.requestRender();
+  }
+
+  setSelectionArea(area: SelectionArea | null): void {
+    this.markScreenRect(RenderLayerId.OVERLAY, this.marquee && CanvasRenderUtils.areaBounds(this.marquee));
+    this.marquee = area;
+    this.markScreenRect(RenderLayerId.OVERLAY, area && CanvasRenderUtils.areaBounds(area));
+    this.requestRender();
+  }
+
+  /**
+   * Show the stroke being drawn, or clear it with null
+   */
+  setStrokePreview(stroke: StrokePreview | null): void {
+    this.markScreenRect(RenderLayerId.INTERACTION, this.strokePreview && CanvasRenderUtils.strokeBounds(this.strokePreview));
+    this.strokePreview = stroke;
+    this.markScreenRect(RenderLayerId.INTERACTION, stroke && CanvasRenderUtils.strokeBounds(stroke));
+    this.requestRender();
+  }
+
+  /**
+   * Mark whole layers dirty; all layers when none are given
+   */
+  invalidate(...layerIds: RenderLayerId[]): void {
+    for (const id of layerIds.length > 0 ? layerIds : RENDER_LAYER_ORDER) {
+      this.layers.get(id)?.dirty.markAll();
+    }
+    this.requestRender();
+  }
+
+  /**
+   * Update renderer options and repaint everything. Throws, leaving the options
+   * unchanged, if a color cannot be parsed.
+   */
+  updateOptions(newOptions: Partial<CanvasRendererOptions>): void {
+    this.options = CanvasRenderUtils.validateColors({ ...this.options, ...newOptions });
+    this.invalidate();
+  }
+
+  /**
+   * Paint the next animation frame. Repeated requests before the frame coalesce.
+   */
+  requestRender(): void {
+    if (this.frameHandle !== null) return;
+    this.frameHandle = requestAnimationFrame(() => {
+      this.frameHandle = null;
+      this.render();
+    });
+  }
+
+  /**
+   * Repaint the dirty areas of every layer now. Returns the layers that were painted.
+   */
+  render(): RenderLayerId[] {
+    const painted: RenderLayerId[] = [];
+    for (const layer of this.layers.values()) {
+      const ctx = layer.begin();
+      if (!ctx) continue;
+      try {
+        this.paintLayer(layer, ctx);
+      } finally {
+        layer.end();
+      }
+      painted.push(layer.id);
+    }
+    return painted;
+  }
+
+  dispose(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.unsubscribeDrawing?.();
+    this.unsubscribeDrawing = null;
+    for (const layer of this.layers.values()) {
+      layer.canvas.remove();
+    }
+    this.layers.clear();
+  }
+
+  private handleDrawingChange(event: DrawingChangeEvent): void {
+    const segments = event.type === DrawingChangeType.MODIFIED
+      ? [event.previous.segment, event.element.segment]
+      : [event.element.segment];
+
+    for (const segment of segments) {
+      this.markScreenRect(RenderLayerId.GEOMETRY, this.segmentBounds(segment));
+      if (this.selection.has(segment.id)) {
+        this.markScreenRect(RenderLayerId.OVERLAY, this.segmentBounds(segment, this.options.selectionWidth));
+      }
+    }
+
+    // Glyphs follow their segments; constraint counts are small, so repaint the layer
+    if (this.constraints.some(c => ConstraintUtils.referencedSegmentIds(c).includes(event.element.id))) {
+      this.layers.get(RenderLayerId.CONSTRAINTS)?.dirty.markAll();
+    }
+    this.requestRender();
+  }
+
+  private markSegmentDirty(layerId: RenderLayerId, segmentId: string): void {
+    const segment = this.drawing?.getSegment(segmentId);
+    if (segment) this.markScreenRect(layerId, this.segmentBounds(segment, this.options.selectionWidth));
+  }
+
+  private markScreenRect(layerId: RenderLayerId, rect: BoundingBox | null): void {
+    const layer = this.layers.get(layerId);
+    if (!rect || !layer) return;
+    const visible = CanvasRenderUtils.intersectBoxes(SegmentUtils.expandBoundingBox(rect, DIRTY_MARGIN), layer.bounds);
+    if (visible) layer.dirty.markRect(visible);
+  }
+
+  /**
+   * Device-pixel bounds of a segment including its stroke width (CSS pixels)
+   */
+  private segmentBounds(segment: Segment, strokeWidth: number = this.options.segmentWidth): BoundingBox {
+    const box = CanvasRenderUtils.transformBounds(segment.boundingBox, this.worldToScreen);
+    return SegmentUtils.expandBoundingBox(box, (strokeWidth * this.devicePixelRatio) / 2);
+  }
+
+  private paintLayer(layer: RenderLayer, ctx: CanvasRenderingContext2D): void {
+    switch (layer.id) {
+      case RenderLayerId.BACKGROUND:
+        this.paintBackground(layer, ctx);
+        break;
+      case RenderLayerId.GEOMETRY:
+        this.paintGeometry(layer, ctx);
+        break;
+      case RenderLayerId.CONSTRAINTS:
+        this.paintConstraints(ctx);
+        break;
+      case RenderLayerId.INTERACTION:
+        this.paintStrokePreview(ctx);
+        break;
+      case RenderLayerId.OVERLAY:
+        this.paintOverlay(layer, ctx);
+        break;
+    }
+  }
+
+  private paintBackground(layer: RenderLayer, ctx: CanvasRenderingContext2D): void {
+    const { grid } = this.options;
+    ctx.fillStyle = this.options.backgroundColor;
+    ctx.fillRect(0, 0, layer.size.x, layer.size.y);
+    if (!grid.enabled) return;
+
+    const minSpacing = this.options.minGridSpacing * this.devicePixelRatio;
+    const lines = CanvasRenderUtils.gridLines(this.worldToScreen, layer.size, grid.spacing, minSpacing, this.options.majorGridEvery);
+    ctx.lineWidth = this.devicePixelRatio;
+    for (const major of [false, true]) {
+      ctx.strokeStyle = major ? this.options.majorGridColor : this.options.gridColor;
+      ctx.beginPath();
+      for (const line of lines) {
+        if (line.major !== major) continue;
+        ctx.moveTo(line.from.x, line.from.y);
+        ctx.lineTo(line.to.x, line.to.y);
+      }
+      ctx.stroke();
+    }
+  }
+
+  private paintGeometry(layer: RenderLayer, ctx: CanvasRenderingContext2D): void {
+    if (!this.drawing) return;
+    ctx.strokeStyle = this.options.segmentColor;
+    ctx.lineWidth = this.options.segmentWidth * this.devicePixelRatio;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.beginPath();
+    for (const segment of this.drawing.allSegments) {
+      const bounds = this.segmentBounds(segment);
+      if (!SegmentUtils.boundingBoxesIntersect(bounds, layer.bounds) || !layer.dirty.intersects(bounds)) continue;
+      CanvasRenderUtils.traceSegment(ctx, segment, this.worldToScreen, this.options.curveSamples);
+    }
+    ctx.stroke();
+  }
+
+  private paintConstraints(ctx: CanvasRenderingContext2D): void {
+    if (!this.drawing || this.constraints.length === 0) return;
+    const size = this.options.constraintGlyphSize * this.devicePixelRatio;
+    const offset = new Vec2(size * 0.75, -size * 0.75);
+
+    ctx.fillStyle = this.options.constraintColor;
+    ctx.font = `${size}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const constraint of this.constraints) {
+      const glyph = CONSTRAINT_GLYPHS[constraint.type];
+      for (const anchor of CanvasRenderUtils.constraintAnchors(constraint, id => this.drawing?.getSegment(id))) {
+        const position = this.worldToScreen.transformPoint(anchor).add(offset);
+        ctx.fillText(glyph, position.x, position.y);
+      }
+    }
+  }
+
+  private paintStrokePreview(ctx: CanvasRenderingContext2D): void {
+    const stroke = this.strokePreview;
+    if (!stroke) return;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    if (stroke.points.length > 1) {
+      ctx.strokeStyle = this.options.inkColor;
+      ctx.lineWidth = this.options.segmentWidth * this.devicePixelRatio;
+      ctx.beginPath();
+      stroke.points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y); else ctx.lineTo(point.x, point.y);
+      });
+      ctx.stroke();
+    }
+
+    if (stroke.preview && stroke.preview.length > 0) {
+      ctx.strokeStyle = this.options.previewColor;
+      ctx.lineWidth = this.options.segmentWidth * this.devicePixelRatio;
+      ctx.setLineDash([6 * this.devicePixelRatio, 4 * this.devicePixelRatio]);
+      ctx.beginPath();
+      for (const segment of stroke.preview) {
+        CanvasRenderUtils.traceSegment(ctx, segment, Mat3.IDENTITY, this.options.curveSamples);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }
+
+  private paintOverlay(layer: RenderLayer, ctx: CanvasRenderingContext2D): void {
+    if (this.drawing && this.selection.size > 0) {
+      ctx.strokeStyle = this.options.selectionColor;
+      ctx.lineWidth = this.options.selectionWidth * this.devicePixelRatio;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      for (const id of this.selection) {
+        const segment = this.drawing.getSegment(id);
+        if (!segment || !layer.dirty.intersects(this.segmentBounds(segment, this.options.selectionWidth))) continue;
+        CanvasRenderUtils.traceSegment(ctx, segment, this.worldToScreen, this.options.curveSamples);
+      }
+      ctx.stroke();
+    }
+
+    if (this.marquee) {
+      const box = CanvasRenderUtils.areaBounds(this.marquee);
+      ctx.fillStyle = this.options.selectionColor;
+      ctx.globalAlpha = 0.3;
+      ctx.fillRect(box.min.x, box.min.y, box.size.x, box.size.y);
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = this.options.previewColor;
+      ctx.lineWidth = this.devicePixelRatio;
+      ctx.strokeRect(box.min.x, box.min.y, box.size.x, box.size.y);
+    }
+  }
+}
+
+export interface GridLine {
+  readonly from: Vec2;
+  readonly to: Vec2;
+  readonly major: boolean;
+}
+
+// Utility functions for Canvas 2D rendering
+export namespace CanvasRenderUtils {
+  /**
+   * World to device pixels: world → viewport (camera) → screen (devicePixelRatio)
+   */
+  export function worldToScreen(context: TransformContext): Mat3 {
+    const { viewportToScreen, worldToViewport } = context.transforms;
+    return viewportToScreen.multiply(worldToViewport);
+  }
+
+  /**
+   * Add a segment to the current path. Arcs use the native arc primitive while
+   * the transform keeps them circular and splines map onto Bézier curves; other
+   * curves are traced as polylines.
+   */
+  export function traceSegment(ctx: CanvasRenderingContext2D, segment: Segment, matrix: Mat3, curveSamples: number = 64): void {
+    if (segment instanceof LineSegment) {
+      const start = matrix.transformPoint(segment.startPoint);
+      const end = matrix.transformPoint(segment.endPoint);
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      return;
+    }
+
+    if (segment instanceof ArcSegment && matrix.isSimilarity()) {
+      const arc = segment.transform(matrix);
+      const start = arc.startPoint;
+      ctx.moveTo(start.x, start.y);
+      ctx.arc(arc.center.x, arc.center.y, arc.radius, arc.startAngle, arc.startAngle + arc.sweepAngle, arc.sweepAngle < 0);
+      return;
+    }
+
+    if (segment instanceof SplineSegment) {
+      const [start, ...rest] = segment.controlPoints.map(p => matrix.transformPoint(p));
+      if (!start) return;
+      ctx.moveTo(start.x, start.y);
+      for (let i = 0; i + 2 < rest.length; i += 3) {
+        const [c1, c2, end] = [rest[i] as Vec2, rest[i + 1] as Vec2, rest[i + 2] as Vec2];
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+      }
+      return;
+    }
+
+    segment.samplePoints(Math.max(2, curveSamples)).forEach((point, i) => {
+      const p = matrix.transformPoint(point);
+      if (i === 0) ctx.moveTo(p.x, p.y); else ctx.lineTo(p.x, p.y);
+    });
+  }
+
+  /**
+   * Premultiplied RGBA floats for a CSS color. `#rgb`, `#rrggbb`, `rgb()` and
+   * `rgba()` are read directly; other forms such as named colors go through
+   * `resolver`, by default the browser's own canvas color parser. Throws for
+   * colors that neither understands.
+   */
+  export function parseColor(
+    color: string,
+    resolver: ColorResolver | null = defaultColorResolver()
+  ): [number, number, number, number] {
+    const direct = parseColorSyntax(color);
+    if (direct) return direct;
+
+    // An invalid color leaves fillStyle as it was, so two different starting values disagree
+    let resolved: [number, number, number, number] | null = null;
+    if (resolver) {
+      resolver.fillStyle = '#000000';
+      resolver.fillStyle = color;
+      const first = String(resolver.fillStyle);
+      resolver.fillStyle = '#ffffff';
+      resolver.fillStyle = color;
+      resolved = first === String(resolver.fillStyle) ? parseColorSyntax(first) : null;
+    }
+    if (!resolved) {
+      throw new Error(`Unsupported color "${color}"`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Check every color option, returning the options unchanged
+   */
+  export function validateColors<T extends CanvasRendererOptions>(options: T, resolver?: ColorResolver | null): T {
+    for (const key of COLOR_OPTIONS) {
+      parseColor(options[key] as string, resolver);
+    }
+    return options;
+  }
+
+  function parseColorSyntax(color: string): [number, number, number, number] | null {
+    let rgba: [number, number, number, number] | null = null;
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    const functional = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+
+    if (hex?.[1]) {
+      const digits = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1];
+      rgba = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)).concat(1) as [number, number, number, number];
+    } else if (functional) {
+      rgba = [Number(functional[1]), Number(functional[2]), Number(functional[3]), Number(functional[4] ?? 1)];
+    }
+    if (!rgba) return null;
+
+    const [r, g, b, a] = rgba;
+    return [(r / 255) * a, (g / 255) * a, (b / 255) * a, a];
+  }
+
+  let sharedResolver: ColorResolver | null | undefined;
+
+  function defaultColorResolver(): ColorResolver | null {
+    if (sharedResolver === undefined) {
+      sharedResolver = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    }
+    return sharedResolver;
+  }
+
+  /**
+   * Axis-aligned bounds of a transformed box
+   */
+  export function transformBounds(box: BoundingBox, matrix: Mat3): BoundingBox {
+    return SegmentUtils.createBoundingBox([
+      box.min,
+      new Vec2(box.max.x, box.min.y),
+      box.max,
+      new Vec2(box.min.x, box.max.y)
+    ].map(p => matrix.transformPoint(p)));
+  }
+
+  export function intersectBoxes(a: BoundingBox, b: BoundingBox): BoundingBox | null {
+    const min = new Vec2(Math.max(a.min.x, b.min.x), Math.max(a.min.y, b.min.y));
+    const max = new Vec2(Math.min(a.max.x, b.max.x), Math.min(a.max.y, b.max.y));
+    if (max.x <= min.x || max.y <= min.y) return null;
+    return SegmentUtils.createBoundingBox([min, max]);
+  }
+
+  export function areaBounds(area: SelectionArea): BoundingBox {
+    return SegmentUtils.createBoundingBox([area.start, area.end]);
+  }
+
+  export function strokeBounds(stroke: StrokePreview): BoundingBox {
+    const points = [...stroke.points];
+    for (const segment of stroke.preview ?? []) {
+      points.push(segment.boundingBox.min, segment.boundingBox.max);
+    }
+    // Generous margin: the stroke is drawn with a width that is not known here
+    return SegmentUtils.expandBoundingBox(SegmentUtils.createBoundingBox(points), 16);
+  }
+
+  /**
+   * Grid lines covering the canvas. The world spacing is multiplied by
+   * `majorEvery` until lines are at least `minSpacing` device pixels apart;
+   * every `majorEvery`-th line of the resulting level is major.
+   */
+  export function gridLines(
+    worldToScreen: Mat3,
+    canvasSize: Vec2,
+    spacing: number,
+    minSpacing: number,
+    majorEvery: number = 5
+  ): GridLine[] {
+    const screenScale = Math.sqrt(Math.abs(worldToScreen.determinant));
+    if (!(spacing > 0) || !(screenScale > 0)) return [];
+
+    let step = spacing;
+    while (step * screenScale < minSpacing) step *= Math.max(2, majorEvery);
+
+    const visible = transformBounds(SegmentUtils.createBoundingBox([Vec2.ZERO, canvasSize]), worldToScreen.inverse);
+    const lines: GridLine[] = [];
+    const isMajor = (index: number): boolean => majorEvery > 0 && index % majorEvery === 0;
+
+    for (let i = Math.ceil(visible.min.x / step); i * step <= visible.max.x; i++) {
+      lines.push({
+        from: worldToScreen.transformPoint(new Vec2(i * step, visible.min.y)),
+        to: worldToScreen.transformPoint(new Vec2(i * step, visible.max.y)),
+        major: isMajor(i)
+      });
+    }
+    for (let i = Math.ceil(visible.min.y / step); i * step <= visible.max.y; i++) {
+      lines.push({
+        from: worldToScreen.transformPoint(new Vec2(visible.min.x, i * step)),
+        to: worldToScreen.transformPoint(new Vec2(visible.max.x, i * step)),
+        major: isMajor(i)
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * World positions at which to draw a constraint's glyph: the constrained
+   * point, or the midpoint of each constrained segment
+   */
+  export function constraintAnchors(constraint: Constraint, lookup: (segmentId: string) => Segment | undefined): Vec2[] {
+    const midpoint = (id: string): Vec2[] => {
+      const segment = lookup(id);
+      return segment ? [segment.pointAt(0.5)] : [];
+    };
+    const namedPoint = (id: string, point: ConstraintPoint): Vec2[] => {
+      const segment = lookup(id);
+      if (!segment) return [];
+      if (point === 'center') return segment instanceof ArcSegment ? [segment.center] : [];
+      return [point === 'start' ? segment.startPoint : segment.endPoint];
+    };
+
+    switch (constraint.type) {
+      case ConstraintType.COINCIDENT:
+        return namedPoint(constraint.pointA.segmentId, constraint.pointA.point);
+      case ConstraintType.HORIZONTAL:
+      case ConstraintType.VERTICAL:
+        return midpoint(constraint.segmentId);
+      case ConstraintType.FIXED:
+        return constraint.point ? namedPoint(constraint.segmentId, constraint.point) : midpoint(constraint.segmentId);
+      default:
+        return [...midpoint(constraint.segment1Id), ...midpoint(constraint.segment2Id)];
+    }
+  }
+}
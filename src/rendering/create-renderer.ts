@@ -0,0 +1,33 @@
+import { TransformContext } from '../core/math/pt.js';
+
+import { CanvasRenderer } from './canvas-renderer.js';
+import { Renderer, RendererBackend } from './renderer.js';
+import { WebGLRenderer, WebGLRendererOptions } from './webgl-renderer.js';
+
+export interface CreateRendererOptions extends Partial<WebGLRendererOptions> {
+  readonly backend?: RendererBackend;  // Preferred backend, WebGL2 by default
+  readonly onFallback?: (error: unknown) => void; // Why WebGL2 failed to initialize
+}
+
+/**
+ * Create the preferred renderer backend, falling back to Canvas 2D when WebGL2
+ * is unavailable or fails to initialize (e.g. shader compilation errors).
+ * Initialization failures are passed to `onFallback`.
+ */
+export function createRenderer(
+  container: HTMLElement,
+  transformContext: TransformContext,
+  options: CreateRendererOptions = {}
+): Renderer {
+  const { backend = RendererBackend.WEBGL2, onFallback, ...rendererOptions } = options;
+
+  if (backend === RendererBackend.WEBGL2 && WebGLRenderer.isSupported()) {
+    try {
+      return new WebGLRenderer(container, transformContext, rendererOptions);
+    } catch (error) {
+      onFallback?.(error);
+    }
+  }
+
+  return new CanvasRenderer(container, transformContext, rendererOptions);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+
+import { BoundingBox, SegmentUtils } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { DirtyRegion, DirtyRegionUtils } from './dirty-region.js';
+
+function rect(x: number, y: number, width: number, height: number): BoundingBox {
+  return SegmentUtils.createBoundingBox([new Vec2(x, y), new Vec2(x + width, y + height)]);
+}
+
+describe('DirtyRegion', () => {
+  it('should start clean', () => {
+    const region = new DirtyRegion();
+
+    expect(region.isDirty).toBe(false);
+    expect(region.intersects(rect(0, 0, 10, 10))).toBe(false);
+  });
+
+  it('should track marked rectangles', () => {
+    const region = new DirtyRegion();
+    region.markRect(rect(0, 0, 10, 10));
+    region.markRect(rect(50, 50, 10, 10));
+
+    expect(region.rects).toHaveLength(2);
+    expect(region.intersects(rect(5, 5, 2, 2))).toBe(true);
+    expect(region.intersects(rect(20, 20, 5, 5))).toBe(false);
+    expect(region.bounds?.max.isEqual(new Vec2(60, 60))).toBe(true);
+  });
+
+  it('should drop rectangles covered by others', () => {
+    const region = new DirtyRegion();
+    region.markRect(rect(2, 2, 3, 3));
+    region.markRect(rect(0, 0, 10, 10));
+    region.markRect(rect(4, 4, 1, 1));
+
+    expect(region.rects).toHaveLength(1);
+  });
+
+  it('should ignore empty rectangles', () => {
+    const region = new DirtyRegion();
+    region.markRect(rect(5, 5, 0, 10));
+
+    expect(region.isDirty).toBe(false);
+  });
+
+  it('should collapse into a union beyond the rectangle limit', () => {
+    const region = new DirtyRegion({ maxRects: 3 });
+    for (let i = 0; i < 4; i++) {
+      region.markRect(rect(i * 20, 0, 5, 5));
+    }
+
+    expect(region.rects).toHaveLength(1);
+    expect(region.intersects(rect(10, 0, 2, 2))).toBe(true);
+  });
+
+  it('should cover everything when fully dirty', () => {
+    const region = new DirtyRegion();
+    region.markRect(rect(0, 0, 1, 1));
+    region.markAll();
+    region.markRect(rect(5, 5, 1, 1));
+
+    expect(region.isFull).toBe(true);
+    expect(region.rects).toEqual([]);
+    expect(region.intersects(rect(1000, 1000, 1, 1))).toBe(true);
+
+    region.clear();
+    expect(region.isDirty).toBe(false);
+  });
+});
+
+describe('DirtyRegionUtils', () => {
+  it('should snap rectangles outward to whole pixels', () => {
+    const snapped = DirtyRegionUtils.snapToPixels(rect(0.4, 1.6, 2.2, 2));
+
+    expect(snapped.min.isEqual(new Vec2(0, 1))).toBe(true);
+    expect(snapped.max.isEqual(new Vec2(3, 4))).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { BoundingBox, SegmentUtils } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+/**
+ * Dirty-region tracking for a render layer.
+ * Collects the device-pixel rectangles that changed since the last frame so a
+ * layer can clear and repaint only those areas. Once too many rectangles pile
+ * up they collapse into their union, and `markAll` requests a full repaint.
+ */
+
+export interface DirtyRegionOptions {
+  readonly maxRects: number;          // Rectangles kept before collapsing into one union
+}
+
+const DEFAULT_DIRTY_REGION_OPTIONS: DirtyRegionOptions = {
+  maxRects: 16
+};
+
+export class DirtyRegion {
+  private options: DirtyRegionOptions;
+  private rectangles: BoundingBox[] = [];
+  private full = false;
+
+  constructor(options: Partial<DirtyRegionOptions> = {}) {
+    this.options = { ...DEFAULT_DIRTY_REGION_OPTIONS, ...options };
+  }
+
+  get isDirty(): boolean {
+    return this.full || this.rectangles.length > 0;
+  }
+
+  get isFull(): boolean {
+    return this.full;
+  }
+
+  /**
+   * Dirty rectangles; empty when clean or fully dirty
+   */
+  get rects(): ReadonlyArray<BoundingBox> {
+    return this.full ? [] : this.rectangles;
+  }
+
+  /**
+   * Union of all dirty rectangles, or null when clean or fully dirty
+   */
+  get bounds(): BoundingBox | null {
+    if (this.full || this.rectangles.length === 0) return null;
+    return DirtyRegionUtils.union(this.rectangles);
+  }
+
+  markAll(): void {
+    this.full = true;
+    this.rectangles = [];
+  }
+
+  /**
+   * Mark a rectangle dirty. Rectangles contained in an existing one are dropped
+   * and existing rectangles contained in the new one are replaced.
+   */
+  markRect(rect: BoundingBox): void {
+    if (this.full || rect.size.x <= 0 || rect.size.y <= 0) return;
+    if (this.rectangles.some(existing => DirtyRegionUtils.contains(existing, rect))) return;
+
+    this.rectangles = this.rectangles.filter(existing => !DirtyRegionUtils.contains(rect, existing));
+    this.rectangles.push(rect);
+
+    if (this.rectangles.length > this.options.maxRects) {
+      this.rectangles = [DirtyRegionUtils.union(this.rectangles)];
+    }
+  }
+
+  /**
+   * Check whether content inside a rectangle needs repainting
+   */
+  intersects(rect: BoundingBox): boolean {
+    if (this.full) return true;
+    return this.rectangles.some(dirty => SegmentUtils.boundingBoxesIntersect(dirty, rect));
+  }
+
+  clear(): void {
+    this.full = false;
+    this.rectangles = [];
+  }
+}
+
+// Utility functions for rectangle bookkeeping
+export namespace DirtyRegionUtils {
+  export function contains(outer: BoundingBox, inner: BoundingBox): boolean {
+    return inner.min.x >= outer.min.x && inner.min.y >= outer.min.y &&
+           inner.max.x <= outer.max.x && inner.max.y <= outer.max.y;
+  }
+
+  export function union(rects: ReadonlyArray<BoundingBox>): BoundingBox {
+    return SegmentUtils.createBoundingBox(rects.flatMap(rect => [rect.min, rect.max]));
+  }
+
+  /**
+   * Expand a rectangle outward to whole pixels so antialiased edges are cleared too
+   */
+  export function snapToPixels(rect: BoundingBox): BoundingBox {
+    return SegmentUtils.createBoundingBox([
+      new Vec2(Math.floor(rect.min.x), Math.floor(rect.min.y)),
+      new Vec2(Math.ceil(rect.max.x), Math.ceil(rect.max.y))
+    ]);
+  }
+}
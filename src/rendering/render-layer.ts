@@ -0,0 +1,111 @@
+import { BoundingBox, SegmentUtils } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import { DirtyRegion, DirtyRegionUtils } from './dirty-region.js';
+
+/**
+ * Stacked canvas layers for the Canvas 2D renderer.
+ * Each layer owns its own `<canvas>` so that, for example, the stroke preview can
+ * be repainted at input rate without touching the document geometry underneath.
+ */
+
+export enum RenderLayerId {
+  BACKGROUND = 'background',    // Grid
+  GEOMETRY = 'geometry',        // Document segments
+  CONSTRAINTS = 'constraints',  // Constraint glyphs
+  INTERACTION = 'interaction',  // In-progress stroke preview
+  OVERLAY = 'overlay'           // Selection highlights and marquee
+}
+
+// Bottom to top
+export const RENDER_LAYER_ORDER: ReadonlyArray<RenderLayerId> = [
+  RenderLayerId.BACKGROUND,
+  RenderLayerId.GEOMETRY,
+  RenderLayerId.CONSTRAINTS,
+  RenderLayerId.INTERACTION,
+  RenderLayerId.OVERLAY
+];
+
+export class RenderLayer {
+  readonly id: RenderLayerId;
+  readonly canvas: HTMLCanvasElement;
+  readonly dirty = new DirtyRegion();
+  private readonly context: CanvasRenderingContext2D;
+  private pixelSize = Vec2.ZERO;
+
+  constructor(id: RenderLayerId, canvas: HTMLCanvasElement) {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error(`Canvas 2D context unavailable for layer ${id}`);
+    }
+
+    this.id = id;
+    this.canvas = canvas;
+    this.context = context;
+    this.canvas.dataset['layer'] = id;
+  }
+
+  /**
+   * Size of the backing store in device pixels
+   */
+  get size(): Vec2 {
+    return this.pixelSize;
+  }
+
+  /**
+   * Whole-canvas rectangle in device pixels
+   */
+  get bounds(): BoundingBox {
+    return SegmentUtils.createBoundingBox([Vec2.ZERO, this.pixelSize]);
+  }
+
+  /**
+   * Resize the backing store for a CSS size and device pixel ratio. Resizing
+   * discards the canvas contents, so the whole layer becomes dirty.
+   */
+  resize(cssSize: Vec2, devicePixelRatio: number): void {
+    const width = Math.max(1, Math.round(cssSize.x * devicePixelRatio));
+    const height = Math.max(1, Math.round(cssSize.y * devicePixelRatio));
+
+    this.canvas.style.width = `${cssSize.x}px`;
+    this.canvas.style.height = `${cssSize.y}px`;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.pixelSize = new Vec2(width, height);
+    this.dirty.markAll();
+  }
+
+  /**
+   * Clear the dirty area and hand out a context clipped to it, or null when the
+   * layer is clean. Every `begin` that returns a context must be paired with `end`.
+   */
+  begin(): CanvasRenderingContext2D | null {
+    if (!this.dirty.isDirty) return null;
+
+    const ctx = this.context;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    if (this.dirty.isFull) {
+      ctx.clearRect(0, 0, this.pixelSize.x, this.pixelSize.y);
+    } else {
+      const rects = this.dirty.rects.map(DirtyRegionUtils.snapToPixels);
+      ctx.beginPath();
+      for (const rect of rects) {
+        ctx.rect(rect.min.x, rect.min.y, rect.size.x, rect.size.y);
+      }
+      ctx.clip();
+      for (const rect of rects) {
+        ctx.clearRect(rect.min.x, rect.min.y, rect.size.x, rect.size.y);
+      }
+    }
+    return ctx;
+  }
+
+  end(): void {
+    this.context.restore();
+    this.dirty.clear();
+  }
+}
@@ -0,0 +1,69 @@
+import type { Constraint } from '../core/constraints/constraint.js';
+import type { DrawingModel } from '../core/document/drawing-model.js';
+import type { Segment } from '../core/geometry/segment.js';
+import type { TransformContext } from '../core/math/pt.js';
+import type { Vec2 } from '../core/math/vec2.js';
+
+/**
+ * Backend-independent renderer interface.
+ * The application talks to this interface only; the Canvas 2D and WebGL2
+ * backends both implement it.
+ */
+
+export enum RendererBackend {
+  CANVAS_2D = 'canvas2d',
+  WEBGL2 = 'webgl2'
+}
+
+/**
+ * In-progress stroke as reported by `InputPipelineEvents.onStrokeProgress`.
+ * Points and preview segments are in screen coordinates.
+ */
+export interface StrokePreview {
+  readonly id: string;
+  readonly points: ReadonlyArray<Vec2>;
+  readonly preview?: Segment[];
+}
+
+/**
+ * Selection marquee in screen coordinates
+ */
+export interface SelectionArea {
+  readonly start: Vec2;
+  readonly end: Vec2;
+}
+
+export interface Renderer {
+  readonly backend: RendererBackend;
+
+  /**
+   * Resize to a CSS size; the device pixel ratio defaults to the transform context's
+   */
+  resize(cssSize: Vec2, devicePixelRatio?: number): void;
+
+  /**
+   * Adopt a new camera (pan, zoom, resize)
+   */
+  setTransformContext(transformContext: TransformContext): void;
+
+  /**
+   * Render a drawing model and follow its changes. Pass null to detach.
+   */
+  setDrawing(drawing: DrawingModel | null): void;
+
+  setConstraints(constraints: ReadonlyArray<Constraint>): void;
+  setSelection(segmentIds: Iterable<string>): void;
+  setSelectionArea(area: SelectionArea | null): void;
+
+  /**
+   * Show the stroke being drawn, or clear it with null
+   */
+  setStrokePreview(stroke: StrokePreview | null): void;
+
+  /**
+   * Paint the next animation frame. Repeated requests before the frame coalesce.
+   */
+  requestRender(): void;
+
+  dispose(): void;
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { ReparameterizedSegment } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import {
+  DEFAULT_TESSELLATION_OPTIONS,
+  LINE_INSTANCE_STRIDE,
+  STRIP_VERTEX_STRIDE,
+  Tessellation
+} from './tessellation.js';
+
+function vertex(strip: Float32Array, index: number): number[] {
+  return Array.from(strip.subarray(index * STRIP_VERTEX_STRIDE, (index + 1) * STRIP_VERTEX_STRIDE));
+}
+
+describe('Tessellation', () => {
+  describe('arcSegmentCount', () => {
+    it('should add segments as the arc grows on screen', () => {
+      const small = Tessellation.arcSegmentCount(20, Math.PI * 2);
+      const large = Tessellation.arcSegmentCount(200, Math.PI * 2);
+
+      expect(large).toBeGreaterThan(small);
+    });
+
+    it('should keep the chord deviation within tolerance', () => {
+      const radius = 100;
+      const count = Tessellation.arcSegmentCount(radius, Math.PI * 2);
+      const sagitta = radius * (1 - Math.cos(Math.PI / count));
+
+      expect(sagitta).toBeLessThanOrEqual(DEFAULT_TESSELLATION_OPTIONS.tolerance);
+    });
+
+    it('should clamp to the configured range', () => {
+      expect(Tessellation.arcSegmentCount(0.01, Math.PI * 2)).toBe(DEFAULT_TESSELLATION_OPTIONS.minArcSegments);
+      expect(Tessellation.arcSegmentCount(1e9, Math.PI * 2)).toBe(DEFAULT_TESSELLATION_OPTIONS.maxArcSegments);
+    });
+
+    it('should scale the range with the sweep', () => {
+      expect(Tessellation.arcSegmentCount(1e9, Math.PI)).toBe(DEFAULT_TESSELLATION_OPTIONS.maxArcSegments / 2);
+      expect(Tessellation.arcSegmentCount(0, 0.01)).toBe(1);
+    });
+  });
+
+  describe('zoomBucket', () => {
+    it('should round to powers of two', () => {
+      expect(Tessellation.zoomBucket(1)).toBe(1);
+      expect(Tessellation.zoomBucket(1.3)).toBe(1);
+      expect(Tessellation.zoomBucket(3)).toBe(4);
+      expect(Tessellation.zoomBucket(0.3)).toBe(0.25);
+      expect(Tessellation.zoomBucket(0)).toBe(1);
+    });
+  });
+
+  describe('tessellateArc', () => {
+    it('should emit outer and inner vertices with opposite normals', () => {
+      const arc = new ArcSegment(new Vec2(10, 0), 5, 0, Math.PI / 2);
+      const strip = Tessellation.tessellateArc(arc, 1);
+      const count = Tessellation.arcSegmentCount(5, Math.PI / 2);
+
+      expect(strip.length).toBe((count + 1) * 2 * STRIP_VERTEX_STRIDE);
+      expect(vertex(strip, 0)).toEqual([15, 0, 1, 0]);
+      expect(vertex(strip, 1)).toEqual([15, 0, -1, -0]);
+
+      const [x, y, nx, ny] = vertex(strip, count * 2);
+      expect(x).toBeCloseTo(10);
+      expect(y).toBeCloseTo(5);
+      expect(nx).toBeCloseTo(0);
+      expect(ny).toBeCloseTo(1);
+    });
+
+    it('should use more vertices at higher zoom', () => {
+      const arc = new ArcSegment(Vec2.ZERO, 10, 0, Math.PI * 2);
+
+      expect(Tessellation.tessellateArc(arc, 8).length).toBeGreaterThan(Tessellation.tessellateArc(arc, 1).length);
+    });
+  });
+
+  describe('tessellate', () => {
+    it('should turn lines into one instance each', () => {
+      const batch = Tessellation.tessellate([
+        new LineSegment(new Vec2(0, 0), new Vec2(10, 0)),
+        new LineSegment(new Vec2(1, 2), new Vec2(3, 4))
+      ], 1);
+
+      expect(batch.lineCount).toBe(2);
+      expect(batch.arcVertexCount).toBe(0);
+      expect(Array.from(batch.lineInstances.subarray(LINE_INSTANCE_STRIDE))).toEqual([1, 2, 3, 4]);
+    });
+
+    it('should join arcs into a single strip', () => {
+      const arcs = [
+        new ArcSegment(Vec2.ZERO, 5, 0, Math.PI),
+        new ArcSegment(new Vec2(20, 0), 5, 0, Math.PI)
+      ];
+      const batch = Tessellation.tessellate(arcs, 1);
+      const first = Tessellation.tessellateArc(arcs[0] as ArcSegment, 1).length / STRIP_VERTEX_STRIDE;
+      const second = Tessellation.tessellateArc(arcs[1] as ArcSegment, 1).length / STRIP_VERTEX_STRIDE;
+
+      expect(batch.arcVertexCount).toBe(first + 2 + second);
+      expect(batch.zoom).toBe(1);
+    });
+
+    it('should sample other segment types as lines', () => {
+      const line = new LineSegment(Vec2.ZERO, new Vec2(10, 0));
+      const reversed = new ReparameterizedSegment(line, t => 1 - t);
+      const batch = Tessellation.tessellate([reversed], 1, { ...DEFAULT_TESSELLATION_OPTIONS, curveSamples: 4 });
+
+      expect(batch.lineCount).toBe(3);
+      expect(batch.lineInstances[0]).toBeCloseTo(10);
+    });
+  });
+
+  describe('joinStrips', () => {
+    it('should insert degenerate vertices between strips', () => {
+      const a = new Float32Array([0, 0, 0, 1, 1, 0, 0, 1]);
+      const b = new Float32Array([5, 5, 0, 1, 6, 5, 0, 1]);
+      const joined = Tessellation.joinStrips([a, b]);
+
+      expect(joined.length / STRIP_VERTEX_STRIDE).toBe(6);
+      expect(vertex(joined, 2)).toEqual(vertex(joined, 1));
+      expect(vertex(joined, 3)).toEqual(vertex(joined, 4));
+    });
+
+    it('should preserve winding after an odd-length strip', () => {
+      const odd = new Float32Array([0, 0, 0, 1, 1, 0, 0, 1, 2, 0, 0, 1]);
+      const next = new Float32Array([5, 5, 0, 1, 6, 5, 0, 1]);
+      const joined = Tessellation.joinStrips([odd, next]);
+      const vertexCount = joined.length / STRIP_VERTEX_STRIDE;
+
+      // The next strip must start on an even index to keep its orientation
+      expect(vertexCount).toBe(3 + 3 + 2);
+      expect(vertex(joined, 6)).toEqual([5, 5, 0, 1]);
+    });
+
+    it('should skip empty strips', () => {
+      const strip = new Float32Array([1, 2, 3, 4]);
+
+      expect(Array.from(Tessellation.joinStrips([new Float32Array(0), strip]))).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { ArcSegment } from '../core/geometry/arc-segment.js';
+import { LineSegment } from '../core/geometry/line-segment.js';
+import { Segment } from '../core/geometry/segment.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+/**
+ * GPU-independent tessellation for the WebGL2 backend.
+ * Produces plain typed arrays in world coordinates; stroke width is applied in
+ * the vertex shader in screen pixels, so buffers only need rebuilding when the
+ * geometry changes or the zoom moves far enough to change arc density.
+ *
+ * - Lines become one instance each: `[x0, y0, x1, y1]`, expanded to a quad per instance.
+ * - Arcs become one triangle strip of `[x, y, nx, ny]` vertices, two per sample
+ *   (the unit normal is negated for the inner side). Consecutive arcs are joined
+ *   with degenerate triangles so the whole batch is a single draw call.
+ * - Any other curve is sampled and added as line instances.
+ */
+
+export interface TessellationOptions {
+  readonly tolerance: number;         // Maximum chord deviation in screen pixels
+  readonly minArcSegments: number;    // Per full circle, however small on screen
+  readonly maxArcSegments: number;    // Per full circle, however large on screen
+  readonly curveSamples: number;      // Samples for curves without a dedicated tessellation
+}
+
+export const DEFAULT_TESSELLATION_OPTIONS: TessellationOptions = {
+  tolerance: 0.25,
+  minArcSegments: 8,
+  maxArcSegments: 1024,
+  curveSamples: 64
+};
+
+// Floats per line instance and per strip vertex
+export const LINE_INSTANCE_STRIDE = 4;
+export const STRIP_VERTEX_STRIDE = 4;
+
+export interface TessellatedBatch {
+  readonly lineInstances: Float32Array;
+  readonly lineCount: number;
+  readonly arcStrip: Float32Array;
+  readonly arcVertexCount: number;
+  readonly zoom: number;              // Screen pixels per world unit the arcs were tessellated for
+}
+
+// Utility functions for tessellating segments
+export namespace Tessellation {
+  /**
+   * Number of chords for an arc so that the sagitta stays within `tolerance`
+   * screen pixels: each chord may span at most 2·acos(1 − tolerance / r).
+   */
+  export function arcSegmentCount(
+    screenRadius: number,
+    sweepAngle: number,
+    options: TessellationOptions = DEFAULT_TESSELLATION_OPTIONS
+  ): number {
+    const fraction = Math.min(1, Math.abs(sweepAngle) / (Math.PI * 2));
+    const minimum = Math.max(1, Math.ceil(options.minArcSegments * fraction));
+    const maximum = Math.max(minimum, Math.ceil(options.maxArcSegments * fraction));
+    if (!(screenRadius > options.tolerance)) return minimum;
+
+    const maxStep = 2 * Math.acos(1 - options.tolerance / screenRadius);
+    const count = Math.ceil(Math.abs(sweepAngle) / maxStep);
+    return Math.min(maximum, Math.max(minimum, count));
+  }
+
+  /**
+   * Zoom bucket used to decide when arcs must be re-tessellated: powers of two,
+   * so density changes at most once per doubling or halving of the zoom.
+   */
+  export function zoomBucket(zoom: number): number {
+    return zoom > 0 ? 2 ** Math.round(Math.log2(zoom)) : 1;
+  }
+
+  /**
+   * Triangle strip vertices for one arc: `[x, y, nx, ny]` pairs on the outer and
+   * inner side of each sample
+   */
+  export function tessellateArc(
+    arc: ArcSegment,
+    zoom: number,
+    options: TessellationOptions = DEFAULT_TESSELLATION_OPTIONS
+  ): Float32Array {
+    const count = arcSegmentCount(arc.radius * zoom, arc.sweepAngle, options);
+    const vertices = new Float32Array((count + 1) * 2 * STRIP_VERTEX_STRIDE);
+
+    for (let i = 0; i <= count; i++) {
+      const angle = arc.startAngle + (arc.sweepAngle * i) / count;
+      const nx = Math.cos(angle);
+      const ny = Math.sin(angle);
+      const x = arc.center.x + arc.radius * nx;
+      const y = arc.center.y + arc.radius * ny;
+      vertices.set([x, y, nx, ny, x, y, -nx, -ny], i * 2 * STRIP_VERTEX_STRIDE);
+    }
+    return vertices;
+  }
+
+  /**
+   * Line instances approximating any segment by sampled chords
+   */
+  export function sampleAsLines(segment: Segment, samples: number): Float32Array {
+    const points = segment.samplePoints(Math.max(2, samples));
+    const instances = new Float32Array((points.length - 1) * LINE_INSTANCE_STRIDE);
+    for (let i = 0; i + 1 < points.length; i++) {
+      const a = points[i] ?? Vec2.ZERO;
+      const b = points[i + 1] ?? Vec2.ZERO;
+      instances.set([a.x, a.y, b.x, b.y], i * LINE_INSTANCE_STRIDE);
+    }
+    return instances;
+  }
+
+  /**
+   * Tessellate a set of segments into a single line-instance buffer and a single
+   * arc strip for the given zoom (screen pixels per world unit)
+   */
+  export function tessellate(
+    segments: Iterable<Segment>,
+    zoom: number,
+    options: TessellationOptions = DEFAULT_TESSELLATION_OPTIONS
+  ): TessellatedBatch {
+    const lineParts: Float32Array[] = [];
+    const stripParts: Float32Array[] = [];
+
+    for (const segment of segments) {
+      if (segment instanceof LineSegment) {
+        const { startPoint: a, endPoint: b } = segment;
+        lineParts.push(new Float32Array([a.x, a.y, b.x, b.y]));
+      } else if (segment instanceof ArcSegment) {
+        stripParts.push(tessellateArc(segment, zoom, options));
+      } else {
+        lineParts.push(sampleAsLines(segment, options.curveSamples));
+      }
+    }
+
+    const lineInstances = concat(lineParts);
+    const arcStrip = joinStrips(stripParts);
+    return {
+      lineInstances,
+      lineCount: lineInstances.length / LINE_INSTANCE_STRIDE,
+      arcStrip,
+      arcVertexCount: arcStrip.length / STRIP_VERTEX_STRIDE,
+      zoom
+    };
+  }
+
+  /**
+   * Join triangle strips into one by repeating the last vertex of each strip and
+   * the first vertex of the next, which produces zero-area triangles between them.
+   * Parts with an odd vertex count get one more repeat so the winding order of
+   * the following strip is preserved.
+   */
+  export function joinStrips(strips: ReadonlyArray<Float32Array>): Float32Array {
+    const parts: Float32Array[] = [];
+    let vertexCount = 0;
+
+    for (const strip of strips) {
+      if (strip.length === 0) continue;
+      if (vertexCount > 0) {
+        const last = parts[parts.length - 1] ?? new Float32Array(0);
+        const lastVertex = last.subarray(last.length - STRIP_VERTEX_STRIDE);
+        const firstVertex = strip.subarray(0, STRIP_VERTEX_STRIDE);
+        parts.push(lastVertex);
+        if (vertexCount % 2 === 1) parts.push(lastVertex);
+        parts.push(firstVertex);
+        vertexCount += vertexCount % 2 === 1 ? 3 : 2;
+      }
+      parts.push(strip);
+      vertexCount += strip.length / STRIP_VERTEX_STRIDE;
+    }
+    return concat(parts);
+  }
+
+  export function concat(parts: ReadonlyArray<Float32Array>): Float32Array {
+    const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
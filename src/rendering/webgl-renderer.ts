@@ -0,0 +1,406 @@
+import { Constraint } from '../core/constraints/constraint.js';
+import { DrawingModel } from '../core/document/drawing-model.js';
+import { Mat3 } from '../core/math/mat3.js';
+import { TransformContext } from '../core/math/pt.js';
+import { Vec2 } from '../core/math/vec2.js';
+
+import {
+  CanvasRenderer,
+  CanvasRendererOptions,
+  CanvasRenderUtils,
+  DEFAULT_CANVAS_RENDERER_OPTIONS
+} from './canvas-renderer.js';
+import { RENDER_LAYER_ORDER, RenderLayerId } from './render-layer.js';
+import { Renderer, RendererBackend, SelectionArea, StrokePreview } from './renderer.js';
+import {
+  DEFAULT_TESSELLATION_OPTIONS,
+  LINE_INSTANCE_STRIDE,
+  STRIP_VERTEX_STRIDE,
+  TessellatedBatch,
+  Tessellation,
+  TessellationOptions
+} from './tessellation.js';
+
+/**
+ * WebGL2 rendering backend for large drawings.
+ * Document geometry is tessellated once (see `Tessellation`) and drawn in two
+ * calls: instanced quads for every line and one triangle strip for every arc.
+ * Panning and zooming only update the `u_worldToScreen` uniform; arcs are
+ * re-tessellated when the zoom crosses a power of two. The grid, constraint
+ * glyphs, stroke preview and selection overlay stay on Canvas 2D layers, which
+ * are cheap because they hold little content.
+ */
+
+export interface WebGLRendererOptions extends CanvasRendererOptions {
+  readonly tessellation: TessellationOptions;
+}
+
+const DEFAULT_WEBGL_RENDERER_OPTIONS: WebGLRendererOptions = {
+  ...DEFAULT_CANVAS_RENDERER_OPTIONS,
+  tessellation: DEFAULT_TESSELLATION_OPTIONS
+};
+
+// Canvas 2D layers drawn on top of (and below) the GL geometry canvas
+const OVERLAY_LAYERS = RENDER_LAYER_ORDER.filter(id => id !== RenderLayerId.GEOMETRY);
+
+const SHADER_HEADER = `#version 300 es
+precision highp float;
+uniform mat3 u_worldToScreen;  // World to device pixels
+uniform vec2 u_viewport;       // Device pixels
+uniform float u_halfWidth;     // Device pixels
+
+vec4 toClip(vec2 screen) {
+  vec2 ndc = screen / u_viewport * 2.0 - 1.0;
+  return vec4(ndc.x, -ndc.y, 0.0, 1.0);
+}
+`;
+
+// Expands each line instance into a quad with square caps
+const LINE_VERTEX_SHADER = `${SHADER_HEADER}
+layout(location = 0) in vec2 a_corner;  // x: 0 at start, 1 at end; y: -1 or 1 across
+layout(location = 1) in vec4 a_line;    // World start.xy, end.xy
+
+void main() {
+  vec2 start = (u_worldToScreen * vec3(a_line.xy, 1.0)).xy;
+  vec2 end = (u_worldToScreen * vec3(a_line.zw, 1.0)).xy;
+  vec2 delta = end - start;
+  float len = length(delta);
+  vec2 dir = len > 0.0 ? delta / len : vec2(1.0, 0.0);
+  vec2 normal = vec2(-dir.y, dir.x);
+  vec2 position = mix(start, end, a_corner.x)
+    + normal * a_corner.y * u_halfWidth
+    + dir * (a_corner.x * 2.0 - 1.0) * u_halfWidth;
+  gl_Position = toClip(position);
+}
+`;
+
+// Offsets each strip vertex along its (signed) normal
+const ARC_VERTEX_SHADER = `${SHADER_HEADER}
+layout(location = 0) in vec2 a_position;  // World
+layout(location = 1) in vec2 a_normal;    // World, unit length
+
+void main() {
+  vec2 position = (u_worldToScreen * vec3(a_position, 1.0)).xy;
+  vec2 normal = (u_worldToScreen * vec3(a_normal, 0.0)).xy;
+  float len = length(normal);
+  gl_Position = toClip(position + (len > 0.0 ? normal / len : normal) * u_halfWidth);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+uniform vec4 u_color;  // Premultiplied
+out vec4 outColor;
+
+void main() {
+  outColor = u_color;
+}
+`;
+
+// Unit quad as a triangle strip: (along, across)
+const LINE_CORNERS = new Float32Array([0, -1, 0, 1, 1, -1, 1, 1]);
+
+interface GeometryProgram {
+  readonly program: WebGLProgram;
+  readonly vao: WebGLVertexArrayObject;
+  readonly buffer: WebGLBuffer;
+  readonly uniforms: {
+    readonly worldToScreen: WebGLUniformLocation | null;
+    readonly viewport: WebGLUniformLocation | null;
+    readonly halfWidth: WebGLUniformLocation | null;
+    readonly color: WebGLUniformLocation | null;
+  };
+}
+
+export class WebGLRenderer implements Renderer {
+  readonly backend = RendererBackend.WEBGL2;
+  private options: WebGLRendererOptions;
+  private segmentColor: [number, number, number, number];
+  private readonly canvas: HTMLCanvasElement;
+  private readonly gl: WebGL2RenderingContext;
+  private readonly overlay: CanvasRenderer;
+  private lines: GeometryProgram | null = null;
+  private arcs: GeometryProgram | null = null;
+  private lineCorners: WebGLBuffer | null = null;
+  private worldToScreen: Mat3;
+  private devicePixelRatio: number;
+  private drawing: DrawingModel | null = null;
+  private unsubscribeDrawing: (() => void) | null = null;
+  private batch: TessellatedBatch | null = null;
+  private geometryDirty = true;
+  private contextLost = false;
+  private frameHandle: number | null = null;
+
+  /**
+   * Check whether the browser can create a WebGL2 context
+   */
+  static isSupported(): boolean {
+    if (typeof WebGL2RenderingContext === 'undefined') return false;
+    return document.createElement('canvas').getContext('webgl2') instanceof WebGL2RenderingContext;
+  }
+
+  constructor(container: HTMLElement, transformContext: TransformContext, options: Partial<WebGLRendererOptions> = {}) {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: true });
+    if (!(gl instanceof WebGL2RenderingContext)) {
+      throw new Error('WebGL2 is not available');
+    }
+
+    this.options = CanvasRenderUtils.validateColors({ ...DEFAULT_WEBGL_RENDERER_OPTIONS, ...options });
+    this.segmentColor = CanvasRenderUtils.parseColor(this.options.segmentColor);
+    this.canvas = canvas;
+    this.gl = gl;
+    this.worldToScreen = CanvasRenderUtils.worldToScreen(transformContext);
+    this.devicePixelRatio = transformContext.transforms.viewportToScreen.scale.x;
+    this.initializeResources();
+
+    // Canvas 2D draws every layer except geometry; the GL canvas sits just above the grid
+    this.overlay = new CanvasRenderer(container, transformContext, { ...this.options, layers: OVERLAY_LAYERS });
+
+    canvas.style.position = 'absolute';
+    canvas.style.left = '0';
+    canvas.style.top = '0';
+    canvas.style.pointerEvents = 'none';
+    canvas.dataset['layer'] = RenderLayerId.GEOMETRY;
+    const background = this.overlay.getLayer(RenderLayerId.BACKGROUND)?.canvas;
+    if (background) background.after(canvas); else container.prepend(canvas);
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+  }
+
+  resize(cssSize: Vec2, devicePixelRatio: number = this.devicePixelRatio): void {
+    this.devicePixelRatio = devicePixelRatio;
+    this.canvas.style.width = `${cssSize.x}px`;
+    this.canvas.style.height = `${cssSize.y}px`;
+    this.canvas.width = Math.max(1, Math.round(cssSize.x * devicePixelRatio));
+    this.canvas.height = Math.max(1, Math.round(cssSize.y * devicePixelRatio));
+    this.overlay.resize(cssSize, devicePixelRatio);
+    this.geometryDirty = true;
+    this.requestRender();
+  }
+
+  setTransformContext(transformContext: TransformContext): void {
+    this.worldToScreen = CanvasRenderUtils.worldToScreen(transformContext);
+    this.devicePixelRatio = transformContext.transforms.viewportToScreen.scale.x;
+    this.overlay.setTransformContext(transformContext);
+    this.geometryDirty = true;
+    this.requestRender();
+  }
+
+  setDrawing(drawing: DrawingModel | null): void {
+    this.unsubscribeDrawing?.();
+    this.unsubscribeDrawing = null;
+    this.drawing = drawing;
+    if (drawing) {
+      this.unsubscribeDrawing = drawing.subscribe(() => this.invalidateGeometry());
+    }
+    this.overlay.setDrawing(drawing);
+    this.invalidateGeometry();
+  }
+
+  setConstraints(constraints: ReadonlyArray<Constraint>): void {
+    this.overlay.setConstraints(constraints);
+  }
+
+  setSelection(segmentIds: Iterable<string>): void {
+    this.overlay.setSelection(segmentIds);
+  }
+
+  setSelectionArea(area: SelectionArea | null): void {
+    this.overlay.setSelectionArea(area);
+  }
+
+  setStrokePreview(stroke: StrokePreview | null): void {
+    this.overlay.setStrokePreview(stroke);
+  }
+
+  /**
+   * Update renderer options and repaint everything
+   */
+  updateOptions(newOptions: Partial<WebGLRendererOptions>): void {
+    const options = CanvasRenderUtils.validateColors({ ...this.options, ...newOptions });
+    this.segmentColor = CanvasRenderUtils.parseColor(options.segmentColor);
+    this.options = options;
+    this.overlay.updateOptions({ ...newOptions, layers: OVERLAY_LAYERS });
+    this.invalidateGeometry();
+  }
+
+  requestRender(): void {
+    if (this.frameHandle !== null) return;
+    this.frameHandle = requestAnimationFrame(() => {
+      this.frameHandle = null;
+      this.render();
+    });
+  }
+
+  /**
+   * Repaint dirty Canvas 2D layers and, if needed, the GL geometry
+   */
+  render(): RenderLayerId[] {
+    const painted = this.overlay.render();
+    if (this.geometryDirty && !this.contextLost) {
+      this.paintGeometry();
+      this.geometryDirty = false;
+      painted.push(RenderLayerId.GEOMETRY);
+    }
+    return painted;
+  }
+
+  dispose(): void {
+    if (this.frameHandle !== null) {
+      cancelAnimationFrame(this.frameHandle);
+      this.frameHandle = null;
+    }
+    this.unsubscribeDrawing?.();
+    this.unsubscribeDrawing = null;
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    this.releaseResources();
+    this.canvas.remove();
+    this.overlay.dispose();
+  }
+
+  private invalidateGeometry(): void {
+    this.batch = null;
+    this.geometryDirty = true;
+    this.requestRender();
+  }
+
+  private readonly handleContextLost = (event: Event): void => {
+    event.preventDefault();
+    this.contextLost = true;
+    this.lines = null;
+    this.arcs = null;
+    this.lineCorners = null;
+  };
+
+  private readonly handleContextRestored = (): void => {
+    this.contextLost = false;
+    this.initializeResources();
+    this.invalidateGeometry();
+  };
+
+  private initializeResources(): void {
+    const gl = this.gl;
+    this.lines = this.createProgram(LINE_VERTEX_SHADER, buffer => {
+      // Attribute 0: per-vertex quad corner from its own static buffer
+      this.lineCorners = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.lineCorners);
+      gl.bufferData(gl.ARRAY_BUFFER, LINE_CORNERS, gl.STATIC_DRAW);
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+      // Attribute 1: per-instance line endpoints
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.enableVertexAttribArray(1);
+      gl.vertexAttribPointer(1, 4, gl.FLOAT, false, LINE_INSTANCE_STRIDE * 4, 0);
+      gl.vertexAttribDivisor(1, 1);
+    });
+    this.arcs = this.createProgram(ARC_VERTEX_SHADER, buffer => {
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.enableVertexAttribArray(0);
+      gl.vertexAttribPointer(0, 2, gl.FLOAT, false, STRIP_VERTEX_STRIDE * 4, 0);
+      gl.enableVertexAttribArray(1);
+      gl.vertexAttribPointer(1, 2, gl.FLOAT, false, STRIP_VERTEX_STRIDE * 4, 8);
+    });
+  }
+
+  private releaseResources(): void {
+    for (const pass of [this.lines, this.arcs]) {
+      if (!pass) continue;
+      this.gl.deleteBuffer(pass.buffer);
+      this.gl.deleteVertexArray(pass.vao);
+      this.gl.deleteProgram(pass.program);
+    }
+    if (this.lineCorners) this.gl.deleteBuffer(this.lineCorners);
+    this.lines = null;
+    this.arcs = null;
+    this.lineCorners = null;
+  }
+
+  private createProgram(
+    vertexSource: string,
+    configure: (buffer: WebGLBuffer) => void
+  ): GeometryProgram {
+    const gl = this.gl;
+    const program = gl.createProgram();
+    gl.attachShader(program, WebGLRenderUtils.compileShader(gl, gl.VERTEX_SHADER, vertexSource));
+    gl.attachShader(program, WebGLRenderUtils.compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`WebGL program failed to link: ${gl.getProgramInfoLog(program) ?? 'unknown error'}`);
+    }
+
+    const vao = gl.createVertexArray();
+    const buffer = gl.createBuffer();
+    gl.bindVertexArray(vao);
+    configure(buffer);
+    gl.bindVertexArray(null);
+
+    return {
+      program,
+      vao,
+      buffer,
+      uniforms: {
+        worldToScreen: gl.getUniformLocation(program, 'u_worldToScreen'),
+        viewport: gl.getUniformLocation(program, 'u_viewport'),
+        halfWidth: gl.getUniformLocation(program, 'u_halfWidth'),
+        color: gl.getUniformLocation(program, 'u_color')
+      }
+    };
+  }
+
+  private paintGeometry(): void {
+    const gl = this.gl;
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (!this.drawing || !this.lines || !this.arcs) return;
+
+    const zoom = Tessellation.zoomBucket(Math.max(this.worldToScreen.scale.x, this.worldToScreen.scale.y));
+    if (!this.batch || this.batch.zoom !== zoom) {
+      this.batch = Tessellation.tessellate(this.drawing.allSegments, zoom, this.options.tessellation);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.lines.buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, this.batch.lineInstances, gl.STATIC_DRAW);
+      gl.bindBuffer(gl.ARRAY_BUFFER, this.arcs.buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, this.batch.arcStrip, gl.STATIC_DRAW);
+    }
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    const color = this.segmentColor;
+    const halfWidth = (this.options.segmentWidth * this.devicePixelRatio) / 2;
+
+    for (const pass of [this.lines, this.arcs]) {
+      gl.useProgram(pass.program);
+      gl.uniformMatrix3fv(pass.uniforms.worldToScreen, false, this.worldToScreen.toArray());
+      gl.uniform2f(pass.uniforms.viewport, this.canvas.width, this.canvas.height);
+      gl.uniform1f(pass.uniforms.halfWidth, halfWidth);
+      gl.uniform4fv(pass.uniforms.color, color);
+      gl.bindVertexArray(pass.vao);
+      if (pass === this.lines) {
+        gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.batch.lineCount);
+      } else {
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, this.batch.arcVertexCount);
+      }
+    }
+    gl.bindVertexArray(null);
+  }
+}
+
+// Utility functions for the WebGL2 backend
+export namespace WebGLRenderUtils {
+  export function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('WebGL could not create a shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader) ?? 'unknown error';
+      gl.deleteShader(shader);
+      throw new Error(`WebGL shader failed to compile: ${log}`);
+    }
+    return shader;
+  }
+}
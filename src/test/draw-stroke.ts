@@ -0,0 +1,54 @@
+import { Pt } from '../core/math/pt.js'
+import { Vec2 } from '../core/math/vec2.js'
+import {
+  ProcessedStroke,
+  StrokePoint,
+  StrokeProcessingOptions,
+  StrokeProcessor
+} from '../input/stroke-processor.js'
+
+export interface DrawStrokeOptions {
+  readonly spacing: number      // Pointer samples this far apart along each edge (pixels)
+  readonly interval: number     // Milliseconds between samples
+  readonly processing: Partial<StrokeProcessingOptions>
+}
+
+const DEFAULT_DRAW_STROKE_OPTIONS: DrawStrokeOptions = {
+  spacing: 3,
+  interval: 8,
+  processing: {}
+}
+
+const context = Pt.createTransformContext(new Vec2(800, 600), Vec2.ZERO, 1, 1)
+
+/**
+ * Trace a polyline through a StrokeProcessor as a pen would, sampling each
+ * edge at a steady pitch, and return the processed stroke
+ */
+export function drawStroke(vertices: ReadonlyArray<Vec2>, options: Partial<DrawStrokeOptions> = {}): ProcessedStroke {
+  const { spacing, interval, processing } = { ...DEFAULT_DRAW_STROKE_OPTIONS, ...options }
+
+  const positions: Vec2[] = []
+  for (let i = 0; i + 1 < vertices.length; i++) {
+    const a = vertices[i] ?? Vec2.ZERO
+    const b = vertices[i + 1] ?? Vec2.ZERO
+    const steps = Math.max(1, Math.ceil(a.distanceTo(b) / spacing))
+    for (let k = 0; k < steps; k++) positions.push(a.lerp(b, k / steps))
+  }
+  positions.push(vertices[vertices.length - 1] ?? Vec2.ZERO)
+
+  const point = (position: Vec2, index: number): StrokePoint => ({
+    position,
+    worldPosition: Pt.fromScreen(position, context.transforms),
+    timestamp: index * interval,
+    pressure: 0.5,
+    tiltX: 0,
+    tiltY: 0,
+    velocity: Vec2.ZERO
+  })
+
+  const processor = new StrokeProcessor(processing)
+  processor.startStroke(point(positions[0] ?? Vec2.ZERO, 0))
+  positions.slice(1).forEach((position, index) => processor.addPoint(point(position, index + 1)))
+  return processor.endStroke()
+}
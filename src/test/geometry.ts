@@ -0,0 +1,43 @@
+import { expect } from 'vitest'
+
+import { ArcSegment } from '../core/geometry/arc-segment.js'
+import { Path } from '../core/geometry/path.js'
+import { Segment } from '../core/geometry/segment.js'
+import { Vec2 } from '../core/math/vec2.js'
+import { GeometryFitResult, GeometryType } from '../input/stroke-to-geometry.js'
+
+/**
+ * Assert that a segment runs from `start` to `end`
+ */
+export function expectSpan(segment: Segment | undefined, start: Vec2, end: Vec2): void {
+  expect(segment?.startPoint.isEqual(start, 1e-9)).toBe(true)
+  expect(segment?.endPoint.isEqual(end, 1e-9)).toBe(true)
+}
+
+/**
+ * A full counterclockwise circle as a single arc starting at angle 0
+ */
+export function circle(center: Vec2, radius: number): Path {
+  return new Path([new ArcSegment(center, radius, 0, Math.PI * 2)])
+}
+
+/**
+ * A counterclockwise axis-aligned rectangle starting at its min corner
+ */
+export function rectangle(minX: number, minY: number, maxX: number, maxY: number): Path {
+  return Path.fromPoints([new Vec2(minX, minY), new Vec2(maxX, minY), new Vec2(maxX, maxY), new Vec2(minX, maxY)], true)
+}
+
+/**
+ * A perfect fit of `segment`, as stroke conversion would report it
+ */
+export function fitResult(segment: Segment): GeometryFitResult {
+  return {
+    segment,
+    type: segment instanceof ArcSegment ? GeometryType.ARC : GeometryType.LINE,
+    confidence: 1,
+    error: 0,
+    points: [segment.startPoint, segment.endPoint],
+    metadata: { method: 'test' }
+  }
+}
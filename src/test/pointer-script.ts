@@ -0,0 +1,87 @@
+import { vi } from 'vitest'
+
+import { TransformContext } from '../core/math/pt.js'
+import { Vec2 } from '../core/math/vec2.js'
+import {
+  PointerButton,
+  PointerEventData,
+  PointerEventHandlers,
+  PointerEventManager,
+  PointerState,
+  PointerType
+} from '../input/pointer-events.js'
+
+/**
+ * Plays scripted touches into the handlers attached to a PointerEventManager,
+ * in place of DOM pointer events. Create it before the coordinator or pipeline
+ * under test is activated, and restore mocks after each test.
+ */
+export class PointerScript {
+  private handlers: PointerEventHandlers = {}
+  private readonly positions = new Map<number, Vec2>()
+  private readonly transformContext: TransformContext
+
+  constructor(transformContext: TransformContext) {
+    this.transformContext = transformContext
+    vi.spyOn(PointerEventManager.prototype, 'attach').mockImplementation(handlers => {
+      this.handlers = handlers
+    })
+  }
+
+  down(id: number, position: Vec2, timestamp: number): void {
+    this.positions.set(id, position)
+    this.handlers.onPointerDown?.(this.event(id, position, timestamp))
+  }
+
+  move(id: number, position: Vec2, timestamp: number): void {
+    this.positions.set(id, position)
+    this.handlers.onPointerMove?.(this.event(id, position, timestamp))
+  }
+
+  up(id: number, timestamp: number): void {
+    const position = this.positions.get(id) ?? Vec2.ZERO
+    this.positions.delete(id)
+    this.handlers.onPointerUp?.(this.event(id, position, timestamp))
+  }
+
+  /**
+   * Three fingers land around `at`, travel together by `delta` over
+   * `durationMs` in ten steps, and lift one after another
+   */
+  threeFingers(at: Vec2, delta: Vec2, durationMs: number, startTime: number = 1000): void {
+    const offsets = [new Vec2(-30, 0), new Vec2(0, -30), new Vec2(30, 0)]
+    offsets.forEach((offset, id) => this.down(id, at.add(offset), startTime))
+
+    for (let step = 1; step <= 10; step++) {
+      const time = startTime + (durationMs * step) / 10
+      offsets.forEach((offset, id) => this.move(id, at.add(offset).add(delta.multiply(step / 10)), time))
+    }
+    offsets.forEach((_, id) => this.up(id, startTime + durationMs + 10))
+  }
+
+  private event(id: number, position: Vec2, timestamp: number): PointerEventData {
+    const pointer: PointerState = {
+      id,
+      type: PointerType.TOUCH,
+      position,
+      worldPosition: this.transformContext.createPointFromScreen(position),
+      pressure: 0.5,
+      tangentialPressure: 0,
+      tiltX: 0,
+      tiltY: 0,
+      twist: 0,
+      width: 1,
+      height: 1,
+      timestamp,
+      button: PointerButton.PRIMARY,
+      buttons: 1,
+      isPrimary: id === 0
+    }
+    return {
+      pointer,
+      preventDefault: () => undefined,
+      stopPropagation: () => undefined,
+      originalEvent: {} as PointerEvent
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Pen strokes captured from people drawing, kept as test fixtures. Each is the
+ * sequence of pointer positions in screen pixels, in the order they arrived.
+ */
+export type RecordedStroke = ReadonlyArray<readonly [number, number]>
+
+/*
+ * Gesture templates recorded for the $1 Unistroke Recognizer:
+ * Wobbrock, J.O., Wilson, A.D. and Li, Y. (2007). Gestures without libraries,
+ * toolkits or training: A $1 recognizer for user interface prototypes. UIST '07.
+ *
+ * This software is distributed under the "New BSD License" agreement:
+ *
+ * Copyright (C) 2007-2012, Jacob O. Wobbrock, Andrew D. Wilson and Yang Li.
+ * All rights reserved.
+ *
+ * Redistribution and use in source and binary forms, with or without
+ * modification, are permitted provided that the following conditions are met:
+ *    * Redistributions of source code must retain the above copyright
+ *      notice, this list of conditions and the following disclaimer.
+ *    * Redistributions in binary form must reproduce the above copyright
+ *      notice, this list of conditions and the following disclaimer in the
+ *      documentation and/or other materials provided with the distribution.
+ *    * Neither the names of the University of Washington nor Microsoft,
+ *      nor the names of its contributors may be used to endorse or promote
+ *      products derived from this software without specific prior written
+ *      permission.
+ *
+ * THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS
+ * IS" AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO,
+ * THE IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR
+ * PURPOSE ARE DISCLAIMED. IN NO EVENT SHALL Jacob O. Wobbrock OR Andrew D. Wilson
+ * OR Yang Li BE LIABLE FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY,
+ * OR CONSEQUENTIAL DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF
+ * SUBSTITUTE GOODS OR SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS
+ * INTERRUPTION) HOWEVER CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT,
+ * STRICT LIABILITY, OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY
+ * OUT OF THE USE OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+ */
+
+// Five-pointed star in one stroke
+export const STAR: RecordedStroke = [
+  [75, 250], [75, 247], [77, 244], [78, 242], [79, 239], [80, 237], [82, 234], [82, 232], [84, 229], [85, 225],
+  [87, 222], [88, 219], [89, 216], [91, 212], [92, 208], [94, 204], [95, 201], [96, 196], [97, 194], [98, 191],
+  [100, 185], [102, 178], [104, 173], [104, 171], [105, 164], [106, 158], [107, 156], [107, 152], [108, 145],
+  [109, 141], [110, 139], [112, 133], [113, 131], [116, 127], [117, 125], [119, 122], [121, 121], [123, 120],
+  [125, 122], [125, 125], [127, 130], [128, 133], [131, 143], [136, 153], [140, 163], [144, 172], [145, 175],
+  [151, 189], [156, 201], [161, 213], [166, 225], [169, 233], [171, 236], [174, 243], [177, 247], [178, 249],
+  [179, 251], [180, 253], [180, 255], [179, 257], [177, 257], [174, 255], [169, 250], [164, 247], [160, 245],
+  [149, 238], [138, 230], [127, 221], [124, 220], [112, 212], [110, 210], [96, 201], [84, 195], [74, 190],
+  [64, 182], [55, 175], [51, 172], [49, 170], [51, 169], [56, 169], [66, 169], [78, 168], [92, 166],
+  [107, 164], [123, 161], [140, 162], [156, 162], [171, 160], [173, 160], [186, 160], [195, 160], [198, 161],
+  [203, 163], [208, 163], [206, 164], [200, 167], [187, 172], [174, 179], [172, 181], [153, 192], [137, 201],
+  [123, 211], [112, 220], [99, 229], [90, 237], [80, 244], [73, 250], [69, 254], [69, 252]
+]
+
+// Right curly brace
+export const RIGHT_CURLY_BRACE: RecordedStroke = [
+  [117, 132], [115, 132], [115, 129], [117, 129], [119, 128], [122, 127], [125, 127], [127, 127], [130, 127],
+  [133, 129], [136, 129], [138, 130], [140, 131], [143, 134], [144, 136], [145, 139], [145, 142], [145, 145],
+  [145, 147], [145, 149], [144, 152], [142, 157], [141, 160], [139, 163], [137, 166], [135, 167], [133, 169],
+  [131, 172], [128, 173], [126, 176], [125, 178], [125, 180], [125, 182], [126, 184], [128, 187], [130, 187],
+  [132, 188], [135, 189], [140, 189], [145, 189], [150, 187], [155, 186], [157, 185], [159, 184], [156, 185],
+  [154, 185], [149, 185], [145, 187], [141, 188], [136, 191], [134, 191], [131, 192], [129, 193], [129, 195],
+  [129, 197], [131, 200], [133, 202], [136, 206], [139, 211], [142, 215], [145, 220], [147, 225], [148, 231],
+  [147, 239], [144, 244], [139, 248], [134, 250], [126, 253], [119, 253], [115, 253]
+]
+
+// Arrow drawn shaft first, head doubling back
+export const ARROW: RecordedStroke = [
+  [68, 222], [70, 220], [73, 218], [75, 217], [77, 215], [80, 213], [82, 212], [84, 210], [87, 209], [89, 208],
+  [92, 206], [95, 204], [101, 201], [106, 198], [112, 194], [118, 191], [124, 187], [127, 186], [132, 183],
+  [138, 181], [141, 180], [146, 178], [154, 173], [159, 171], [161, 170], [166, 167], [168, 167], [171, 166],
+  [174, 164], [177, 162], [180, 160], [182, 158], [183, 156], [181, 154], [178, 153], [171, 153], [164, 153],
+  [160, 153], [150, 154], [147, 155], [141, 157], [137, 158], [135, 158], [137, 158], [140, 157], [143, 156],
+  [151, 154], [160, 152], [170, 149], [179, 147], [185, 145], [192, 144], [196, 144], [198, 144], [200, 144],
+  [201, 147], [199, 149], [194, 157], [191, 160], [186, 167], [180, 176], [177, 179], [171, 187], [169, 189],
+  [165, 194], [164, 196]
+]
+
+// Delete mark: a crossing with a loop
+export const DELETE_MARK: RecordedStroke = [
+  [123, 129], [123, 131], [124, 133], [125, 136], [127, 140], [129, 142], [133, 148], [137, 154], [143, 158],
+  [145, 161], [148, 164], [153, 170], [158, 176], [160, 178], [164, 183], [168, 188], [171, 191], [175, 196],
+  [178, 200], [180, 202], [181, 205], [184, 208], [186, 210], [187, 213], [188, 215], [186, 212], [183, 211],
+  [177, 208], [169, 206], [162, 205], [154, 207], [145, 209], [137, 210], [129, 214], [122, 217], [118, 218],
+  [111, 221], [109, 222], [110, 219], [112, 217], [118, 209], [120, 207], [128, 196], [135, 187], [138, 183],
+  [148, 167], [157, 153], [163, 145], [165, 142], [172, 133], [177, 127], [179, 127], [180, 125]
+]
+
+// Pigtail: a line with one loop
+export const PIGTAIL: RecordedStroke = [
+  [81, 219], [84, 218], [86, 220], [88, 220], [90, 220], [92, 219], [95, 220], [97, 219], [99, 220],
+  [102, 218], [105, 217], [107, 216], [110, 216], [113, 214], [116, 212], [118, 210], [121, 208], [124, 205],
+  [126, 202], [129, 199], [132, 196], [136, 191], [139, 187], [142, 182], [144, 179], [146, 174], [148, 170],
+  [149, 168], [151, 162], [152, 160], [152, 157], [152, 155], [152, 151], [152, 149], [152, 146], [149, 142],
+  [148, 139], [145, 137], [141, 135], [139, 135], [134, 136], [130, 140], [128, 142], [126, 145], [122, 150],
+  [119, 158], [117, 163], [115, 170], [114, 175], [117, 184], [120, 190], [125, 199], [129, 203], [133, 208],
+  [138, 213], [145, 215], [155, 218], [164, 219], [166, 219], [177, 219], [182, 218], [192, 216], [196, 213],
+  [199, 212], [201, 211]
+]
+
+/*
+ * Handwriting test input from perfect-freehand, recorded in tldraw
+ *
+ * MIT License
+ *
+ * Copyright (c) 2021 Chris Hager
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+// The word "hey" written in one stroke
+export const HANDWRITTEN_HEY: RecordedStroke = [
+  [546.25, 417.86], [547.15, 417.86], [549.59, 417.86], [553.75, 417.86], [562.66, 417.04], [565.91, 415.96],
+  [573.33, 413.73], [579.65, 410.91], [587.75, 406.86], [594.55, 403.07], [605.07, 395.36], [611.12, 390.82],
+  [615.66, 384.76], [619.44, 377.95], [622.92, 372.38], [625.73, 366.05], [627.24, 358.48], [627.94, 352.16],
+  [628.64, 345.84], [628.64, 339.51], [628.64, 334.32], [627.34, 329.13], [625.88, 326.69], [623.49, 323.12],
+  [621.12, 319.56], [618.95, 316.85], [617.65, 315.55], [615.7, 314.08], [615.04, 313.43], [614.38, 313.1],
+  [613.24, 312.71], [612.58, 312.71], [611.93, 312.71], [610.79, 312.71], [609.81, 315.15], [608.02, 319.32],
+  [606.73, 324.48], [605.21, 332.05], [604.4, 340.96], [603.32, 358.26], [603.32, 371.88], [603.32, 379.39],
+  [603.32, 394.8], [603.32, 423.24], [605.59, 442.55], [607.86, 461.86], [610.13, 481.17], [611.26, 500.48],
+  [611.26, 521.9], [611.26, 541.21], [610.5, 548.77], [606.73, 561.96], [600.57, 576.34], [594.14, 586.44],
+  [589.6, 593.24], [583.54, 598.54], [579, 601.13], [573.81, 603.07], [568.62, 603.72], [562.29, 603.72],
+  [555.97, 603.72], [549.64, 601.61], [542.84, 597.07], [536.78, 591.78], [531.95, 586.94], [528.7, 582.4],
+  [525.18, 576.78], [523.88, 571.59], [523.23, 566.39], [523.23, 561.2], [523.23, 556.01], [523.23, 549.69],
+  [526.74, 544.07], [532.04, 538.01], [538.52, 531.53], [545.81, 525.85], [554.27, 519.93], [571.3, 509.7],
+  [583.95, 503.86], [591.51, 501.59], [602.42, 496.14], [613.44, 489.7], [624.46, 484.19], [633.1, 477.27],
+  [640.29, 471.68], [647.2, 463.9], [651.97, 455.94], [656.02, 447.83], [658.12, 441.53], [658.66, 438.28],
+  [659.36, 431.95], [659.36, 426.76], [659.36, 423.51], [659.36, 421.07], [659.36, 419.33], [659.36, 418.19],
+  [659.03, 417.54], [658.75, 417.54], [658.75, 417.26], [658.48, 417.26], [658.25, 417.26], [658.01, 417.26],
+  [658.01, 417.53], [658.01, 417.8], [658.01, 418.08], [658.01, 419.81], [658.01, 420.95], [657.52, 423.38],
+  [657.52, 427.55], [656.98, 430.79], [656.98, 434.96], [656.32, 440.14], [655.62, 446.46], [654.92, 452.79],
+  [654.21, 459.11], [653.4, 468.02], [653.4, 476.93], [652.55, 487.13], [652.55, 497.5], [652.55, 509.44],
+  [652.55, 518.35], [652.55, 527.26], [652.55, 530.5], [652.55, 538.07], [652.55, 543.25], [653.63, 546.5],
+  [655.24, 549.72], [656.7, 552.16], [658.65, 554.11], [662.22, 556.49], [665.46, 557.57], [668.71, 558.11],
+  [672.88, 558.11], [677.04, 558.11], [682.21, 556.82], [686.75, 553.57], [692.36, 550.05], [696.57, 545.14],
+  [701.49, 540.22], [705.27, 533.41], [709.32, 525.3], [712.56, 516.39], [714.99, 507.48], [716.61, 498.56],
+  [717.41, 489.65], [717.95, 486.4], [717.95, 480.07], [717.95, 474.89], [717.95, 470.73], [716.98, 468.29],
+  [715.51, 466.33], [713.56, 464.87], [712.41, 464.11], [710.68, 464.11], [709.53, 464.11], [707.09, 464.11],
+  [705.79, 465.41], [704.34, 467.33], [702.55, 471.5], [700.93, 474.74], [699.63, 479.93], [698.32, 485.12],
+  [697.67, 490.3], [697.67, 496.63], [697.67, 501.77], [697.67, 508.09], [697.67, 510.53], [697.67, 515.66],
+  [697.67, 519.82], [699.29, 523.07], [701.46, 525.77], [705.65, 530.66], [708.89, 532.29], [713.06, 533.47],
+  [717.22, 534.07], [721.39, 534.66], [723.82, 534.66], [731.39, 534.66], [735.55, 534.66], [739.12, 532.28],
+  [742.68, 529.3], [745.64, 525.75], [748.23, 521.2], [751.04, 514.88], [753.31, 507.31], [755.74, 498.4],
+  [757.25, 490.83], [757.79, 487.58], [758.49, 481.26], [759.08, 477.1], [759.62, 473.85], [759.62, 471.41],
+  [759.62, 470.26], [759.62, 469.12], [759.62, 468.84], [759.62, 468.56], [759.62, 468.79], [759.62, 471.23],
+  [759.62, 475.39], [759.62, 480.58], [759.62, 486.9], [760.32, 493.22], [760.8, 495.66], [761.45, 500.81],
+  [762.74, 506], [764.36, 509.25], [765.98, 512.49], [767.93, 514.44], [770.37, 515.9], [774.54, 517.68],
+  [777.78, 517.68], [781.03, 517.68], [784.27, 517.68], [787.47, 516.08], [791.04, 513.11], [794.28, 508.56],
+  [796.84, 504.07], [798.79, 498.88], [799.76, 496.44], [802.19, 487.52], [802.84, 482.33], [803.38, 479.11],
+  [803.38, 474.94], [803.38, 469.75], [803.38, 466.5], [803.38, 464.05], [803.38, 462.32], [803.38, 461.17],
+  [803.38, 460.52], [803.38, 460.24], [803.1, 459.96], [802.85, 459.96], [802.85, 460.47], [803.81, 462.89],
+  [806.41, 467.43], [809.62, 471.92], [816.05, 482.94], [821.55, 493.96], [828.36, 506.6], [831.17, 512.92],
+  [837.01, 525.57], [846.89, 549.05], [851, 564.45], [852.51, 572.02], [855.59, 587.42], [856.56, 601.04],
+  [856.56, 611.41], [856.56, 620.25], [854.45, 626.57], [845.7, 637.27], [840.5, 638.57], [831.6, 641.8],
+  [822.68, 643.42], [813.79, 644.23], [809.62, 644.23], [803.34, 644.23], [798.15, 644.23], [794.9, 644.23],
+  [793.16, 643.79], [790.18, 640.22], [790.18, 637.78], [790.18, 633.61], [790.18, 623.23], [795.37, 613.72],
+  [804.61, 600.37], [814.34, 585.22], [829.93, 564.43], [844.23, 542.33], [859.57, 520.59], [873.87, 498.5],
+  [879.92, 489.85], [889, 471.68], [896.95, 453.5], [901.82, 439.88], [905.7, 426.3], [906.61, 414.36],
+  [906.61, 405.45], [906.61, 397.94], [904.5, 391.61], [900.29, 386.7], [893.58, 382.22], [886.77, 378.44],
+  [879.21, 375.41], [871.73, 373.91], [868.48, 373.91], [856.54, 372.99], [850.21, 372.99], [845.02, 372.99],
+  [840.89, 372.99], [836.72, 374.77], [835.42, 376.07], [832.44, 379.05], [829.46, 382.02], [828, 384.46],
+  [827.02, 386.89], [826.15, 388.63], [825.77, 389.77], [825.44, 390.42], [825.44, 391.07], [825.44, 391.34],
+  [825.44, 391.61], [825.44, 391.89]
+]